@@ -0,0 +1,285 @@
+// ---------------------------------------------------------------------------
+// Chat router web chat widget
+//
+// Embed on a page with:
+//
+//   <script src="https://router.example.com/web/widget.js"
+//           data-tenant="acme" data-title="Chat with us" async></script>
+//
+// The widget starts a session on first use (kept in localStorage), loads the
+// conversation, sends messages to POST /web/messages and receives replies
+// over /ws?session=<token>.
+// ---------------------------------------------------------------------------
+
+(function () {
+  "use strict";
+
+  var script = document.currentScript;
+  if (!script) return;
+
+  var BASE_URL = new URL(script.src).origin;
+  var TENANT = script.getAttribute("data-tenant") || "";
+  var TITLE = script.getAttribute("data-title") || "Chat";
+  var STORAGE_KEY = "chat-router:web-session:" + (TENANT || "default");
+  var RECONNECT_MS = 3000;
+
+  var session = loadSession();
+  var socket = null;
+  var lastId = 0;
+  /** Entry ID -> rendered message element. */
+  var rendered = {};
+
+  // -------------------------------------------------------------------------
+  // UI
+  // -------------------------------------------------------------------------
+
+  var style = document.createElement("style");
+  style.textContent = [
+    ".crw-toggle{position:fixed;right:20px;bottom:20px;z-index:2147483000;border:0;",
+    "border-radius:24px;padding:12px 18px;background:#2d6cdf;color:#fff;font:14px sans-serif;",
+    "cursor:pointer;box-shadow:0 2px 8px rgba(0,0,0,.25)}",
+    ".crw-panel{position:fixed;right:20px;bottom:76px;z-index:2147483000;width:320px;",
+    "height:440px;display:none;flex-direction:column;background:#fff;border-radius:8px;",
+    "box-shadow:0 4px 16px rgba(0,0,0,.25);font:14px sans-serif;overflow:hidden}",
+    ".crw-panel.crw-open{display:flex}",
+    ".crw-header{padding:12px;background:#2d6cdf;color:#fff;font-weight:bold}",
+    ".crw-log{flex:1;overflow-y:auto;padding:12px;background:#f5f6f8}",
+    ".crw-msg{max-width:80%;margin:4px 0;padding:8px 10px;border-radius:8px;",
+    "white-space:pre-wrap;word-wrap:break-word}",
+    ".crw-in{margin-left:auto;background:#2d6cdf;color:#fff}",
+    ".crw-out{margin-right:auto;background:#fff;color:#222;border:1px solid #e1e4e8}",
+    ".crw-deleted{font-style:italic;color:#888}",
+    ".crw-files{margin-top:4px;font-size:12px;opacity:.8}",
+    ".crw-typing{padding:0 12px 6px;font-size:12px;color:#888;background:#f5f6f8;",
+    "visibility:hidden}",
+    ".crw-form{display:flex;border-top:1px solid #e1e4e8}",
+    ".crw-input{flex:1;border:0;padding:10px;font:inherit;resize:none;outline:none}",
+    ".crw-send{border:0;background:none;color:#2d6cdf;padding:0 14px;font:inherit;",
+    "font-weight:bold;cursor:pointer}",
+  ].join("");
+  document.head.appendChild(style);
+
+  var toggle = el("button", "crw-toggle", TITLE);
+  var panel = el("div", "crw-panel");
+  var header = el("div", "crw-header", TITLE);
+  var log = el("div", "crw-log");
+  var typing = el("div", "crw-typing", "Typing…");
+  var form = el("form", "crw-form");
+  var input = el("textarea", "crw-input");
+  var send = el("button", "crw-send", "Send");
+
+  input.rows = 2;
+  input.maxLength = 4000;
+  input.placeholder = "Write a message…";
+  send.type = "submit";
+  form.appendChild(input);
+  form.appendChild(send);
+  panel.appendChild(header);
+  panel.appendChild(log);
+  panel.appendChild(typing);
+  panel.appendChild(form);
+  document.body.appendChild(panel);
+  document.body.appendChild(toggle);
+
+  var started = false;
+  toggle.addEventListener("click", function () {
+    panel.classList.toggle("crw-open");
+    if (!started) {
+      started = true;
+      start();
+    }
+    input.focus();
+  });
+
+  input.addEventListener("keydown", function (event) {
+    if (event.key === "Enter" && !event.shiftKey) {
+      event.preventDefault();
+      form.requestSubmit();
+    }
+  });
+
+  form.addEventListener("submit", function (event) {
+    event.preventDefault();
+    var text = input.value.trim();
+    if (!text) return;
+    input.value = "";
+    sendMessage(text).catch(function (err) {
+      input.value = text;
+      console.error("[chat-router] could not send message:", err);
+    });
+  });
+
+  function el(tag, className, text) {
+    var node = document.createElement(tag);
+    node.className = className;
+    if (text) node.textContent = text;
+    return node;
+  }
+
+  /** Render an entry, or re-render it after an edit or deletion. */
+  function render(entry) {
+    var node = rendered[entry.id];
+    if (!node) {
+      node = el("div", "crw-msg " + (entry.direction === "in" ? "crw-in" : "crw-out"));
+      rendered[entry.id] = node;
+      // Entries can arrive out of order (history, replay, live pushes)
+      var next = null;
+      for (var i = 0; i < log.children.length; i++) {
+        if (Number(log.children[i].getAttribute("data-id")) > entry.id) {
+          next = log.children[i];
+          break;
+        }
+      }
+      node.setAttribute("data-id", String(entry.id));
+      log.insertBefore(node, next);
+    }
+
+    node.textContent = "";
+    if (entry.deletedAt) {
+      node.classList.add("crw-deleted");
+      node.textContent = "Message deleted";
+    } else {
+      node.textContent = entry.text || "";
+      var files = (entry.attachments || []).map(function (a) {
+        return a.fileName || a.caption || a.type;
+      });
+      if (files.length > 0) {
+        node.appendChild(el("div", "crw-files", "📎 " + files.join(", ")));
+      }
+    }
+
+    if (entry.id > lastId) lastId = entry.id;
+    log.scrollTop = log.scrollHeight;
+  }
+
+  // -------------------------------------------------------------------------
+  // Session and HTTP
+  // -------------------------------------------------------------------------
+
+  function loadSession() {
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+    } catch (err) {
+      return null;
+    }
+  }
+
+  /** Start a new conversation, replacing the stored one if any. */
+  function createSession() {
+    var body = TENANT ? { tenant: TENANT } : {};
+    return request("POST", "/web/sessions", body, false).then(function (created) {
+      var replaced = session !== null;
+      session = created;
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(created));
+      if (replaced) {
+        log.textContent = "";
+        rendered = {};
+        lastId = 0;
+        if (socket) connect();
+      }
+      return created;
+    });
+  }
+
+  function request(method, urlPath, body, authenticated) {
+    var headers = { "Content-Type": "application/json" };
+    if (authenticated) headers.Authorization = "Bearer " + session.token;
+    return fetch(BASE_URL + urlPath, {
+      method: method,
+      headers: headers,
+      body: body ? JSON.stringify(body) : undefined,
+    }).then(function (res) {
+      return res.json().then(function (data) {
+        if (!res.ok) {
+          var err = new Error(data.error || "HTTP " + res.status);
+          err.status = res.status;
+          throw err;
+        }
+        return data;
+      });
+    });
+  }
+
+  /** A session request, starting a new session if the stored one is gone. */
+  function withSession(method, urlPath, body) {
+    var ready = session ? Promise.resolve(session) : createSession();
+    return ready.then(function () {
+      return request(method, urlPath, body, true).catch(function (err) {
+        if (err.status !== 401) throw err;
+        return createSession().then(function () {
+          return request(method, urlPath, body, true);
+        });
+      });
+    });
+  }
+
+  function sendMessage(text) {
+    var clientMessageId = Date.now().toString(36) + Math.random().toString(36).slice(2);
+    return withSession("POST", "/web/messages", { text: text, clientMessageId: clientMessageId })
+      .then(render);
+  }
+
+  function start() {
+    withSession("GET", "/web/messages?limit=50")
+      .then(function (entries) {
+        entries.reverse().forEach(render);
+        connect();
+      })
+      .catch(function (err) {
+        console.error("[chat-router] could not start web chat:", err);
+      });
+  }
+
+  /** Reconnect once the session checks out (or was replaced). */
+  function resume() {
+    withSession("GET", "/web/messages?limit=1")
+      .then(connect)
+      .catch(function (err) {
+        console.error("[chat-router] web chat offline:", err);
+        setTimeout(resume, RECONNECT_MS);
+      });
+  }
+
+  // -------------------------------------------------------------------------
+  // WebSocket
+  // -------------------------------------------------------------------------
+
+  function connect() {
+    if (socket) {
+      socket.onclose = null;
+      socket.close();
+    }
+    var wsUrl = BASE_URL.replace(/^http/, "ws") + "/ws?session=" +
+      encodeURIComponent(session.token);
+    var ws = new WebSocket(wsUrl);
+    socket = ws;
+
+    ws.onopen = function () {
+      ws.send(JSON.stringify({ type: "subscribe", sinceId: lastId }));
+    };
+
+    ws.onmessage = function (event) {
+      var msg = JSON.parse(event.data);
+      if (msg.type === "new_message") {
+        render(msg.entry);
+        typing.style.visibility = "hidden";
+        if (msg.entry.direction === "out") {
+          ws.send(JSON.stringify({ type: "ack", id: msg.entry.id }));
+        }
+      } else if (msg.type === "message_edited" || msg.type === "message_deleted") {
+        render(msg.entry);
+      } else if (msg.type === "chat_action") {
+        var busy = msg.state.status === "processing";
+        typing.style.visibility = busy ? "visible" : "hidden";
+      }
+    };
+
+    ws.onclose = function () {
+      if (socket !== ws) return;
+      typing.style.visibility = "hidden";
+      setTimeout(function () {
+        if (socket === ws) resume();
+      }, RECONNECT_MS);
+    };
+  }
+})();
@@ -1,8 +1,13 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import request from "supertest";
 import { ChatRouterStore } from "../db/store";
-import { ChatRouterService } from "../service";
+import { ChatRouterService, MAX_DISPATCH_ATTEMPTS } from "../service";
+import { BlobStore } from "../blobs/store";
 import { createServer } from "../api/server";
+import { createAgentRegistry } from "../agents/registry";
 import type { Express } from "express";
 
 // ---------------------------------------------------------------------------
@@ -54,6 +59,72 @@ describe("Chat Router REST API", () => {
       expect(res.body.createdAt).toBeTruthy();
     });
 
+    it("re-sent message returns 200 with the original entry", async () => {
+      const first = await request(app)
+        .post("/api/messages")
+        .send(validMessage())
+        .expect(201);
+
+      const res = await request(app)
+        .post("/api/messages")
+        .send(validMessage())
+        .expect(200);
+
+      expect(res.body.id).toBe(first.body.id);
+      expect(res.body.duplicate).toBe(true);
+    });
+
+    function agentApp(): Express {
+      const agents = createAgentRegistry(
+        {
+          backends: { acs: { type: "acs", acsBaseUrl: "http://acs", jobName: "job" } },
+          routes: [{ platformChatId: "chat-muted", backend: null }],
+          defaultBackend: "acs",
+        },
+        { service, routerUrl: "http://router" },
+      );
+      return createServer(service, agents);
+    }
+
+    it("queues the agent trigger without waiting for it", async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal("fetch", fetchMock);
+
+      const res = await request(agentApp()).post("/api/messages").send(validMessage()).expect(201);
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      const tenantId = res.body.tenantId;
+      expect(service.listDispatches({ tenantId })).toEqual([
+        expect.objectContaining({
+          timelineId: res.body.id,
+          backend: "acs",
+          status: "pending",
+          attempts: 0,
+        }),
+      ]);
+      expect(
+        service.getProcessingState(tenantId, "telegram", res.body.platformChatId),
+      ).toMatchObject({ status: "processing", timelineId: res.body.id });
+      vi.unstubAllGlobals();
+    });
+
+    it("does not queue a trigger for a conversation routed to no agent", async () => {
+      const res = await request(agentApp())
+        .post("/api/messages")
+        .send(validMessage({ platformChatId: "chat-muted" }))
+        .expect(201);
+
+      expect(service.listDispatches({ tenantId: res.body.tenantId })).toEqual([]);
+    });
+
+    it("does not re-queue the trigger for a duplicate", async () => {
+      const acsApp = agentApp();
+      const first = await request(acsApp).post("/api/messages").send(validMessage()).expect(201);
+      await request(acsApp).post("/api/messages").send(validMessage()).expect(200);
+
+      expect(service.listDispatches({ tenantId: first.body.tenantId })).toHaveLength(1);
+    });
+
     it("missing fields returns 400", async () => {
       const res = await request(app)
         .post("/api/messages")
@@ -99,6 +170,157 @@ describe("Chat Router REST API", () => {
     });
   });
 
+  describe("editing and deleting responses", () => {
+    function reply() {
+      return service.recordResponse({
+        tenantId: "default",
+        platform: "telegram",
+        platformChatId: "chat-100",
+        text: "Draft",
+      });
+    }
+
+    it("PATCH /api/responses/:id edits the text", async () => {
+      const entry = reply();
+
+      const res = await request(app)
+        .patch(`/api/responses/${entry.id}`)
+        .send({ text: "Final" })
+        .expect(200);
+
+      expect(res.body.text).toBe("Final");
+      const revisions = await request(app).get(`/api/messages/${entry.id}/revisions`).expect(200);
+      expect(revisions.body.map((r: { kind: string }) => r.kind)).toEqual(["edit"]);
+    });
+
+    it("DELETE /api/responses/:id retracts the response", async () => {
+      const entry = reply();
+
+      const res = await request(app).delete(`/api/responses/${entry.id}`).expect(200);
+
+      expect(res.body.text).toBeNull();
+      expect(res.body.deletedAt).toBeTruthy();
+    });
+
+    it("returns 404 for unknown responses and 400 without text", async () => {
+      const entry = reply();
+
+      await request(app).patch("/api/responses/999").send({ text: "x" }).expect(404);
+      await request(app).delete("/api/responses/999").expect(404);
+      await request(app).patch(`/api/responses/${entry.id}`).send({}).expect(400);
+    });
+
+    it("PATCH /api/messages/:platform/:chatId/:messageId applies platform edits", async () => {
+      await request(app).post("/api/messages").send(validMessage());
+
+      const res = await request(app)
+        .patch("/api/messages/telegram/chat-100/msg-1")
+        .send({ text: "Hello, edited" })
+        .expect(200);
+      expect(res.body.text).toBe("Hello, edited");
+
+      await request(app)
+        .patch("/api/messages/telegram/chat-100/unknown")
+        .send({ text: "x" })
+        .expect(404);
+    });
+  });
+
+  describe("POST /api/responses/:id/delivered", () => {
+    it("marks the response delivered and records its platform message IDs", async () => {
+      const entry = service.recordResponse({
+        tenantId: "default",
+        platform: "telegram",
+        platformChatId: "chat-100",
+        text: "Hi",
+      });
+
+      const res = await request(app)
+        .post(`/api/responses/${entry.id}/delivered`)
+        .send({ platformMessageIds: ["501", "502"] })
+        .expect(200);
+
+      expect(res.body.status).toBe("delivered");
+      const [stored] = service.getUnifiedTimeline({ tenantId: "default" });
+      expect(stored.platformMessageIds).toEqual(["501", "502"]);
+    });
+
+    it("returns 404 for an entry without a delivery", async () => {
+      await request(app).post("/api/messages").send(validMessage());
+
+      const res = await request(app).post("/api/responses/1/delivered").send({}).expect(404);
+      expect(res.body.error).toBe("Delivery not found");
+    });
+
+    it("returns 400 for malformed IDs", async () => {
+      const res = await request(app)
+        .post("/api/responses/1/delivered")
+        .send({ platformMessageIds: "501" })
+        .expect(400);
+      expect(res.body.error).toContain("platformMessageIds");
+    });
+  });
+
+  // ----- /api/dispatches -----
+
+  describe("/api/dispatches", () => {
+    async function deadDispatch(): Promise<number> {
+      const res = await request(app).post("/api/messages").send(validMessage()).expect(201);
+      const id: number = res.body.id;
+      service.enqueueDispatch("default", id, "acs");
+      for (let i = 0; i < MAX_DISPATCH_ATTEMPTS; i++) {
+        service.failDispatch({ tenantId: "default", timelineId: id, error: "ACS down" });
+      }
+      return id;
+    }
+
+    it("lists dispatches, optionally by status", async () => {
+      const id = await deadDispatch();
+
+      const res = await request(app).get("/api/dispatches?status=dead").expect(200);
+      expect(res.body).toEqual([
+        expect.objectContaining({ timelineId: id, status: "dead", lastError: "ACS down" }),
+      ]);
+      await request(app).get("/api/dispatches?status=pending").expect(200, []);
+      await request(app).get("/api/dispatches?status=bogus").expect(400);
+    });
+
+    it("re-drives a dead dispatch", async () => {
+      const id = await deadDispatch();
+
+      const res = await request(app).post(`/api/dispatches/${id}/retry`).expect(200);
+      expect(res.body).toMatchObject({ status: "pending", attempts: 0 });
+
+      // Only dead dispatches can be re-driven
+      await request(app).post(`/api/dispatches/${id}/retry`).expect(400);
+      await request(app).post("/api/dispatches/999/retry").expect(404);
+    });
+  });
+
+  describe("/api/runs", () => {
+    it("lists runs of the tenant and of one conversation", async () => {
+      const res = await request(app).post("/api/messages").send(validMessage()).expect(201);
+      const run = service.startRun({
+        tenantId: res.body.tenantId,
+        backend: "acs",
+        timelineIds: [res.body.id],
+      });
+
+      const all = await request(app).get("/api/runs?status=running").expect(200);
+      expect(all.body).toEqual([
+        expect.objectContaining({ id: run.id, status: "running", timelineIds: [res.body.id] }),
+      ]);
+      const mine = await request(app).get("/api/conversations/telegram/chat-100/runs").expect(200);
+      expect(mine.body.map((r: { id: number }) => r.id)).toEqual([run.id]);
+      await request(app).get("/api/runs?status=done").expect(200, []);
+    });
+
+    it("returns 400 for a bad status and 404 for an unknown conversation", async () => {
+      await request(app).get("/api/runs?status=bogus").expect(400);
+      await request(app).get("/api/conversations/telegram/nonexistent/runs").expect(404);
+    });
+  });
+
   // ----- GET /api/timeline/:platform/:chatId -----
 
   describe("GET /api/timeline/:platform/:chatId", () => {
@@ -133,6 +355,12 @@ describe("Chat Router REST API", () => {
       expect(res.body[0].id).toBe(3);
       expect(res.body[1].id).toBe(2);
     });
+
+    it("rejects a platform the tenant does not know", async () => {
+      const res = await request(app).get("/api/timeline/bogus/1").expect(400);
+
+      expect(res.body.error).toBe('Unknown platform "bogus"');
+    });
   });
 
   // ----- GET /api/timeline -----
@@ -196,6 +424,12 @@ describe("Chat Router REST API", () => {
       expect(res.body).toHaveLength(1);
       expect(res.body[0].platform).toBe("telegram");
     });
+
+    it("rejects a filter on a platform the tenant does not know", async () => {
+      const res = await request(app).get("/api/conversations?platform=bogus").expect(400);
+
+      expect(res.body.error).toBe('Unknown platform "bogus"');
+    });
   });
 
   // ----- GET /api/conversations/:platform/:chatId -----
@@ -220,6 +454,364 @@ describe("Chat Router REST API", () => {
 
       expect(res.body.error).toBeTruthy();
     });
+
+    it("returns 400 for a platform the tenant does not know", async () => {
+      await request(app).get("/api/conversations/bogus/chat-100").expect(400);
+      await request(app).get("/api/conversations/bogus/chat-100/runs").expect(400);
+      await request(app).put("/api/conversations/bogus/chat-100/settings").send({}).expect(400);
+      await request(app)
+        .patch("/api/messages/bogus/chat-100/msg-1")
+        .send({ text: "x" })
+        .expect(400);
+    });
+  });
+
+  // ----- PUT /api/conversations/:platform/:chatId/settings -----
+
+  describe("PUT /api/conversations/:platform/:chatId/settings", () => {
+    it("replaces the conversation's settings", async () => {
+      await request(app).post("/api/messages").send(validMessage());
+
+      const res = await request(app)
+        .put("/api/conversations/telegram/chat-100/settings")
+        .send({ language: "de" })
+        .expect(200);
+
+      expect(res.body.settings).toEqual({ language: "de" });
+      const conv = await request(app).get("/api/conversations/telegram/chat-100").expect(200);
+      expect(conv.body.settings).toEqual({ language: "de" });
+    });
+
+    it("returns 404 for unknown conversation", async () => {
+      await request(app)
+        .put("/api/conversations/telegram/nonexistent/settings")
+        .send({})
+        .expect(404);
+    });
+
+    it("returns 400 for settings that are not an object", async () => {
+      await request(app).post("/api/messages").send(validMessage());
+
+      const res = await request(app)
+        .put("/api/conversations/telegram/chat-100/settings")
+        .send(["de"])
+        .expect(400);
+
+      expect(res.body.error).toContain("settings must be an object");
+    });
+  });
+
+  // ----- Tenant scoping -----
+
+  describe("tenant scoping", () => {
+    it("stores messages under the X-Tenant-Id tenant", async () => {
+      const res = await request(app)
+        .post("/api/messages")
+        .set("X-Tenant-Id", "acme")
+        .send(validMessage())
+        .expect(201);
+
+      expect(res.body.tenantId).toBe("acme");
+    });
+
+    it("uses the default tenant when no header is sent", async () => {
+      const res = await request(app)
+        .post("/api/messages")
+        .send(validMessage())
+        .expect(201);
+
+      expect(res.body.tenantId).toBe("default");
+    });
+
+    it("does not expose one tenant's timeline to another", async () => {
+      await request(app)
+        .post("/api/messages")
+        .set("X-Tenant-Id", "acme")
+        .send(validMessage());
+
+      const other = await request(app)
+        .get("/api/timeline/telegram/chat-100")
+        .set("X-Tenant-Id", "globex")
+        .expect(200);
+      expect(other.body).toHaveLength(0);
+
+      await request(app)
+        .get("/api/conversations/telegram/chat-100")
+        .set("X-Tenant-Id", "globex")
+        .expect(404);
+
+      const own = await request(app)
+        .get("/api/timeline")
+        .set("X-Tenant-Id", "acme")
+        .expect(200);
+      expect(own.body).toHaveLength(1);
+    });
+
+    it("rejects a body tenantId that differs from the request tenant", async () => {
+      const res = await request(app)
+        .post("/api/responses")
+        .set("X-Tenant-Id", "acme")
+        .send({
+          tenantId: "globex",
+          platform: "telegram",
+          platformChatId: "chat-100",
+          text: "sneaky",
+        })
+        .expect(403);
+
+      expect(res.body.error).toBe("Tenant mismatch");
+    });
+
+    it("rejects a malformed tenant ID", async () => {
+      await request(app)
+        .get("/api/health")
+        .set("X-Tenant-Id", "not a tenant!")
+        .expect(400);
+    });
+  });
+
+  // ----- GET /api/search -----
+
+  describe("GET /api/search", () => {
+    beforeEach(async () => {
+      await request(app)
+        .post("/api/messages")
+        .send(validMessage({ platformMessageId: "s1", text: "deploy the staging server", timestamp: 1000 }));
+      await request(app)
+        .post("/api/messages")
+        .send(validMessage({ platformMessageId: "s2", platformChatId: "chat-200", text: "staging is down", timestamp: 2000 }));
+      await request(app)
+        .post("/api/messages")
+        .send(validMessage({ platformMessageId: "s3", text: "lunch?", timestamp: 3000 }));
+    });
+
+    it("returns ranked results with highlighted snippets", async () => {
+      const res = await request(app).get("/api/search?q=staging").expect(200);
+
+      expect(res.body).toHaveLength(2);
+      for (const hit of res.body) {
+        expect(hit.snippet).toContain("<mark>staging</mark>");
+        expect(typeof hit.rank).toBe("number");
+        expect(hit.entry.tenantId).toBe("default");
+      }
+    });
+
+    it("filters by chatId and time range", async () => {
+      const byChat = await request(app).get("/api/search?q=staging&chatId=chat-200").expect(200);
+      expect(byChat.body.map((h: any) => h.entry.platformMessageId)).toEqual(["s2"]);
+
+      const byTime = await request(app).get("/api/search?q=staging&from=0&to=1500").expect(200);
+      expect(byTime.body.map((h: any) => h.entry.platformMessageId)).toEqual(["s1"]);
+
+      const iso = new Date(1500).toISOString();
+      const byIso = await request(app).get(`/api/search?q=staging&from=${iso}`).expect(200);
+      expect(byIso.body.map((h: any) => h.entry.platformMessageId)).toEqual(["s2"]);
+    });
+
+    it("returns 400 without a query", async () => {
+      const res = await request(app).get("/api/search").expect(400);
+      expect(res.body.error).toContain("query is required");
+    });
+
+    it("returns 400 for an unparseable time bound", async () => {
+      const res = await request(app).get("/api/search?q=staging&from=yesterday").expect(400);
+      expect(res.body.error).toContain("from");
+    });
+
+    it("returns 400 for a platform the tenant does not know", async () => {
+      const res = await request(app).get("/api/search?q=staging&platform=bogus").expect(400);
+      expect(res.body.error).toBe('Unknown platform "bogus"');
+    });
+
+    it("only searches the caller's tenant", async () => {
+      const res = await request(app)
+        .get("/api/search?q=staging")
+        .set("X-Tenant-Id", "globex")
+        .expect(200);
+      expect(res.body).toEqual([]);
+    });
+  });
+
+  // ----- /api/blobs -----
+
+  describe("/api/blobs", () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      const store = new ChatRouterStore(":memory:");
+      store.init();
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "chat-router-blobs-"));
+      service = new ChatRouterService(store, new BlobStore(tmpDir));
+      app = createServer(service);
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("uploads raw content and serves it back", async () => {
+      const data = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3]);
+
+      const upload = await request(app)
+        .post("/api/blobs")
+        .set("Content-Type", "image/jpeg")
+        .send(data)
+        .expect(201);
+      expect(upload.body.id).toMatch(/^[0-9a-f]{64}$/);
+      expect(upload.body.size).toBe(data.length);
+
+      const res = await request(app)
+        .get(`/api/blobs/${upload.body.id}`)
+        .buffer(true)
+        .parse((r, cb) => {
+          const chunks: Buffer[] = [];
+          r.on("data", (c: Buffer) => chunks.push(c));
+          r.on("end", () => cb(null, Buffer.concat(chunks)));
+        })
+        .expect(200);
+      expect(res.headers["content-type"]).toBe("image/jpeg");
+      expect(res.headers["cache-control"]).toContain("immutable");
+      expect((res.body as Buffer).equals(data)).toBe(true);
+    });
+
+    it("returns 400 for an empty upload", async () => {
+      const res = await request(app)
+        .post("/api/blobs")
+        .set("Content-Type", "application/octet-stream")
+        .expect(400);
+      expect(res.body.error).toBe("storeBlob: data is empty");
+    });
+
+    it("returns 404 for unknown blobs and other tenants' blobs", async () => {
+      const upload = await request(app)
+        .post("/api/blobs")
+        .set("Content-Type", "application/octet-stream")
+        .send(Buffer.from("secret"))
+        .expect(201);
+
+      await request(app).get(`/api/blobs/${"0".repeat(64)}`).expect(404);
+      await request(app).get("/api/blobs/not-a-hash").expect(404);
+      await request(app)
+        .get(`/api/blobs/${upload.body.id}`)
+        .set("X-Tenant-Id", "globex")
+        .expect(404);
+    });
+
+    it("records responses with attachments", async () => {
+      const upload = await request(app)
+        .post("/api/blobs")
+        .set("Content-Type", "application/pdf")
+        .send(Buffer.from("%PDF-1.4"))
+        .expect(201);
+
+      const res = await request(app)
+        .post("/api/responses")
+        .send({
+          platform: "telegram",
+          platformChatId: "chat-100",
+          text: "Here is the report",
+          attachments: [{ type: "document", blobId: upload.body.id, fileName: "report.pdf" }],
+        })
+        .expect(201);
+
+      expect(res.body.text).toBe("Here is the report");
+      expect(res.body.attachments[0]).toMatchObject({
+        type: "document",
+        mimeType: "application/pdf",
+        fileName: "report.pdf",
+        blobId: upload.body.id,
+      });
+    });
+
+    it("ingests messages that reference uploaded blobs", async () => {
+      const upload = await request(app)
+        .post("/api/blobs")
+        .set("Content-Type", "image/jpeg")
+        .send(Buffer.from("photo"))
+        .expect(201);
+
+      const res = await request(app)
+        .post("/api/messages")
+        .send(
+          validMessage({
+            text: "a caption",
+            attachments: [
+              { type: "photo", fileId: "tg-file", mimeType: "image/jpeg", blobId: upload.body.id },
+            ],
+          }),
+        )
+        .expect(201);
+
+      expect(res.body.attachments).toHaveLength(1);
+      expect(res.body.attachments[0].blobId).toBe(upload.body.id);
+    });
+  });
+
+  // ----- /api/platforms -----
+
+  describe("/api/platforms", () => {
+    it("lists the built-in platforms", async () => {
+      const res = await request(app).get("/api/platforms").expect(200);
+
+      expect(res.body.map((p: any) => p.name)).toEqual(["discord", "telegram", "web"]);
+    });
+
+    it("registers a platform that messages can then be ingested from", async () => {
+      await request(app)
+        .post("/api/messages")
+        .send(validMessage({ platform: "matrix" }))
+        .expect(400);
+
+      const res = await request(app)
+        .put("/api/platforms/matrix")
+        .send({ maxMessageLength: 65536, features: ["edits", "replies"] })
+        .expect(200);
+
+      expect(res.body).toMatchObject({
+        name: "matrix",
+        maxMessageLength: 65536,
+        features: ["edits", "replies"],
+        connections: 0,
+      });
+      expect(res.body.registeredAt).toBeTruthy();
+      await request(app)
+        .post("/api/messages")
+        .send(validMessage({ platform: "matrix" }))
+        .expect(201);
+    });
+
+    it("returns 400 for a malformed descriptor", async () => {
+      const res = await request(app)
+        .put("/api/platforms/Not%20Valid")
+        .send({})
+        .expect(400);
+
+      expect(res.body.error).toContain("registerPlatform: name must be");
+    });
+  });
+
+  // ----- GET /api/plugins -----
+
+  describe("GET /api/plugins", () => {
+    it("lists the tenant's connected clients", async () => {
+      const plugin = service.connectPlugin({
+        tenantId: "default",
+        role: "plugin",
+        name: "telegram-integration",
+        version: "0.1.0",
+        platform: "telegram",
+        protocolVersion: 1,
+        capabilities: ["edits", "chat_action"],
+      });
+      service.connectPlugin({ ...plugin, tenantId: "other" });
+
+      const res = await request(app).get("/api/plugins").expect(200);
+      expect(res.body).toEqual([plugin]);
+
+      service.disconnectPlugin(plugin.id);
+      const after = await request(app).get("/api/plugins").expect(200);
+      expect(after.body).toEqual([]);
+    });
   });
 
   // ----- GET /api/health -----
@@ -0,0 +1,404 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import http from "http";
+import request from "supertest";
+import { WebSocket } from "ws";
+import { ChatRouterStore } from "../db/store";
+import { ChatRouterService } from "../service";
+import { createServer } from "../api/server";
+import { attachWebSocket } from "../ws/adapter";
+import { ApiKeyManager, hashApiKey, parseScopes } from "../auth/keys";
+import { AcsBackend } from "../agents/acs";
+import type { Express } from "express";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function validMessage(overrides: Record<string, unknown> = {}) {
+  return {
+    platform: "telegram",
+    platformMessageId: "msg-1",
+    platformChatId: "chat-100",
+    platformChatType: "private",
+    senderName: "Alice",
+    senderId: "user-1",
+    text: "Hello world",
+    timestamp: Date.now(),
+    ...overrides,
+  };
+}
+
+/** Resolve with the open socket, or with the HTTP status of a rejected upgrade. */
+function tryConnect(
+  port: number,
+  opts: { query?: string; headers?: Record<string, string> } = {},
+): Promise<WebSocket | number> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/ws${opts.query ?? ""}`, {
+      headers: opts.headers,
+    });
+    ws.on("open", () => resolve(ws));
+    ws.on("unexpected-response", (_req, res) => resolve(res.statusCode ?? 0));
+    ws.on("error", reject);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// ApiKeyManager
+// ---------------------------------------------------------------------------
+
+describe("ApiKeyManager", () => {
+  let store: ChatRouterStore;
+  let apiKeys: ApiKeyManager;
+
+  beforeEach(() => {
+    store = new ChatRouterStore(":memory:");
+    store.init();
+    apiKeys = new ApiKeyManager(store);
+  });
+
+  it("creates a key and verifies it back to its tenant and scopes", () => {
+    const { key, apiKey } = apiKeys.create({
+      tenantId: "acme",
+      name: "telegram-bot",
+      scopes: ["ingest", "read"],
+    });
+
+    expect(key).toMatch(/^crk_/);
+    expect(apiKey.prefix).toBe(key.slice(0, 12));
+
+    const verified = apiKeys.verify(key);
+    expect(verified).not.toBeNull();
+    expect(verified!.tenantId).toBe("acme");
+    expect(verified!.scopes).toEqual(["ingest", "read"]);
+    expect(store.getApiKey(apiKey.id)!.lastUsedAt).not.toBeNull();
+  });
+
+  it("stores only the hash of the key", () => {
+    const { key, apiKey } = apiKeys.create({
+      tenantId: "acme",
+      name: "bot",
+      scopes: ["read"],
+    });
+
+    expect(store.getApiKeyByHash(hashApiKey(key))!.id).toBe(apiKey.id);
+    expect(JSON.stringify(store.listApiKeys())).not.toContain(key);
+  });
+
+  it("rejects unknown and revoked keys", () => {
+    const { key, apiKey } = apiKeys.create({
+      tenantId: "acme",
+      name: "bot",
+      scopes: ["read"],
+    });
+
+    expect(apiKeys.verify("crk_not-a-real-key")).toBeNull();
+    expect(apiKeys.revoke(apiKey.id)).toBe(true);
+    expect(apiKeys.verify(key)).toBeNull();
+    expect(apiKeys.revoke(apiKey.id)).toBe(false);
+  });
+
+  it("lists keys per tenant", () => {
+    apiKeys.create({ tenantId: "acme", name: "a", scopes: ["read"] });
+    apiKeys.create({ tenantId: "globex", name: "b", scopes: ["read"] });
+
+    expect(apiKeys.list()).toHaveLength(2);
+    expect(apiKeys.list("acme").map((k) => k.name)).toEqual(["a"]);
+  });
+
+  it("parseScopes rejects unknown scopes", () => {
+    expect(parseScopes("ingest, read,ingest")).toEqual(["ingest", "read"]);
+    expect(() => parseScopes("ingest,write")).toThrow('unknown scope "write"');
+    expect(() => parseScopes("")).toThrow("at least one scope");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// REST authentication
+// ---------------------------------------------------------------------------
+
+describe("REST API authentication", () => {
+  let app: Express;
+  let service: ChatRouterService;
+  let apiKeys: ApiKeyManager;
+
+  beforeEach(() => {
+    const store = new ChatRouterStore(":memory:");
+    store.init();
+    apiKeys = new ApiKeyManager(store);
+    service = new ChatRouterService(store);
+    app = createServer(service, undefined, { apiKeys });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("returns 401 without a key", async () => {
+    const res = await request(app).get("/api/health").expect(401);
+    expect(res.body.error).toBe("API key required");
+  });
+
+  it("returns 401 for an invalid key", async () => {
+    await request(app)
+      .get("/api/health")
+      .set("Authorization", "Bearer crk_bogus")
+      .expect(401);
+  });
+
+  it("returns 403 when the key lacks the route's scope", async () => {
+    const { key } = apiKeys.create({ tenantId: "acme", name: "reader", scopes: ["read"] });
+
+    const res = await request(app)
+      .post("/api/messages")
+      .set("Authorization", `Bearer ${key}`)
+      .send(validMessage())
+      .expect(403);
+
+    expect(res.body.error).toBe("Missing scope: ingest");
+  });
+
+  it("accepts any one of several allowed scopes", async () => {
+    const { key } = apiKeys.create({ tenantId: "acme", name: "agent", scopes: ["respond"] });
+
+    // POST /blobs needs ingest or respond; no blob store is configured here
+    await request(app)
+      .post("/api/blobs")
+      .set("Authorization", `Bearer ${key}`)
+      .set("Content-Type", "image/png")
+      .send(Buffer.from("png"))
+      .expect(400);
+
+    const { key: reader } = apiKeys.create({ tenantId: "acme", name: "r", scopes: ["read"] });
+    const res = await request(app)
+      .post("/api/blobs")
+      .set("Authorization", `Bearer ${reader}`)
+      .send(Buffer.from("png"))
+      .expect(403);
+    expect(res.body.error).toBe("Missing scope: ingest or respond");
+  });
+
+  it("scopes requests to the key's tenant, ignoring X-Tenant-Id", async () => {
+    const { key } = apiKeys.create({ tenantId: "acme", name: "bot", scopes: ["ingest"] });
+
+    const res = await request(app)
+      .post("/api/messages")
+      .set("X-Api-Key", key)
+      .set("X-Tenant-Id", "globex")
+      .send(validMessage())
+      .expect(201);
+
+    expect(res.body.tenantId).toBe("acme");
+  });
+
+  it("leaves re-driving dead-lettered dispatches to admin keys", async () => {
+    const { key } = apiKeys.create({ tenantId: "acme", name: "bot", scopes: ["ingest"] });
+
+    const res = await request(app)
+      .post("/api/dispatches/1/retry")
+      .set("Authorization", `Bearer ${key}`)
+      .expect(403);
+    expect(res.body.error).toBe("Missing scope: admin");
+
+    const { key: ops } = apiKeys.create({ tenantId: "acme", name: "ops", scopes: ["admin"] });
+    await request(app)
+      .post("/api/dispatches/1/retry")
+      .set("Authorization", `Bearer ${ops}`)
+      .expect(404);
+  });
+
+  it("leaves conversation settings to admin keys", async () => {
+    const { key } = apiKeys.create({ tenantId: "acme", name: "bot", scopes: ["ingest"] });
+    await request(app)
+      .post("/api/messages")
+      .set("Authorization", `Bearer ${key}`)
+      .send(validMessage())
+      .expect(201);
+
+    const res = await request(app)
+      .put("/api/conversations/telegram/chat-100/settings")
+      .set("Authorization", `Bearer ${key}`)
+      .send({ agentEnabled: false })
+      .expect(403);
+    expect(res.body.error).toBe("Missing scope: admin");
+  });
+
+  it("leaves platform registration to admin keys", async () => {
+    const { key } = apiKeys.create({ tenantId: "acme", name: "bot", scopes: ["ingest"] });
+
+    const res = await request(app)
+      .put("/api/platforms/matrix")
+      .set("Authorization", `Bearer ${key}`)
+      .send({ maxMessageLength: 1000, features: [] })
+      .expect(403);
+    expect(res.body.error).toBe("Missing scope: admin");
+  });
+
+  it("admin scope grants every route", async () => {
+    const { key } = apiKeys.create({ tenantId: "acme", name: "ops", scopes: ["admin"] });
+
+    await request(app)
+      .post("/api/responses")
+      .set("Authorization", `Bearer ${key}`)
+      .send({ platform: "telegram", platformChatId: "chat-100", text: "hi" })
+      .expect(201);
+    await request(app)
+      .get("/api/timeline")
+      .set("Authorization", `Bearer ${key}`)
+      .expect(200);
+  });
+
+  it("accepts the response of an ACS job posted with the key from its environment", async () => {
+    const { key } = apiKeys.create({ tenantId: "acme", name: "acs", scopes: ["respond"] });
+    const entry = service.ingestMessage({ ...validMessage(), tenantId: "acme" });
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ run_id: "run-1" }),
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const acs = new AcsBackend(service, {
+      acsBaseUrl: "http://acs",
+      jobName: "reply",
+      routerUrl: "http://router",
+      apiKey: key,
+    });
+    await acs.trigger(entry);
+
+    const { args, env } = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(args).not.toContain(key);
+    const res = await request(app)
+      .post("/api/responses")
+      .set("Authorization", `Bearer ${env.CHAT_ROUTER_API_KEY}`)
+      .send({ platform: "telegram", platformChatId: "chat-100", text: "Hi", inReplyTo: entry.id })
+      .expect(201);
+
+    expect(res.body.tenantId).toBe("acme");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// WebSocket authentication
+// ---------------------------------------------------------------------------
+
+describe("WebSocket authentication", () => {
+  let service: ChatRouterService;
+  let apiKeys: ApiKeyManager;
+  let server: http.Server;
+  let port: number;
+  let clients: WebSocket[];
+
+  beforeEach(async () => {
+    const store = new ChatRouterStore(":memory:");
+    store.init();
+    service = new ChatRouterService(store);
+    apiKeys = new ApiKeyManager(store);
+
+    server = http.createServer(createServer(service, undefined, { apiKeys }));
+    attachWebSocket(server, service, { apiKeys });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+
+    const addr = server.address();
+    port = typeof addr === "object" && addr ? addr.port : 0;
+    clients = [];
+  });
+
+  afterEach(async () => {
+    for (const ws of clients) ws.close();
+    await new Promise<void>((resolve, reject) => {
+      server.close((err) => (err ? reject(err) : resolve()));
+    });
+  });
+
+  it("rejects the upgrade with 401 without a valid key", async () => {
+    expect(await tryConnect(port)).toBe(401);
+    expect(await tryConnect(port, { query: "?api_key=crk_bogus" })).toBe(401);
+  });
+
+  it("accepts a key in the Authorization header or query string", async () => {
+    const { key } = apiKeys.create({ tenantId: "acme", name: "bot", scopes: ["read"] });
+
+    const viaHeader = await tryConnect(port, {
+      headers: { Authorization: `Bearer ${key}` },
+    });
+    const viaQuery = await tryConnect(port, { query: `?api_key=${key}` });
+
+    expect(viaHeader).toBeInstanceOf(WebSocket);
+    expect(viaQuery).toBeInstanceOf(WebSocket);
+    clients.push(viaHeader as WebSocket, viaQuery as WebSocket);
+  });
+
+  it("binds the socket to the key's tenant", async () => {
+    const { key } = apiKeys.create({ tenantId: "acme", name: "bot", scopes: ["read"] });
+    const ws = (await tryConnect(port, {
+      query: `?tenant=globex&api_key=${key}`,
+    })) as WebSocket;
+    clients.push(ws);
+
+    await new Promise<void>((resolve) => {
+      ws.once("message", () => resolve());
+      ws.send(JSON.stringify({ type: "subscribe" }));
+    });
+
+    const push = new Promise<any>((resolve) => {
+      ws.once("message", (raw) => resolve(JSON.parse(raw.toString())));
+    });
+    service.ingestMessage({
+      ...validMessage(),
+      tenantId: "acme",
+      platform: "telegram",
+    });
+
+    expect((await push).entry.tenantId).toBe("acme");
+  });
+
+  it("refuses requests from a key without the read scope", async () => {
+    const { key } = apiKeys.create({ tenantId: "acme", name: "bot", scopes: ["ingest"] });
+    const ws = (await tryConnect(port, { query: `?api_key=${key}` })) as WebSocket;
+    clients.push(ws);
+
+    const resp = await new Promise<any>((resolve) => {
+      ws.once("message", (raw) => resolve(JSON.parse(raw.toString())));
+      ws.send(JSON.stringify({ type: "health" }));
+    });
+
+    expect(resp.type).toBe("error");
+    expect(resp.message).toBe("missing scope: read");
+  });
+
+  it("lets a plugin register only the platform its key was issued for", async () => {
+    const { key } = apiKeys.create({
+      tenantId: "acme",
+      name: "slack-bot",
+      scopes: ["ingest"],
+      platform: "slack",
+    });
+    const { key: unbound } = apiKeys.create({ tenantId: "acme", name: "bot", scopes: ["ingest"] });
+    const connect = async (apiKey: string) => {
+      const ws = (await tryConnect(port, { query: `?api_key=${apiKey}` })) as WebSocket;
+      clients.push(ws);
+      return (payload: object) =>
+        new Promise<any>((resolve) => {
+          ws.once("message", (raw) => resolve(JSON.parse(raw.toString())));
+          ws.send(JSON.stringify(payload));
+        });
+    };
+    const hello = { type: "hello", protocolVersion: 1, role: "plugin", name: "bot" };
+
+    // Claiming another platform in hello does not help
+    const send = await connect(key);
+    await send({ ...hello, platform: "telegram" });
+    const other = await send({ type: "register_platform", name: "telegram" });
+    const own = await send({ type: "register_platform", name: "slack" });
+
+    expect(other.message).toBe('register_platform: this key may not register "telegram"');
+    expect(own).toMatchObject({ type: "response", data: { name: "slack", connections: 1 } });
+
+    const sendUnbound = await connect(unbound);
+    await sendUnbound({ ...hello, platform: "slack" });
+    const refused = await sendUnbound({ type: "register_platform", name: "slack" });
+    expect(refused.message).toBe('register_platform: this key may not register "slack"');
+  });
+});
@@ -29,6 +29,34 @@ describe("CLI adapter", () => {
       expect(isCliCommand("respond")).toBe(true);
     });
 
+    it("returns true for 'keys'", () => {
+      expect(isCliCommand("keys")).toBe(true);
+    });
+
+    it("returns true for 'migrate'", () => {
+      expect(isCliCommand("migrate")).toBe(true);
+    });
+
+    it("returns true for 'search'", () => {
+      expect(isCliCommand("search")).toBe(true);
+    });
+
+    it("returns true for 'upload'", () => {
+      expect(isCliCommand("upload")).toBe(true);
+    });
+
+    it("returns true for 'dispatches'", () => {
+      expect(isCliCommand("dispatches")).toBe(true);
+    });
+
+    it("returns true for 'runs'", () => {
+      expect(isCliCommand("runs")).toBe(true);
+    });
+
+    it("returns true for 'tail'", () => {
+      expect(isCliCommand("tail")).toBe(true);
+    });
+
     it("returns false for an unknown command", () => {
       expect(isCliCommand("unknown")).toBe(false);
     });
@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import Database from "better-sqlite3";
+import { ChatRouterStore } from "../db/store";
+import {
+  MIGRATIONS,
+  getMigrationStatus,
+  getSchemaVersion,
+  runMigrations,
+  type Migration,
+} from "../db/migrations";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const LATEST = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Create a database exactly as the pre-migration router did: no
+ * `user_version`, no tenants, no API keys, no dedupe index.
+ */
+function createLegacyDatabase(dbPath: string): void {
+  const db = new Database(dbPath);
+  db.exec(`
+    CREATE TABLE timeline (
+      id                  INTEGER PRIMARY KEY AUTOINCREMENT,
+      direction           TEXT    NOT NULL,
+      platform            TEXT    NOT NULL,
+      platform_message_id TEXT    NOT NULL,
+      platform_chat_id    TEXT    NOT NULL,
+      platform_chat_type  TEXT,
+      sender_name         TEXT    NOT NULL,
+      sender_id           TEXT    NOT NULL,
+      text                TEXT,
+      timestamp           INTEGER NOT NULL,
+      platform_meta       TEXT,
+      created_at          TEXT    NOT NULL
+    );
+    CREATE INDEX idx_timeline_platform_chat ON timeline (platform, platform_chat_id);
+
+    CREATE TABLE conversations (
+      id                 INTEGER PRIMARY KEY AUTOINCREMENT,
+      platform           TEXT    NOT NULL,
+      platform_chat_id   TEXT    NOT NULL,
+      platform_chat_type TEXT,
+      label              TEXT    NOT NULL,
+      first_seen_at      TEXT    NOT NULL,
+      last_message_at    TEXT    NOT NULL,
+      message_count      INTEGER NOT NULL DEFAULT 0,
+      UNIQUE (platform, platform_chat_id)
+    );
+    CREATE INDEX idx_conversations_platform_chat ON conversations (platform, platform_chat_id);
+  `);
+
+  const insert = db.prepare(`
+    INSERT INTO timeline
+      (direction, platform, platform_message_id, platform_chat_id,
+       platform_chat_type, sender_name, sender_id, text, timestamp,
+       platform_meta, created_at)
+    VALUES (?, 'telegram', ?, 'chat-1', 'private', 'Alice', 'user-1', ?, 1700000000000, ?, '2024-01-01T00:00:00.000Z')
+  `);
+  insert.run("in", "m1", "Hello", null);
+  insert.run("in", "m1", "Hello (retried)", null);
+  insert.run("out", "router-1", "Hi Alice", JSON.stringify({ inReplyTo: 1 }));
+
+  db.prepare(`
+    INSERT INTO conversations
+      (platform, platform_chat_id, platform_chat_type, label,
+       first_seen_at, last_message_at, message_count)
+    VALUES ('telegram', 'chat-1', 'private', 'Alice',
+            '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z', 3)
+  `).run();
+  db.close();
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("Schema migrations", () => {
+  let tmpDir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "chat-router-migrate-"));
+    dbPath = path.join(tmpDir, "chat-router.db");
+  });
+
+  afterEach(() => {
+    try {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    } catch {
+      // ignore cleanup errors
+    }
+  });
+
+  it("brings a fresh database to the latest version", () => {
+    const store = new ChatRouterStore(":memory:");
+    store.init();
+
+    const status = store.migrationStatus();
+    expect(status.currentVersion).toBe(LATEST);
+    expect(status.pending).toEqual([]);
+    store.close();
+  });
+
+  it("upgrades a legacy database and keeps its data", () => {
+    createLegacyDatabase(dbPath);
+
+    const store = new ChatRouterStore(dbPath);
+    store.init();
+
+    expect(store.migrationStatus().currentVersion).toBe(LATEST);
+
+    // Existing rows are adopted by the default tenant; the retried duplicate
+    // was dropped so the unique index could be created, and no longer counts.
+    const timeline = store.getTimeline("default", "telegram", "chat-1");
+    expect(timeline.map((e) => e.text)).toEqual(["Hi Alice", "Hello"]);
+    expect(timeline.every((e) => e.tenantId === "default")).toBe(true);
+
+    // The reply recorded in platform_meta is threaded to the original
+    expect(timeline[0].inReplyTo).toBe(1);
+    expect(timeline[0].replyToPlatformMessageId).toBe("m1");
+
+    const convo = store.getConversation("default", "telegram", "chat-1");
+    expect(convo).not.toBeNull();
+    expect(convo!.label).toBe("Alice");
+    expect(convo!.messageCount).toBe(2);
+
+    // New features work on the upgraded schema
+    const again = store.ingestTransaction(
+      {
+        tenantId: "default",
+        direction: "in",
+        platform: "telegram",
+        platformMessageId: "m1",
+        platformChatId: "chat-1",
+        platformChatType: "private",
+        senderName: "Alice",
+        senderId: "user-1",
+        text: "Hello",
+        timestamp: Date.now(),
+        platformMeta: null,
+      },
+      "Alice",
+    );
+    expect(again.duplicate).toBe(true);
+    expect(store.listApiKeys()).toEqual([]);
+
+    // Rows written before the search index existed are searchable
+    expect(store.search("default", "alice").map((r) => r.entry.text)).toEqual(["Hi Alice"]);
+    store.close();
+  });
+
+  it("reports pending migrations without applying them", () => {
+    createLegacyDatabase(dbPath);
+
+    const store = new ChatRouterStore(dbPath);
+    store.init({ migrate: false });
+
+    const status = store.migrationStatus();
+    expect(status.currentVersion).toBe(0);
+    expect(status.latestVersion).toBe(LATEST);
+    expect(status.pending.map((m) => m.version)).toEqual(
+      MIGRATIONS.map((m) => m.version),
+    );
+    store.close();
+  });
+
+  it("dry run validates pending migrations and rolls them back", () => {
+    createLegacyDatabase(dbPath);
+
+    const store = new ChatRouterStore(dbPath);
+    store.init({ migrate: false });
+
+    const wouldApply = store.migrate({ dryRun: true });
+    expect(wouldApply).toHaveLength(MIGRATIONS.length);
+    expect(store.migrationStatus().currentVersion).toBe(0);
+    store.close();
+
+    // Schema is untouched: no tenant column yet
+    const db = new Database(dbPath);
+    const columns = db.pragma("table_info(timeline)") as Array<{ name: string }>;
+    expect(columns.some((c) => c.name === "tenant_id")).toBe(false);
+    db.close();
+  });
+
+  it("is a no-op once the schema is current", () => {
+    const store = new ChatRouterStore(dbPath);
+    store.init();
+    expect(store.migrate()).toEqual([]);
+    store.close();
+  });
+
+  it("rolls back a failing step and keeps the previous version", () => {
+    const db = new Database(":memory:");
+    const migrations: Migration[] = [
+      {
+        version: 1,
+        name: "create_a",
+        up: (d) => d.exec("CREATE TABLE a (id INTEGER)"),
+      },
+      {
+        version: 2,
+        name: "broken",
+        up: (d) => {
+          d.exec("CREATE TABLE b (id INTEGER)");
+          d.exec("THIS IS NOT SQL");
+        },
+      },
+    ];
+
+    expect(() => runMigrations(db, {}, migrations)).toThrow(
+      /Migration 2 \(broken\) failed/,
+    );
+    expect(getSchemaVersion(db)).toBe(1);
+
+    const tables = db
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'table'")
+      .all()
+      .map((r) => (r as { name: string }).name);
+    expect(tables).toContain("a");
+    expect(tables).not.toContain("b");
+    db.close();
+  });
+
+  it("refuses a database newer than this build", () => {
+    const db = new Database(":memory:");
+    db.pragma(`user_version = ${LATEST + 1}`);
+
+    expect(() => runMigrations(db)).toThrow(/newer than this build supports/);
+    expect(getMigrationStatus(db).pending).toEqual([]);
+    db.close();
+  });
+});
@@ -1,14 +1,28 @@
-import { describe, it, expect, beforeEach, vi } from "vitest";
-import { ChatRouterService } from "../service";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  ChatRouterService,
+  DISPATCH_RETRY_BASE_MS,
+  MAX_DELIVERY_ATTEMPTS,
+  MAX_DISPATCH_ATTEMPTS,
+  MAX_SETTINGS_LENGTH,
+  PROCESSING_TIMEOUT_MS,
+} from "../service";
 import { ChatRouterStore } from "../db/store";
-import type { InboundMessage, TimelineEntry } from "../types";
+import { BlobStore } from "../blobs/store";
+import type { InboundMessage, PlatformDescriptor, TimelineEntry } from "../types";
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
+const TENANT = "acme";
+
 function makeInbound(overrides: Partial<InboundMessage> = {}): InboundMessage {
   return {
+    tenantId: TENANT,
     platform: "telegram",
     platformMessageId: "msg-1",
     platformChatId: "chat-100",
@@ -53,6 +67,18 @@ describe("ChatRouterService", () => {
 
   // ----- ingestMessage with missing required fields -----
 
+  it("throws when tenantId is missing", () => {
+    expect(() =>
+      service.ingestMessage(makeInbound({ tenantId: "" })),
+    ).toThrow("tenantId is required");
+  });
+
+  it("throws when tenantId is malformed", () => {
+    expect(() =>
+      service.ingestMessage(makeInbound({ tenantId: "acme/../other" })),
+    ).toThrow("tenantId is invalid");
+  });
+
   it("throws when platform is missing", () => {
     expect(() =>
       service.ingestMessage(makeInbound({ platform: "" as any })),
@@ -96,6 +122,7 @@ describe("ChatRouterService", () => {
     service.ingestMessage(makeInbound());
 
     const response = service.recordResponse({
+      tenantId: TENANT,
       platform: "telegram",
       platformChatId: "chat-100",
       text: "Hi Alice!",
@@ -128,6 +155,7 @@ describe("ChatRouterService", () => {
     );
 
     const timelineA = service.getTimeline({
+      tenantId: TENANT,
       platform: "telegram",
       platformChatId: "chat-A",
     });
@@ -135,12 +163,30 @@ describe("ChatRouterService", () => {
     expect(timelineA.every((e) => e.platformChatId === "chat-A")).toBe(true);
 
     const timelineB = service.getTimeline({
+      tenantId: TENANT,
       platform: "telegram",
       platformChatId: "chat-B",
     });
     expect(timelineB).toHaveLength(1);
   });
 
+  it("getTimeline never returns another tenant's entries", () => {
+    service.ingestMessage(makeInbound({ platformMessageId: "m1" }));
+    service.ingestMessage(
+      makeInbound({ tenantId: "globex", platformMessageId: "m2" }),
+    );
+
+    const timeline = service.getTimeline({
+      tenantId: TENANT,
+      platform: "telegram",
+      platformChatId: "chat-100",
+    });
+    expect(timeline).toHaveLength(1);
+    expect(timeline[0].tenantId).toBe(TENANT);
+    expect(service.getConversation("globex", "telegram", "chat-100")).not.toBeNull();
+    expect(service.getConversation("initech", "telegram", "chat-100")).toBeNull();
+  });
+
   // ----- listConversations across platforms -----
 
   it("listConversations shows conversations from multiple platforms", () => {
@@ -166,7 +212,7 @@ describe("ChatRouterService", () => {
       }),
     );
 
-    const convos = service.listConversations();
+    const convos = service.listConversations({ tenantId: TENANT });
     expect(convos).toHaveLength(3);
 
     const platforms = convos.map((c) => c.platform).sort();
@@ -180,6 +226,7 @@ describe("ChatRouterService", () => {
       ok: true,
       messageCount: 0,
       conversationCount: 0,
+      plugins: [],
     });
 
     service.ingestMessage(makeInbound({ platformMessageId: "m1" }));
@@ -215,6 +262,7 @@ describe("ChatRouterService", () => {
     const ingested = service.ingestMessage(msg);
 
     const timeline = service.getTimeline({
+      tenantId: TENANT,
       platform: "telegram",
       platformChatId: "chat-rt",
     });
@@ -267,6 +315,7 @@ describe("ChatRouterService", () => {
     service.on("message:new", listener);
 
     const entry = service.recordResponse({
+      tenantId: TENANT,
       platform: "telegram",
       platformChatId: "chat-100",
       text: "response event",
@@ -281,6 +330,884 @@ describe("ChatRouterService", () => {
     expect(emitted.senderName).toBe("System");
   });
 
+  // ----- Idempotent ingest -----
+
+  it("re-ingesting a message returns the original entry without emitting", () => {
+    const first = service.ingestMessage(makeInbound());
+
+    const listener = vi.fn();
+    service.on("message:new", listener);
+    const again = service.ingestMessage(makeInbound());
+
+    expect(again.id).toBe(first.id);
+    expect(again.duplicate).toBe(true);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("recordResponse assigns a distinct synthetic message ID each time", () => {
+    const params = {
+      tenantId: TENANT,
+      platform: "telegram" as const,
+      platformChatId: "chat-100",
+      text: "again",
+    };
+    const a = service.recordResponse(params);
+    const b = service.recordResponse(params);
+
+    expect(a.platformMessageId).not.toBe(b.platformMessageId);
+  });
+
+  // ----- Delivery queue -----
+
+  describe("delivery", () => {
+    function reply(text = "reply"): TimelineEntry {
+      return service.recordResponse({
+        tenantId: TENANT,
+        platform: "telegram",
+        platformChatId: "chat-100",
+        text,
+      });
+    }
+
+    it("queues every recorded response as pending", () => {
+      const entry = reply();
+
+      const pending = service.listPendingDeliveries({ tenantId: TENANT });
+      expect(pending.map((e) => e.id)).toEqual([entry.id]);
+      expect(store.getDelivery(TENANT, entry.id)!.status).toBe("pending");
+    });
+
+    it("does not queue inbound messages", () => {
+      service.ingestMessage(makeInbound());
+      expect(service.listPendingDeliveries({ tenantId: TENANT })).toEqual([]);
+    });
+
+    it("acknowledgeDelivery marks the entry delivered", () => {
+      const entry = reply();
+
+      const delivery = service.acknowledgeDelivery(TENANT, entry.id)!;
+      expect(delivery.status).toBe("delivered");
+      expect(delivery.attempts).toBe(1);
+      expect(delivery.deliveredAt).not.toBeNull();
+      expect(service.listPendingDeliveries({ tenantId: TENANT })).toEqual([]);
+
+      // Acks are idempotent
+      expect(service.acknowledgeDelivery(TENANT, entry.id)!.attempts).toBe(1);
+    });
+
+    it("records the platform message IDs reported with the ack", () => {
+      const original = service.ingestMessage(makeInbound({ platformMessageId: "40" }));
+      const entry = reply("long reply");
+      const followUp = service.recordResponse({
+        tenantId: TENANT,
+        platform: "telegram",
+        platformChatId: "chat-100",
+        text: "follow-up",
+        inReplyTo: entry.id,
+      });
+      expect(followUp.replyToPlatformMessageId).toBeNull();
+
+      service.acknowledgeDelivery(TENANT, entry.id, ["41", "42"]);
+
+      const [updated] = service
+        .getTimeline({ tenantId: TENANT, platform: "telegram", platformChatId: "chat-100" })
+        .filter((e) => e.id === entry.id);
+      expect(updated.platformMessageId).toBe("41");
+      expect(updated.platformMessageIds).toEqual(["41", "42"]);
+
+      // Replies waiting for the real ID can now be threaded
+      expect(service.listPendingDeliveries({ tenantId: TENANT })[0].replyToPlatformMessageId).toBe(
+        "41",
+      );
+
+      // An inbound reply to any chunk maps back to the entry
+      const answer = service.ingestMessage(
+        makeInbound({ platformMessageId: "43", replyToPlatformMessageId: "42" }),
+      );
+      expect(answer.inReplyTo).toBe(entry.id);
+      expect(original.platformMessageIds).toEqual([]);
+    });
+
+    it("keeps the first reported platform message IDs", () => {
+      const entry = reply();
+
+      service.acknowledgeDelivery(TENANT, entry.id);
+      service.acknowledgeDelivery(TENANT, entry.id, ["41"]);
+      service.acknowledgeDelivery(TENANT, entry.id, ["99"]);
+
+      const [updated] = service.getUnifiedTimeline({ tenantId: TENANT });
+      expect(updated.platformMessageIds).toEqual(["41"]);
+    });
+
+    it("rejects malformed platform message IDs", () => {
+      const entry = reply();
+
+      expect(() =>
+        service.acknowledgeDelivery(TENANT, entry.id, [41 as unknown as string]),
+      ).toThrow("acknowledgeDelivery: platformMessageIds must be an array of non-empty strings");
+      expect(store.getDelivery(TENANT, entry.id)!.status).toBe("pending");
+    });
+
+    it("failDelivery keeps the entry pending until the attempt limit", () => {
+      const entry = reply();
+
+      for (let i = 1; i < MAX_DELIVERY_ATTEMPTS; i++) {
+        const d = service.failDelivery({ tenantId: TENANT, timelineId: entry.id, error: "timeout" });
+        expect(d!.status).toBe("pending");
+        expect(d!.attempts).toBe(i);
+        expect(d!.lastError).toBe("timeout");
+      }
+
+      const last = service.failDelivery({ tenantId: TENANT, timelineId: entry.id, error: "timeout" });
+      expect(last!.status).toBe("failed");
+      expect(service.listPendingDeliveries({ tenantId: TENANT })).toEqual([]);
+    });
+
+    it("failDelivery with retry=false fails immediately", () => {
+      const entry = reply();
+
+      const d = service.failDelivery({
+        tenantId: TENANT,
+        timelineId: entry.id,
+        error: "chat not found",
+        retry: false,
+      });
+      expect(d!.status).toBe("failed");
+      expect(d!.attempts).toBe(1);
+    });
+
+    it("never touches another tenant's deliveries", () => {
+      const entry = reply();
+
+      expect(service.acknowledgeDelivery("globex", entry.id)).toBeNull();
+      expect(service.listPendingDeliveries({ tenantId: "globex" })).toEqual([]);
+      expect(store.getDelivery(TENANT, entry.id)!.status).toBe("pending");
+    });
+
+    it("lists pending deliveries oldest first, filtered by platform", () => {
+      const a = reply("a");
+      const b = reply("b");
+      service.recordResponse({
+        tenantId: TENANT,
+        platform: "discord",
+        platformChatId: "d-1",
+        text: "c",
+      });
+
+      const pending = service.listPendingDeliveries({ tenantId: TENANT, platform: "telegram" });
+      expect(pending.map((e) => e.id)).toEqual([a.id, b.id]);
+    });
+  });
+
+  describe("reply threading", () => {
+    it("resolves inReplyTo to the original platform message ID", () => {
+      const original = service.ingestMessage(makeInbound({ platformMessageId: "42" }));
+
+      const reply = service.recordResponse({
+        tenantId: TENANT,
+        platform: "telegram",
+        platformChatId: "chat-100",
+        text: "Hi Alice!",
+        inReplyTo: original.id,
+      });
+
+      expect(reply.inReplyTo).toBe(original.id);
+      expect(reply.replyToPlatformMessageId).toBe("42");
+      expect(service.listPendingDeliveries({ tenantId: TENANT })[0].replyToPlatformMessageId).toBe(
+        "42",
+      );
+    });
+
+    it("leaves the platform message ID unset when replying to an unconfirmed response", () => {
+      service.ingestMessage(makeInbound());
+      const first = service.recordResponse({
+        tenantId: TENANT,
+        platform: "telegram",
+        platformChatId: "chat-100",
+        text: "One",
+      });
+
+      const second = service.recordResponse({
+        tenantId: TENANT,
+        platform: "telegram",
+        platformChatId: "chat-100",
+        text: "Two",
+        inReplyTo: first.id,
+      });
+
+      expect(second.inReplyTo).toBe(first.id);
+      expect(second.replyToPlatformMessageId).toBeNull();
+    });
+
+    it("rejects inReplyTo from another tenant or conversation", () => {
+      const other = service.ingestMessage(makeInbound({ platformChatId: "chat-200" }));
+      const foreign = service.ingestMessage(makeInbound({ tenantId: "globex" }));
+      const respond = (inReplyTo: number) =>
+        service.recordResponse({
+          tenantId: TENANT,
+          platform: "telegram",
+          platformChatId: "chat-100",
+          text: "Hi",
+          inReplyTo,
+        });
+
+      expect(() => respond(other.id)).toThrow(
+        "recordResponse: inReplyTo is in a different conversation",
+      );
+      expect(() => respond(foreign.id)).toThrow("recordResponse: inReplyTo is unknown");
+    });
+
+    it("records which entry an inbound reply answers", () => {
+      const original = service.ingestMessage(makeInbound({ platformMessageId: "41" }));
+
+      const reply = service.ingestMessage(
+        makeInbound({ platformMessageId: "42", replyToPlatformMessageId: "41" }),
+      );
+
+      expect(reply.inReplyTo).toBe(original.id);
+      expect(reply.replyToPlatformMessageId).toBe("41");
+    });
+
+    it("keeps the platform message ID of an unknown original", () => {
+      const reply = service.ingestMessage(makeInbound({ replyToPlatformMessageId: "7" }));
+
+      expect(reply.inReplyTo).toBeNull();
+      expect(reply.replyToPlatformMessageId).toBe("7");
+    });
+  });
+
+  describe("edits and deletions", () => {
+    function reply(text = "Draft"): TimelineEntry {
+      service.ingestMessage(makeInbound());
+      return service.recordResponse({
+        tenantId: TENANT,
+        platform: "telegram",
+        platformChatId: "chat-100",
+        text,
+      });
+    }
+
+    it("editResponse replaces the text and records the revision", () => {
+      const entry = reply();
+      const listener = vi.fn();
+      service.on("message:edited", listener);
+
+      const edited = service.editResponse({
+        tenantId: TENANT,
+        timelineId: entry.id,
+        text: "Final",
+      })!;
+
+      expect(edited.text).toBe("Final");
+      expect(edited.editedAt).not.toBeNull();
+      const revisions = service.listRevisions(TENANT, entry.id);
+      expect(revisions).toHaveLength(1);
+      expect(revisions[0]).toMatchObject({ kind: "edit", previousText: "Draft", text: "Final" });
+      expect(listener).toHaveBeenCalledWith(edited, revisions[0]);
+
+      // The search index follows the edit
+      expect(service.search({ tenantId: TENANT, query: "final" })).toHaveLength(1);
+      expect(service.search({ tenantId: TENANT, query: "draft" })).toHaveLength(0);
+    });
+
+    it("editResponse with unchanged text records nothing", () => {
+      const entry = reply();
+
+      service.editResponse({ tenantId: TENANT, timelineId: entry.id, text: "Draft" });
+
+      expect(service.listRevisions(TENANT, entry.id)).toEqual([]);
+    });
+
+    it("editResponse returns null for inbound and unknown entries", () => {
+      const entry = reply();
+
+      const edit = (tenantId: string, timelineId: number, text: string) =>
+        service.editResponse({ tenantId, timelineId, text });
+
+      expect(edit(TENANT, 1, "x")).toBeNull();
+      expect(edit("globex", entry.id, "x")).toBeNull();
+      expect(() => edit(TENANT, entry.id, "")).toThrow("editResponse: text is required");
+    });
+
+    it("deleteResponse clears the text and cancels a pending delivery", () => {
+      const entry = reply();
+      const listener = vi.fn();
+      service.on("message:deleted", listener);
+
+      const deleted = service.deleteResponse(TENANT, entry.id)!;
+
+      expect(deleted.text).toBeNull();
+      expect(deleted.deletedAt).not.toBeNull();
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(service.listRevisions(TENANT, entry.id)[0]).toMatchObject({
+        kind: "delete",
+        previousText: "Draft",
+        text: null,
+      });
+      expect(store.getDelivery(TENANT, entry.id)!.status).toBe("failed");
+      expect(service.listPendingDeliveries({ tenantId: TENANT })).toEqual([]);
+
+      // Deleting twice is a no-op; a deleted response cannot be edited
+      service.deleteResponse(TENANT, entry.id);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(() =>
+        service.editResponse({ tenantId: TENANT, timelineId: entry.id, text: "Back" }),
+      ).toThrow(`editResponse: entry ${entry.id} is deleted`);
+    });
+
+    it("editMessage applies platform edits to inbound messages", () => {
+      const entry = service.ingestMessage(makeInbound({ platformMessageId: "41" }));
+
+      const edited = service.editMessage({
+        tenantId: TENANT,
+        platform: "telegram",
+        platformChatId: "chat-100",
+        platformMessageId: "41",
+        text: "Hello world, edited",
+      })!;
+
+      expect(edited.id).toBe(entry.id);
+      expect(edited.text).toBe("Hello world, edited");
+      expect(
+        service.editMessage({
+          tenantId: TENANT,
+          platform: "telegram",
+          platformChatId: "chat-100",
+          platformMessageId: "404",
+          text: "x",
+        }),
+      ).toBeNull();
+    });
+  });
+
+  describe("dispatch queue", () => {
+    it("enqueueDispatch queues an inbound entry once and starts processing", () => {
+      const entry = service.ingestMessage(makeInbound());
+      const listener = vi.fn();
+      service.on("dispatch:queued", listener);
+
+      const dispatch = service.enqueueDispatch(TENANT, entry.id, "acs")!;
+      expect(dispatch).toMatchObject({ timelineId: entry.id, status: "pending", attempts: 0 });
+      expect(service.enqueueDispatch(TENANT, entry.id, "acs")).toEqual(dispatch);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(service.getProcessingState(TENANT, "telegram", "chat-100")?.status).toBe(
+        "processing",
+      );
+      expect(service.dueDispatches()).toEqual([{ dispatch, entry }]);
+    });
+
+    it("completeDispatch records the run", () => {
+      const entry = service.ingestMessage(makeInbound());
+      service.enqueueDispatch(TENANT, entry.id, "acs");
+
+      const dispatch = service.completeDispatch(TENANT, entry.id, "run-1")!;
+
+      expect(dispatch).toMatchObject({ status: "dispatched", attempts: 1, runId: "run-1" });
+      expect(dispatch.dispatchedAt).not.toBeNull();
+      expect(service.dueDispatches()).toEqual([]);
+    });
+
+    it("failDispatch backs off exponentially", () => {
+      const entry = service.ingestMessage(makeInbound());
+      service.enqueueDispatch(TENANT, entry.id, "acs");
+
+      const before = Date.now();
+      const first = service.failDispatch({ tenantId: TENANT, timelineId: entry.id, error: "503" })!;
+      const second = service.failDispatch({ tenantId: TENANT, timelineId: entry.id, error: "503" })!;
+
+      expect(first).toMatchObject({ status: "pending", attempts: 1, lastError: "503" });
+      expect(Date.parse(first.nextAttemptAt)).toBeGreaterThanOrEqual(
+        before + DISPATCH_RETRY_BASE_MS,
+      );
+      expect(Date.parse(second.nextAttemptAt)).toBeGreaterThanOrEqual(
+        before + 2 * DISPATCH_RETRY_BASE_MS,
+      );
+      // Not due until the backoff has passed
+      expect(service.dueDispatches()).toEqual([]);
+    });
+
+    it("dead-letters a dispatch after the last attempt and fails processing", () => {
+      const entry = service.ingestMessage(makeInbound());
+      service.enqueueDispatch(TENANT, entry.id, "acs");
+
+      let dispatch = null;
+      for (let i = 0; i < MAX_DISPATCH_ATTEMPTS; i++) {
+        dispatch = service.failDispatch({ tenantId: TENANT, timelineId: entry.id, error: "503" });
+      }
+
+      expect(dispatch).toMatchObject({ status: "dead", attempts: MAX_DISPATCH_ATTEMPTS });
+      expect(service.getProcessingState(TENANT, "telegram", "chat-100")).toBeNull();
+      expect(service.listDispatches({ tenantId: TENANT, status: "dead" })).toHaveLength(1);
+    });
+
+    it("redriveDispatch queues a dead dispatch again", () => {
+      const entry = service.ingestMessage(makeInbound());
+      service.enqueueDispatch(TENANT, entry.id, "acs");
+      expect(() => service.redriveDispatch(TENANT, entry.id)).toThrow("is pending, not dead");
+      for (let i = 0; i < MAX_DISPATCH_ATTEMPTS; i++) {
+        service.failDispatch({ tenantId: TENANT, timelineId: entry.id, error: "503" });
+      }
+
+      const dispatch = service.redriveDispatch(TENANT, entry.id)!;
+
+      expect(dispatch).toMatchObject({ status: "pending", attempts: 0, lastError: "503" });
+      expect(service.dueDispatches()).toHaveLength(1);
+      expect(service.redriveDispatch(TENANT, 999)).toBeNull();
+    });
+  });
+
+  describe("agent runs", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("tracks a run from trigger to response", () => {
+      const first = service.ingestMessage(makeInbound({ platformMessageId: "msg-1" }));
+      const second = service.ingestMessage(makeInbound({ platformMessageId: "msg-2" }));
+
+      const run = service.startRun({
+        tenantId: TENANT,
+        backend: "acs",
+        timelineIds: [first.id, second.id],
+      });
+      service.setRunId(TENANT, run.id, "run-1");
+      expect(service.getActiveRun(TENANT, "telegram", "chat-100")).toMatchObject({
+        id: run.id,
+        status: "running",
+        runId: "run-1",
+        platformChatId: "chat-100",
+        timelineIds: [first.id, second.id],
+        finishedAt: null,
+      });
+
+      const reply = service.recordResponse({
+        tenantId: TENANT,
+        platform: "telegram",
+        platformChatId: "chat-100",
+        text: "Answer",
+      });
+
+      expect(service.getActiveRun(TENANT, "telegram", "chat-100")).toBeNull();
+      const [done] = service.listRuns({ tenantId: TENANT, platform: "telegram" });
+      expect(done).toMatchObject({ status: "done", responseId: reply.id, error: null });
+      expect(done.finishedAt).not.toBeNull();
+    });
+
+    it("fails the run answering an entry whose processing failed", () => {
+      const entry = service.ingestMessage(makeInbound());
+      const run = service.startRun({ tenantId: TENANT, backend: "local", timelineIds: [entry.id] });
+
+      service.failProcessing(TENANT, entry.id, "agent exited with code 1");
+
+      expect(service.listRuns({ tenantId: TENANT, status: "failed" })).toEqual([
+        expect.objectContaining({ id: run.id, error: "agent exited with code 1" }),
+      ]);
+      expect(service.failRun(TENANT, run.id, "again")?.error).toBe("agent exited with code 1");
+    });
+
+    it("fails a run that has gone without a response for too long", () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      const entry = service.ingestMessage(makeInbound());
+      service.startRun({ tenantId: TENANT, backend: "acs", timelineIds: [entry.id] });
+
+      vi.advanceTimersByTime(PROCESSING_TIMEOUT_MS);
+
+      expect(service.getActiveRun(TENANT, "telegram", "chat-100")).toBeNull();
+      expect(service.listRuns({ tenantId: TENANT })[0]).toMatchObject({
+        status: "failed",
+        error: "no response from the agent in time",
+      });
+    });
+
+    it("rejects runs that are not for inbound entries of one conversation", () => {
+      const entry = service.ingestMessage(makeInbound());
+      const other = service.ingestMessage(
+        makeInbound({ platformMessageId: "msg-2", platformChatId: "chat-200" }),
+      );
+
+      for (const timelineIds of [[], [999], [entry.id, other.id]]) {
+        expect(() => service.startRun({ tenantId: TENANT, backend: "acs", timelineIds })).toThrow(
+          "startRun: timelineIds must name inbound entries of one conversation",
+        );
+      }
+      expect(() => service.listRuns({ tenantId: TENANT, status: "bogus" as never })).toThrow(
+        "listRuns: status must be one of running, done, failed",
+      );
+    });
+  });
+
+  describe("agent activity", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("tracks processing from trigger to response", () => {
+      const entry = service.ingestMessage(makeInbound());
+      const listener = vi.fn();
+      service.on("chat:action", listener);
+
+      const started = service.startProcessing(TENANT, entry.id)!;
+      expect(started).toMatchObject({
+        platform: "telegram",
+        platformChatId: "chat-100",
+        timelineId: entry.id,
+        platformMessageId: "msg-1",
+        status: "processing",
+        error: null,
+      });
+      expect(service.getProcessingState(TENANT, "telegram", "chat-100")).toEqual(started);
+
+      service.recordResponse({
+        tenantId: TENANT,
+        platform: "telegram",
+        platformChatId: "chat-100",
+        text: "Answer",
+      });
+
+      expect(service.getProcessingState(TENANT, "telegram", "chat-100")).toBeNull();
+      expect(listener.mock.calls.map(([state]) => state.status)).toEqual(["processing", "done"]);
+    });
+
+    it("fails processing when no response arrives in time", () => {
+      vi.useFakeTimers();
+      const entry = service.ingestMessage(makeInbound());
+      const listener = vi.fn();
+      service.on("chat:action", listener);
+
+      service.startProcessing(TENANT, entry.id);
+      vi.advanceTimersByTime(PROCESSING_TIMEOUT_MS);
+
+      expect(service.getProcessingState(TENANT, "telegram", "chat-100")).toBeNull();
+      expect(listener).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: "failed", error: "no response from the agent in time" }),
+      );
+    });
+
+    it("failProcessing reports a trigger that never started", () => {
+      const entry = service.ingestMessage(makeInbound());
+
+      const state = service.failProcessing(TENANT, entry.id, "agent trigger failed");
+
+      expect(state).toMatchObject({ status: "failed", error: "agent trigger failed" });
+      expect(service.getProcessingState(TENANT, "telegram", "chat-100")).toBeNull();
+    });
+
+    it("ignores outbound and unknown entries", () => {
+      service.ingestMessage(makeInbound());
+      const reply = service.recordResponse({
+        tenantId: TENANT,
+        platform: "telegram",
+        platformChatId: "chat-100",
+        text: "Answer",
+      });
+
+      expect(service.startProcessing(TENANT, reply.id)).toBeNull();
+      expect(service.startProcessing(TENANT, 999)).toBeNull();
+      expect(service.startProcessing("other", 1)).toBeNull();
+    });
+  });
+
+  describe("conversation settings", () => {
+    const where = { tenantId: TENANT, platform: "telegram" as const, platformChatId: "chat-100" };
+
+    it("stores settings on the conversation and clears them with {}", () => {
+      service.ingestMessage(makeInbound());
+
+      const updated = service.updateConversationSettings({ ...where, settings: { tone: "brief" } });
+
+      expect(updated?.settings).toEqual({ tone: "brief" });
+      expect(service.getConversation(TENANT, "telegram", "chat-100")?.settings).toEqual({
+        tone: "brief",
+      });
+      expect(service.updateConversationSettings({ ...where, settings: {} })?.settings).toEqual({});
+    });
+
+    it("rejects non-objects and oversized settings", () => {
+      service.ingestMessage(makeInbound());
+
+      expect(() =>
+        service.updateConversationSettings({ ...where, settings: ["a"] as never }),
+      ).toThrow("updateConversationSettings: settings must be an object");
+      expect(() =>
+        service.updateConversationSettings({
+          ...where,
+          settings: { notes: "x".repeat(MAX_SETTINGS_LENGTH) },
+        }),
+      ).toThrow(`settings must be at most ${MAX_SETTINGS_LENGTH} characters`);
+    });
+
+    it("returns null for an unknown conversation", () => {
+      expect(
+        service.updateConversationSettings({ ...where, platformChatId: "nope", settings: {} }),
+      ).toBeNull();
+    });
+  });
+
+  describe("attachments", () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "chat-router-blobs-"));
+      service = new ChatRouterService(store, new BlobStore(tmpDir));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("stores blobs by content hash, once per content", () => {
+      const data = Buffer.from("fake image bytes");
+
+      const blob = service.storeBlob({ tenantId: TENANT, data, mimeType: "image/jpeg" });
+      expect(blob.id).toMatch(/^[0-9a-f]{64}$/);
+      expect(blob.size).toBe(data.length);
+      expect(blob.mimeType).toBe("image/jpeg");
+
+      const again = service.storeBlob({ tenantId: TENANT, data });
+      expect(again).toEqual(blob);
+
+      const read = service.readBlob(TENANT, blob.id)!;
+      expect(read.data.equals(data)).toBe(true);
+    });
+
+    it("only serves blobs to the tenant that stored them", () => {
+      const blob = service.storeBlob({ tenantId: TENANT, data: Buffer.from("x") });
+
+      expect(service.readBlob("globex", blob.id)).toBeNull();
+      expect(service.readBlob(TENANT, "../../etc/passwd")).toBeNull();
+    });
+
+    it("rejects empty uploads and missing blob storage", () => {
+      expect(() =>
+        service.storeBlob({ tenantId: TENANT, data: Buffer.alloc(0) }),
+      ).toThrow("storeBlob: data is empty");
+
+      const withoutBlobs = new ChatRouterService(store);
+      expect(() =>
+        withoutBlobs.storeBlob({ tenantId: TENANT, data: Buffer.from("x") }),
+      ).toThrow("blob storage is not configured");
+    });
+
+    it("ingestMessage persists attachments with defaults filled in", () => {
+      const blob = service.storeBlob({ tenantId: TENANT, data: Buffer.from("x") });
+
+      const entry = service.ingestMessage(
+        makeInbound({
+          text: "look at this",
+          attachments: [{ type: "photo", fileId: "file-1", blobId: blob.id }],
+        }),
+      );
+
+      const expected = {
+        type: "photo",
+        fileId: "file-1",
+        mimeType: null,
+        size: null,
+        fileName: null,
+        caption: null,
+        blobId: blob.id,
+      };
+      expect(entry.attachments).toEqual([expected]);
+      const [stored] = service.getTimeline({
+        tenantId: TENANT,
+        platform: "telegram",
+        platformChatId: "chat-100",
+      });
+      expect(stored.attachments).toEqual([expected]);
+    });
+
+    it("entries without media have no attachments", () => {
+      expect(service.ingestMessage(makeInbound()).attachments).toEqual([]);
+    });
+
+    it("ingestMessage rejects invalid attachments", () => {
+      expect(() =>
+        service.ingestMessage(
+          makeInbound({ attachments: [{ type: "hologram" as any, fileId: "f" }] }),
+        ),
+      ).toThrow("attachments[0].type is invalid");
+      expect(() =>
+        service.ingestMessage(makeInbound({ attachments: [{ type: "photo", fileId: "" }] })),
+      ).toThrow("attachments[0].fileId is required");
+    });
+
+    it("recordResponse attaches uploaded blobs", () => {
+      const blob = service.storeBlob({
+        tenantId: TENANT,
+        data: Buffer.from("chart"),
+        mimeType: "image/png",
+      });
+
+      const entry = service.recordResponse({
+        tenantId: TENANT,
+        platform: "telegram",
+        platformChatId: "chat-100",
+        attachments: [{ type: "photo", blobId: blob.id, fileName: "chart.png" }],
+      });
+
+      expect(entry.text).toBeNull();
+      expect(entry.attachments).toEqual([
+        {
+          type: "photo",
+          fileId: null,
+          mimeType: "image/png",
+          size: 5,
+          fileName: "chart.png",
+          caption: null,
+          blobId: blob.id,
+        },
+      ]);
+      expect(service.listPendingDeliveries({ tenantId: TENANT })[0].attachments).toEqual(
+        entry.attachments,
+      );
+    });
+
+    it("recordResponse requires text or attachments", () => {
+      expect(() =>
+        service.recordResponse({ tenantId: TENANT, platform: "telegram", platformChatId: "chat-100" }),
+      ).toThrow("recordResponse: text or attachments is required");
+    });
+
+    it("recordResponse rejects unknown blobs", () => {
+      expect(() =>
+        service.recordResponse({
+          tenantId: TENANT,
+          platform: "telegram",
+          platformChatId: "chat-100",
+          text: "see attached",
+          attachments: [{ type: "document", blobId: "0".repeat(64) }],
+        }),
+      ).toThrow("recordResponse: attachments[0].blobId is unknown");
+    });
+
+    it("ingestMessage rejects blobs of another tenant", () => {
+      const blob = service.storeBlob({ tenantId: "globex", data: Buffer.from("x") });
+
+      expect(() =>
+        service.ingestMessage(
+          makeInbound({ attachments: [{ type: "photo", fileId: "f", blobId: blob.id }] }),
+        ),
+      ).toThrow("attachments[0].blobId is unknown");
+    });
+  });
+
+  describe("platforms", () => {
+    it("lists the built-in platforms for every tenant", () => {
+      expect(service.listPlatforms(TENANT).map((p) => p.name)).toEqual([
+        "discord",
+        "telegram",
+        "web",
+      ]);
+      expect(service.listPlatforms(TENANT)[1]).toMatchObject({
+        maxMessageLength: 4096,
+        registeredAt: null,
+        connections: 0,
+      });
+    });
+
+    it("rejects messages from platforms the tenant has not registered", () => {
+      expect(() => service.ingestMessage(makeInbound({ platform: "slack" }))).toThrow(
+        'ingestMessage: unknown platform "slack"; register it first',
+      );
+    });
+
+    it("accepts messages from a registered platform, for that tenant only", () => {
+      service.registerPlatform(TENANT, {
+        name: "slack",
+        maxMessageLength: 40000,
+        features: ["edits", "media"],
+      });
+
+      expect(service.ingestMessage(makeInbound({ platform: "slack" })).platform).toBe("slack");
+      expect(() =>
+        service.ingestMessage(makeInbound({ tenantId: "other", platform: "slack" })),
+      ).toThrow("unknown platform");
+      expect(service.listPlatforms(TENANT).find((p) => p.name === "slack")).toMatchObject({
+        maxMessageLength: 40000,
+        features: ["media", "edits"],
+      });
+    });
+
+    it("validates messages against the platform's descriptor", () => {
+      service.registerPlatform(TENANT, { name: "sms", maxMessageLength: 10, features: [] });
+      const sms = (overrides: Partial<InboundMessage>) =>
+        service.ingestMessage(makeInbound({ platform: "sms", text: "Hi", ...overrides }));
+
+      expect(() => sms({ text: "x".repeat(11) })).toThrow("10-character limit of sms");
+      expect(sms({ text: "😀".repeat(10) }).text).toBe("😀".repeat(10));
+      expect(() =>
+        sms({ platformMessageId: "2", attachments: [{ type: "photo", fileId: "f" }] }),
+      ).toThrow("sms does not support media");
+      expect(() => sms({ platformMessageId: "3", replyToPlatformMessageId: "1" })).toThrow(
+        "sms does not support replies",
+      );
+    });
+
+    it("re-registering replaces the descriptor, built-in ones included", () => {
+      service.registerPlatform(TENANT, { name: "telegram", maxMessageLength: 5, features: [] });
+
+      expect(() => service.ingestMessage(makeInbound())).toThrow("5-character limit");
+    });
+
+    it("rejects malformed descriptors", () => {
+      const register = (descriptor: unknown) =>
+        service.registerPlatform(TENANT, descriptor as PlatformDescriptor);
+
+      expect(() => register({ name: "Slack" })).toThrow("registerPlatform: name must be");
+      expect(() => register({ name: "slack", maxMessageLength: 0 })).toThrow("maxMessageLength");
+      expect(() => register({ name: "slack", features: ["telepathy"] })).toThrow("features");
+    });
+
+    it("counts connections until each one disconnects", () => {
+      const first = service.connectPlatform(TENANT, "telegram");
+      const second = service.connectPlatform(TENANT, "telegram");
+      const telegram = () => service.listPlatforms(TENANT).find((p) => p.name === "telegram")!;
+
+      expect(telegram().connections).toBe(2);
+      first();
+      first();
+      expect(telegram().connections).toBe(1);
+      second();
+      expect(telegram().connections).toBe(0);
+      expect(() => service.connectPlatform(TENANT, "slack")).toThrow("unknown platform");
+    });
+  });
+
+  // ----- Connected clients -----
+
+  describe("connected clients", () => {
+    const client = {
+      tenantId: TENANT,
+      role: "cli" as const,
+      name: "chat-router-cli",
+      version: null,
+      platform: null,
+      protocolVersion: 1,
+      capabilities: [],
+    };
+
+    it("tracks clients per tenant until they disconnect", () => {
+      const first = service.connectPlugin(client);
+      const second = service.connectPlugin({ ...client, tenantId: "globex" });
+
+      expect(first.id).not.toBe(second.id);
+      expect(first.connectedAt).toBeTruthy();
+      expect(service.listPlugins(TENANT)).toEqual([first]);
+      expect(service.listPlugins()).toEqual([first, second]);
+      expect(service.healthCheck(TENANT).plugins).toEqual([first]);
+
+      service.disconnectPlugin(first.id);
+      expect(service.listPlugins(TENANT)).toEqual([]);
+    });
+
+    it("rejects an invalid tenant", () => {
+      expect(() => service.connectPlugin({ ...client, tenantId: "" })).toThrow(
+        "connectPlugin: tenantId is required",
+      );
+    });
+  });
+
   // ----- EventEmitter: multiple listeners receive events -----
 
   it("multiple listeners all receive the message:new event", () => {
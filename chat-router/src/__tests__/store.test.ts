@@ -8,8 +8,11 @@ import { ChatRouterStore, TimelineEntryInput } from "../db/store";
 // Helpers
 // ---------------------------------------------------------------------------
 
+const TENANT = "acme";
+
 function makeEntry(overrides: Partial<TimelineEntryInput> = {}): TimelineEntryInput {
   return {
+    tenantId: TENANT,
     direction: "in",
     platform: "telegram",
     platformMessageId: "msg-1",
@@ -55,7 +58,7 @@ describe("ChatRouterStore", () => {
     expect(entry.text).toBe("Hello");
     expect(entry.createdAt).toBeTruthy();
 
-    const timeline = store.getTimeline("telegram", "chat-100");
+    const timeline = store.getTimeline(TENANT, "telegram", "chat-100");
     expect(timeline).toHaveLength(1);
     expect(timeline[0].id).toBe(1);
   });
@@ -65,7 +68,7 @@ describe("ChatRouterStore", () => {
   it("auto-creates a conversation on first message", () => {
     store.ingestTransaction(makeEntry(), "Alice");
 
-    const convo = store.getConversation("telegram", "chat-100");
+    const convo = store.getConversation(TENANT, "telegram", "chat-100");
     expect(convo).not.toBeNull();
     expect(convo!.platform).toBe("telegram");
     expect(convo!.platformChatId).toBe("chat-100");
@@ -82,7 +85,7 @@ describe("ChatRouterStore", () => {
     store.ingestTransaction(makeEntry({ platformMessageId: "msg-2" }), "Alice");
     store.ingestTransaction(makeEntry({ platformMessageId: "msg-3" }), "Alice");
 
-    const convo = store.getConversation("telegram", "chat-100");
+    const convo = store.getConversation(TENANT, "telegram", "chat-100");
     expect(convo!.messageCount).toBe(3);
   });
 
@@ -97,13 +100,13 @@ describe("ChatRouterStore", () => {
     }
 
     // Default: most recent first
-    const all = store.getTimeline("telegram", "chat-100");
+    const all = store.getTimeline(TENANT, "telegram", "chat-100");
     expect(all).toHaveLength(5);
     expect(all[0].id).toBe(5);
     expect(all[4].id).toBe(1);
 
     // Cursor: entries before id 4
-    const page = store.getTimeline("telegram", "chat-100", undefined, 4, 2);
+    const page = store.getTimeline(TENANT, "telegram", "chat-100", undefined, 4, 2);
     expect(page).toHaveLength(2);
     expect(page[0].id).toBe(3);
     expect(page[1].id).toBe(2);
@@ -122,7 +125,7 @@ describe("ChatRouterStore", () => {
       makeEntry({ platform: "web", platformChatId: "web-1", platformMessageId: "m3" }),
     );
 
-    const timeline = store.getUnifiedTimeline();
+    const timeline = store.getUnifiedTimeline(TENANT);
     expect(timeline).toHaveLength(3);
     // Most recent first
     expect(timeline[0].platform).toBe("web");
@@ -153,7 +156,7 @@ describe("ChatRouterStore", () => {
       "Charlie",
     );
 
-    const convos = store.listConversations();
+    const convos = store.listConversations(TENANT);
     expect(convos).toHaveLength(3);
     // Most recent first
     expect(convos[0].label).toBe("Charlie");
@@ -173,7 +176,7 @@ describe("ChatRouterStore", () => {
       "Bob",
     );
 
-    const telegramOnly = store.listConversations("telegram");
+    const telegramOnly = store.listConversations(TENANT, "telegram");
     expect(telegramOnly).toHaveLength(1);
     expect(telegramOnly[0].platform).toBe("telegram");
   });
@@ -181,9 +184,142 @@ describe("ChatRouterStore", () => {
   // ----- getConversation returns null for unknown -----
 
   it("returns null for unknown conversation", () => {
-    const result = store.getConversation("telegram", "nonexistent");
+    const result = store.getConversation(TENANT, "telegram", "nonexistent");
     expect(result).toBeNull();
   });
+
+  // ----- Deduplication -----
+
+  it("returns the existing entry for a re-ingested platform message", () => {
+    const first = store.ingestTransaction(makeEntry(), "Alice");
+    const again = store.ingestTransaction(makeEntry({ text: "retry" }), "Alice");
+
+    expect(again.id).toBe(first.id);
+    expect(again.duplicate).toBe(true);
+    expect(again.text).toBe("Hello");
+    expect(first.duplicate).toBeUndefined();
+    expect(store.getStats()).toEqual({ messageCount: 1, conversationCount: 1 });
+    expect(store.getConversation(TENANT, "telegram", "chat-100")!.messageCount).toBe(1);
+  });
+
+  it("treats the same message ID in another chat or direction as new", () => {
+    store.ingestTransaction(makeEntry(), "Alice");
+    const otherChat = store.ingestTransaction(makeEntry({ platformChatId: "chat-200" }), "Alice");
+    const outbound = store.ingestTransaction(makeEntry({ direction: "out" }), "System");
+
+    expect(otherChat.duplicate).toBeUndefined();
+    expect(outbound.duplicate).toBeUndefined();
+    expect(store.getStats().messageCount).toBe(3);
+  });
+
+  it("enforces the unique constraint on direct inserts", () => {
+    store.insertTimelineEntry(makeEntry());
+    expect(() => store.insertTimelineEntry(makeEntry())).toThrow(/UNIQUE/);
+  });
+
+  // ----- Tenant isolation -----
+
+  it("keeps the same chat ID separate across tenants", () => {
+    store.ingestTransaction(makeEntry({ platformMessageId: "m1" }), "Alice");
+    store.ingestTransaction(
+      makeEntry({ tenantId: "globex", platformMessageId: "m2", text: "Other" }),
+      "Mallory",
+    );
+
+    const timeline = store.getTimeline(TENANT, "telegram", "chat-100");
+    expect(timeline).toHaveLength(1);
+    expect(timeline[0].tenantId).toBe(TENANT);
+    expect(timeline[0].text).toBe("Hello");
+
+    expect(store.getUnifiedTimeline("globex")).toHaveLength(1);
+    expect(store.listConversations(TENANT)).toHaveLength(1);
+    expect(store.getConversation("globex", "telegram", "chat-100")!.label).toBe("Mallory");
+    expect(store.getConversation(TENANT, "telegram", "chat-100")!.messageCount).toBe(1);
+
+    expect(store.getStats(TENANT)).toEqual({ messageCount: 1, conversationCount: 1 });
+    expect(store.getStats()).toEqual({ messageCount: 2, conversationCount: 2 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Full-text search
+// ---------------------------------------------------------------------------
+
+describe("ChatRouterStore — search", () => {
+  let store: ChatRouterStore;
+
+  beforeEach(() => {
+    store = new ChatRouterStore(":memory:");
+    store.init();
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  function add(id: string, text: string | null, overrides: Partial<TimelineEntryInput> = {}) {
+    return store.ingestTransaction(makeEntry({ platformMessageId: id, text, ...overrides }), "Alice");
+  }
+
+  it("ranks entries that match more often first", () => {
+    add("a", "the invoice was sent");
+    add("b", "invoice invoice invoice, where is the invoice");
+    add("c", "nothing relevant");
+
+    const results = store.search(TENANT, "invoice");
+    expect(results.map((r) => r.entry.platformMessageId)).toEqual(["b", "a"]);
+    expect(results[0].rank).toBeLessThanOrEqual(results[1].rank);
+  });
+
+  it("requires every term and supports prefix terms", () => {
+    add("a", "release notes for v2");
+    add("b", "release party");
+
+    expect(store.search(TENANT, "release notes").map((r) => r.entry.platformMessageId)).toEqual(["a"]);
+    expect(store.search(TENANT, "not*")).toHaveLength(1);
+  });
+
+  it("matches regardless of case and diacritics", () => {
+    add("a", "Café Über Straße");
+
+    expect(store.search(TENANT, "cafe")).toHaveLength(1);
+    expect(store.search(TENANT, "UBER")).toHaveLength(1);
+  });
+
+  it("treats FTS syntax in the query as literal text", () => {
+    add("a", "error: \"quoted\" AND more");
+
+    expect(() => store.search(TENANT, 'error: "quoted AND NEAR(')).not.toThrow();
+    expect(store.search(TENANT, "AND")).toHaveLength(1);
+    expect(store.search(TENANT, "   ")).toEqual([]);
+  });
+
+  it("applies platform, chat and time filters", () => {
+    add("a", "ping", { timestamp: 1000 });
+    add("b", "ping", { platformChatId: "chat-200", timestamp: 2000 });
+    add("c", "ping", { platform: "discord", timestamp: 3000 });
+
+    const ids = (filters: Parameters<ChatRouterStore["search"]>[2]) =>
+      store.search(TENANT, "ping", filters).map((r) => r.entry.platformMessageId).sort();
+
+    expect(ids({ platform: "telegram" })).toEqual(["a", "b"]);
+    expect(ids({ platformChatId: "chat-200" })).toEqual(["b"]);
+    expect(ids({ from: 1500, to: 3000 })).toEqual(["b", "c"]);
+  });
+
+  it("never returns another tenant's entries", () => {
+    add("a", "secret plans", { tenantId: "globex" });
+    expect(store.search(TENANT, "secret")).toEqual([]);
+    expect(store.search("globex", "secret")).toHaveLength(1);
+  });
+
+  it("highlights matches in the snippet and skips entries without text", () => {
+    add("a", null);
+    add("b", "the quick brown fox");
+
+    const [hit] = store.search(TENANT, "quick");
+    expect(hit.snippet).toBe("the <mark>quick</mark> brown fox");
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -215,6 +351,7 @@ describe("ChatRouterStore — file persistence", () => {
 
     store1.ingestTransaction(
       {
+        tenantId: TENANT,
         direction: "in",
         platform: "telegram",
         platformMessageId: "persist-msg-1",
@@ -243,12 +380,12 @@ describe("ChatRouterStore — file persistence", () => {
     expect(stats2.messageCount).toBe(1);
     expect(stats2.conversationCount).toBe(1);
 
-    const timeline = store2.getTimeline("telegram", "persist-chat");
+    const timeline = store2.getTimeline(TENANT, "telegram", "persist-chat");
     expect(timeline).toHaveLength(1);
     expect(timeline[0].text).toBe("Hello from session 1");
     expect(timeline[0].senderName).toBe("Alice");
 
-    const convo = store2.getConversation("telegram", "persist-chat");
+    const convo = store2.getConversation(TENANT, "telegram", "persist-chat");
     expect(convo).not.toBeNull();
     expect(convo!.label).toBe("Alice");
     expect(convo!.messageCount).toBe(1);
@@ -256,12 +393,36 @@ describe("ChatRouterStore — file persistence", () => {
     store2.close();
   });
 
+  it("keeps outbound entries pending across a restart until updated", () => {
+    const store1 = new ChatRouterStore(dbPath);
+    store1.init();
+    const entry = store1.ingestTransaction(
+      makeEntry({ direction: "out", platformMessageId: "router-1", text: "Reply" }),
+      "System",
+    );
+    store1.close();
+
+    const store2 = new ChatRouterStore(dbPath);
+    store2.init();
+    expect(store2.listPendingDeliveries(TENANT).map((e) => e.id)).toEqual([entry.id]);
+
+    const delivery = store2.updateDelivery(TENANT, entry.id, {
+      status: "delivered",
+      attempts: 1,
+      lastError: null,
+    });
+    expect(delivery!.deliveredAt).not.toBeNull();
+    expect(store2.listPendingDeliveries(TENANT)).toEqual([]);
+    store2.close();
+  });
+
   it("accumulates data across multiple sessions", () => {
     // Session 1
     const store1 = new ChatRouterStore(dbPath);
     store1.init();
     store1.ingestTransaction(
       {
+        tenantId: TENANT,
         direction: "in",
         platform: "telegram",
         platformMessageId: "msg-1",
@@ -282,6 +443,7 @@ describe("ChatRouterStore — file persistence", () => {
     store2.init();
     store2.ingestTransaction(
       {
+        tenantId: TENANT,
         direction: "in",
         platform: "telegram",
         platformMessageId: "msg-2",
@@ -300,7 +462,7 @@ describe("ChatRouterStore — file persistence", () => {
     expect(stats.messageCount).toBe(2);
     expect(stats.conversationCount).toBe(1);
 
-    const convo = store2.getConversation("telegram", "chat-1");
+    const convo = store2.getConversation(TENANT, "telegram", "chat-1");
     expect(convo!.messageCount).toBe(2);
 
     store2.close();
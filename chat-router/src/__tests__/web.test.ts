@@ -0,0 +1,453 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import http from "http";
+import request from "supertest";
+import { WebSocket } from "ws";
+import { ChatRouterStore } from "../db/store";
+import { ChatRouterService } from "../service";
+import { createServer } from "../api/server";
+import { attachWebSocket } from "../ws/adapter";
+import { ApiKeyManager } from "../auth/keys";
+import { WebSessionManager } from "../web/sessions";
+import type { Express } from "express";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const TENANT = "acme";
+
+/** Resolve with the open socket, or with the HTTP status of a rejected upgrade. */
+function tryConnect(port: number, query: string): Promise<WebSocket | number> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/ws${query}`);
+    ws.on("open", () => resolve(ws));
+    ws.on("unexpected-response", (_req, res) => resolve(res.statusCode ?? 0));
+    ws.on("error", reject);
+  });
+}
+
+/** Send a JSON request and collect the pushes that precede its response or error. */
+function wsRequest(ws: WebSocket, payload: unknown): Promise<{ pushes: any[]; reply: any }> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error("ws response timeout")), 3000);
+    const pushes: any[] = [];
+    const onMessage = (raw: Buffer) => {
+      const msg = JSON.parse(raw.toString());
+      if (msg.type !== "response" && msg.type !== "error") {
+        pushes.push(msg);
+        return;
+      }
+      clearTimeout(timeout);
+      ws.off("message", onMessage);
+      resolve({ pushes, reply: msg });
+    };
+    ws.on("message", onMessage);
+    ws.send(JSON.stringify(payload));
+  });
+}
+
+/** Wait for the next WebSocket message (without sending). */
+function wsWaitMessage(ws: WebSocket): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error("ws push timeout")), 3000);
+    ws.once("message", (raw) => {
+      clearTimeout(timeout);
+      resolve(JSON.parse(raw.toString()));
+    });
+  });
+}
+
+// ---------------------------------------------------------------------------
+// WebSessionManager
+// ---------------------------------------------------------------------------
+
+describe("WebSessionManager", () => {
+  let store: ChatRouterStore;
+  let sessions: WebSessionManager;
+
+  beforeEach(() => {
+    store = new ChatRouterStore(":memory:");
+    store.init();
+    sessions = new WebSessionManager(store, [TENANT]);
+  });
+
+  it("creates a session and verifies its token back to it", () => {
+    const { token, session } = sessions.create({ tenantId: TENANT, name: " Dana " });
+
+    expect(token).toMatch(/^wst_/);
+    expect(session.chatId).toMatch(/^web-/);
+    expect(session.name).toBe("Dana");
+
+    const verified = sessions.verify(token);
+    expect(verified).toMatchObject({ id: session.id, tenantId: TENANT, chatId: session.chatId });
+    expect(sessions.verify(token)!.lastUsedAt).not.toBeNull();
+  });
+
+  it("names visitors who give no name", () => {
+    expect(sessions.create({ tenantId: TENANT }).session.name).toBe("Visitor");
+  });
+
+  it("rejects tenants web chat is not enabled for and bad names", () => {
+    expect(() => sessions.create({ tenantId: "other" })).toThrow("not enabled");
+    expect(() => sessions.create({ tenantId: TENANT, name: "x".repeat(65) })).toThrow(
+      "1-64 characters",
+    );
+  });
+
+  it("stops accepting tokens once web chat is disabled for the tenant", () => {
+    const { token } = sessions.create({ tenantId: TENANT });
+
+    expect(new WebSessionManager(store, ["other"]).verify(token)).toBeNull();
+    expect(sessions.verify("wst_unknown")).toBeNull();
+    expect(sessions.verify("crk_not-a-session")).toBeNull();
+  });
+
+  it("rejects malformed tenant IDs", () => {
+    expect(() => new WebSessionManager(store, ["Not A Tenant"])).toThrow("invalid tenant ID");
+  });
+
+  describe("expiry", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("expires sessions left idle and sweeps them", () => {
+      vi.useFakeTimers({ toFake: ["Date"], now: Date.UTC(2026, 0, 1) });
+      const bounded = new WebSessionManager(store, [TENANT], { idleMs: 60_000 });
+      const idle = bounded.create({ tenantId: TENANT });
+      const active = bounded.create({ tenantId: TENANT });
+
+      vi.advanceTimersByTime(40_000);
+      expect(bounded.verify(active.token)).not.toBeNull();
+      vi.advanceTimersByTime(40_000);
+
+      expect(bounded.verify(idle.token)).toBeNull();
+      expect(bounded.verify(active.token)).not.toBeNull();
+      expect(bounded.sweep()).toBe(1);
+      expect(store.countWebSessions(TENANT)).toBe(1);
+    });
+
+    it("refuses new sessions beyond the cap until old ones expire", () => {
+      vi.useFakeTimers({ toFake: ["Date"], now: Date.UTC(2026, 0, 1) });
+      const bounded = new WebSessionManager(store, [TENANT], { idleMs: 60_000, maxSessions: 2 });
+      bounded.create({ tenantId: TENANT });
+      bounded.create({ tenantId: TENANT });
+
+      expect(bounded.hasRoom(TENANT)).toBe(false);
+      expect(() => bounded.create({ tenantId: TENANT })).toThrow("too many live sessions");
+
+      vi.advanceTimersByTime(60_001);
+      expect(bounded.create({ tenantId: TENANT }).session.tenantId).toBe(TENANT);
+      expect(store.countWebSessions(TENANT)).toBe(1);
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// HTTP endpoints
+// ---------------------------------------------------------------------------
+
+describe("Web chat HTTP endpoints", () => {
+  let store: ChatRouterStore;
+  let service: ChatRouterService;
+  let app: Express;
+
+  beforeEach(() => {
+    store = new ChatRouterStore(":memory:");
+    store.init();
+    service = new ChatRouterService(store);
+    app = createServer(service, undefined, {
+      apiKeys: new ApiKeyManager(store),
+      webChat: new WebSessionManager(store, [TENANT]),
+    });
+  });
+
+  async function startSession(): Promise<{ token: string; chatId: string }> {
+    const res = await request(app).post("/web/sessions").send({ name: "Dana" }).expect(201);
+    return res.body;
+  }
+
+  it("serves the widget without an API key", async () => {
+    const res = await request(app).get("/web/widget.js").expect(200);
+
+    expect(res.headers["content-type"]).toContain("javascript");
+    expect(res.text).toContain("/web/sessions");
+  });
+
+  it("starts a session for the only enabled tenant", async () => {
+    const res = await request(app).post("/web/sessions").send({}).expect(201);
+
+    expect(res.body.token).toMatch(/^wst_/);
+    expect(res.body).toMatchObject({ tenantId: TENANT, name: "Visitor" });
+    expect(res.body.chatId).toMatch(/^web-/);
+  });
+
+  it("refuses sessions for other tenants and invalid names", async () => {
+    await request(app).post("/web/sessions").send({ tenant: "other" }).expect(403);
+    await request(app).post("/web/sessions").send({ name: "" }).expect(400);
+  });
+
+  it("ingests the visitor's messages as web messages of their conversation", async () => {
+    const { token, chatId } = await startSession();
+
+    const res = await request(app)
+      .post("/web/messages")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ text: "Hi there", clientMessageId: "c-1" })
+      .expect(201);
+
+    expect(res.body).toMatchObject({
+      tenantId: TENANT,
+      direction: "in",
+      platform: "web",
+      platformChatId: chatId,
+      platformMessageId: "c-1",
+      senderName: "Dana",
+      senderId: chatId,
+      text: "Hi there",
+    });
+  });
+
+  it("returns the original entry for a retried message", async () => {
+    const { token } = await startSession();
+    const send = () =>
+      request(app)
+        .post("/web/messages")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ text: "Hi there", clientMessageId: "c-1" });
+
+    const first = await send().expect(201);
+    const retry = await send().expect(200);
+
+    expect(retry.body.id).toBe(first.body.id);
+  });
+
+  it("validates the message text", async () => {
+    const { token } = await startSession();
+    const post = (body: object) =>
+      request(app).post("/web/messages").set("Authorization", `Bearer ${token}`).send(body);
+
+    await post({ text: "  " }).expect(400);
+    await post({ text: "x".repeat(4001) }).expect(400);
+    await post({ text: "Hi", clientMessageId: 7 }).expect(400);
+  });
+
+  it("lists only the session's own conversation, replies included", async () => {
+    const a = await startSession();
+    const b = await startSession();
+    await request(app)
+      .post("/web/messages")
+      .set("Authorization", `Bearer ${a.token}`)
+      .send({ text: "From A" });
+    await request(app)
+      .post("/web/messages")
+      .set("Authorization", `Bearer ${b.token}`)
+      .send({ text: "From B" });
+    service.recordResponse({
+      tenantId: TENANT,
+      platform: "web",
+      platformChatId: a.chatId,
+      text: "Reply to A",
+    });
+
+    const res = await request(app)
+      .get("/web/messages")
+      .set("Authorization", `Bearer ${a.token}`)
+      .expect(200);
+
+    expect(res.body.map((e: any) => e.text)).toEqual(["Reply to A", "From A"]);
+  });
+
+  it("requires a valid session token", async () => {
+    const missing = await request(app).get("/web/messages").expect(401);
+    expect(missing.body.error).toBe("Web session required");
+
+    const invalid = await request(app)
+      .get("/web/messages")
+      .set("Authorization", "Bearer wst_nope")
+      .expect(401);
+    expect(invalid.body.error).toBe("Invalid web session");
+  });
+
+  it("does not let a session token into /api", async () => {
+    const { token } = await startSession();
+
+    await request(app).get("/api/timeline").set("Authorization", `Bearer ${token}`).expect(401);
+  });
+
+  it("limits how many sessions one IP may start", async () => {
+    const limited = createServer(service, undefined, {
+      webChat: new WebSessionManager(store, [TENANT]),
+      webChatLimits: { sessionsPerIpPerHour: 2 },
+    });
+    await request(limited).post("/web/sessions").send({}).expect(201);
+    await request(limited).post("/web/sessions").send({}).expect(201);
+
+    const res = await request(limited).post("/web/sessions").send({}).expect(429);
+
+    expect(Number(res.headers["retry-after"])).toBeGreaterThan(0);
+    expect(res.body.error).toBe("Too many requests, slow down");
+  });
+
+  it("refuses new sessions once the tenant has too many", async () => {
+    const full = createServer(service, undefined, {
+      webChat: new WebSessionManager(store, [TENANT], { maxSessions: 1 }),
+    });
+    await request(full).post("/web/sessions").send({}).expect(201);
+
+    const res = await request(full).post("/web/sessions").send({}).expect(503);
+
+    expect(res.body.error).toBe("Too many web chat sessions, try again later");
+  });
+
+  it("limits messages per session and per IP", async () => {
+    const limited = createServer(service, undefined, {
+      webChat: new WebSessionManager(store, [TENANT]),
+      webChatLimits: { messagesPerSessionPerMinute: 2, messagesPerIpPerMinute: 3 },
+    });
+    const start = async () =>
+      (await request(limited).post("/web/sessions").send({}).expect(201)).body.token;
+    const send = (token: string) =>
+      request(limited)
+        .post("/web/messages")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ text: "Hi" });
+    const a = await start();
+    const b = await start();
+
+    await send(a).expect(201);
+    await send(a).expect(201);
+    const perSession = await send(a).expect(429);
+    expect(perSession.headers["retry-after"]).toBeDefined();
+
+    // The refused message still counted against the IP
+    const perIp = await send(b).expect(429);
+    expect(perIp.body.error).toBe("Too many requests, slow down");
+    const listed = await request(limited)
+      .get("/web/messages")
+      .set("Authorization", `Bearer ${a}`)
+      .expect(200);
+    expect(listed.body).toHaveLength(2);
+  });
+
+  it("is not served unless enabled", async () => {
+    const plain = createServer(service, undefined, { apiKeys: new ApiKeyManager(store) });
+
+    await request(plain).post("/web/sessions").send({}).expect(404);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// WebSocket
+// ---------------------------------------------------------------------------
+
+describe("Web chat WebSocket", () => {
+  let store: ChatRouterStore;
+  let service: ChatRouterService;
+  let sessions: WebSessionManager;
+  let server: http.Server;
+  let port: number;
+  let clients: WebSocket[];
+
+  beforeEach(async () => {
+    store = new ChatRouterStore(":memory:");
+    store.init();
+    service = new ChatRouterService(store);
+    const apiKeys = new ApiKeyManager(store);
+    sessions = new WebSessionManager(store, [TENANT]);
+
+    server = http.createServer(createServer(service, undefined, { apiKeys, webChat: sessions }));
+    attachWebSocket(server, service, { apiKeys, webSessions: sessions });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+    const addr = server.address();
+    port = typeof addr === "object" && addr ? addr.port : 0;
+    clients = [];
+  });
+
+  afterEach(async () => {
+    for (const ws of clients) ws.close();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  async function connectVisitor(): Promise<{ ws: WebSocket; chatId: string }> {
+    const { token, session } = sessions.create({ tenantId: TENANT });
+    const ws = await tryConnect(port, `?session=${token}`);
+    if (typeof ws === "number") throw new Error(`upgrade rejected with ${ws}`);
+    clients.push(ws);
+    return { ws, chatId: session.chatId };
+  }
+
+  function reply(chatId: string, text = "Hello from the agent") {
+    return service.recordResponse({
+      tenantId: TENANT,
+      platform: "web",
+      platformChatId: chatId,
+      text,
+    });
+  }
+
+  it("rejects an unknown session token", async () => {
+    expect(await tryConnect(port, "?session=wst_nope")).toBe(401);
+  });
+
+  it("limits the subscription to the visitor's replies, whatever was asked", async () => {
+    const { ws, chatId } = await connectVisitor();
+
+    const { reply: res } = await wsRequest(ws, { type: "subscribe", platform: "telegram" });
+
+    expect(res.data.filter).toEqual({ platform: "web", chatIds: [chatId], direction: "out" });
+  });
+
+  it("pushes replies to the visitor's conversation only", async () => {
+    const visitor = await connectVisitor();
+    const other = await connectVisitor();
+    await wsRequest(visitor.ws, { type: "subscribe" });
+    await wsRequest(other.ws, { type: "subscribe" });
+
+    const push = wsWaitMessage(visitor.ws);
+    reply(other.chatId, "Not yours");
+    reply(visitor.chatId);
+
+    expect((await push).entry.text).toBe("Hello from the agent");
+  });
+
+  it("replays pending replies and stops once the visitor acks them", async () => {
+    const { ws, chatId } = await connectVisitor();
+    const entry = reply(chatId);
+
+    const first = await wsRequest(ws, { type: "subscribe" });
+    expect(first.pushes.map((p) => p.entry.id)).toEqual([entry.id]);
+
+    const ack = await wsRequest(ws, { type: "ack", id: entry.id });
+    expect(ack.reply.data.status).toBe("delivered");
+
+    const second = await wsRequest(ws, { type: "subscribe" });
+    expect(second.pushes).toEqual([]);
+  });
+
+  it("does not let a visitor ack another conversation's reply", async () => {
+    const { ws } = await connectVisitor();
+    const other = await connectVisitor();
+    const entry = reply(other.chatId);
+
+    const { reply: res } = await wsRequest(ws, { type: "ack", id: entry.id });
+
+    expect(res).toEqual({ type: "error", message: `ack: no delivery for entry ${entry.id}` });
+    expect(store.getDelivery(TENANT, entry.id)!.status).toBe("pending");
+  });
+
+  it("refuses every other request", async () => {
+    const { ws } = await connectVisitor();
+
+    const { reply: res } = await wsRequest(ws, { type: "unified_timeline" });
+
+    expect(res).toEqual({
+      type: "error",
+      message: "not allowed for a web chat session: unified_timeline",
+    });
+  });
+
+  it("still requires an API key without a session", async () => {
+    expect(await tryConnect(port, `?tenant=${TENANT}`)).toBe(401);
+  });
+});
@@ -1,18 +1,23 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import http from "http";
-import { WebSocket } from "ws";
+import type { Socket } from "net";
+import { WebSocket, WebSocketServer } from "ws";
 import { ChatRouterStore } from "../db/store";
 import { ChatRouterService } from "../service";
 import { createServer } from "../api/server";
 import { attachWebSocket } from "../ws/adapter";
+import { ChatRouterSocket } from "../ws/client";
 import type { InboundMessage } from "../types";
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
+const TENANT = "acme";
+
 function makeInbound(overrides: Partial<InboundMessage> = {}): InboundMessage {
   return {
+    tenantId: TENANT,
     platform: "telegram",
     platformMessageId: "msg-1",
     platformChatId: "chat-100",
@@ -56,10 +61,30 @@ function wsWaitMessage(ws: WebSocket): Promise<any> {
   });
 }
 
+/** Send `subscribe` and collect replayed pushes until its response. */
+function subscribe(ws: WebSocket, payload: Record<string, unknown> = {}): Promise<{ pushes: any[]; response: any }> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error("ws subscribe timeout")), 3000);
+    const pushes: any[] = [];
+    const onMessage = (raw: Buffer) => {
+      const msg = JSON.parse(raw.toString());
+      if (msg.type === "new_message") {
+        pushes.push(msg);
+        return;
+      }
+      clearTimeout(timeout);
+      ws.off("message", onMessage);
+      resolve({ pushes, response: msg });
+    };
+    ws.on("message", onMessage);
+    ws.send(JSON.stringify({ type: "subscribe", ...payload }));
+  });
+}
+
 /** Connect a WebSocket client and wait for it to open. */
-function connectWs(port: number): Promise<WebSocket> {
+function connectWs(port: number, tenantId: string = TENANT): Promise<WebSocket> {
   return new Promise((resolve, reject) => {
-    const ws = new WebSocket(`ws://127.0.0.1:${port}/ws`);
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/ws?tenant=${tenantId}`);
     ws.on("open", () => resolve(ws));
     ws.on("error", reject);
   });
@@ -110,8 +135,8 @@ describe("WebSocket adapter", () => {
   });
 
   /** Helper to connect and track the client for cleanup. */
-  async function connect(): Promise<WebSocket> {
-    const ws = await connectWs(port);
+  async function connect(tenantId?: string): Promise<WebSocket> {
+    const ws = await connectWs(port, tenantId);
     clients.push(ws);
     return ws;
   }
@@ -192,6 +217,27 @@ describe("WebSocket adapter", () => {
 
   // ----- Malformed JSON -----
 
+  it("responds to a search request", async () => {
+    service.ingestMessage(makeInbound({ text: "where is the invoice" }));
+    service.ingestMessage(makeInbound({ platformMessageId: "msg-2", text: "hello again" }));
+
+    const ws = await connect();
+    const resp = await wsRequest(ws, { type: "search", query: "invoice" });
+
+    expect(resp.type).toBe("response");
+    expect(resp.requestType).toBe("search");
+    expect(resp.data).toHaveLength(1);
+    expect(resp.data[0].snippet).toContain("<mark>invoice</mark>");
+  });
+
+  it("returns an error for a search without a query", async () => {
+    const ws = await connect();
+    const resp = await wsRequest(ws, { type: "search", query: "" });
+
+    expect(resp.type).toBe("error");
+    expect(resp.message).toContain("query is required");
+  });
+
   it("returns an error for malformed JSON", async () => {
     const ws = await connect();
 
@@ -223,6 +269,7 @@ describe("WebSocket adapter", () => {
 
   it("pushes new_message to connected clients when a message is ingested", async () => {
     const ws = await connect();
+    await subscribe(ws);
 
     // Set up listener before ingesting
     const pushPromise = wsWaitMessage(ws);
@@ -244,9 +291,11 @@ describe("WebSocket adapter", () => {
     service.ingestMessage(makeInbound());
 
     const ws = await connect();
+    await subscribe(ws);
     const pushPromise = wsWaitMessage(ws);
 
     service.recordResponse({
+      tenantId: TENANT,
       platform: "telegram",
       platformChatId: "chat-100",
       text: "System reply",
@@ -258,4 +307,567 @@ describe("WebSocket adapter", () => {
     expect(push.entry.direction).toBe("out");
     expect(push.entry.text).toBe("System reply");
   });
+
+  it("pushes message_edited and message_deleted for responses", async () => {
+    service.ingestMessage(makeInbound());
+    const entry = service.recordResponse({
+      tenantId: TENANT,
+      platform: "telegram",
+      platformChatId: "chat-100",
+      text: "Draft",
+    });
+
+    const ws = await connect();
+    await subscribe(ws, { sinceId: entry.id });
+
+    const edited = wsWaitMessage(ws);
+    service.editResponse({ tenantId: TENANT, timelineId: entry.id, text: "Final" });
+    const editPush = await edited;
+    expect(editPush.type).toBe("message_edited");
+    expect(editPush.entry.text).toBe("Final");
+    expect(editPush.revision).toMatchObject({ kind: "edit", previousText: "Draft" });
+
+    const deleted = wsWaitMessage(ws);
+    service.deleteResponse(TENANT, entry.id);
+    const deletePush = await deleted;
+    expect(deletePush.type).toBe("message_deleted");
+    expect(deletePush.entry.deletedAt).not.toBeNull();
+    expect(deletePush.revision.previousText).toBe("Final");
+  });
+
+  it("pushes chat_action to subscribers of the conversation's replies", async () => {
+    const entry = service.ingestMessage(makeInbound());
+
+    const ws = await connect();
+    await subscribe(ws, { platform: "telegram", direction: "out" });
+    const pushed = wsWaitMessage(ws);
+
+    service.startProcessing(TENANT, entry.id);
+
+    const push = await pushed;
+    expect(push.type).toBe("chat_action");
+    expect(push.state).toMatchObject({
+      platformChatId: "chat-100",
+      platformMessageId: "msg-1",
+      status: "processing",
+    });
+  });
+
+  // ----- Tenant scoping -----
+
+  it("scopes requests to the connection's tenant", async () => {
+    service.ingestMessage(makeInbound());
+
+    const ws = await connect("globex");
+    const resp = await wsRequest(ws, { type: "conversations" });
+
+    expect(resp.type).toBe("response");
+    expect(resp.data).toHaveLength(0);
+  });
+
+  it("only pushes entries to sockets of the same tenant", async () => {
+    const other = await connect("globex");
+    const own = await connect();
+    await subscribe(other);
+    await subscribe(own);
+
+    const otherMessages: unknown[] = [];
+    other.on("message", (raw) => otherMessages.push(JSON.parse(raw.toString())));
+
+    const pushPromise = wsWaitMessage(own);
+    service.ingestMessage(makeInbound({ text: "tenant only" }));
+
+    const push = await pushPromise;
+    expect(push.entry.tenantId).toBe(TENANT);
+
+    // Round-trip on the other socket to make sure nothing was queued for it
+    await wsRequest(other, { type: "health" });
+    expect(otherMessages).toHaveLength(1);
+  });
+
+  // ----- Delivery acknowledgements -----
+
+  function recordReply(text: string) {
+    return service.recordResponse({
+      tenantId: TENANT,
+      platform: "telegram",
+      platformChatId: "chat-100",
+      text,
+    });
+  }
+
+  it("replays unacknowledged responses on subscribe", async () => {
+    const entry = recordReply("sent while offline");
+
+    const ws = await connect();
+    const { pushes, response } = await subscribe(ws);
+
+    expect(pushes).toHaveLength(1);
+    expect(pushes[0].redelivered).toBe(true);
+    expect(pushes[0].entry.id).toBe(entry.id);
+    expect(response.requestType).toBe("subscribe");
+    expect(response.data).toEqual({ filter: {}, replayed: 1 });
+  });
+
+  it("stops replaying a response once it is acked", async () => {
+    const entry = recordReply("ack me");
+
+    const ws = await connect();
+    await subscribe(ws);
+
+    const resp = await wsRequest(ws, { type: "ack", id: entry.id });
+    expect(resp.type).toBe("response");
+    expect(resp.requestType).toBe("ack");
+    expect(resp.data.status).toBe("delivered");
+
+    const again = await connect();
+    const { pushes } = await subscribe(again);
+    expect(pushes).toHaveLength(0);
+  });
+
+  it("replays every outbound entry after sinceId, oldest first", async () => {
+    const first = recordReply("one");
+    const second = recordReply("two");
+    const third = recordReply("three");
+    service.acknowledgeDelivery(TENANT, first.id);
+    service.acknowledgeDelivery(TENANT, second.id);
+    service.acknowledgeDelivery(TENANT, third.id);
+    service.ingestMessage(makeInbound({ platformMessageId: "msg-late" }));
+
+    const ws = await connect();
+    const { pushes } = await subscribe(ws, { sinceId: first.id });
+
+    expect(pushes.map((p) => p.entry.id)).toEqual([second.id, third.id]);
+  });
+
+  it("includes older pending entries when replaying after sinceId", async () => {
+    const pending = recordReply("never acked");
+    const acked = recordReply("acked");
+    service.acknowledgeDelivery(TENANT, acked.id);
+
+    const ws = await connect();
+    const { pushes } = await subscribe(ws, { sinceId: acked.id });
+
+    expect(pushes.map((p) => p.entry.id)).toEqual([pending.id]);
+  });
+
+  it("filters the replay by platform", async () => {
+    recordReply("telegram reply");
+    service.recordResponse({
+      tenantId: TENANT,
+      platform: "discord",
+      platformChatId: "d-1",
+      text: "discord reply",
+    });
+
+    const ws = await connect();
+    const { pushes } = await subscribe(ws, { platform: "discord" });
+
+    expect(pushes.map((p) => p.entry.text)).toEqual(["discord reply"]);
+  });
+
+  it("does not push anything on connect before subscribe", async () => {
+    recordReply("waiting");
+
+    const ws = await connect();
+    const health = await wsRequest(ws, { type: "health" });
+    expect(health.requestType).toBe("health");
+  });
+
+  it("keeps a nacked response pending with its error", async () => {
+    const entry = recordReply("nack me");
+
+    const ws = await connect();
+
+    const resp = await wsRequest(ws, { type: "nack", id: entry.id, error: "flood wait" });
+    expect(resp.requestType).toBe("nack");
+    expect(resp.data.status).toBe("pending");
+    expect(resp.data.lastError).toBe("flood wait");
+  });
+
+  it("records platform message IDs sent with the ack", async () => {
+    const entry = recordReply("split reply");
+
+    const ws = await connect();
+    const resp = await wsRequest(ws, {
+      type: "ack",
+      id: entry.id,
+      platformMessageIds: ["77", "78"],
+    });
+
+    expect(resp.data.status).toBe("delivered");
+    const [stored] = service.getUnifiedTimeline({ tenantId: TENANT });
+    expect(stored.platformMessageIds).toEqual(["77", "78"]);
+  });
+
+  it("rejects an ack for an unknown entry", async () => {
+    const ws = await connect();
+    const resp = await wsRequest(ws, { type: "ack", id: 999 });
+
+    expect(resp.type).toBe("error");
+    expect(resp.message).toContain("no delivery");
+  });
+
+  it("does not replay another tenant's responses", async () => {
+    recordReply("acme only");
+
+    const other = await connect("globex");
+    const { pushes } = await subscribe(other);
+    expect(pushes).toHaveLength(0);
+  });
+
+  // ----- Filtered subscriptions -----
+
+  it("does not push to sockets that have not subscribed", async () => {
+    const ws = await connect();
+    const received: unknown[] = [];
+    ws.on("message", (raw) => received.push(JSON.parse(raw.toString())));
+
+    service.ingestMessage(makeInbound());
+
+    await wsRequest(ws, { type: "health" });
+    expect(received).toHaveLength(1);
+  });
+
+  it("only pushes entries matching the subscription filter", async () => {
+    const ws = await connect();
+    await subscribe(ws, { platform: "telegram", chatIds: ["chat-200"], direction: "in" });
+
+    const pushes: any[] = [];
+    ws.on("message", (raw) => {
+      const msg = JSON.parse(raw.toString());
+      if (msg.type === "new_message") pushes.push(msg);
+    });
+
+    service.ingestMessage(makeInbound({ platformMessageId: "a", platformChatId: "chat-100" }));
+    service.ingestMessage(makeInbound({ platformMessageId: "b", platform: "discord", platformChatId: "chat-200" }));
+    service.recordResponse({ tenantId: TENANT, platform: "telegram", platformChatId: "chat-200", text: "out" });
+    service.ingestMessage(makeInbound({ platformMessageId: "c", platformChatId: "chat-200", text: "match" }));
+
+    await wsRequest(ws, { type: "health" });
+    expect(pushes.map((p) => p.entry.text)).toEqual(["match"]);
+  });
+
+  it("replaces the filter on a second subscribe", async () => {
+    const ws = await connect();
+    await subscribe(ws, { platform: "discord" });
+    const { response } = await subscribe(ws, { platform: "telegram" });
+    expect(response.data.filter).toEqual({ platform: "telegram" });
+
+    const pushPromise = wsWaitMessage(ws);
+    service.ingestMessage(makeInbound({ text: "telegram again" }));
+    expect((await pushPromise).entry.text).toBe("telegram again");
+  });
+
+  it("stops pushing after unsubscribe", async () => {
+    const ws = await connect();
+    await subscribe(ws);
+
+    const resp = await wsRequest(ws, { type: "unsubscribe" });
+    expect(resp.requestType).toBe("unsubscribe");
+
+    const received: unknown[] = [];
+    ws.on("message", (raw) => received.push(JSON.parse(raw.toString())));
+    service.ingestMessage(makeInbound());
+
+    await wsRequest(ws, { type: "health" });
+    expect(received).toHaveLength(1);
+  });
+
+  it("narrows the replay to the subscribed chats", async () => {
+    recordReply("chat-100 reply");
+    service.recordResponse({ tenantId: TENANT, platform: "telegram", platformChatId: "chat-200", text: "chat-200 reply" });
+
+    const ws = await connect();
+    const { pushes } = await subscribe(ws, { chatIds: ["chat-200"] });
+    expect(pushes.map((p) => p.entry.text)).toEqual(["chat-200 reply"]);
+  });
+
+  it("rejects a subscription to another tenant", async () => {
+    const ws = await connect();
+    const resp = await wsRequest(ws, { type: "subscribe", tenantId: "globex" });
+
+    expect(resp.type).toBe("error");
+    expect(resp.message).toContain("another tenant");
+  });
+
+  it("rejects a malformed filter", async () => {
+    const ws = await connect();
+    const resp = await wsRequest(ws, { type: "subscribe", direction: "sideways" });
+
+    expect(resp.type).toBe("error");
+    expect(resp.message).toContain("direction");
+  });
+
+  it("rejects queries and subscriptions for a platform the tenant does not know", async () => {
+    const ws = await connect();
+
+    const timeline = await wsRequest(ws, {
+      type: "timeline",
+      platform: "bogus",
+      platformChatId: "chat-1",
+    });
+    const conversations = await wsRequest(ws, { type: "conversations", platform: "bogus" });
+    const search = await wsRequest(ws, { type: "search", query: "hi", platform: "bogus" });
+    const subscribe = await wsRequest(ws, { type: "subscribe", platform: "bogus" });
+
+    expect(timeline.message).toBe('timeline: unknown platform "bogus"');
+    expect(conversations.message).toBe('conversations: unknown platform "bogus"');
+    expect(search.message).toBe('search: unknown platform "bogus"');
+    expect(subscribe.message).toBe('subscribe: unknown platform "bogus"');
+  });
+
+  it("registers a platform and counts the socket as connected until it closes", async () => {
+    const ws = await connect();
+    const platform = () => service.listPlatforms(TENANT).find((p) => p.name === "slack");
+
+    const resp = await wsRequest(ws, {
+      type: "register_platform",
+      name: "slack",
+      maxMessageLength: 40000,
+      features: ["media"],
+    });
+
+    expect(resp).toEqual({
+      type: "response",
+      requestType: "register_platform",
+      data: expect.objectContaining({ name: "slack", features: ["media"], connections: 1 }),
+    });
+
+    // Registering again on the same socket does not count it twice
+    await wsRequest(ws, { type: "register_platform", name: "slack" });
+    expect(platform()!.connections).toBe(1);
+    expect(platform()!.maxMessageLength).toBeNull();
+
+    ws.close();
+    await vi.waitFor(() => expect(platform()!.connections).toBe(0));
+  });
+
+  it("rejects a malformed platform registration", async () => {
+    const ws = await connect();
+    const resp = await wsRequest(ws, { type: "register_platform", name: "" });
+
+    expect(resp.type).toBe("error");
+    expect(resp.message).toContain("registerPlatform: name must be");
+  });
+
+  // ----- Handshake -----
+
+  const HELLO = {
+    type: "hello",
+    protocolVersion: 1,
+    role: "plugin",
+    name: "slack-integration",
+    version: "1.2.0",
+    platform: "slack",
+    capabilities: ["edits", "chat_action"],
+  };
+
+  it("tracks a client that said hello until it closes", async () => {
+    const ws = await connect();
+
+    const resp = await wsRequest(ws, { ...HELLO, capabilities: ["edits", "teleport"] });
+
+    expect(resp.requestType).toBe("hello");
+    expect(resp.data).toMatchObject({
+      tenantId: TENANT,
+      role: "plugin",
+      name: "slack-integration",
+      version: "1.2.0",
+      platform: "slack",
+      protocolVersion: 1,
+      capabilities: ["edits"],
+    });
+    expect(service.listPlugins(TENANT)).toEqual([resp.data]);
+    const health = await wsRequest(ws, { type: "health" });
+    expect(health.data.plugins).toEqual([resp.data]);
+
+    ws.close();
+    await vi.waitFor(() => expect(service.listPlugins(TENANT)).toEqual([]));
+  });
+
+  it("closes the connection on an unsupported protocol version", async () => {
+    const ws = await connect();
+    const closed = new Promise<number>((resolve) => ws.once("close", resolve));
+
+    const resp = await wsRequest(ws, { ...HELLO, protocolVersion: 2 });
+
+    expect(resp).toEqual({
+      type: "error",
+      message: "hello: unsupported protocol version 2 (this router speaks 1)",
+    });
+    expect(await closed).toBe(1002);
+    expect(service.listPlugins()).toEqual([]);
+  });
+
+  it("rejects a malformed or repeated hello", async () => {
+    const ws = await connect();
+
+    const badRole = await wsRequest(ws, { ...HELLO, role: "robot" });
+    expect(badRole.message).toBe("hello: role must be one of plugin, dashboard, cli");
+    const badCapabilities = await wsRequest(ws, { ...HELLO, capabilities: "edits" });
+    expect(badCapabilities.message).toBe("hello: capabilities must be an array of strings");
+
+    await wsRequest(ws, HELLO);
+    const again = await wsRequest(ws, HELLO);
+    expect(again.message).toBe("hello: already introduced on this connection");
+    expect(service.listPlugins(TENANT)).toHaveLength(1);
+  });
+
+  it("only pushes the optional events a client negotiated", async () => {
+    const inbound = service.ingestMessage(makeInbound());
+    const entry = service.recordResponse({
+      tenantId: TENANT,
+      platform: "telegram",
+      platformChatId: "chat-100",
+      text: "Draft",
+    });
+
+    const ws = await connect();
+    await wsRequest(ws, { ...HELLO, capabilities: ["edits"] });
+    await subscribe(ws, { sinceId: entry.id });
+    const pushed = wsWaitMessage(ws);
+
+    service.startProcessing(TENANT, inbound.id);
+    service.editResponse({ tenantId: TENANT, timelineId: entry.id, text: "Final" });
+
+    expect((await pushed).type).toBe("message_edited");
+  });
+
+  // ----- Request IDs -----
+
+  it("echoes the requestId on responses and errors", async () => {
+    const ws = await connect();
+
+    const ok = await wsRequest(ws, { type: "health", requestId: "r-1" });
+    expect(ok).toMatchObject({ type: "response", requestType: "health", requestId: "r-1" });
+
+    const failed = await wsRequest(ws, { type: "search", requestId: "r-2" });
+    expect(failed).toMatchObject({ type: "error", requestId: "r-2" });
+  });
+
+  it("rejects a requestId that is not a string", async () => {
+    const ws = await connect();
+    const resp = await wsRequest(ws, { type: "health", requestId: 7 });
+
+    expect(resp).toEqual({ type: "error", message: "requestId must be a string" });
+  });
+
+  // ----- ChatRouterSocket -----
+
+  const sockets: ChatRouterSocket[] = [];
+  afterEach(() => {
+    for (const socket of sockets.splice(0)) socket.close();
+  });
+
+  async function connectSocket(): Promise<ChatRouterSocket> {
+    const socket = await ChatRouterSocket.connect(`http://127.0.0.1:${port}`, {
+      tenantId: TENANT,
+    });
+    sockets.push(socket);
+    return socket;
+  }
+
+  it("matches concurrent answers to their requests", async () => {
+    service.ingestMessage(makeInbound({ platformChatId: "chat-1", text: "One" }));
+    service.ingestMessage(
+      makeInbound({ platformChatId: "chat-2", platformMessageId: "msg-2", text: "Two" }),
+    );
+    const socket = await connectSocket();
+
+    const [one, two, health] = await Promise.all([
+      socket.request({ type: "timeline", platform: "telegram", platformChatId: "chat-1" }),
+      socket.request({ type: "timeline", platform: "telegram", platformChatId: "chat-2" }),
+      socket.request({ type: "health" }),
+    ]);
+
+    expect(one.map((e) => e.text)).toEqual(["One"]);
+    expect(two.map((e) => e.text)).toEqual(["Two"]);
+    expect(health.messageCount).toBe(2);
+  });
+
+  it("rejects with the router's error and emits pushes", async () => {
+    const socket = await connectSocket();
+
+    await expect(socket.request({ type: "search", query: "" })).rejects.toThrow("search:");
+
+    const pushed = new Promise<any>((resolve) => socket.once("push", resolve));
+    await socket.request({ type: "subscribe", direction: "in" });
+    service.ingestMessage(makeInbound());
+    expect((await pushed).entry.text).toBe("Hello world");
+  });
+
+  it("reports the close after the router refuses its protocol version", async () => {
+    const socket = await connectSocket();
+    const closed = new Promise<number>((resolve) => socket.once("close", resolve));
+
+    await expect(
+      socket.request({ type: "hello", protocolVersion: 99, role: "cli", name: "test" }),
+    ).rejects.toThrow("unsupported protocol version 99");
+    expect(await closed).toBe(1002);
+    await expect(socket.request({ type: "health" })).rejects.toThrow("health: not connected");
+  });
+
+  describe("against a router that never answers", () => {
+    let silent: WebSocketServer;
+    let silentPort: number;
+
+    beforeEach(async () => {
+      silent = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+      await new Promise<void>((resolve) => silent.once("listening", () => resolve()));
+      silentPort = (silent.address() as { port: number }).port;
+    });
+
+    afterEach(async () => {
+      for (const client of silent.clients) client.terminate();
+      await new Promise<void>((resolve) => silent.close(() => resolve()));
+    });
+
+    async function connectSilent(requestTimeoutMs: number): Promise<ChatRouterSocket> {
+      const socket = await ChatRouterSocket.connect(`http://127.0.0.1:${silentPort}`, {
+        requestTimeoutMs,
+      });
+      sockets.push(socket);
+      return socket;
+    }
+
+    it("rejects a request left unanswered after the timeout", async () => {
+      const socket = await connectSilent(50);
+      const stray = new Promise<any>((resolve) => socket.once("stray", resolve));
+
+      await expect(socket.request({ type: "health" })).rejects.toThrow(
+        "health: no response within 50 ms",
+      );
+
+      // A late answer no longer resolves anything
+      const [server] = silent.clients;
+      server.send(JSON.stringify({ type: "response", requestType: "health", requestId: "1" }));
+      expect((await stray).requestId).toBe("1");
+    });
+
+    it("rejects pending requests when the connection closes", async () => {
+      const socket = await connectSilent(60_000);
+      const pending = socket.request({ type: "health" });
+
+      for (const client of silent.clients) client.close();
+
+      await expect(pending).rejects.toThrow("connection closed");
+    });
+
+    it("rejects pending requests on a socket error instead of throwing it", async () => {
+      const raw = new Promise<Socket>((resolve) =>
+        silent.once("connection", (_ws, req) => resolve(req.socket)),
+      );
+      const socket = await connectSilent(60_000);
+      const closed = new Promise<number>((resolve) => socket.once("close", resolve));
+      const pending = socket.request({ type: "health" });
+
+      // A frame with a reserved opcode, then the server is gone
+      const server = await raw;
+      server.end(Buffer.from([0x83, 0x00]));
+
+      await expect(pending).rejects.toThrow("invalid opcode 3");
+      expect(await closed).toBe(1006);
+    });
+  });
 });
@@ -1,5 +1,8 @@
-import { describe, it, expect, beforeEach, vi } from "vitest";
-import { buildPrompt, triggerAcsJob, type AcsTriggerConfig } from "../trigger";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { buildJobArgs, triggerAcsJob, type AcsTriggerConfig } from "../trigger";
 import type { TimelineEntry } from "../../types";
 
 // ---------------------------------------------------------------------------
@@ -9,9 +12,11 @@ import type { TimelineEntry } from "../../types";
 function makeEntry(overrides: Partial<TimelineEntry> = {}): TimelineEntry {
   return {
     id: 1,
+    tenantId: "acme",
     direction: "in",
     platform: "telegram",
     platformMessageId: "msg-1",
+    platformMessageIds: [],
     platformChatId: "chat-100",
     platformChatType: "private",
     senderName: "Alice",
@@ -19,11 +24,18 @@ function makeEntry(overrides: Partial<TimelineEntry> = {}): TimelineEntry {
     text: "Hello world",
     timestamp: Date.now(),
     platformMeta: null,
+    attachments: [],
+    inReplyTo: null,
+    replyToPlatformMessageId: null,
+    editedAt: null,
+    deletedAt: null,
     createdAt: new Date().toISOString(),
     ...overrides,
   };
 }
 
+const PROMPT = "[ROUTER=http://router:8080] [IN_REPLY_TO=1]\n\nUser message:\nHello world";
+
 function makeConfig(overrides: Partial<AcsTriggerConfig> = {}): AcsTriggerConfig {
   return {
     acsBaseUrl: "http://localhost:3000",
@@ -34,45 +46,42 @@ function makeConfig(overrides: Partial<AcsTriggerConfig> = {}): AcsTriggerConfig
 }
 
 // ---------------------------------------------------------------------------
-// Tests: buildPrompt
+// Tests: buildJobArgs
 // ---------------------------------------------------------------------------
 
-describe("buildPrompt", () => {
-  it("should build correct prompt structure with all metadata fields", () => {
-    const entry = makeEntry({
-      platform: "telegram",
-      platformChatId: "chat-123",
-      id: 42,
-      text: "Test message",
-    });
+describe("buildJobArgs", () => {
+  let promptDir: string;
 
-    const prompt = buildPrompt(entry, "http://router:8080");
+  beforeEach(() => {
+    promptDir = fs.mkdtempSync(path.join(os.tmpdir(), "acs-prompts-"));
+  });
 
-    expect(prompt).toBe(
-      "[ROUTER=http://router:8080] [PLATFORM=telegram] [CHAT_ID=chat-123] [IN_REPLY_TO=42] User message: Test message"
-    );
+  afterEach(() => {
+    fs.rmSync(promptDir, { recursive: true, force: true });
   });
 
-  it("should include entry.text containing newlines", () => {
-    const entry = makeEntry({
-      text: "Line 1\nLine 2\nLine 3",
-    });
+  it("should put the prompt on one line without a prompt directory", () => {
+    const args = buildJobArgs(makeConfig(), makeEntry(), 'Line 1\nShe said "hi"\r\nLine 3');
+
+    expect(args).toBe('-p "Line 1 She said \\"hi\\" Line 3"');
+  });
 
-    const prompt = buildPrompt(entry, "http://router:8080");
+  it("should escape backslashes so the prompt cannot end the argument", () => {
+    const args = buildJobArgs(makeConfig(), makeEntry(), 'C:\\temp\\ and \\" -x');
 
-    expect(prompt).toContain("Line 1\nLine 2\nLine 3");
-    expect(prompt).toMatch(/User message: Line 1\nLine 2\nLine 3$/);
+    expect(args).toBe('-p "C:\\\\temp\\\\ and \\\\\\" -x"');
   });
 
-  it("should include entry.text containing double quotes", () => {
-    const entry = makeEntry({
-      text: 'She said "hello" to me',
-    });
+  it("should write the prompt to a file and point the job at it", () => {
+    const prompt = "[ROUTER=http://router:8080]\n\nLine 1\nLine 2\n";
 
-    const prompt = buildPrompt(entry, "http://router:8080");
+    const args = buildJobArgs(makeConfig({ promptDir }), makeEntry({ id: 42 }), prompt);
 
-    expect(prompt).toContain('She said "hello" to me');
-    expect(prompt).toMatch(/User message: She said "hello" to me$/);
+    const file = path.join(promptDir, "acme-42.md");
+    expect(fs.readFileSync(file, "utf-8")).toBe(prompt);
+    expect(args).toBe(
+      `-p "[PROMPT_FILE=${file}] Read the prompt file and follow its instructions."`,
+    );
   });
 });
 
@@ -90,26 +99,50 @@ describe("triggerAcsJob", () => {
     vi.spyOn(console, "error").mockImplementation(() => {});
   });
 
-  it("should return false for outbound messages (direction='out')", async () => {
+  it("should reject outbound messages (direction='out')", async () => {
     const entry = makeEntry({ direction: "out" });
     const config = makeConfig();
 
-    const result = await triggerAcsJob(config, entry);
-
-    expect(result).toBe(false);
+    await expect(triggerAcsJob(config, entry, PROMPT)).rejects.toThrow(
+      "entry 1 has nothing for the agent to answer"
+    );
     expect(fetchMock).not.toHaveBeenCalled();
   });
 
-  it("should return false when entry.text is null", async () => {
+  it("should reject entries whose text is null", async () => {
     const entry = makeEntry({ text: null });
     const config = makeConfig();
 
-    const result = await triggerAcsJob(config, entry);
-
-    expect(result).toBe(false);
+    await expect(triggerAcsJob(config, entry, PROMPT)).rejects.toThrow(
+      "nothing for the agent to answer"
+    );
     expect(fetchMock).not.toHaveBeenCalled();
   });
 
+  it("should trigger for media without text", async () => {
+    const entry = makeEntry({
+      text: null,
+      attachments: [
+        {
+          type: "photo",
+          fileId: "file-1",
+          mimeType: "image/jpeg",
+          size: 1024,
+          fileName: null,
+          caption: null,
+          blobId: null,
+        },
+      ],
+    });
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({ run_id: "run-123" }),
+    });
+
+    expect(await triggerAcsJob(makeConfig(), entry, PROMPT)).toBe("run-123");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
   it("should escape double quotes in the prompt", async () => {
     const entry = makeEntry({ text: 'Message with "quotes"' });
     const config = makeConfig();
@@ -119,7 +152,7 @@ describe("triggerAcsJob", () => {
       json: async () => ({ run_id: "run-123" }),
     });
 
-    await triggerAcsJob(config, entry);
+    await triggerAcsJob(config, entry, `User message: ${entry.text}`);
 
     expect(fetchMock).toHaveBeenCalledTimes(1);
     const callBody = fetchMock.mock.calls[0][1].body;
@@ -147,14 +180,19 @@ describe("triggerAcsJob", () => {
       json: async () => ({ run_id: "run-123" }),
     });
 
-    await triggerAcsJob(config, entry);
+    await triggerAcsJob(
+      config,
+      entry,
+      "[ROUTER=http://router:9000] [PLATFORM=telegram] [CHAT_ID=chat-456] [IN_REPLY_TO=42]\n" +
+        "User message: Test message",
+    );
 
     expect(fetchMock).toHaveBeenCalledTimes(1);
     const [url, options] = fetchMock.mock.calls[0];
 
     expect(url).toBe("http://acs.example.com/api/jobs/my-job/trigger");
     expect(options.method).toBe("POST");
-    expect(options.headers["Content-Type"]).toBe("application/json");
+    expect(options.headers["Content-Type"]).toBe("application/json; charset=utf-8");
 
     const parsedBody = JSON.parse(options.body);
     expect(parsedBody.args).toContain("[ROUTER=http://router:9000]");
@@ -164,7 +202,7 @@ describe("triggerAcsJob", () => {
     expect(parsedBody.args).toContain("User message: Test message");
   });
 
-  it("should return true on successful trigger", async () => {
+  it("should return the run ID on successful trigger", async () => {
     const entry = makeEntry();
     const config = makeConfig();
 
@@ -173,9 +211,9 @@ describe("triggerAcsJob", () => {
       json: async () => ({ run_id: "run-456" }),
     });
 
-    const result = await triggerAcsJob(config, entry);
+    const result = await triggerAcsJob(config, entry, PROMPT);
 
-    expect(result).toBe(true);
+    expect(result).toBe("run-456");
     expect(console.log).toHaveBeenCalledWith(
       expect.stringContaining("Triggering test-job for entry 1")
     );
@@ -184,7 +222,7 @@ describe("triggerAcsJob", () => {
     );
   });
 
-  it("should return false on non-ok response", async () => {
+  it("should throw on non-ok response", async () => {
     const entry = makeEntry();
     const config = makeConfig();
 
@@ -194,27 +232,18 @@ describe("triggerAcsJob", () => {
       text: async () => "Internal Server Error",
     });
 
-    const result = await triggerAcsJob(config, entry);
-
-    expect(result).toBe(false);
-    expect(console.error).toHaveBeenCalledWith(
-      expect.stringContaining("Trigger failed (500): Internal Server Error")
+    await expect(triggerAcsJob(config, entry, PROMPT)).rejects.toThrow(
+      "Trigger failed (500): Internal Server Error"
     );
   });
 
-  it("should return false on network error", async () => {
+  it("should throw on network error", async () => {
     const entry = makeEntry();
     const config = makeConfig();
 
     fetchMock.mockRejectedValue(new Error("Network failure"));
 
-    const result = await triggerAcsJob(config, entry);
-
-    expect(result).toBe(false);
-    expect(console.error).toHaveBeenCalledWith(
-      expect.stringContaining("Trigger error:"),
-      "Network failure"
-    );
+    await expect(triggerAcsJob(config, entry, PROMPT)).rejects.toThrow("Network failure");
   });
 
   it("should send the full message including content after newlines", async () => {
@@ -228,7 +257,7 @@ describe("triggerAcsJob", () => {
       json: async () => ({ run_id: "run-789" }),
     });
 
-    await triggerAcsJob(config, entry);
+    await triggerAcsJob(config, entry, entry.text!);
 
     expect(fetchMock).toHaveBeenCalledTimes(1);
     const callBody = fetchMock.mock.calls[0][1].body;
@@ -1,3 +1,5 @@
+import fs from "fs";
+import path from "path";
 import type { TimelineEntry } from "../types";
 
 // ---------------------------------------------------------------------------
@@ -8,59 +10,89 @@ export interface AcsTriggerConfig {
   acsBaseUrl: string;
   jobName: string;
   routerUrl: string;
+  /**
+   * `respond` key the job posts its response with. Sent as the job's
+   * `CHAT_ROUTER_API_KEY` environment variable, never in its arguments.
+   */
+  apiKey?: string;
+  /**
+   * Directory the full prompt is written to, one file per entry. Without
+   * it the prompt is squeezed onto the job's command line, losing newlines.
+   */
+  promptDir?: string;
 }
 
 // ---------------------------------------------------------------------------
-// Prompt builder
+// Job arguments
 // ---------------------------------------------------------------------------
 
-export function buildPrompt(entry: TimelineEntry, routerUrl: string): string {
-  let prompt = `[ROUTER=${routerUrl}]`;
-  prompt += ` [PLATFORM=${entry.platform}]`;
-  prompt += ` [CHAT_ID=${entry.platformChatId}]`;
-  prompt += ` [IN_REPLY_TO=${entry.id}]`;
-  prompt += ` User message: ${entry.text}`;
-  return prompt;
+/**
+ * The `-p "..."` argument string for the job. ACS drops everything after a
+ * newline in `args`, so a multi-line prompt is written to a file in
+ * `promptDir` and the job is pointed at it; otherwise newlines become
+ * spaces. Backslashes and double quotes are escaped either way.
+ */
+export function buildJobArgs(
+  config: AcsTriggerConfig,
+  entry: TimelineEntry,
+  prompt: string,
+): string {
+  let text: string;
+  if (config.promptDir) {
+    fs.mkdirSync(config.promptDir, { recursive: true });
+    const file = path.resolve(config.promptDir, `${entry.tenantId}-${entry.id}.md`);
+    fs.writeFileSync(file, prompt, "utf-8");
+    text = `[PROMPT_FILE=${file}] Read the prompt file and follow its instructions.`;
+  } else {
+    text = prompt.replace(/\r?\n/g, " ");
+  }
+  // Backslashes too, or one before a quote would undo its escape
+  return `-p "${text.replace(/[\\"]/g, "\\$&")}"`;
 }
 
 // ---------------------------------------------------------------------------
 // Trigger function
 // ---------------------------------------------------------------------------
 
+/** Whether an entry is something the agent should answer. */
+export function isTriggerable(entry: TimelineEntry): boolean {
+  return entry.direction === "in" && (!!entry.text || entry.attachments.length > 0);
+}
+
+/**
+ * Trigger the ACS job for an inbound entry with the rendered prompt and
+ * return the run ID ACS assigned (null if it reported none). Throws when
+ * ACS is unreachable or rejects the trigger, so the dispatcher can retry it.
+ */
 export async function triggerAcsJob(
   config: AcsTriggerConfig,
   entry: TimelineEntry,
-): Promise<boolean> {
-  if (entry.direction !== "in") return false;
-  if (!entry.text) return false;
+  prompt: string,
+): Promise<string | null> {
+  if (!isTriggerable(entry)) {
+    throw new Error(`entry ${entry.id} has nothing for the agent to answer`);
+  }
 
-  const prompt = buildPrompt(entry, config.routerUrl);
   const url = `${config.acsBaseUrl}/api/jobs/${config.jobName}/trigger`;
-
-  // Strip newlines — ACS drops content after \n
-  const escaped = prompt.replace(/\r?\n/g, " ").replace(/"/g, '\\"');
-  const body = JSON.stringify({ args: `-p "${escaped}"` });
+  const body = JSON.stringify({
+    args: buildJobArgs(config, entry, prompt),
+    ...(config.apiKey && { env: { CHAT_ROUTER_API_KEY: config.apiKey } }),
+  });
 
   console.log(`[acs] Triggering ${config.jobName} for entry ${entry.id}...`);
 
-  try {
-    const res = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json; charset=utf-8" },
-      body,
-    });
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+    body,
+  });
 
-    if (!res.ok) {
-      const text = await res.text();
-      console.error(`[acs] Trigger failed (${res.status}): ${text}`);
-      return false;
-    }
-
-    const data = (await res.json()) as { run_id?: string };
-    console.log(`[acs] Triggered run_id=${data.run_id}`);
-    return true;
-  } catch (err) {
-    console.error(`[acs] Trigger error:`, err instanceof Error ? err.message : err);
-    return false;
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`Trigger failed (${res.status}): ${text}`);
   }
+
+  const data = (await res.json()) as { run_id?: string };
+  console.log(`[acs] Triggered run_id=${data.run_id}`);
+  return data.run_id ?? null;
 }
@@ -0,0 +1,249 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, WebhookBackend, signWebhook } from "../webhook";
+import { SubprocessBackend, type SubprocessBackendConfig } from "../subprocess";
+import { ChatRouterService } from "../../service";
+import { ChatRouterStore } from "../../db/store";
+import type { TimelineEntry } from "../../types";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const TENANT = "acme";
+
+function makeService(): ChatRouterService {
+  const store = new ChatRouterStore(":memory:");
+  store.init();
+  return new ChatRouterService(store);
+}
+
+function ingest(service: ChatRouterService, text = "Hello\nthere"): TimelineEntry {
+  return service.ingestMessage({
+    tenantId: TENANT,
+    platform: "telegram",
+    platformMessageId: "msg-1",
+    platformChatId: "chat-100",
+    platformChatType: "private",
+    senderName: "Alice",
+    senderId: "user-1",
+    text,
+    timestamp: Date.now(),
+  });
+}
+
+/** Run Node as the agent, with `script` as its program. */
+function nodeAgent(
+  service: ChatRouterService,
+  script: string,
+  options: Partial<SubprocessBackendConfig> = {},
+) {
+  return new SubprocessBackend(service, {
+    command: process.execPath,
+    args: ["-e", script],
+    routerUrl: "http://router:8080",
+    ...options,
+  });
+}
+
+/** Echoes stdin, prefixed with the chat ID from the environment. */
+const ECHO_SCRIPT = `
+  let input = "";
+  process.stdin.on("data", (d) => (input += d));
+  process.stdin.on("end", () => {
+    console.log("chat " + process.env.CHAT_ROUTER_CHAT_ID);
+    console.log(input);
+  });`;
+
+// ---------------------------------------------------------------------------
+// Tests: WebhookBackend
+// ---------------------------------------------------------------------------
+
+describe("WebhookBackend", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let service: ChatRouterService;
+  let backend: WebhookBackend;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    service = makeService();
+    backend = new WebhookBackend(service, {
+      url: "http://agent/hook",
+      secret: "s3cret",
+      routerUrl: "http://router:8080",
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("POSTs the payload with a verifiable signature", async () => {
+    const entry = ingest(service);
+    fetchMock.mockResolvedValue({ ok: true, json: async () => ({ runId: "run-7" }) });
+
+    expect(await backend.trigger(entry)).toBe("run-7");
+
+    const [url, options] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://agent/hook");
+    expect(JSON.parse(options.body)).toEqual({
+      event: "message",
+      payload: expect.objectContaining({
+        routerUrl: "http://router:8080",
+        inReplyTo: entry.id,
+        message: expect.objectContaining({ id: entry.id, text: "Hello\nthere" }),
+      }),
+    });
+    const timestamp = options.headers[TIMESTAMP_HEADER];
+    expect(options.headers[SIGNATURE_HEADER]).toBe(signWebhook("s3cret", timestamp, options.body));
+    expect(signWebhook("s3cret", timestamp, options.body)).not.toBe(
+      signWebhook("other", timestamp, options.body),
+    );
+  });
+
+  it("returns no run ID for an empty answer", async () => {
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => {
+        throw new SyntaxError("Unexpected end of JSON input");
+      },
+    });
+
+    expect(await backend.trigger(ingest(service))).toBeNull();
+  });
+
+  it("throws on a non-2xx answer", async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 401, text: async () => "bad signature" });
+
+    await expect(backend.trigger(ingest(service))).rejects.toThrow(
+      "Webhook failed (401): bad signature",
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Tests: SubprocessBackend
+// ---------------------------------------------------------------------------
+
+describe("SubprocessBackend", () => {
+  let service: ChatRouterService;
+
+  beforeEach(() => {
+    service = makeService();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it("records the command's stdout as the response to the prompt on stdin", async () => {
+    const entry = ingest(service);
+    const responses: TimelineEntry[] = [];
+    service.on("message:new", (e: TimelineEntry) => e.direction === "out" && responses.push(e));
+
+    const agent = nodeAgent(service, ECHO_SCRIPT, { template: "{{sender}} said:\n{{text}}" });
+    const runId = await agent.trigger(entry);
+
+    expect(runId).toMatch(/^\d+$/);
+    await vi.waitFor(() => expect(responses).toHaveLength(1));
+    expect(responses[0]).toMatchObject({
+      text: "chat chat-100\nAlice said:\nHello\nthere",
+      inReplyTo: entry.id,
+      platformChatId: "chat-100",
+    });
+  });
+
+  it("can pass the payload as JSON instead", async () => {
+    ingest(service, "first");
+    const entry = service.ingestMessage({
+      tenantId: TENANT,
+      platform: "telegram",
+      platformMessageId: "msg-2",
+      platformChatId: "chat-100",
+      senderName: "Alice",
+      senderId: "user-1",
+      text: "second",
+      timestamp: Date.now(),
+    });
+    const responses: TimelineEntry[] = [];
+    service.on("message:new", (e: TimelineEntry) => e.direction === "out" && responses.push(e));
+
+    const script = `
+      let input = "";
+      process.stdin.on("data", (d) => (input += d));
+      process.stdin.on("end", () => {
+        const payload = JSON.parse(input);
+        console.log(payload.history.map((m) => m.text).join(",") + " > " + payload.message.text);
+      });`;
+    await nodeAgent(service, script, { input: "json" }).trigger(entry);
+
+    await vi.waitFor(() => expect(responses).toHaveLength(1));
+    expect(responses[0].text).toBe("first > second");
+  });
+
+  it("fails processing when the command exits non-zero", async () => {
+    const entry = ingest(service);
+    service.startProcessing(TENANT, entry.id);
+
+    await nodeAgent(service, `console.error("model overloaded"); process.exit(3)`).trigger(entry);
+
+    await vi.waitFor(() => {
+      expect(service.getProcessingState(TENANT, "telegram", "chat-100")).toBeNull();
+    });
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("agent exited with code 3: model overloaded"),
+    );
+  });
+
+  it("ends processing without a reply when the command answered by itself", async () => {
+    const entry = ingest(service);
+    service.startProcessing(TENANT, entry.id);
+    const statuses: string[] = [];
+    service.on("chat:action", (state: { status: string }) => statuses.push(state.status));
+
+    // Replies through the router API with its key, so prints nothing
+    const script = `if (process.env.CHAT_ROUTER_API_KEY !== "crk_agent") process.exit(1)`;
+    await nodeAgent(service, script, { apiKey: "crk_agent" }).trigger(entry);
+
+    await vi.waitFor(() => expect(statuses).toEqual(["done"]));
+    expect(service.getProcessingState(TENANT, "telegram", "chat-100")).toBeNull();
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  it("passes the command only its allowed environment", async () => {
+    vi.stubEnv("TELEGRAM_BOT_TOKEN", "bot-secret");
+    const entry = ingest(service);
+    const responses: TimelineEntry[] = [];
+    service.on("message:new", (e: TimelineEntry) => e.direction === "out" && responses.push(e));
+
+    const script = `const { TELEGRAM_BOT_TOKEN, MODEL, PATH } = process.env;
+      console.log(JSON.stringify({ TELEGRAM_BOT_TOKEN, MODEL, path: !!PATH }))`;
+    await nodeAgent(service, script, { env: { MODEL: "small" } }).trigger(entry);
+
+    await vi.waitFor(() => expect(responses).toHaveLength(1));
+    expect(JSON.parse(responses[0].text!)).toEqual({ MODEL: "small", path: true });
+  });
+
+  it("kills a command that runs too long", async () => {
+    const entry = ingest(service);
+    service.startProcessing(TENANT, entry.id);
+
+    await nodeAgent(service, "setTimeout(() => {}, 60_000)", { timeoutMs: 200 }).trigger(entry);
+
+    await vi.waitFor(() => {
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining("agent timed out"));
+    });
+    expect(service.getProcessingState(TENANT, "telegram", "chat-100")).toBeNull();
+  });
+
+  it("rejects when the command cannot be started", async () => {
+    const backend = new SubprocessBackend(service, {
+      command: "/nonexistent/agent",
+      routerUrl: "http://router:8080",
+    });
+
+    await expect(backend.trigger(ingest(service))).rejects.toThrow("ENOENT");
+  });
+});
@@ -0,0 +1,281 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { AgentDispatcher } from "../dispatcher";
+import { AgentRegistry } from "../registry";
+import { ChatRouterService, PROCESSING_TIMEOUT_MS } from "../../service";
+import { ChatRouterStore } from "../../db/store";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const TENANT = "acme";
+function queueEntry(
+  service: ChatRouterService,
+  backend = "agent",
+  messageId = "msg-1",
+  chatId = "chat-100",
+): number {
+  const entry = service.ingestMessage({
+    tenantId: TENANT,
+    platform: "telegram",
+    platformMessageId: messageId,
+    platformChatId: chatId,
+    platformChatType: "private",
+    senderName: "Alice",
+    senderId: "user-1",
+    text: "Hello",
+    timestamp: Date.now(),
+  });
+  service.enqueueDispatch(TENANT, entry.id, backend);
+  return entry.id;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("AgentDispatcher", () => {
+  let service: ChatRouterService;
+  let dispatcher: AgentDispatcher;
+  let agents: AgentRegistry;
+  let trigger: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    const store = new ChatRouterStore(":memory:");
+    store.init();
+    service = new ChatRouterService(store);
+    trigger = vi.fn();
+    agents = new AgentRegistry();
+    agents.register("agent", { type: "test", trigger });
+    dispatcher = new AgentDispatcher(service, agents, { debounceMs: 0 });
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("marks a dispatch as dispatched with the run ID", async () => {
+    const id = queueEntry(service);
+    trigger.mockResolvedValue("run-1");
+
+    await dispatcher.runDue();
+
+    expect(trigger).toHaveBeenCalledWith(expect.objectContaining({ id, text: "Hello" }), [
+      expect.objectContaining({ id }),
+    ]);
+    const [dispatch] = service.listDispatches({ tenantId: TENANT });
+    expect(dispatch).toMatchObject({ timelineId: id, status: "dispatched", runId: "run-1" });
+    expect(service.listRuns({ tenantId: TENANT })).toEqual([
+      expect.objectContaining({ backend: "agent", status: "running", runId: "run-1" }),
+    ]);
+  });
+
+  it("leaves a failed dispatch pending for a retry", async () => {
+    const id = queueEntry(service);
+    trigger.mockRejectedValue(new Error("Trigger failed (503): busy"));
+
+    await dispatcher.runDue();
+
+    const [dispatch] = service.listDispatches({ tenantId: TENANT });
+    expect(dispatch).toMatchObject({
+      timelineId: id,
+      status: "pending",
+      attempts: 1,
+      lastError: "Trigger failed (503): busy",
+    });
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining(`Retrying entry ${id} at`),
+    );
+    expect(service.listRuns({ tenantId: TENANT })).toEqual([
+      expect.objectContaining({ status: "failed", error: "Trigger failed (503): busy" }),
+    ]);
+  });
+
+  it("fails dispatches for a backend that is no longer configured", async () => {
+    queueEntry(service, "removed");
+
+    await dispatcher.runDue();
+
+    const [dispatch] = service.listDispatches({ tenantId: TENANT });
+    expect(dispatch).toMatchObject({
+      status: "pending",
+      lastError: 'unknown agent backend "removed"',
+    });
+    expect(trigger).not.toHaveBeenCalled();
+  });
+
+  it("picks up queued dispatches once started", async () => {
+    trigger.mockResolvedValue("run-2");
+    dispatcher.start();
+
+    queueEntry(service);
+
+    await vi.waitFor(() => {
+      expect(service.listDispatches({ tenantId: TENANT })[0].status).toBe("dispatched");
+    });
+    dispatcher.stop();
+  });
+  describe("batching", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("sends a burst of messages as one trigger once the user pauses", async () => {
+      vi.useFakeTimers({ toFake: ["Date"], now: Date.UTC(2026, 0, 1) });
+      dispatcher = new AgentDispatcher(service, agents, { debounceMs: 2000 });
+      trigger.mockResolvedValue("run-1");
+
+      const first = queueEntry(service, "agent", "msg-1");
+      vi.advanceTimersByTime(1500);
+      const second = queueEntry(service, "agent", "msg-2");
+      vi.advanceTimersByTime(1500);
+      await dispatcher.runDue();
+      expect(trigger).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(500);
+      await dispatcher.runDue();
+
+      expect(trigger).toHaveBeenCalledTimes(1);
+      expect(trigger).toHaveBeenCalledWith(expect.objectContaining({ id: second }), [
+        expect.objectContaining({ id: first }),
+        expect.objectContaining({ id: second }),
+      ]);
+      expect(service.listDispatches({ tenantId: TENANT })).toEqual([
+        expect.objectContaining({ timelineId: second, status: "dispatched", runId: "run-1" }),
+        expect.objectContaining({ timelineId: first, status: "dispatched", runId: "run-1" }),
+      ]);
+    });
+
+    it("stops waiting after maxWaitMs", async () => {
+      vi.useFakeTimers({ toFake: ["Date"], now: Date.UTC(2026, 0, 1) });
+      dispatcher = new AgentDispatcher(service, agents, { debounceMs: 2000, maxWaitMs: 4000 });
+      trigger.mockResolvedValue(null);
+
+      for (const messageId of ["msg-1", "msg-2", "msg-3"]) {
+        queueEntry(service, "agent", messageId);
+        vi.advanceTimersByTime(1500);
+        await dispatcher.runDue();
+      }
+
+      expect(trigger).toHaveBeenCalledTimes(1);
+      expect(trigger.mock.calls[0][1]).toHaveLength(3);
+    });
+
+    it("serializes runs of a conversation", async () => {
+      trigger.mockResolvedValue("run-1");
+      dispatcher.start();
+
+      const first = queueEntry(service, "agent", "msg-1");
+      await vi.waitFor(() => expect(trigger).toHaveBeenCalledTimes(1));
+      const second = queueEntry(service, "agent", "msg-2");
+      await dispatcher.runDue();
+
+      expect(trigger).toHaveBeenCalledTimes(1);
+      expect(service.listDispatches({ tenantId: TENANT, status: "pending" })).toEqual([
+        expect.objectContaining({ timelineId: second }),
+      ]);
+
+      service.recordResponse({
+        tenantId: TENANT,
+        platform: "telegram",
+        platformChatId: "chat-100",
+        text: "Hi",
+        inReplyTo: first,
+      });
+
+      await vi.waitFor(() => expect(trigger).toHaveBeenCalledTimes(2));
+      expect(trigger.mock.calls[1][0]).toMatchObject({ id: second });
+      expect(service.listRuns({ tenantId: TENANT }).map((r) => r.status)).toEqual([
+        "running",
+        "done",
+      ]);
+      expect(service.getProcessingState(TENANT, "telegram", "chat-100")).toMatchObject({
+        status: "processing",
+        timelineId: second,
+      });
+      dispatcher.stop();
+    });
+
+    it("does not let messages held in one conversation hold up the others", async () => {
+      trigger.mockResolvedValue("run-1");
+      queueEntry(service, "agent", "msg-0");
+      await dispatcher.runDue();
+
+      for (let i = 1; i <= 25; i++) {
+        queueEntry(service, "agent", `msg-${i}`);
+      }
+      const other = queueEntry(service, "agent", "msg-1", "chat-200");
+      await dispatcher.runDue();
+
+      expect(trigger).toHaveBeenCalledTimes(2);
+      expect(trigger.mock.calls[1][1]).toEqual([expect.objectContaining({ id: other })]);
+      expect(service.listDispatches({ tenantId: TENANT, status: "pending" })).toHaveLength(25);
+    });
+
+    it("fails a run the agent stays silent on and sends the next message", async () => {
+      vi.useFakeTimers({ toFake: ["Date"], now: Date.UTC(2026, 0, 1) });
+      dispatcher = new AgentDispatcher(service, agents, { debounceMs: 0, runTimeoutMs: 60_000 });
+      trigger.mockResolvedValue(null);
+
+      const first = queueEntry(service, "agent", "msg-1");
+      await dispatcher.runDue();
+      const second = queueEntry(service, "agent", "msg-2");
+      vi.advanceTimersByTime(30_000);
+      await dispatcher.runDue();
+      expect(trigger).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(30_000);
+      await dispatcher.runDue();
+
+      expect(trigger).toHaveBeenCalledTimes(2);
+      expect(trigger.mock.calls[1][1]).toEqual([expect.objectContaining({ id: second })]);
+      expect(service.listRuns({ tenantId: TENANT })).toEqual([
+        expect.objectContaining({ status: "running", timelineIds: [second] }),
+        expect.objectContaining({
+          status: "failed",
+          timelineIds: [first],
+          error: "no response from the agent in time",
+        }),
+      ]);
+      expect(service.getProcessingState(TENANT, "telegram", "chat-100")).toMatchObject({
+        status: "processing",
+        timelineId: second,
+      });
+    });
+
+    it("gives the agent as long as processing may take by default", async () => {
+      vi.useFakeTimers({ toFake: ["Date"], now: Date.UTC(2026, 0, 1) });
+      trigger.mockResolvedValue(null);
+
+      queueEntry(service, "agent", "msg-1");
+      await dispatcher.runDue();
+      queueEntry(service, "agent", "msg-2");
+      vi.advanceTimersByTime(PROCESSING_TIMEOUT_MS - 1000);
+      await dispatcher.runDue();
+      expect(trigger).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(1000);
+      await dispatcher.runDue();
+      expect(trigger).toHaveBeenCalledTimes(2);
+    });
+
+    it("holds later messages until an earlier one is retried", async () => {
+      vi.useFakeTimers({ toFake: ["Date"], now: Date.UTC(2026, 0, 1) });
+      trigger.mockRejectedValueOnce(new Error("Trigger failed (503): busy"));
+      trigger.mockResolvedValue("run-2");
+
+      const first = queueEntry(service, "agent", "msg-1");
+      await dispatcher.runDue();
+      const second = queueEntry(service, "agent", "msg-2");
+      await dispatcher.runDue();
+      expect(trigger).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(5000);
+      await dispatcher.runDue();
+
+      expect(trigger).toHaveBeenCalledTimes(2);
+      expect(trigger.mock.calls[1][1]).toEqual([
+        expect.objectContaining({ id: first }),
+        expect.objectContaining({ id: second }),
+      ]);
+    });
+  });
+});
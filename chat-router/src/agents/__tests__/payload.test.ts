@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  buildAgentPayload,
+  renderPrompt,
+  validateTemplate,
+} from "../payload";
+import { ChatRouterService } from "../../service";
+import { ChatRouterStore } from "../../db/store";
+import type { InboundMessage, TimelineEntry } from "../../types";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const TENANT = "acme";
+const ROUTER = "http://router:8080";
+const BLOB = "ab".repeat(32);
+
+function makeInbound(overrides: Partial<InboundMessage> = {}): InboundMessage {
+  return {
+    tenantId: TENANT,
+    platform: "telegram",
+    platformMessageId: "msg-1",
+    platformChatId: "chat-100",
+    platformChatType: "private",
+    senderName: "Alice",
+    senderId: "user-1",
+    text: "Hello",
+    timestamp: Date.UTC(2026, 0, 1, 12, 0, 0),
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("buildAgentPayload", () => {
+  let service: ChatRouterService;
+
+  beforeEach(() => {
+    const store = new ChatRouterStore(":memory:");
+    store.init();
+    service = new ChatRouterService(store);
+  });
+
+  function conversationOfFour(): TimelineEntry {
+    service.ingestMessage(makeInbound({ platformMessageId: "m1", text: "one" }));
+    const reply = service.recordResponse({
+      tenantId: TENANT,
+      platform: "telegram",
+      platformChatId: "chat-100",
+      text: "two",
+    });
+    service.ingestMessage(makeInbound({ platformMessageId: "m3", text: "three" }));
+    service.deleteResponse(TENANT, reply.id);
+    return service.ingestMessage(
+      makeInbound({
+        platformMessageId: "m4",
+        text: "line 1\nline 2",
+        platformMeta: { username: "alice" },
+      }),
+    );
+  }
+
+  it("includes earlier messages oldest first, without deleted ones", () => {
+    const entry = conversationOfFour();
+
+    const payload = buildAgentPayload(service, entry, { routerUrl: ROUTER });
+
+    expect(payload).toMatchObject({
+      routerUrl: ROUTER,
+      tenantId: TENANT,
+      platform: "telegram",
+      platformChatId: "chat-100",
+      inReplyTo: entry.id,
+      conversation: { label: "Alice", chatType: "private", settings: {} },
+      message: {
+        id: entry.id,
+        direction: "in",
+        sender: { name: "Alice", id: "user-1" },
+        text: "line 1\nline 2",
+        platformMeta: { username: "alice" },
+      },
+    });
+    expect(payload.history.map((m) => m.text)).toEqual(["one", "three"]);
+  });
+
+  it("limits the history", () => {
+    const entry = conversationOfFour();
+
+    expect(
+      buildAgentPayload(service, entry, { routerUrl: ROUTER, historyLimit: 1 }).history,
+    ).toHaveLength(1);
+    expect(
+      buildAgentPayload(service, entry, { routerUrl: ROUTER, historyLimit: 0 }).history,
+    ).toEqual([]);
+  });
+
+  it("includes conversation settings and attachment URLs", () => {
+    const entry = service.ingestMessage(makeInbound());
+    service.updateConversationSettings({
+      tenantId: TENANT,
+      platform: "telegram",
+      platformChatId: "chat-100",
+      settings: { language: "de" },
+    });
+    const attachment = { mimeType: null, size: null, fileName: null, caption: null };
+
+    const payload = buildAgentPayload(
+      service,
+      {
+        ...entry,
+        attachments: [
+          { ...attachment, type: "photo", fileId: "f1", blobId: BLOB },
+          { ...attachment, type: "voice", fileId: "f2", blobId: null },
+        ],
+      },
+      { routerUrl: ROUTER },
+    );
+
+    expect(payload.conversation.settings).toEqual({ language: "de" });
+    expect(payload.message.attachments.map((a) => a.url)).toEqual([
+      `${ROUTER}/api/blobs/${BLOB}`,
+      null,
+    ]);
+  });
+});
+
+describe("renderPrompt", () => {
+  let service: ChatRouterService;
+
+  beforeEach(() => {
+    const store = new ChatRouterStore(":memory:");
+    store.init();
+    service = new ChatRouterService(store);
+  });
+
+  it("keeps the routing tags and the message's newlines by default", () => {
+    service.ingestMessage(makeInbound({ platformMessageId: "m1", text: "earlier" }));
+    const entry = service.ingestMessage(
+      makeInbound({ platformMessageId: "m2", text: 'Line 1\nShe said "hi"' }),
+    );
+
+    const prompt = renderPrompt(buildAgentPayload(service, entry, { routerUrl: ROUTER }));
+
+    expect(prompt).toBe(
+      `[ROUTER=${ROUTER}] [PLATFORM=telegram] [CHAT_ID=chat-100] [IN_REPLY_TO=${entry.id}]\n` +
+        "\n" +
+        "Conversation settings: {}\n" +
+        "\n" +
+        "Earlier messages (oldest first):\n" +
+        "[2026-01-01T12:00:00.000Z] Alice: earlier\n" +
+        "\n" +
+        "New message from Alice:\n" +
+        'Line 1\nShe said "hi"\n' +
+        "\n" +
+        "Attachments:\n" +
+        "(none)\n",
+    );
+  });
+
+  it("gives the agent the backend's key to respond with, but never in the prompt", () => {
+    const entry = service.ingestMessage(makeInbound());
+
+    const payload = buildAgentPayload(service, entry, { routerUrl: ROUTER, apiKey: "crk_x" });
+
+    expect(payload.apiKey).toBe("crk_x");
+    expect(renderPrompt(payload)).not.toContain("crk_x");
+    expect(renderPrompt(payload, "{{payload}}")).not.toContain("crk_x");
+    expect(() => validateTemplate("{{apiKey}}")).toThrow("unknown placeholder {{apiKey}}");
+  });
+
+  it("fills in a custom template", () => {
+    const entry = service.ingestMessage(makeInbound());
+    const payload = buildAgentPayload(service, entry, { routerUrl: ROUTER });
+
+    expect(renderPrompt(payload, "{{ sender }} ({{senderId}}) in {{label}}: {{text}}")).toBe(
+      "Alice (user-1) in Alice: Hello",
+    );
+    const { apiKey: _apiKey, ...rendered } = payload;
+    expect(JSON.parse(renderPrompt(payload, "{{payload}}"))).toEqual(rendered);
+  });
+
+  it("reads a batch of new messages as one", () => {
+    service.ingestMessage(makeInbound({ platformMessageId: "m1", text: "earlier" }));
+    const batch = ["Hi", "are you there?"].map((text, i) =>
+      service.ingestMessage(makeInbound({ platformMessageId: `m${i + 2}`, text })),
+    );
+
+    const payload = buildAgentPayload(service, batch[1], { routerUrl: ROUTER, batch });
+
+    expect(payload.history.map((m) => m.text)).toEqual(["earlier"]);
+    expect(payload.messages.map((m) => m.text)).toEqual(["Hi", "are you there?"]);
+    expect(renderPrompt(payload, "{{text}}")).toBe("Hi\nare you there?");
+    expect(renderPrompt(payload, "{{messages}}")).toBe(
+      "[2026-01-01T12:00:00.000Z] Alice: Hi\n[2026-01-01T12:00:00.000Z] Alice: are you there?",
+    );
+  });
+
+  it("validates template placeholders", () => {
+    expect(() => validateTemplate(DEFAULT_PROMPT_TEMPLATE)).not.toThrow();
+    expect(() => validateTemplate("{{text}} {{mood}}")).toThrow("unknown placeholder {{mood}}");
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  AgentRegistry,
+  createAgentRegistry,
+  loadAgentConfig,
+  parseAgentConfig,
+} from "../registry";
+import { AcsBackend } from "../acs";
+import { WebhookBackend } from "../webhook";
+import { SubprocessBackend } from "../subprocess";
+import { ChatRouterService } from "../../service";
+import { ChatRouterStore } from "../../db/store";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function conversation(tenantId: string, platformChatId: string, platform = "telegram") {
+  return { tenantId, platform: platform as "telegram", platformChatId };
+}
+
+function makeRegistry(): AgentRegistry {
+  const registry = new AgentRegistry();
+  const backend = { type: "test", trigger: async () => null };
+  for (const name of ["acs", "support", "local"]) registry.register(name, backend);
+  return registry;
+}
+
+// ---------------------------------------------------------------------------
+// Tests: routing
+// ---------------------------------------------------------------------------
+
+describe("AgentRegistry", () => {
+  it("routes to the first matching rule, then the default", () => {
+    const registry = makeRegistry();
+    registry.setRoutes(
+      [
+        { tenantId: "acme", platformChatId: "42", backend: "local" },
+        { tenantId: "acme", backend: "support" },
+        { platform: "discord", backend: null },
+      ],
+      "acs",
+    );
+
+    expect(registry.route(conversation("acme", "42"))).toBe("local");
+    expect(registry.route(conversation("acme", "43"))).toBe("support");
+    expect(registry.route(conversation("other", "42"))).toBe("acs");
+    expect(registry.route(conversation("other", "42", "discord"))).toBeNull();
+  });
+
+  it("routes nothing without a default", () => {
+    const registry = makeRegistry();
+    registry.setRoutes([{ tenantId: "acme", backend: "acs" }]);
+
+    expect(registry.route(conversation("other", "1"))).toBeNull();
+  });
+
+  it("rejects rules naming unknown backends and duplicate names", () => {
+    const registry = makeRegistry();
+
+    expect(() => registry.setRoutes([], "missing")).toThrow('unknown backend "missing"');
+    expect(() => registry.register("acs", { type: "test", trigger: async () => null })).toThrow(
+      'backend "acs" is already registered',
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Tests: configuration
+// ---------------------------------------------------------------------------
+
+describe("parseAgentConfig", () => {
+  const backends = {
+    acs: { type: "acs", acsBaseUrl: "http://acs", jobName: "job" },
+    hook: { type: "webhook", url: "http://agent/hook", secret: "s3cret" },
+    local: { type: "subprocess", command: "agent", args: ["--once"] },
+  };
+
+  it("accepts every backend type and builds the registry", () => {
+    const store = new ChatRouterStore(":memory:");
+    store.init();
+    const config = parseAgentConfig({
+      backends,
+      routes: [{ tenantId: "acme", backend: "local" }],
+      defaultBackend: "hook",
+    });
+
+    const registry = createAgentRegistry(config, {
+      service: new ChatRouterService(store),
+      routerUrl: "http://router",
+    });
+
+    expect(registry.get("acs")).toBeInstanceOf(AcsBackend);
+    expect(registry.get("hook")).toBeInstanceOf(WebhookBackend);
+    expect(registry.get("local")).toBeInstanceOf(SubprocessBackend);
+    expect(registry.route(conversation("acme", "1"))).toBe("local");
+    expect(registry.route(conversation("other", "1"))).toBe("hook");
+  });
+
+  it("reads a templateFile relative to the config file", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "agents-"));
+    try {
+      fs.writeFileSync(path.join(dir, "prompt.md"), "{{sender}}: {{text}}");
+      fs.writeFileSync(
+        path.join(dir, "agents.json"),
+        JSON.stringify({
+          backends: { local: { type: "subprocess", command: "agent", templateFile: "prompt.md" } },
+        }),
+      );
+
+      const config = loadAgentConfig(path.join(dir, "agents.json"));
+
+      expect(config.backends.local).toEqual({
+        type: "subprocess",
+        command: "agent",
+        template: "{{sender}}: {{text}}",
+      });
+      expect(() =>
+        parseAgentConfig(
+          { backends: { local: { type: "acs", acsBaseUrl: "a", jobName: "j", templateFile: "x" } } },
+          { baseDir: dir },
+        ),
+      ).toThrow("backends.local.templateFile: ENOENT");
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it.each([
+    [{}, "backends must be an object"],
+    [{ backends: { x: { type: "smtp" } } }, "backends.x.type must be one of"],
+    [{ backends: { x: { type: "acs", jobName: "job" } } }, "backends.x.acsBaseUrl is required"],
+    [{ backends: { x: { type: "webhook", url: "http://a" } } }, "backends.x.secret is required"],
+    [
+      { backends: { x: { type: "webhook", url: "http://a", secret: "s", timeoutMs: 0 } } },
+      "backends.x.timeoutMs must be a positive number",
+    ],
+    [
+      { backends: { x: { type: "subprocess", command: "a", args: "--once" } } },
+      "backends.x.args must be an array of strings",
+    ],
+    [
+      { backends: { x: { type: "webhook", url: "http://a", secret: "s", historyLimit: -1 } } },
+      "backends.x.historyLimit must be a non-negative integer",
+    ],
+    [
+      { backends: { x: { type: "subprocess", command: "a", template: "{{mood}}" } } },
+      "backends.x.template: unknown placeholder {{mood}}",
+    ],
+    [
+      { backends: { x: { type: "subprocess", command: "a", input: "xml" } } },
+      'backends.x.input must be "prompt" or "json"',
+    ],
+    [
+      { backends: { x: { type: "subprocess", command: "a", env: { DEBUG: 1 } } } },
+      "backends.x.env must be an object of strings",
+    ],
+    [{ backends, routes: {} }, "routes must be an array"],
+    [{ backends, routes: [{ tenantId: "acme" }] }, "routes[0].backend must be a string or null"],
+    [{ backends, routes: [{ tenantId: 1, backend: "acs" }] }, "routes[0].tenantId must be"],
+    [{ backends, routes: [{ backend: "nope" }] }, 'unknown backend "nope"'],
+    [{ backends, defaultBackend: "nope" }, 'unknown backend "nope"'],
+  ])("rejects %j", (raw, message) => {
+    expect(() => parseAgentConfig(raw)).toThrow(message);
+  });
+});
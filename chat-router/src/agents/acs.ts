@@ -0,0 +1,22 @@
+import type { IChatRouterService, TimelineEntry } from "../types";
+import { triggerAcsJob, type AcsTriggerConfig } from "../acs/trigger";
+import type { AgentBackend } from "./backend";
+import { buildAgentPayload, renderPrompt, type PromptOptions } from "./payload";
+
+// ---------------------------------------------------------------------------
+// AcsBackend — triggers an ACS job per inbound message
+// ---------------------------------------------------------------------------
+
+export class AcsBackend implements AgentBackend {
+  readonly type = "acs";
+
+  constructor(
+    private service: IChatRouterService,
+    private config: AcsTriggerConfig & PromptOptions,
+  ) {}
+
+  trigger(entry: TimelineEntry, batch?: TimelineEntry[]): Promise<string | null> {
+    const payload = buildAgentPayload(this.service, entry, { ...this.config, batch });
+    return triggerAcsJob(this.config, entry, renderPrompt(payload, this.config.template));
+  }
+}
@@ -0,0 +1,25 @@
+import type { TimelineEntry } from "../types";
+
+// ---------------------------------------------------------------------------
+// AgentBackend — something that can answer an inbound message
+// ---------------------------------------------------------------------------
+
+/**
+ * An agent integration. The dispatcher hands it the inbound entries routed
+ * to it, a conversation's burst of messages at a time; the agent answers
+ * later, through `POST /api/responses` or (for backends that see the answer
+ * themselves) `recordResponse`.
+ */
+export interface AgentBackend {
+  /** Backend type, e.g. `"acs"`; shown in logs. */
+  readonly type: string;
+
+  /**
+   * Start the agent on an inbound entry and resolve with the run ID it was
+   * given, if any. `batch` holds every new message of the conversation the
+   * run answers, oldest first and ending with `entry` (default: just
+   * `entry`). Rejects when the agent could not be started, in which case
+   * the dispatches are retried with backoff.
+   */
+  trigger(entry: TimelineEntry, batch?: TimelineEntry[]): Promise<string | null>;
+}
@@ -0,0 +1,233 @@
+import { PROCESSING_TIMEOUT_MS, type ChatRouterService } from "../service";
+import type { AgentRun, Dispatch, ProcessingState, TimelineEntry } from "../types";
+import type { AgentRegistry } from "./registry";
+
+// ---------------------------------------------------------------------------
+// AgentDispatcher — sends queued agent triggers in the background
+// ---------------------------------------------------------------------------
+
+export interface DispatcherOptions {
+  /** How often due retries are looked for, in ms. Default 1000. */
+  pollIntervalMs?: number;
+  /**
+   * How long a conversation must be quiet before its new messages are sent
+   * to the agent together, in ms. Default 2000; 0 sends each right away.
+   */
+  debounceMs?: number;
+  /** Longest a message waits for the conversation to go quiet, in ms. Default 10 000. */
+  maxWaitMs?: number;
+  /**
+   * How long a run may go without a response before it is failed and the
+   * conversation's next messages are sent, in ms. Defaults to the service's
+   * `PROCESSING_TIMEOUT_MS`, which also bounds it: a shorter value gives up
+   * on the agent sooner, but a run that old is over whatever is set here.
+   */
+  runTimeoutMs?: number;
+}
+
+export const DEFAULT_DEBOUNCE_MS = 2000;
+export const DEFAULT_MAX_WAIT_MS = 10_000;
+/** A run lasts as long as the agent may be processing its messages. */
+export const DEFAULT_RUN_TIMEOUT_MS = PROCESSING_TIMEOUT_MS;
+
+const RUN_TIMEOUT_ERROR = "no response from the agent in time";
+
+/** Due dispatches of one conversation and backend, sent as one trigger. */
+interface Batch {
+  backend: string;
+  items: { dispatch: Dispatch; entry: TimelineEntry }[];
+}
+
+/**
+ * Works off the service's dispatch queue: runs as soon as a dispatch is
+ * queued and polls for retries that have become due. Due dispatches are
+ * batched per conversation: once the user has paused for `debounceMs` (or
+ * the oldest message has waited `maxWaitMs`), they go to their backend as
+ * one trigger, answering the newest. Each trigger starts an `AgentRun`;
+ * runs of a conversation are serialized, so while one is still going —
+ * until the agent responds, processing fails or `runTimeoutMs` passes — new
+ * messages wait for the next batch. A conversation's messages are sent in
+ * the order they arrived: one waiting for a retry holds back those after
+ * it, and goes out together with them. Outcomes are recorded with
+ * `completeDispatch` / `failDispatch`, which handle backoff and
+ * dead-lettering.
+ */
+export class AgentDispatcher {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  /** Set when woken during a run, so the queue is checked again after it. */
+  private wakeAgain = false;
+  private stopped = true;
+  /** When the earliest batch still being debounced is ready, in epoch ms. */
+  private nextBatchAt: number | null = null;
+  private readonly onQueued = (): void => this.wake();
+  /** A finished run may have held back the next batch. */
+  private readonly onAction = (state: ProcessingState): void => {
+    if (state.status !== "processing") this.wake();
+  };
+
+  constructor(
+    private service: ChatRouterService,
+    private agents: AgentRegistry,
+    private options: DispatcherOptions = {},
+  ) {}
+
+  /** Start working off the queue, including dispatches left from a restart. */
+  start(): void {
+    this.stopped = false;
+    this.service.on("dispatch:queued", this.onQueued);
+    this.service.on("chat:action", this.onAction);
+    this.wake();
+  }
+
+  /** Stop polling; an attempt already in progress still completes. */
+  stop(): void {
+    this.stopped = true;
+    this.service.off("dispatch:queued", this.onQueued);
+    this.service.off("chat:action", this.onAction);
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Send every batch that is due and ready once. */
+  async runDue(): Promise<void> {
+    const now = Date.now();
+    const debounceMs = this.options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+    const maxWaitMs = this.options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+    const runTimeoutMs = this.options.runTimeoutMs ?? DEFAULT_RUN_TIMEOUT_MS;
+    this.nextBatchAt = null;
+
+    for (const batch of groupBatches(this.service.dueDispatches({ runTimeoutMs }))) {
+      const { tenantId, platform, platformChatId } = batch.items[0].entry;
+      const run = this.service.getActiveRun(tenantId, platform, platformChatId);
+      if (run && Date.parse(run.startedAt) + runTimeoutMs > now) continue;
+      if (run) this.expire(run);
+
+      // An earlier message waiting for its retry goes first
+      const oldest = this.service.oldestPendingDispatch(tenantId, platform, platformChatId);
+      const retryAt = oldest ? Date.parse(oldest.nextAttemptAt) : now;
+      if (retryAt > now) {
+        this.nextBatchAt = Math.min(this.nextBatchAt ?? retryAt, retryAt);
+        continue;
+      }
+
+      // Retries and re-drives were created long ago, so they are ready
+      const created = batch.items.map(({ dispatch }) => Date.parse(dispatch.createdAt));
+      const readyAt = Math.min(Math.max(...created) + debounceMs, Math.min(...created) + maxWaitMs);
+      if (readyAt > now) {
+        this.nextBatchAt = Math.min(this.nextBatchAt ?? readyAt, readyAt);
+        continue;
+      }
+      await this.send(batch);
+    }
+  }
+
+  /** Fail a run the agent never responded to, so the conversation moves on. */
+  private expire(run: AgentRun): void {
+    console.error(`[agents] Run ${run.id} got no response in time; sending the next batch`);
+    this.service.failRun(run.tenantId, run.id, RUN_TIMEOUT_ERROR);
+    const state = this.service.getProcessingState(run.tenantId, run.platform, run.platformChatId);
+    if (state && run.timelineIds.includes(state.timelineId)) {
+      this.service.failProcessing(run.tenantId, state.timelineId, RUN_TIMEOUT_ERROR);
+    }
+  }
+
+  private async send(batch: Batch): Promise<void> {
+    const entries = batch.items.map(({ entry }) => entry);
+    const last = entries[entries.length - 1];
+    // Started first: a quick agent may respond before the trigger returns
+    const run = this.service.startRun({
+      tenantId: last.tenantId,
+      backend: batch.backend,
+      timelineIds: entries.map((e) => e.id),
+    });
+    try {
+      const backend = this.agents.get(batch.backend);
+      if (!backend) {
+        throw new Error(`unknown agent backend "${batch.backend}"`);
+      }
+      const runId = await backend.trigger(last, entries);
+      this.service.setRunId(run.tenantId, run.id, runId);
+      for (const { dispatch } of batch.items) {
+        this.service.completeDispatch(dispatch.tenantId, dispatch.timelineId, runId);
+      }
+      // A batch held back by the previous run lost its typing status with it
+      if (!this.service.getProcessingState(last.tenantId, last.platform, last.platformChatId)) {
+        this.service.startProcessing(last.tenantId, last.id);
+      }
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.service.failRun(run.tenantId, run.id, message);
+      const ids = entries.map((e) => e.id).join(", ");
+      const target = `${entries.length > 1 ? "entries" : "entry"} ${ids} to ${batch.backend}`;
+      console.error(`[agents] Dispatch of ${target} failed: ${message}`);
+      for (const { dispatch } of batch.items) {
+        const updated = this.service.failDispatch({
+          tenantId: dispatch.tenantId,
+          timelineId: dispatch.timelineId,
+          error: message,
+        });
+        if (updated) console.error(`[agents] ${describeRetry(updated)}`);
+      }
+    }
+  }
+
+  private wake(): void {
+    if (this.stopped) return;
+    if (this.running) {
+      this.wakeAgain = true;
+      return;
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    this.running = true;
+    this.runDue()
+      .catch((err: unknown) => {
+        console.error("[agents] Dispatch loop error:", err instanceof Error ? err.message : err);
+      })
+      .finally(() => {
+        this.running = false;
+        if (this.wakeAgain) {
+          this.wakeAgain = false;
+          this.wake();
+          return;
+        }
+        if (!this.stopped) {
+          const pollMs = this.options.pollIntervalMs ?? 1000;
+          const untilBatch = this.nextBatchAt === null ? pollMs : this.nextBatchAt - Date.now();
+          this.timer = setTimeout(() => this.wake(), Math.max(0, Math.min(pollMs, untilBatch)));
+          this.timer.unref();
+        }
+      });
+  }
+}
+
+function describeRetry(dispatch: Dispatch): string {
+  return dispatch.status === "dead"
+    ? `Giving up on entry ${dispatch.timelineId} after ${dispatch.attempts} attempts`
+    : `Retrying entry ${dispatch.timelineId} at ${dispatch.nextAttemptAt}`;
+}
+
+/** Group due dispatches by conversation and backend, oldest entry first. */
+function groupBatches(due: { dispatch: Dispatch; entry: TimelineEntry }[]): Batch[] {
+  const batches = new Map<string, Batch>();
+  for (const item of due) {
+    const { tenantId, platform, platformChatId } = item.entry;
+    const key = [tenantId, platform, platformChatId, item.dispatch.backend].join("\u0000");
+    let batch = batches.get(key);
+    if (!batch) {
+      batch = { backend: item.dispatch.backend, items: [] };
+      batches.set(key, batch);
+    }
+    batch.items.push(item);
+  }
+  for (const batch of batches.values()) {
+    batch.items.sort((a, b) => a.entry.id - b.entry.id);
+  }
+  return [...batches.values()];
+}
@@ -0,0 +1,197 @@
+import type {
+  AgentPayload,
+  AgentPayloadMessage,
+  IChatRouterService,
+  TimelineEntry,
+} from "../types";
+
+// ---------------------------------------------------------------------------
+// Options
+// ---------------------------------------------------------------------------
+
+/** Earlier messages included when a backend does not say otherwise. */
+export const DEFAULT_HISTORY_LIMIT = 20;
+
+/** Per-backend control over what the agent is given. */
+export interface PromptOptions {
+  /** Earlier messages of the conversation to include. Default 20. */
+  historyLimit?: number;
+  /** Prompt template with `{{placeholder}}`s; see `PROMPT_PLACEHOLDERS`. */
+  template?: string;
+}
+
+/**
+ * The routing tags on the first line keep the format agents were written
+ * against before prompts carried history.
+ */
+export const DEFAULT_PROMPT_TEMPLATE = `\
+[ROUTER={{router}}] [PLATFORM={{platform}}] [CHAT_ID={{chatId}}] [IN_REPLY_TO={{inReplyTo}}]
+
+Conversation settings: {{settings}}
+
+Earlier messages (oldest first):
+{{history}}
+
+New message from {{sender}}:
+{{text}}
+
+Attachments:
+{{attachments}}
+`;
+
+// ---------------------------------------------------------------------------
+// buildAgentPayload — the message plus its context
+// ---------------------------------------------------------------------------
+
+/**
+ * `batch` is every new message the agent answers at once, oldest first and
+ * ending with `entry`; history is what came before the first of them.
+ */
+export function buildAgentPayload(
+  service: IChatRouterService,
+  entry: TimelineEntry,
+  options: {
+    routerUrl: string;
+    apiKey?: string;
+    historyLimit?: number;
+    batch?: TimelineEntry[];
+  },
+): AgentPayload {
+  const { routerUrl } = options;
+  const batch = options.batch?.length ? options.batch : [entry];
+  const historyLimit = options.historyLimit ?? DEFAULT_HISTORY_LIMIT;
+  const conversation = service.getConversation(
+    entry.tenantId,
+    entry.platform,
+    entry.platformChatId,
+  );
+
+  // The timeline comes newest first
+  const history =
+    historyLimit > 0
+      ? service
+          .getTimeline({
+            tenantId: entry.tenantId,
+            platform: entry.platform,
+            platformChatId: entry.platformChatId,
+            before: batch[0].id,
+            limit: historyLimit,
+          })
+          .filter((e) => e.deletedAt === null)
+          .reverse()
+      : [];
+
+  return {
+    routerUrl,
+    apiKey: options.apiKey ?? null,
+    tenantId: entry.tenantId,
+    platform: entry.platform,
+    platformChatId: entry.platformChatId,
+    inReplyTo: entry.id,
+    conversation: {
+      label: conversation?.label ?? null,
+      chatType: entry.platformChatType,
+      settings: conversation?.settings ?? {},
+    },
+    message: toPayloadMessage(entry, routerUrl),
+    messages: batch.map((e) => toPayloadMessage(e, routerUrl)),
+    history: history.map((e) => toPayloadMessage(e, routerUrl)),
+  };
+}
+
+function toPayloadMessage(entry: TimelineEntry, routerUrl: string): AgentPayloadMessage {
+  return {
+    id: entry.id,
+    direction: entry.direction,
+    sender: { name: entry.senderName, id: entry.senderId },
+    text: entry.text,
+    timestamp: entry.timestamp,
+    platformMeta: parseMeta(entry.platformMeta),
+    attachments: entry.attachments.map((a) => ({
+      ...a,
+      url: a.blobId ? `${routerUrl}/api/blobs/${a.blobId}` : null,
+    })),
+    inReplyTo: entry.inReplyTo,
+    editedAt: entry.editedAt,
+  };
+}
+
+function parseMeta(meta: string | null): Record<string, unknown> | null {
+  if (!meta) return null;
+  try {
+    const parsed = JSON.parse(meta);
+    return typeof parsed === "object" && parsed !== null ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// renderPrompt — a payload as text for command-line agents
+// ---------------------------------------------------------------------------
+
+/**
+ * The payload's `apiKey` is never rendered: a prompt sits next to chat text
+ * anyone in the conversation can write, so the key reaches agents out of
+ * band (job environment, webhook body) instead.
+ */
+const PLACEHOLDERS: Record<string, (payload: AgentPayload) => string> = {
+  router: (p) => p.routerUrl,
+  tenant: (p) => p.tenantId,
+  platform: (p) => p.platform,
+  chatId: (p) => p.platformChatId,
+  inReplyTo: (p) => String(p.inReplyTo),
+  label: (p) => p.conversation.label ?? "",
+  sender: (p) => p.message.sender.name,
+  senderId: (p) => p.message.sender.id,
+  // A burst of messages reads as one, like the user meant it
+  text: (p) => p.messages.flatMap((m) => (m.text ? [m.text] : [])).join("\n"),
+  attachments: (p) =>
+    listOrNone(p.messages.flatMap((m) => m.attachments.map(describeAttachment))),
+  messages: (p) => listOrNone(p.messages.map(describeMessage)),
+  history: (p) => listOrNone(p.history.map(describeMessage)),
+  settings: (p) => JSON.stringify(p.conversation.settings),
+  payload: ({ apiKey: _apiKey, ...p }) => JSON.stringify(p, null, 2),
+};
+
+/** Names a template may use, e.g. `{{history}}`. */
+export const PROMPT_PLACEHOLDERS = Object.keys(PLACEHOLDERS);
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Throws naming the first placeholder that does not exist. */
+export function validateTemplate(template: string): void {
+  for (const [, name] of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!(name in PLACEHOLDERS)) {
+      throw new Error(
+        `unknown placeholder {{${name}}} (expected one of ${PROMPT_PLACEHOLDERS.join(", ")})`,
+      );
+    }
+  }
+}
+
+/** Fill in a template; newlines and formatting of the messages are kept. */
+export function renderPrompt(
+  payload: AgentPayload,
+  template: string = DEFAULT_PROMPT_TEMPLATE,
+): string {
+  return template.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+    name in PLACEHOLDERS ? PLACEHOLDERS[name](payload) : match,
+  );
+}
+
+function describeMessage(message: AgentPayloadMessage): string {
+  // The agent's own earlier replies are recorded as sent by "System"
+  const who = message.direction === "out" ? "You" : message.sender.name;
+  const attachments = message.attachments.map((a) => ` [${describeAttachment(a)}]`).join("");
+  const time = new Date(message.timestamp).toISOString();
+  return `[${time}] ${who}: ${message.text ?? ""}${attachments}`;
+}
+
+function describeAttachment(attachment: AgentPayloadMessage["attachments"][number]): string {
+  return `${attachment.type} ${attachment.url ?? "(not downloaded)"}`;
+}
+
+function listOrNone(lines: string[]): string {
+  return lines.length > 0 ? lines.join("\n") : "(none)";
+}
@@ -0,0 +1,299 @@
+import fs from "fs";
+import path from "path";
+import type { IChatRouterService, TimelineEntry } from "../types";
+import type { AgentBackend } from "./backend";
+import { AcsBackend } from "./acs";
+import { WebhookBackend } from "./webhook";
+import { SubprocessBackend } from "./subprocess";
+import { validateTemplate, type PromptOptions } from "./payload";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/**
+ * In a config file, `templateFile` (relative to the file) may stand in for
+ * `template`; it is read when the config is loaded.
+ */
+export type AgentBackendConfig =
+  | ({ type: "acs"; acsBaseUrl: string; jobName: string; apiKey?: string } & PromptOptions)
+  | {
+      type: "webhook";
+      url: string;
+      secret: string;
+      apiKey?: string;
+      timeoutMs?: number;
+      historyLimit?: number;
+    }
+  | ({
+      type: "subprocess";
+      command: string;
+      args?: string[];
+      cwd?: string;
+      timeoutMs?: number;
+      input?: "prompt" | "json";
+      apiKey?: string;
+      env?: Record<string, string>;
+    } & PromptOptions);
+
+/**
+ * Sends a tenant's messages — or those of one platform or one chat — to a
+ * backend. Omitted fields match anything; `backend: null` means the matching
+ * conversations get no agent at all.
+ */
+export interface AgentRoute {
+  tenantId?: string;
+  platform?: string;
+  platformChatId?: string;
+  backend: string | null;
+}
+
+export interface AgentConfig {
+  backends: Record<string, AgentBackendConfig>;
+  /** Checked in order; the first match wins. */
+  routes?: AgentRoute[];
+  /** Backend for messages no route matches. None when omitted. */
+  defaultBackend?: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// AgentRegistry — named backends plus the rules choosing between them
+// ---------------------------------------------------------------------------
+
+export class AgentRegistry {
+  private backends = new Map<string, AgentBackend>();
+  private routes: AgentRoute[] = [];
+  private defaultBackend: string | null = null;
+
+  register(name: string, backend: AgentBackend): void {
+    if (this.backends.has(name)) {
+      throw new Error(`AgentRegistry: backend "${name}" is already registered`);
+    }
+    this.backends.set(name, backend);
+  }
+
+  get(name: string): AgentBackend | undefined {
+    return this.backends.get(name);
+  }
+
+  names(): string[] {
+    return [...this.backends.keys()];
+  }
+
+  /** Replace the routing rules. Every backend they name must be registered. */
+  setRoutes(routes: AgentRoute[], defaultBackend: string | null = null): void {
+    for (const name of [...routes.map((r) => r.backend), defaultBackend]) {
+      if (name !== null && !this.backends.has(name)) {
+        throw new Error(`AgentRegistry: unknown backend "${name}"`);
+      }
+    }
+    this.routes = routes;
+    this.defaultBackend = defaultBackend;
+  }
+
+  /** Name of the backend that should answer the entry, or null for none. */
+  route(entry: Pick<TimelineEntry, "tenantId" | "platform" | "platformChatId">): string | null {
+    const match = this.routes.find(
+      (r) =>
+        (r.tenantId === undefined || r.tenantId === entry.tenantId) &&
+        (r.platform === undefined || r.platform === entry.platform) &&
+        (r.platformChatId === undefined || r.platformChatId === entry.platformChatId),
+    );
+    return match ? match.backend : this.defaultBackend;
+  }
+}
+
+/** What backends need besides their own config. */
+export interface AgentDeps {
+  /** Conversation history for payloads; the subprocess backend records responses. */
+  service: IChatRouterService;
+  /** Where agents reach the router. */
+  routerUrl: string;
+  /** Where ACS prompt files are written; prompts go on the command line without it. */
+  promptDir?: string;
+}
+
+/** Build a registry from a validated config. */
+export function createAgentRegistry(config: AgentConfig, deps: AgentDeps): AgentRegistry {
+  const registry = new AgentRegistry();
+  for (const [name, backend] of Object.entries(config.backends)) {
+    registry.register(name, createBackend(backend, deps));
+  }
+  registry.setRoutes(config.routes ?? [], config.defaultBackend ?? null);
+  return registry;
+}
+
+function createBackend(config: AgentBackendConfig, deps: AgentDeps): AgentBackend {
+  const { service, routerUrl } = deps;
+  switch (config.type) {
+    case "acs":
+      return new AcsBackend(service, { ...config, routerUrl, promptDir: deps.promptDir });
+    case "webhook":
+      return new WebhookBackend(service, { ...config, routerUrl });
+    case "subprocess":
+      return new SubprocessBackend(service, { ...config, routerUrl });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/** Read and validate an agent config file (JSON). */
+export function loadAgentConfig(file: string): AgentConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`agents config ${file}: ${message}`);
+  }
+  return parseAgentConfig(raw, { baseDir: path.dirname(file) });
+}
+
+/**
+ * Validate an agent config, reading `templateFile`s relative to `baseDir`
+ * (default: the working directory). Throws naming the first invalid field.
+ */
+export function parseAgentConfig(raw: unknown, options: { baseDir?: string } = {}): AgentConfig {
+  if (!isObject(raw) || !isObject(raw.backends)) {
+    throw new Error("agents config: backends must be an object");
+  }
+
+  const backends: Record<string, AgentBackendConfig> = {};
+  for (const [name, backend] of Object.entries(raw.backends)) {
+    backends[name] = parseBackend(name, backend, options.baseDir ?? ".");
+  }
+
+  if (raw.routes !== undefined && !Array.isArray(raw.routes)) {
+    throw new Error("agents config: routes must be an array");
+  }
+  const routes = ((raw.routes as unknown[] | undefined) ?? []).map((route, i) => {
+    if (!isObject(route) || !(route.backend === null || typeof route.backend === "string")) {
+      throw new Error(`agents config: routes[${i}].backend must be a string or null`);
+    }
+    for (const field of ["tenantId", "platform", "platformChatId"]) {
+      if (route[field] !== undefined && typeof route[field] !== "string") {
+        throw new Error(`agents config: routes[${i}].${field} must be a string`);
+      }
+    }
+    return route as unknown as AgentRoute;
+  });
+
+  const defaultBackend = raw.defaultBackend ?? null;
+  if (defaultBackend !== null && typeof defaultBackend !== "string") {
+    throw new Error("agents config: defaultBackend must be a string or null");
+  }
+
+  for (const name of [...routes.map((r) => r.backend), defaultBackend]) {
+    if (name !== null && !(name in backends)) {
+      throw new Error(`agents config: unknown backend "${name}"`);
+    }
+  }
+
+  return { backends, routes, defaultBackend };
+}
+
+function parseBackend(name: string, value: unknown, baseDir: string): AgentBackendConfig {
+  const where = `agents config: backends.${name}`;
+  if (!isObject(value)) {
+    throw new Error(`${where} must be an object`);
+  }
+  // Copied, since a templateFile is replaced by its contents
+  const raw: Record<string, unknown> = { ...value };
+
+  const requireString = (field: string): void => {
+    if (typeof raw[field] !== "string" || !raw[field]) {
+      throw new Error(`${where}.${field} is required`);
+    }
+  };
+  const optionalString = (field: string): void => {
+    if (raw[field] !== undefined && (typeof raw[field] !== "string" || !raw[field])) {
+      throw new Error(`${where}.${field} must be a non-empty string`);
+    }
+  };
+  const optionalNumber = (field: string): void => {
+    if (raw[field] !== undefined && (typeof raw[field] !== "number" || raw[field] <= 0)) {
+      throw new Error(`${where}.${field} must be a positive number`);
+    }
+  };
+  const historyLimit = (): void => {
+    const limit = raw.historyLimit;
+    if (limit !== undefined && !(Number.isInteger(limit) && (limit as number) >= 0)) {
+      throw new Error(`${where}.historyLimit must be a non-negative integer`);
+    }
+  };
+  const template = (): void => {
+    if (raw.templateFile !== undefined) {
+      if (typeof raw.templateFile !== "string" || raw.template !== undefined) {
+        throw new Error(`${where}.templateFile must be a path, and excludes template`);
+      }
+      const file = path.resolve(baseDir, raw.templateFile);
+      try {
+        raw.template = fs.readFileSync(file, "utf-8");
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        throw new Error(`${where}.templateFile: ${message}`);
+      }
+      delete raw.templateFile;
+    }
+    if (raw.template === undefined) return;
+    if (typeof raw.template !== "string") {
+      throw new Error(`${where}.template must be a string`);
+    }
+    try {
+      validateTemplate(raw.template);
+    } catch (err: unknown) {
+      throw new Error(`${where}.template: ${(err as Error).message}`);
+    }
+  };
+
+  switch (raw.type) {
+    case "acs":
+      requireString("acsBaseUrl");
+      requireString("jobName");
+      optionalString("apiKey");
+      historyLimit();
+      template();
+      break;
+    case "webhook":
+      requireString("url");
+      requireString("secret");
+      optionalString("apiKey");
+      optionalNumber("timeoutMs");
+      historyLimit();
+      break;
+    case "subprocess":
+      requireString("command");
+      if (
+        raw.args !== undefined &&
+        !(Array.isArray(raw.args) && raw.args.every((a) => typeof a === "string"))
+      ) {
+        throw new Error(`${where}.args must be an array of strings`);
+      }
+      if (raw.cwd !== undefined && typeof raw.cwd !== "string") {
+        throw new Error(`${where}.cwd must be a string`);
+      }
+      if (raw.input !== undefined && raw.input !== "prompt" && raw.input !== "json") {
+        throw new Error(`${where}.input must be "prompt" or "json"`);
+      }
+      if (
+        raw.env !== undefined &&
+        !(isObject(raw.env) && Object.values(raw.env).every((v) => typeof v === "string"))
+      ) {
+        throw new Error(`${where}.env must be an object of strings`);
+      }
+      optionalString("apiKey");
+      optionalNumber("timeoutMs");
+      historyLimit();
+      template();
+      break;
+    default:
+      throw new Error(`${where}.type must be one of acs, webhook, subprocess`);
+  }
+  return raw as unknown as AgentBackendConfig;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
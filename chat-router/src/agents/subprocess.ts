@@ -0,0 +1,167 @@
+import { spawn } from "child_process";
+import type { IChatRouterService, TimelineEntry } from "../types";
+import type { AgentBackend } from "./backend";
+import { buildAgentPayload, renderPrompt, type PromptOptions } from "./payload";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+export interface SubprocessBackendConfig extends PromptOptions {
+  command: string;
+  args?: string[];
+  /** Working directory of the command. Default: the router's. */
+  cwd?: string;
+  /** Kill the command after this many ms. Default 10 minutes. */
+  timeoutMs?: number;
+  /** What goes to stdin: the rendered prompt (default) or the payload as JSON. */
+  input?: "prompt" | "json";
+  /** `respond` key given to the command as `CHAT_ROUTER_API_KEY`. */
+  apiKey?: string;
+  /** Extra environment variables for the command. */
+  env?: Record<string, string>;
+  routerUrl: string;
+}
+
+/** Output beyond this is dropped; a chat reply has no use for more. */
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+
+/**
+ * The only variables the command inherits from the router's environment,
+ * which holds secrets (bot tokens, the router's own key) it has no use for.
+ */
+const INHERITED_ENV = ["PATH", "HOME"];
+
+// ---------------------------------------------------------------------------
+// SubprocessBackend — runs a local command per inbound message
+// ---------------------------------------------------------------------------
+
+/**
+ * Runs the command with the prompt (or the `AgentPayload` as JSON) on stdin
+ * and records its stdout as the response. The trigger resolves (with the
+ * process ID as run ID) once the command has started; how it ends is
+ * reported on the conversation: a response on output, failed processing on
+ * a non-zero exit or a timeout.
+ *
+ * The command also gets the routing context and the backend's key as
+ * `CHAT_ROUTER_*` environment variables, so it can call the router itself
+ * instead of printing; a command that exits 0 without output has answered
+ * that way, or chose not to. Apart from those it only sees `PATH`, `HOME`
+ * and the backend's `env`.
+ */
+export class SubprocessBackend implements AgentBackend {
+  readonly type = "subprocess";
+
+  constructor(
+    private service: IChatRouterService,
+    private config: SubprocessBackendConfig,
+  ) {}
+
+  trigger(entry: TimelineEntry, batch?: TimelineEntry[]): Promise<string | null> {
+    const payload = buildAgentPayload(this.service, entry, { ...this.config, batch });
+    const input =
+      this.config.input === "json"
+        ? JSON.stringify(payload)
+        : renderPrompt(payload, this.config.template);
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.config.command, this.config.args ?? [], {
+        cwd: this.config.cwd,
+        env: {
+          ...inheritedEnv(),
+          ...this.config.env,
+          CHAT_ROUTER_URL: this.config.routerUrl,
+          // Never the router's own key, which the CLI reads from here too
+          CHAT_ROUTER_API_KEY: this.config.apiKey ?? "",
+          CHAT_ROUTER_TENANT: entry.tenantId,
+          CHAT_ROUTER_PLATFORM: entry.platform,
+          CHAT_ROUTER_CHAT_ID: entry.platformChatId,
+          CHAT_ROUTER_IN_REPLY_TO: String(entry.id),
+        },
+        stdio: ["pipe", "pipe", "pipe"],
+      });
+
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+      let outputBytes = 0;
+      const collect = (chunks: Buffer[]) => (chunk: Buffer) => {
+        if (outputBytes >= MAX_OUTPUT_BYTES) return;
+        outputBytes += chunk.length;
+        chunks.push(chunk);
+      };
+      child.stdout.on("data", collect(stdout));
+      child.stderr.on("data", collect(stderr));
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill("SIGTERM");
+      }, this.config.timeoutMs ?? 10 * 60 * 1000);
+      timer.unref();
+
+      child.once("error", (err) => {
+        clearTimeout(timer);
+        reject(err);
+      });
+
+      child.once("spawn", () => {
+        // A command that does not read stdin closes it early
+        child.stdin.on("error", () => {});
+        child.stdin.end(input);
+        resolve(String(child.pid));
+      });
+
+      child.once("close", (code, signal) => {
+        clearTimeout(timer);
+        if (child.pid === undefined) return; // never started; rejected above
+
+        const output = Buffer.concat(stdout).toString("utf-8").trim();
+        if (timedOut) {
+          this.fail(entry, "agent timed out");
+        } else if (code !== 0) {
+          const detail = lastLine(Buffer.concat(stderr).toString("utf-8"));
+          const status = signal ? `was killed by ${signal}` : `exited with code ${code}`;
+          this.fail(entry, `agent ${status}${detail ? `: ${detail}` : ""}`);
+        } else if (!output) {
+          this.service.completeProcessing(entry.tenantId, entry.id);
+        } else {
+          this.respond(entry, output);
+        }
+      });
+    });
+  }
+
+  private respond(entry: TimelineEntry, text: string): void {
+    try {
+      this.service.recordResponse({
+        tenantId: entry.tenantId,
+        platform: entry.platform,
+        platformChatId: entry.platformChatId,
+        text,
+        inReplyTo: entry.id,
+      });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.fail(entry, `could not record the agent's output: ${message}`);
+    }
+  }
+
+  private fail(entry: TimelineEntry, error: string): void {
+    console.error(`[agents] ${this.config.command} for entry ${entry.id}: ${error}`);
+    this.service.failProcessing(entry.tenantId, entry.id, error);
+  }
+}
+
+function inheritedEnv(): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const name of INHERITED_ENV) {
+    const value = process.env[name];
+    if (value !== undefined) env[name] = value;
+  }
+  return env;
+}
+
+function lastLine(text: string): string {
+  const lines = text.trim().split("\n");
+  return lines[lines.length - 1].trim();
+}
@@ -0,0 +1,82 @@
+import * as crypto from "crypto";
+import type { IChatRouterService, TimelineEntry } from "../types";
+import type { AgentBackend } from "./backend";
+import { buildAgentPayload } from "./payload";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+export interface WebhookBackendConfig {
+  url: string;
+  /** Shared secret the request body is signed with. */
+  secret: string;
+  /** Abort the request after this many ms. Default 10 000. */
+  timeoutMs?: number;
+  /** Earlier messages of the conversation to include. Default 20. */
+  historyLimit?: number;
+  /** `respond` key the endpoint posts its responses with; sent in the payload. */
+  apiKey?: string;
+  routerUrl: string;
+}
+
+export const SIGNATURE_HEADER = "X-Chat-Router-Signature";
+export const TIMESTAMP_HEADER = "X-Chat-Router-Timestamp";
+
+// ---------------------------------------------------------------------------
+// Signing
+// ---------------------------------------------------------------------------
+
+/**
+ * Signature of a webhook request: `sha256=` and the hex HMAC-SHA256 of
+ * `<timestamp>.<body>` keyed with the shared secret. Receivers recompute it
+ * to check the request came from the router, and reject stale timestamps
+ * to stop replays.
+ */
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+  const hmac = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`, "utf-8");
+  return `sha256=${hmac.digest("hex")}`;
+}
+
+// ---------------------------------------------------------------------------
+// WebhookBackend — POSTs each inbound message to an HTTP endpoint
+// ---------------------------------------------------------------------------
+
+/**
+ * Sends `{ event: "message", payload }`, with an `AgentPayload`, as JSON.
+ * The endpoint answers with any 2xx, optionally `{ "runId": "..." }`, and
+ * replies to the user later via `POST /api/responses`.
+ */
+export class WebhookBackend implements AgentBackend {
+  readonly type = "webhook";
+
+  constructor(
+    private service: IChatRouterService,
+    private config: WebhookBackendConfig,
+  ) {}
+
+  async trigger(entry: TimelineEntry, batch?: TimelineEntry[]): Promise<string | null> {
+    const payload = buildAgentPayload(this.service, entry, { ...this.config, batch });
+    const body = JSON.stringify({ event: "message", payload });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    const res = await fetch(this.config.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        [TIMESTAMP_HEADER]: timestamp,
+        [SIGNATURE_HEADER]: signWebhook(this.config.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(this.config.timeoutMs ?? 10_000),
+    });
+
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`Webhook failed (${res.status}): ${text}`);
+    }
+
+    const data = (await res.json().catch(() => null)) as { runId?: unknown } | null;
+    return typeof data?.runId === "string" ? data.runId : null;
+  }
+}
@@ -0,0 +1,49 @@
+import type { Request, Response, NextFunction } from "express";
+import type { ApiKeyScope } from "../types";
+import { ApiKeyManager, apiKeyFromHeaders, hasScope } from "../auth/keys";
+
+// ---------------------------------------------------------------------------
+// Authentication
+// ---------------------------------------------------------------------------
+
+/**
+ * Express middleware that requires a valid, unrevoked API key on every
+ * request. On success the key's tenant and scopes are stored on
+ * `res.locals.tenantId` / `res.locals.scopes`, replacing the header-based
+ * tenant resolution used when authentication is disabled.
+ */
+export function authenticate(apiKeys: ApiKeyManager) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const key = apiKeyFromHeaders(req.headers);
+    if (!key) {
+      res.status(401).json({ error: "API key required" });
+      return;
+    }
+
+    const apiKey = apiKeys.verify(key);
+    if (!apiKey) {
+      res.status(401).json({ error: "Invalid API key" });
+      return;
+    }
+
+    res.locals.tenantId = apiKey.tenantId;
+    res.locals.scopes = apiKey.scopes;
+    res.locals.apiKeyId = apiKey.id;
+    next();
+  };
+}
+
+/**
+ * Route-level guard: responds 403 unless the request was granted one of
+ * `required` (or `admin`). Fails closed when no scopes were resolved at all.
+ */
+export function requireScope(...required: ApiKeyScope[]) {
+  return (_req: Request, res: Response, next: NextFunction): void => {
+    const scopes = res.locals.scopes as ApiKeyScope[] | undefined;
+    if (!scopes || !required.some((scope) => hasScope(scopes, scope))) {
+      res.status(403).json({ error: `Missing scope: ${required.join(" or ")}` });
+      return;
+    }
+    next();
+  };
+}
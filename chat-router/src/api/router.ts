@@ -1,27 +1,51 @@
-import { Router, Request, Response } from "express";
-import type { IChatRouterService, Platform } from "../types";
-import { triggerAcsJob, AcsTriggerConfig } from "../acs/trigger";
+import express, { Router, Request, Response, NextFunction } from "express";
+import type {
+  AgentRunStatus,
+  DispatchStatus,
+  IChatRouterService,
+  Platform,
+  TimelineEntry,
+} from "../types";
+import { isTriggerable } from "../acs/trigger";
+import type { AgentRegistry } from "../agents/registry";
+import { tenantOf, bodyTenantMatches } from "./tenant";
+import { requireScope } from "./auth";
+
+/** Largest accepted upload; Telegram's Bot API won't serve bigger files anyway. */
+export const MAX_BLOB_BYTES = 20 * 1024 * 1024;
 
 /**
  * Creates an Express Router that maps HTTP endpoints to IChatRouterService
  * methods. The service is injected as a parameter.
+ *
+ * Every route is scoped to the tenant resolved in front of this router
+ * (`res.locals.tenantId`) and guarded by the scope it needs
+ * (`res.locals.scopes`), both set by `resolveTenant()` or `authenticate()`.
  */
 export function createApiRouter(
   service: IChatRouterService,
-  acsConfig?: AcsTriggerConfig,
+  agents?: AgentRegistry,
 ): Router {
   const router = Router();
 
-  // POST /messages — ingest an inbound message, then trigger ACS
-  router.post("/messages", async (req: Request, res: Response) => {
+  // POST /messages — ingest an inbound message and queue the agent trigger.
+  // Re-sent messages return the original entry with 200 and trigger nothing.
+  router.post("/messages", requireScope("ingest"), (req: Request, res: Response) => {
+    const tenantId = tenantOf(res);
+    if (!bodyTenantMatches(req.body, tenantId)) {
+      res.status(403).json({ error: "Tenant mismatch" });
+      return;
+    }
+
     try {
-      const entry = service.ingestMessage(req.body);
+      const entry = service.ingestMessage({ ...req.body, tenantId });
 
-      // Trigger ACS job before returning — plugin thumbs-up gates on this
-      if (acsConfig) {
-        await triggerAcsJob(acsConfig, entry);
+      if (entry.duplicate) {
+        res.status(200).json(entry);
+        return;
       }
 
+      queueAgentTrigger(service, agents, entry);
       res.status(201).json(entry);
     } catch (err: any) {
       res.status(400).json({ error: err.message });
@@ -29,65 +53,215 @@ export function createApiRouter(
   });
 
   // POST /responses — record an outbound response
-  router.post("/responses", (req: Request, res: Response) => {
+  router.post("/responses", requireScope("respond"), (req: Request, res: Response) => {
+    const tenantId = tenantOf(res);
+    if (!bodyTenantMatches(req.body, tenantId)) {
+      res.status(403).json({ error: "Tenant mismatch" });
+      return;
+    }
+
     try {
-      const entry = service.recordResponse(req.body);
+      const entry = service.recordResponse({ ...req.body, tenantId });
       res.status(201).json(entry);
     } catch (err: any) {
       res.status(400).json({ error: err.message });
     }
   });
 
-  // GET /timeline/:platform/:chatId — timeline for a specific conversation
-  router.get("/timeline/:platform/:chatId", (req: Request, res: Response) => {
-    const platform = req.params.platform as string;
-    const chatId = req.params.chatId as string;
-    const after = req.query.after ? Number(req.query.after) : undefined;
-    const before = req.query.before ? Number(req.query.before) : undefined;
-    const limit = req.query.limit ? Number(req.query.limit) : undefined;
+  // PATCH /responses/:id — edit a response's text
+  router.patch("/responses/:id", requireScope("respond"), (req: Request, res: Response) => {
+    try {
+      const entry = service.editResponse({
+        tenantId: tenantOf(res),
+        timelineId: Number(req.params.id),
+        text: req.body?.text,
+      });
+      if (!entry) {
+        res.status(404).json({ error: "Response not found" });
+        return;
+      }
+      res.status(200).json(entry);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
 
-    const entries = service.getTimeline({
-      platform: platform as Platform,
-      platformChatId: chatId,
-      after,
-      before,
-      limit,
-    });
+  // DELETE /responses/:id — retract a response
+  router.delete("/responses/:id", requireScope("respond"), (req: Request, res: Response) => {
+    const entry = service.deleteResponse(tenantOf(res), Number(req.params.id));
+    if (!entry) {
+      res.status(404).json({ error: "Response not found" });
+      return;
+    }
+    res.status(200).json(entry);
+  });
 
-    res.status(200).json(entries);
+  // PATCH /messages/:platform/:chatId/:messageId — edit made on the platform
+  // to an inbound message
+  router.patch(
+    "/messages/:platform/:chatId/:messageId",
+    requireScope("ingest"),
+    knownPlatform(service),
+    (req: Request, res: Response) => {
+      try {
+        const entry = service.editMessage({
+          tenantId: tenantOf(res),
+          platform: platformOf(res),
+          platformChatId: req.params.chatId as string,
+          platformMessageId: req.params.messageId as string,
+          text: req.body?.text,
+        });
+        if (!entry) {
+          res.status(404).json({ error: "Message not found" });
+          return;
+        }
+        res.status(200).json(entry);
+      } catch (err: any) {
+        res.status(400).json({ error: err.message });
+      }
+    },
+  );
+
+  // GET /messages/:id/revisions — edit and deletion history of an entry
+  router.get("/messages/:id/revisions", requireScope("read"), (req: Request, res: Response) => {
+    res.status(200).json(service.listRevisions(tenantOf(res), Number(req.params.id)));
   });
 
+  // POST /responses/:id/delivered — delivery receipt from a plugin, with the
+  // platform message IDs the response was delivered as
+  router.post(
+    "/responses/:id/delivered",
+    requireScope("ingest"),
+    (req: Request, res: Response) => {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id)) {
+        res.status(400).json({ error: "id must be a timeline entry ID" });
+        return;
+      }
+
+      try {
+        const delivery = service.acknowledgeDelivery(
+          tenantOf(res),
+          id,
+          req.body?.platformMessageIds,
+        );
+        if (!delivery) {
+          res.status(404).json({ error: "Delivery not found" });
+          return;
+        }
+        res.status(200).json(delivery);
+      } catch (err: any) {
+        res.status(400).json({ error: err.message });
+      }
+    },
+  );
+
+  // GET /dispatches — queued, sent and dead-lettered agent triggers
+  router.get("/dispatches", requireScope("read"), (req: Request, res: Response) => {
+    try {
+      const dispatches = service.listDispatches({
+        tenantId: tenantOf(res),
+        status: req.query.status as DispatchStatus | undefined,
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+      });
+      res.status(200).json(dispatches);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  // POST /dispatches/:id/retry — re-drive a dead-lettered agent trigger
+  router.post("/dispatches/:id/retry", requireScope("admin"), (req: Request, res: Response) => {
+    try {
+      const dispatch = service.redriveDispatch(tenantOf(res), Number(req.params.id));
+      if (!dispatch) {
+        res.status(404).json({ error: "Dispatch not found" });
+        return;
+      }
+      res.status(200).json(dispatch);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  // GET /runs — agent runs, most recent first
+  router.get("/runs", requireScope("read"), (req: Request, res: Response) => {
+    try {
+      const runs = service.listRuns({
+        tenantId: tenantOf(res),
+        status: req.query.status as AgentRunStatus | undefined,
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+      });
+      res.status(200).json(runs);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  // GET /timeline/:platform/:chatId — timeline for a specific conversation
+  router.get(
+    "/timeline/:platform/:chatId",
+    requireScope("read"),
+    knownPlatform(service),
+    (req: Request, res: Response) => {
+      const chatId = req.params.chatId as string;
+      const after = req.query.after ? Number(req.query.after) : undefined;
+      const before = req.query.before ? Number(req.query.before) : undefined;
+      const limit = req.query.limit ? Number(req.query.limit) : undefined;
+
+      const entries = service.getTimeline({
+        tenantId: tenantOf(res),
+        platform: platformOf(res),
+        platformChatId: chatId,
+        after,
+        before,
+        limit,
+      });
+
+      res.status(200).json(entries);
+    },
+  );
+
   // GET /timeline — unified timeline across all platforms
-  router.get("/timeline", (req: Request, res: Response) => {
+  router.get("/timeline", requireScope("read"), (req: Request, res: Response) => {
     const after = req.query.after ? Number(req.query.after) : undefined;
     const before = req.query.before ? Number(req.query.before) : undefined;
     const limit = req.query.limit ? Number(req.query.limit) : undefined;
 
-    const entries = service.getUnifiedTimeline({ after, before, limit });
+    const entries = service.getUnifiedTimeline({
+      tenantId: tenantOf(res),
+      after,
+      before,
+      limit,
+    });
     res.status(200).json(entries);
   });
 
   // GET /conversations — list conversations
-  router.get("/conversations", (req: Request, res: Response) => {
-    const platform = req.query.platform
-      ? (req.query.platform as Platform)
-      : undefined;
+  router.get("/conversations", requireScope("read"), (req: Request, res: Response) => {
+    const tenantId = tenantOf(res);
     const limit = req.query.limit ? Number(req.query.limit) : undefined;
 
-    const convos = service.listConversations({ platform, limit });
-    res.status(200).json(convos);
+    try {
+      const convos = service.listConversations({
+        tenantId,
+        platform: platformFilter(service, tenantId, req.query.platform),
+        limit,
+      });
+      res.status(200).json(convos);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
   });
 
   // GET /conversations/:platform/:chatId — single conversation
   router.get(
     "/conversations/:platform/:chatId",
+    requireScope("read"),
+    knownPlatform(service),
     (req: Request, res: Response) => {
-      const platform = req.params.platform as string;
       const chatId = req.params.chatId as string;
-      const convo = service.getConversation(
-        platform as Platform,
-        chatId,
-      );
+      const convo = service.getConversation(tenantOf(res), platformOf(res), chatId);
 
       if (!convo) {
         res.status(404).json({ error: "Conversation not found" });
@@ -98,11 +272,216 @@ export function createApiRouter(
     },
   );
 
+  // PUT /conversations/:platform/:chatId/settings — replace the settings
+  // passed to the agent with every message of the conversation
+  router.put(
+    "/conversations/:platform/:chatId/settings",
+    requireScope("admin"),
+    knownPlatform(service),
+    (req: Request, res: Response) => {
+      try {
+        const convo = service.updateConversationSettings({
+          tenantId: tenantOf(res),
+          platform: platformOf(res),
+          platformChatId: req.params.chatId as string,
+          settings: req.body,
+        });
+
+        if (!convo) {
+          res.status(404).json({ error: "Conversation not found" });
+          return;
+        }
+
+        res.status(200).json(convo);
+      } catch (err: any) {
+        res.status(400).json({ error: err.message });
+      }
+    },
+  );
+
+  // GET /conversations/:platform/:chatId/runs — the conversation's agent runs
+  router.get(
+    "/conversations/:platform/:chatId/runs",
+    requireScope("read"),
+    knownPlatform(service),
+    (req: Request, res: Response) => {
+      const tenantId = tenantOf(res);
+      const platform = platformOf(res);
+      const chatId = req.params.chatId as string;
+      try {
+        if (!service.getConversation(tenantId, platform, chatId)) {
+          res.status(404).json({ error: "Conversation not found" });
+          return;
+        }
+        const runs = service.listRuns({
+          tenantId,
+          platform,
+          platformChatId: chatId,
+          status: req.query.status as AgentRunStatus | undefined,
+          limit: req.query.limit ? Number(req.query.limit) : undefined,
+        });
+        res.status(200).json(runs);
+      } catch (err: any) {
+        res.status(400).json({ error: err.message });
+      }
+    },
+  );
+
+  // GET /search — full-text search, best match first
+  router.get("/search", requireScope("read"), (req: Request, res: Response) => {
+    const tenantId = tenantOf(res);
+    const q = typeof req.query.q === "string" ? req.query.q : "";
+    const chatId = req.query.chatId ? String(req.query.chatId) : undefined;
+    const limit = req.query.limit ? Number(req.query.limit) : undefined;
+
+    try {
+      const results = service.search({
+        tenantId,
+        query: q,
+        platform: platformFilter(service, tenantId, req.query.platform),
+        platformChatId: chatId,
+        from: parseTime(req.query.from),
+        to: parseTime(req.query.to),
+        limit,
+      });
+      res.status(200).json(results);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  // POST /blobs — upload attachment content; the body is the raw file.
+  // Plugins upload inbound media, agents the media they reply with.
+  router.post(
+    "/blobs",
+    requireScope("ingest", "respond"),
+    express.raw({ type: () => true, limit: MAX_BLOB_BYTES }),
+    (req: Request, res: Response) => {
+      try {
+        const blob = service.storeBlob({
+          tenantId: tenantOf(res),
+          data: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0),
+          mimeType: req.get("content-type"),
+        });
+        res.status(201).json(blob);
+      } catch (err: any) {
+        res.status(400).json({ error: err.message });
+      }
+    },
+  );
+
+  // GET /blobs/:id — download attachment content
+  router.get("/blobs/:id", requireScope("read"), (req: Request, res: Response) => {
+    const found = service.readBlob(tenantOf(res), req.params.id as string);
+    if (!found) {
+      res.status(404).json({ error: "Blob not found" });
+      return;
+    }
+
+    // Content never changes under a given ID. Uploads are untrusted, so
+    // browsers must not sniff or run them as part of the router's origin.
+    res.set({
+      "Cache-Control": "private, max-age=31536000, immutable",
+      "X-Content-Type-Options": "nosniff",
+      "Content-Security-Policy": "sandbox",
+    });
+    res.type(found.blob.mimeType ?? "application/octet-stream");
+    res.status(200).send(found.data);
+  });
+
+  // GET /platforms — the platforms the tenant may ingest from, with the
+  // number of plugin connections serving each
+  router.get("/platforms", requireScope("read"), (_req: Request, res: Response) => {
+    res.status(200).json(service.listPlatforms(tenantOf(res)));
+  });
+
+  // GET /plugins — WebSocket clients of the tenant that said hello
+  router.get("/plugins", requireScope("read"), (_req: Request, res: Response) => {
+    res.status(200).json(service.listPlugins(tenantOf(res)));
+  });
+
+  // PUT /platforms/:name — register a platform, or replace its descriptor
+  router.put("/platforms/:name", requireScope("admin"), (req: Request, res: Response) => {
+    try {
+      const platform = service.registerPlatform(tenantOf(res), {
+        ...req.body,
+        name: req.params.name,
+      });
+      res.status(200).json(platform);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
   // GET /health — health check
   router.get("/health", (_req: Request, res: Response) => {
-    const health = service.healthCheck();
+    const health = service.healthCheck(tenantOf(res));
     res.status(200).json(health);
   });
 
   return router;
 }
+
+/**
+ * Queue the agent trigger for a newly ingested entry, if an agent answers
+ * its conversation. The AgentDispatcher sends (and retries) it in the
+ * background, so a slow or down agent never holds up the caller.
+ */
+export function queueAgentTrigger(
+  service: IChatRouterService,
+  agents: AgentRegistry | undefined,
+  entry: TimelineEntry,
+): void {
+  const backend = agents?.route(entry) ?? null;
+  if (backend && isTriggerable(entry)) {
+    service.enqueueDispatch(entry.tenantId, entry.id, backend);
+  }
+}
+
+/**
+ * A time bound given as Unix milliseconds or an ISO 8601 date. Returns NaN
+ * for anything else so the service rejects it.
+ */
+function parseTime(value: unknown): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const raw = String(value);
+  return /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+}
+
+/**
+ * Express middleware that answers 400 unless the `:platform` route parameter
+ * names one of the tenant's platforms, registered or built in, and stores
+ * it on `res.locals.platform`.
+ */
+function knownPlatform(service: IChatRouterService) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const platform = String(req.params.platform);
+    if (!service.getPlatform(tenantOf(res), platform)) {
+      res.status(400).json({ error: `Unknown platform "${platform}"` });
+      return;
+    }
+    res.locals.platform = platform;
+    next();
+  };
+}
+
+/** The platform checked by `knownPlatform()`. */
+function platformOf(res: Response): Platform {
+  return res.locals.platform as string;
+}
+
+/**
+ * The `platform` query filter, or undefined if absent. Throws unless it
+ * names one of the tenant's platforms.
+ */
+function platformFilter(
+  service: IChatRouterService,
+  tenantId: string,
+  value: unknown,
+): Platform | undefined {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value !== "string" || !service.getPlatform(tenantId, value)) {
+    throw new Error(`Unknown platform "${String(value)}"`);
+  }
+  return value;
+}
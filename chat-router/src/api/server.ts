@@ -1,8 +1,36 @@
 import express, { Express, Request, Response, NextFunction } from "express";
 import cors from "cors";
 import type { IChatRouterService } from "../types";
-import type { AcsTriggerConfig } from "../acs/trigger";
+import type { AgentRegistry } from "../agents/registry";
+import type { ApiKeyManager } from "../auth/keys";
+import type { WebSessionManager } from "../web/sessions";
+import { createWebChatRouter, type WebChatLimits } from "../web/router";
 import { createApiRouter } from "./router";
+import { resolveTenant } from "./tenant";
+import { authenticate } from "./auth";
+
+export interface ServerOptions {
+  /**
+   * When set, every /api request must carry a valid API key, which also
+   * determines the tenant. When omitted, the tenant comes from `X-Tenant-Id`
+   * and every caller has every scope.
+   */
+  apiKeys?: ApiKeyManager;
+  /** Allowed CORS origins. Every origin is allowed when omitted. */
+  corsOrigins?: string[];
+  /**
+   * When set, the built-in web chat is served at /web for the tenants the
+   * manager enables. Visitors authenticate with session tokens, not API keys.
+   */
+  webChat?: WebSessionManager;
+  /** Rate limits of the web chat's endpoints. */
+  webChatLimits?: WebChatLimits;
+  /**
+   * Express's `trust proxy` setting, so that client IPs (and with them the
+   * web chat's per-IP limits) come from `X-Forwarded-For` behind a proxy.
+   */
+  trustProxy?: boolean | number | string;
+}
 
 /**
  * Factory function that creates an Express app wired to the given service.
@@ -10,12 +38,14 @@ import { createApiRouter } from "./router";
  */
 export function createServer(
   service: IChatRouterService,
-  acsConfig?: AcsTriggerConfig,
+  agents?: AgentRegistry,
+  options: ServerOptions = {},
 ): Express {
   const app = express();
+  if (options.trustProxy !== undefined) app.set("trust proxy", options.trustProxy);
 
-  // Allow cross-origin requests from any origin
-  app.use(cors());
+  // Allow cross-origin requests from the configured origins (default: any)
+  app.use(cors(options.corsOrigins ? { origin: options.corsOrigins } : undefined));
 
   // Parse JSON request bodies
   app.use(express.json());
@@ -44,11 +74,23 @@ export function createServer(
     next();
   });
 
-  // Mount the API router at /api
-  app.use("/api", createApiRouter(service, acsConfig));
+  // Mount the web chat at /web; it authenticates visitors by session
+  if (options.webChat) {
+    app.use("/web", createWebChatRouter(service, options.webChat, agents, options.webChatLimits));
+  }
 
-  // Global error handler
+  // Mount the API router at /api, scoped to the caller's tenant
+  const identify = options.apiKeys ? authenticate(options.apiKeys) : resolveTenant();
+  app.use("/api", identify, createApiRouter(service, agents));
+
+  // Global error handler. Client errors raised by middleware (malformed
+  // JSON, oversized uploads) keep their status.
   app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+    const status = (err as { status?: number }).status;
+    if (status !== undefined && status >= 400 && status < 500) {
+      res.status(status).json({ error: err.message });
+      return;
+    }
     console.error("Unhandled error:", err);
     res.status(500).json({ error: "Internal server error" });
   });
@@ -0,0 +1,51 @@
+import type { Request, Response, NextFunction } from "express";
+import { DEFAULT_TENANT_ID, TENANT_ID_PATTERN } from "../types";
+import { API_KEY_SCOPES } from "../auth/keys";
+
+// ---------------------------------------------------------------------------
+// Tenant resolution
+// ---------------------------------------------------------------------------
+
+/** Header through which callers name the tenant they act for. */
+export const TENANT_HEADER = "x-tenant-id";
+
+/**
+ * Express middleware that resolves the calling tenant from the
+ * `X-Tenant-Id` header (falling back to the default tenant) and stores it
+ * on `res.locals.tenantId`. Route handlers must read the tenant from there
+ * and never from the request body.
+ *
+ * Only used when API-key authentication is disabled, so it grants every
+ * scope; with authentication on, `authenticate()` resolves both instead.
+ */
+export function resolveTenant() {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const header = req.get(TENANT_HEADER);
+    const tenantId = header ? header.trim() : DEFAULT_TENANT_ID;
+
+    if (!TENANT_ID_PATTERN.test(tenantId)) {
+      res.status(400).json({ error: "Invalid tenant ID" });
+      return;
+    }
+
+    res.locals.tenantId = tenantId;
+    res.locals.scopes = API_KEY_SCOPES;
+    next();
+  };
+}
+
+/** The tenant resolved for this request by the tenant middleware. */
+export function tenantOf(res: Response): string {
+  return res.locals.tenantId as string;
+}
+
+/**
+ * Returns `true` when the body either omits `tenantId` or names the same
+ * tenant as the request. A body naming any other tenant is rejected so a
+ * caller can never write into another tenant's chats.
+ */
+export function bodyTenantMatches(body: unknown, tenantId: string): boolean {
+  if (!body || typeof body !== "object") return true;
+  const bodyTenant = (body as { tenantId?: unknown }).tenantId;
+  return bodyTenant === undefined || bodyTenant === tenantId;
+}
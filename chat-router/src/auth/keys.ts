@@ -0,0 +1,139 @@
+import * as crypto from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import type { ApiKey, ApiKeyScope } from "../types";
+import { PLATFORM_NAME_PATTERN, TENANT_ID_PATTERN } from "../types";
+import type { ChatRouterStore } from "../db/store";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = [
+  "ingest",
+  "respond",
+  "read",
+  "admin",
+];
+
+/** Every key starts with this marker so leaked keys are easy to grep for. */
+const KEY_MARKER = "crk_";
+
+/** Characters of the key kept in clear text for display. */
+const PREFIX_LENGTH = 12;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key, "utf-8").digest("hex");
+}
+
+/**
+ * Extract a plaintext key from `Authorization: Bearer <key>` or
+ * `X-Api-Key: <key>`. Returns `null` when neither header is present.
+ */
+export function apiKeyFromHeaders(headers: IncomingHttpHeaders): string | null {
+  const auth = headers.authorization;
+  if (auth) {
+    const match = /^Bearer\s+(\S+)$/i.exec(auth);
+    return match ? match[1] : null;
+  }
+  const header = headers["x-api-key"];
+  return typeof header === "string" && header ? header.trim() : null;
+}
+
+/** `admin` implies every other scope. */
+export function hasScope(scopes: readonly ApiKeyScope[], scope: ApiKeyScope): boolean {
+  return scopes.includes("admin") || scopes.includes(scope);
+}
+
+/**
+ * Parse a comma-separated scope list (e.g. `"ingest,read"`).
+ * Throws on unknown or missing scopes.
+ */
+export function parseScopes(raw: string): ApiKeyScope[] {
+  const scopes = raw
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  if (scopes.length === 0) {
+    throw new Error("at least one scope is required");
+  }
+  for (const scope of scopes) {
+    if (!(API_KEY_SCOPES as readonly string[]).includes(scope)) {
+      throw new Error(
+        `unknown scope "${scope}" (expected one of: ${API_KEY_SCOPES.join(", ")})`,
+      );
+    }
+  }
+  return [...new Set(scopes)] as ApiKeyScope[];
+}
+
+// ---------------------------------------------------------------------------
+// ApiKeyManager — creates, lists, revokes and verifies API keys
+// ---------------------------------------------------------------------------
+
+/**
+ * Keys are random 32-byte tokens. Only their SHA-256 hash is persisted, so
+ * the plaintext key is returned exactly once, from `create()`.
+ */
+export class ApiKeyManager {
+  constructor(private store: ChatRouterStore) {}
+
+  create(params: {
+    tenantId: string;
+    name: string;
+    scopes: ApiKeyScope[];
+    /** The platform a plugin may register with the key. */
+    platform?: string;
+  }): { key: string; apiKey: ApiKey } {
+    if (!params.tenantId || !TENANT_ID_PATTERN.test(params.tenantId)) {
+      throw new Error("createApiKey: tenantId is invalid");
+    }
+    if (!params.name) {
+      throw new Error("createApiKey: name is required");
+    }
+    if (params.scopes.length === 0) {
+      throw new Error("createApiKey: at least one scope is required");
+    }
+    if (params.platform !== undefined && !PLATFORM_NAME_PATTERN.test(params.platform)) {
+      throw new Error("createApiKey: platform is invalid");
+    }
+
+    const key = KEY_MARKER + crypto.randomBytes(32).toString("base64url");
+    const apiKey = this.store.insertApiKey({
+      tenantId: params.tenantId,
+      name: params.name,
+      prefix: key.slice(0, PREFIX_LENGTH),
+      keyHash: hashApiKey(key),
+      scopes: params.scopes,
+      platform: params.platform,
+    });
+
+    return { key, apiKey };
+  }
+
+  list(tenantId?: string): ApiKey[] {
+    return this.store.listApiKeys(tenantId);
+  }
+
+  revoke(id: number): boolean {
+    return this.store.revokeApiKey(id);
+  }
+
+  /**
+   * Resolve a plaintext key to its active ApiKey record, or `null` if the key
+   * is unknown or revoked. Updates `lastUsedAt` on success.
+   */
+  verify(key: string): ApiKey | null {
+    if (!key.startsWith(KEY_MARKER)) return null;
+
+    const apiKey = this.store.getApiKeyByHash(hashApiKey(key));
+    if (!apiKey || apiKey.revokedAt !== null) return null;
+
+    this.store.touchApiKey(apiKey.id);
+    return apiKey;
+  }
+}
@@ -0,0 +1,52 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+
+/** Blob IDs are lower-case hex SHA-256 digests. */
+export const BLOB_ID_PATTERN = /^[0-9a-f]{64}$/;
+
+// ---------------------------------------------------------------------------
+// BlobStore — content-addressed files on local disk
+// ---------------------------------------------------------------------------
+
+/**
+ * Stores each distinct content once, at `<dir>/<first two hex chars>/<sha256>`.
+ * Which tenant may read which blob is tracked by the database, not here.
+ */
+export class BlobStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /** Write `data` unless already present; returns its ID. */
+  write(data: Buffer): string {
+    const id = createHash("sha256").update(data).digest("hex");
+    const filePath = this.pathFor(id);
+    if (fs.existsSync(filePath)) return id;
+
+    // Write-then-rename so a crash never leaves a truncated blob under its
+    // final name.
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, data);
+    fs.renameSync(tmpPath, filePath);
+    return id;
+  }
+
+  /** Content of a blob, or null if it is not stored. */
+  read(id: string): Buffer | null {
+    if (!BLOB_ID_PATTERN.test(id)) return null;
+    try {
+      return fs.readFileSync(this.pathFor(id));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  private pathFor(id: string): string {
+    return path.join(this.dir, id.slice(0, 2), id);
+  }
+}
@@ -1,10 +1,30 @@
+import fs from "fs";
+import path from "path";
 import { ChatRouterClient } from "./client";
+import { ChatRouterSocket, type ChatRouterSocketOptions } from "../ws/client";
+import { WS_PROTOCOL_VERSION, type WsPush } from "../ws/protocol";
+import { ChatRouterStore } from "../db/store";
+import { ApiKeyManager, parseScopes } from "../auth/keys";
+import { DEFAULT_TENANT_ID } from "../types";
 
 // ---------------------------------------------------------------------------
 // CLI adapter — parses process.argv and dispatches to ChatRouterClient
 // ---------------------------------------------------------------------------
 
-const COMMANDS = ["health", "conversations", "timeline", "ingest", "respond"] as const;
+const COMMANDS = [
+  "health",
+  "conversations",
+  "timeline",
+  "ingest",
+  "respond",
+  "upload",
+  "search",
+  "dispatches",
+  "runs",
+  "tail",
+  "keys",
+  "migrate",
+] as const;
 export type CliCommand = (typeof COMMANDS)[number];
 
 export function isCliCommand(arg: string): arg is CliCommand {
@@ -127,6 +147,243 @@ async function handleRespond(
   console.log(JSON.stringify(result, null, 2));
 }
 
+/** MIME types guessed from the file extension when `--type` is not given. */
+const MIME_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".pdf": "application/pdf",
+  ".txt": "text/plain",
+  ".ogg": "audio/ogg",
+  ".mp3": "audio/mpeg",
+  ".mp4": "video/mp4",
+};
+
+/**
+ * `upload <file> [--type mime]` — stores a file in the blob store and prints
+ * the blob, whose `id` can be attached to a response.
+ */
+async function handleUpload(
+  client: ChatRouterClient,
+  positional: string[],
+  flags: Record<string, string>,
+): Promise<void> {
+  const [file] = positional;
+  if (!file) {
+    throw new Error("upload requires a file path");
+  }
+  const mimeType = flags.type ?? MIME_TYPES[path.extname(file).toLowerCase()];
+  const result = await client.upload(fs.readFileSync(file), mimeType);
+  console.log(JSON.stringify(result, null, 2));
+}
+
+/**
+ * `search <terms...> [--platform p] [--chat id] [--from t] [--to t] [--limit N]`
+ * — positional arguments are joined into the query.
+ */
+async function handleSearch(
+  client: ChatRouterClient,
+  positional: string[],
+  flags: Record<string, string>,
+): Promise<void> {
+  const q = positional.join(" ");
+  if (!q) {
+    throw new Error("search requires a query");
+  }
+  const result = await client.search({
+    q,
+    platform: flags.platform,
+    chatId: flags.chat,
+    from: flags.from,
+    to: flags.to,
+    limit: flags.limit ? Number(flags.limit) : undefined,
+  });
+  console.log(JSON.stringify(result, null, 2));
+}
+
+/**
+ * `dispatches [--status pending|dispatched|dead] [--limit N]` lists agent
+ * triggers; `dispatches retry <entryId>` re-drives a dead one.
+ */
+async function handleDispatches(
+  client: ChatRouterClient,
+  positional: string[],
+  flags: Record<string, string>,
+): Promise<void> {
+  const [sub, arg] = positional;
+  if (sub === undefined) {
+    const result = await client.dispatches({
+      status: flags.status,
+      limit: flags.limit ? Number(flags.limit) : undefined,
+    });
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+  if (sub !== "retry") {
+    throw new Error("Usage: dispatches [--status s] [--limit N] | dispatches retry <entryId>");
+  }
+
+  const id = Number(arg);
+  if (!Number.isInteger(id)) {
+    throw new Error("dispatches retry requires a numeric entry ID");
+  }
+  const result = await client.retryDispatch(id);
+  console.log(JSON.stringify(result, null, 2));
+}
+
+/**
+ * `runs [<platform> <chatId>] [--status running|done|failed] [--limit N]`
+ * lists agent runs, of every conversation or of one.
+ */
+async function handleRuns(
+  client: ChatRouterClient,
+  positional: string[],
+  flags: Record<string, string>,
+): Promise<void> {
+  const [platform, chatId] = positional;
+  if (platform !== undefined && chatId === undefined) {
+    throw new Error("Usage: runs [<platform> <chatId>] [--status s] [--limit N]");
+  }
+  const result = await client.runs({
+    platform,
+    chatId,
+    status: flags.status,
+    limit: flags.limit ? Number(flags.limit) : undefined,
+  });
+  console.log(JSON.stringify(result, null, 2));
+}
+
+/**
+ * `tail [--platform p] [--chat id] [--direction in|out]` — follows the
+ * daemon over WebSocket, printing each matching new, edited or deleted
+ * message as a line of JSON until interrupted. Replies still pending
+ * delivery are printed first.
+ */
+async function handleTail(
+  baseUrl: string,
+  options: ChatRouterSocketOptions,
+  flags: Record<string, string>,
+): Promise<void> {
+  const socket = await ChatRouterSocket.connect(baseUrl, options);
+  socket.on("push", (push: WsPush) => console.log(JSON.stringify(push)));
+
+  try {
+    await socket.request({
+      type: "hello",
+      protocolVersion: WS_PROTOCOL_VERSION,
+      role: "cli",
+      name: "chat-router-cli",
+      capabilities: ["edits"],
+    });
+    await socket.request({
+      type: "subscribe",
+      platform: flags.platform,
+      chatIds: flags.chat ? [flags.chat] : undefined,
+      direction: flags.direction as "in" | "out" | undefined,
+    });
+  } catch (err) {
+    socket.close();
+    throw err;
+  }
+
+  // Runs until interrupted, or until the router goes away
+  await new Promise<never>((_resolve, reject) => {
+    socket.on("close", () => reject(new Error("connection to the router closed")));
+  });
+}
+
+/** Open the daemon's local SQLite database (same path as daemon mode). */
+function openLocalStore(options: { migrate?: boolean } = {}): ChatRouterStore {
+  const dataDir = process.env.CHAT_ROUTER_DATA_DIR || "./data";
+  const store = new ChatRouterStore(`${dataDir}/chat-router.db`);
+  store.init(options);
+  return store;
+}
+
+/**
+ * `keys create|list|revoke` — manages API keys directly in the local SQLite
+ * database rather than over HTTP, so the first admin key can be created
+ * before any key exists.
+ */
+async function handleKeys(
+  positional: string[],
+  flags: Record<string, string>,
+): Promise<void> {
+  const store = openLocalStore();
+  const apiKeys = new ApiKeyManager(store);
+
+  try {
+    const [sub, arg] = positional;
+    switch (sub) {
+      case "create": {
+        if (!flags.name) {
+          throw new Error("keys create requires --name");
+        }
+        const { key, apiKey } = apiKeys.create({
+          tenantId: flags.tenant ?? DEFAULT_TENANT_ID,
+          name: flags.name,
+          scopes: parseScopes(flags.scopes ?? "ingest,respond,read"),
+          platform: flags.platform,
+        });
+        console.log(JSON.stringify(apiKey, null, 2));
+        console.log(`\nAPI key (shown once, store it now):\n${key}`);
+        break;
+      }
+      case "list": {
+        console.log(JSON.stringify(apiKeys.list(flags.tenant), null, 2));
+        break;
+      }
+      case "revoke": {
+        const id = Number(arg);
+        if (!Number.isInteger(id)) {
+          throw new Error("keys revoke requires a numeric key ID");
+        }
+        if (!apiKeys.revoke(id)) {
+          throw new Error(`No active API key with ID ${id}`);
+        }
+        console.log(`Revoked API key ${id}`);
+        break;
+      }
+      default:
+        throw new Error("Usage: keys create|list|revoke");
+    }
+  } finally {
+    store.close();
+  }
+}
+
+/**
+ * `migrate [--status] [--dry-run]` — inspects or applies schema migrations
+ * on the local SQLite database. The daemon also migrates on startup; this
+ * command allows checking or rehearsing an upgrade first.
+ */
+async function handleMigrate(flags: Record<string, string>): Promise<void> {
+  const store = openLocalStore({ migrate: false });
+
+  try {
+    if (flags.status) {
+      console.log(JSON.stringify(store.migrationStatus(), null, 2));
+      return;
+    }
+
+    const dryRun = Boolean(flags["dry-run"]);
+    const applied = store.migrate({ dryRun });
+    const verb = dryRun ? "Would apply" : "Applied";
+
+    if (applied.length === 0) {
+      console.log("Schema is up to date.");
+    }
+    for (const m of applied) {
+      console.log(`${verb} migration ${m.version}: ${m.name}`);
+    }
+    console.log(`Schema version: ${store.migrationStatus().currentVersion}`);
+  } finally {
+    store.close();
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Main entry point
 // ---------------------------------------------------------------------------
@@ -143,7 +400,11 @@ export async function runCli(args: string[]): Promise<void> {
 
   const baseUrl =
     process.env.CHAT_ROUTER_URL || "http://localhost:3100";
-  const client = new ChatRouterClient(baseUrl);
+  const auth = {
+    tenantId: flags.tenant ?? process.env.CHAT_ROUTER_TENANT_ID,
+    apiKey: process.env.CHAT_ROUTER_API_KEY,
+  };
+  const client = new ChatRouterClient(baseUrl, auth);
 
   try {
     switch (command) {
@@ -162,6 +423,27 @@ export async function runCli(args: string[]): Promise<void> {
       case "respond":
         await handleRespond(client, flags);
         break;
+      case "upload":
+        await handleUpload(client, positional, flags);
+        break;
+      case "search":
+        await handleSearch(client, positional, flags);
+        break;
+      case "dispatches":
+        await handleDispatches(client, positional, flags);
+        break;
+      case "runs":
+        await handleRuns(client, positional, flags);
+        break;
+      case "tail":
+        await handleTail(baseUrl, auth, flags);
+        break;
+      case "keys":
+        await handleKeys(positional, flags);
+        break;
+      case "migrate":
+        await handleMigrate(flags);
+        break;
       default:
         console.error(`Unknown command: ${command}`);
         console.error(`Available commands: ${COMMANDS.join(", ")}`);
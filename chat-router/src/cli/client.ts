@@ -5,28 +5,50 @@
 /**
  * Talks to the running chat-router daemon over HTTP.
  * All methods return the parsed JSON response or throw on HTTP errors.
+ * `apiKey` is sent as a bearer token when the daemon requires
+ * authentication; otherwise `tenantId` selects the tenant via `X-Tenant-Id`.
  */
 export class ChatRouterClient {
   private baseUrl: string;
+  private tenantId?: string;
+  private apiKey?: string;
 
-  constructor(baseUrl: string) {
+  constructor(
+    baseUrl: string,
+    options: { tenantId?: string; apiKey?: string } = {},
+  ) {
     // Remove trailing slash if present
     this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.tenantId = options.tenantId;
+    this.apiKey = options.apiKey;
   }
 
   // -------------------------------------------------------------------------
   // Helpers
   // -------------------------------------------------------------------------
 
+  /** A `Buffer` body is sent as-is with `contentType`; anything else as JSON. */
   private async request(
     method: string,
     path: string,
     body?: unknown,
+    contentType = "application/octet-stream",
   ): Promise<unknown> {
     const url = `${this.baseUrl}${path}`;
     const opts: RequestInit = { method, headers: {} };
 
-    if (body !== undefined) {
+    if (this.tenantId) {
+      (opts.headers as Record<string, string>)["X-Tenant-Id"] = this.tenantId;
+    }
+    if (this.apiKey) {
+      (opts.headers as Record<string, string>)["Authorization"] =
+        `Bearer ${this.apiKey}`;
+    }
+
+    if (Buffer.isBuffer(body)) {
+      (opts.headers as Record<string, string>)["Content-Type"] = contentType;
+      opts.body = body;
+    } else if (body !== undefined) {
       (opts.headers as Record<string, string>)["Content-Type"] =
         "application/json";
       opts.body = JSON.stringify(body);
@@ -111,6 +133,26 @@ export class ChatRouterClient {
     return this.request("GET", `/api/timeline${query}`);
   }
 
+  /** GET /api/search */
+  async search(params: {
+    q: string;
+    platform?: string;
+    chatId?: string;
+    from?: string;
+    to?: string;
+    limit?: number;
+  }): Promise<unknown> {
+    const query = this.qs({
+      q: params.q,
+      platform: params.platform,
+      chatId: params.chatId,
+      from: params.from,
+      to: params.to,
+      limit: params.limit,
+    });
+    return this.request("GET", `/api/search${query}`);
+  }
+
   /** POST /api/messages */
   async ingest(body: unknown): Promise<unknown> {
     return this.request("POST", "/api/messages", body);
@@ -120,4 +162,35 @@ export class ChatRouterClient {
   async respond(body: unknown): Promise<unknown> {
     return this.request("POST", "/api/responses", body);
   }
+
+  /** POST /api/blobs — raw file content */
+  async upload(data: Buffer, mimeType?: string): Promise<unknown> {
+    return this.request("POST", "/api/blobs", data, mimeType);
+  }
+
+  /** GET /api/dispatches */
+  async dispatches(params?: { status?: string; limit?: number }): Promise<unknown> {
+    const query = this.qs({ status: params?.status, limit: params?.limit });
+    return this.request("GET", `/api/dispatches${query}`);
+  }
+
+  /** POST /api/dispatches/:id/retry */
+  async retryDispatch(timelineId: number): Promise<unknown> {
+    return this.request("POST", `/api/dispatches/${timelineId}/retry`);
+  }
+
+  /** GET /api/runs, or GET /api/conversations/:platform/:chatId/runs */
+  async runs(params?: {
+    platform?: string;
+    chatId?: string;
+    status?: string;
+    limit?: number;
+  }): Promise<unknown> {
+    const query = this.qs({ status: params?.status, limit: params?.limit });
+    if (params?.platform && params.chatId) {
+      const chat = `${encodeURIComponent(params.platform)}/${encodeURIComponent(params.chatId)}`;
+      return this.request("GET", `/api/conversations/${chat}/runs${query}`);
+    }
+    return this.request("GET", `/api/runs${query}`);
+  }
 }
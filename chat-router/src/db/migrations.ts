@@ -0,0 +1,542 @@
+import type Database from "better-sqlite3";
+
+// ---------------------------------------------------------------------------
+// Migration — one ordered, forward-only schema step
+// ---------------------------------------------------------------------------
+
+export interface Migration {
+  /** Strictly increasing; stored in `PRAGMA user_version` once applied. */
+  version: number;
+  /** Short snake_case description shown by `chat-router migrate`. */
+  name: string;
+  up(db: Database.Database): void;
+}
+
+export interface MigrationStatus {
+  currentVersion: number;
+  latestVersion: number;
+  pending: Array<{ version: number; name: string }>;
+}
+
+// ---------------------------------------------------------------------------
+// Migrations — append only; never edit a migration that has shipped
+// ---------------------------------------------------------------------------
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    up(db) {
+      // The original schema. IF NOT EXISTS lets databases created before
+      // migrations existed (user_version 0) adopt it without changes.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS timeline (
+          id                  INTEGER PRIMARY KEY AUTOINCREMENT,
+          direction           TEXT    NOT NULL,
+          platform            TEXT    NOT NULL,
+          platform_message_id TEXT    NOT NULL,
+          platform_chat_id    TEXT    NOT NULL,
+          platform_chat_type  TEXT,
+          sender_name         TEXT    NOT NULL,
+          sender_id           TEXT    NOT NULL,
+          text                TEXT,
+          timestamp           INTEGER NOT NULL,
+          platform_meta       TEXT,
+          created_at          TEXT    NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_timeline_platform_chat
+          ON timeline (platform, platform_chat_id);
+
+        CREATE TABLE IF NOT EXISTS conversations (
+          id                 INTEGER PRIMARY KEY AUTOINCREMENT,
+          platform           TEXT    NOT NULL,
+          platform_chat_id   TEXT    NOT NULL,
+          platform_chat_type TEXT,
+          label              TEXT    NOT NULL,
+          first_seen_at      TEXT    NOT NULL,
+          last_message_at    TEXT    NOT NULL,
+          message_count      INTEGER NOT NULL DEFAULT 0,
+          UNIQUE (platform, platform_chat_id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_conversations_platform_chat
+          ON conversations (platform, platform_chat_id);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: "tenant_scoping",
+    up(db) {
+      // Existing rows belong to the default tenant.
+      if (!hasColumn(db, "timeline", "tenant_id")) {
+        db.exec(`
+          ALTER TABLE timeline
+            ADD COLUMN tenant_id TEXT NOT NULL DEFAULT 'default';
+        `);
+      }
+      db.exec(`
+        DROP INDEX IF EXISTS idx_timeline_platform_chat;
+        CREATE INDEX idx_timeline_platform_chat
+          ON timeline (tenant_id, platform, platform_chat_id);
+      `);
+
+      // The UNIQUE constraint changes, so the table has to be rebuilt.
+      if (!hasColumn(db, "conversations", "tenant_id")) {
+        db.exec(`
+          CREATE TABLE conversations_new (
+            id                 INTEGER PRIMARY KEY AUTOINCREMENT,
+            tenant_id          TEXT    NOT NULL,
+            platform           TEXT    NOT NULL,
+            platform_chat_id   TEXT    NOT NULL,
+            platform_chat_type TEXT,
+            label              TEXT    NOT NULL,
+            first_seen_at      TEXT    NOT NULL,
+            last_message_at    TEXT    NOT NULL,
+            message_count      INTEGER NOT NULL DEFAULT 0,
+            UNIQUE (tenant_id, platform, platform_chat_id)
+          );
+
+          INSERT INTO conversations_new
+            (id, tenant_id, platform, platform_chat_id, platform_chat_type,
+             label, first_seen_at, last_message_at, message_count)
+          SELECT id, 'default', platform, platform_chat_id, platform_chat_type,
+                 label, first_seen_at, last_message_at, message_count
+          FROM conversations;
+
+          DROP TABLE conversations;
+          ALTER TABLE conversations_new RENAME TO conversations;
+        `);
+      }
+      db.exec(`
+        DROP INDEX IF EXISTS idx_conversations_platform_chat;
+        CREATE INDEX idx_conversations_platform_chat
+          ON conversations (tenant_id, platform, platform_chat_id);
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: "api_keys",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS api_keys (
+          id           INTEGER PRIMARY KEY AUTOINCREMENT,
+          tenant_id    TEXT    NOT NULL,
+          name         TEXT    NOT NULL,
+          prefix       TEXT    NOT NULL,
+          key_hash     TEXT    NOT NULL UNIQUE,
+          scopes       TEXT    NOT NULL,
+          created_at   TEXT    NOT NULL,
+          last_used_at TEXT,
+          revoked_at   TEXT
+        );
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: "timeline_dedupe",
+    up(db) {
+      // Older databases may already hold retried duplicates; keep the first
+      // copy of each so the unique index can be built, then recount the
+      // conversations the dropped copies were counted in.
+      db.exec(`
+        DELETE FROM timeline
+        WHERE id NOT IN (
+          SELECT MIN(id) FROM timeline
+          GROUP BY tenant_id, platform, platform_chat_id,
+                   platform_message_id, direction
+        );
+
+        UPDATE conversations SET message_count = (
+          SELECT COUNT(*) FROM timeline t
+          WHERE t.tenant_id = conversations.tenant_id
+            AND t.platform = conversations.platform
+            AND t.platform_chat_id = conversations.platform_chat_id
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_timeline_platform_message
+          ON timeline (tenant_id, platform, platform_chat_id,
+                       platform_message_id, direction);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: "deliveries",
+    up(db) {
+      // Delivery state of outbound entries. Replies recorded before this
+      // table existed get no row: re-sending them after an upgrade would
+      // duplicate messages users have already seen.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS deliveries (
+          timeline_id  INTEGER PRIMARY KEY REFERENCES timeline (id),
+          tenant_id    TEXT    NOT NULL,
+          platform     TEXT    NOT NULL,
+          status       TEXT    NOT NULL DEFAULT 'pending',
+          attempts     INTEGER NOT NULL DEFAULT 0,
+          last_error   TEXT,
+          created_at   TEXT    NOT NULL,
+          updated_at   TEXT    NOT NULL,
+          delivered_at TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_deliveries_status
+          ON deliveries (tenant_id, status, platform);
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: "timeline_search",
+    up(db) {
+      // External-content FTS5 index over timeline.text, kept in sync by
+      // triggers so every write path is covered. `rebuild` indexes the rows
+      // that already exist.
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS timeline_fts USING fts5 (
+          text,
+          content = 'timeline',
+          content_rowid = 'id',
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS timeline_fts_insert AFTER INSERT ON timeline
+        BEGIN
+          INSERT INTO timeline_fts (rowid, text) VALUES (new.id, new.text);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS timeline_fts_delete AFTER DELETE ON timeline
+        BEGIN
+          INSERT INTO timeline_fts (timeline_fts, rowid, text)
+            VALUES ('delete', old.id, old.text);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS timeline_fts_update AFTER UPDATE OF text ON timeline
+        BEGIN
+          INSERT INTO timeline_fts (timeline_fts, rowid, text)
+            VALUES ('delete', old.id, old.text);
+          INSERT INTO timeline_fts (rowid, text) VALUES (new.id, new.text);
+        END;
+
+        INSERT INTO timeline_fts (timeline_fts) VALUES ('rebuild');
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: "attachments",
+    up(db) {
+      // Attachment metadata is stored as a JSON array on the entry; file
+      // contents live in the content-addressed blob store on disk, and
+      // `blobs` records which tenant may read which content hash.
+      if (!hasColumn(db, "timeline", "attachments")) {
+        db.exec("ALTER TABLE timeline ADD COLUMN attachments TEXT;");
+      }
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS blobs (
+          tenant_id  TEXT    NOT NULL,
+          id         TEXT    NOT NULL,
+          mime_type  TEXT,
+          size       INTEGER NOT NULL,
+          created_at TEXT    NOT NULL,
+          PRIMARY KEY (tenant_id, id)
+        );
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: "reply_threading",
+    up(db) {
+      // `in_reply_to` is the timeline entry a message answers;
+      // `reply_to_message_id` its platform message ID, which plugins need to
+      // thread the reply. Replies recorded so far kept the entry ID in
+      // platform_meta only.
+      if (!hasColumn(db, "timeline", "in_reply_to")) {
+        db.exec("ALTER TABLE timeline ADD COLUMN in_reply_to INTEGER;");
+      }
+      if (!hasColumn(db, "timeline", "reply_to_message_id")) {
+        db.exec("ALTER TABLE timeline ADD COLUMN reply_to_message_id TEXT;");
+      }
+      db.exec(`
+        UPDATE timeline
+        SET in_reply_to = json_extract(platform_meta, '$.inReplyTo')
+        WHERE direction = 'out' AND in_reply_to IS NULL
+          AND json_valid(platform_meta)
+          AND typeof(json_extract(platform_meta, '$.inReplyTo')) = 'integer';
+
+        UPDATE timeline
+        SET reply_to_message_id = (
+          SELECT original.platform_message_id FROM timeline AS original
+          WHERE original.id = timeline.in_reply_to
+            AND original.tenant_id = timeline.tenant_id
+            AND original.platform_message_id NOT LIKE 'router-%'
+        )
+        WHERE in_reply_to IS NOT NULL AND reply_to_message_id IS NULL;
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: "platform_message_ids",
+    up(db) {
+      // JSON array of the platform messages an outbound entry was delivered
+      // as (several when the plugin split the text), reported with the ack.
+      if (!hasColumn(db, "timeline", "platform_message_ids")) {
+        db.exec("ALTER TABLE timeline ADD COLUMN platform_message_ids TEXT;");
+      }
+    },
+  },
+  {
+    version: 10,
+    name: "revisions",
+    up(db) {
+      // Edits and deletions change the entry in place; `revisions` keeps the
+      // text each change replaced.
+      if (!hasColumn(db, "timeline", "edited_at")) {
+        db.exec("ALTER TABLE timeline ADD COLUMN edited_at TEXT;");
+      }
+      if (!hasColumn(db, "timeline", "deleted_at")) {
+        db.exec("ALTER TABLE timeline ADD COLUMN deleted_at TEXT;");
+      }
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS revisions (
+          id            INTEGER PRIMARY KEY AUTOINCREMENT,
+          tenant_id     TEXT    NOT NULL,
+          timeline_id   INTEGER NOT NULL,
+          kind          TEXT    NOT NULL,
+          previous_text TEXT,
+          text          TEXT,
+          created_at    TEXT    NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_revisions_timeline
+          ON revisions (tenant_id, timeline_id);
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: "dispatches",
+    up(db) {
+      // Agent triggers queued for inbound entries, retried with backoff.
+      // Messages ingested before this table existed were triggered inline.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS dispatches (
+          timeline_id     INTEGER PRIMARY KEY REFERENCES timeline (id),
+          tenant_id       TEXT    NOT NULL,
+          status          TEXT    NOT NULL DEFAULT 'pending',
+          attempts        INTEGER NOT NULL DEFAULT 0,
+          last_error      TEXT,
+          run_id          TEXT,
+          next_attempt_at TEXT    NOT NULL,
+          created_at      TEXT    NOT NULL,
+          updated_at      TEXT    NOT NULL,
+          dispatched_at   TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_dispatches_due
+          ON dispatches (status, next_attempt_at);
+        CREATE INDEX IF NOT EXISTS idx_dispatches_tenant
+          ON dispatches (tenant_id, status);
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: "dispatch_backend",
+    up(db) {
+      // Dispatches queued before backends were pluggable all went to ACS.
+      if (!hasColumn(db, "dispatches", "backend")) {
+        db.exec(`
+          ALTER TABLE dispatches
+            ADD COLUMN backend TEXT NOT NULL DEFAULT 'acs';
+        `);
+      }
+    },
+  },
+  {
+    version: 13,
+    name: "conversation_settings",
+    up(db) {
+      // JSON object; NULL means no settings
+      if (!hasColumn(db, "conversations", "settings")) {
+        db.exec("ALTER TABLE conversations ADD COLUMN settings TEXT;");
+      }
+    },
+  },
+  {
+    version: 14,
+    name: "runs",
+    up(db) {
+      // One row per agent trigger; timeline_ids is a JSON array of the
+      // inbound entries it answers.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS runs (
+          id               INTEGER PRIMARY KEY AUTOINCREMENT,
+          tenant_id        TEXT    NOT NULL,
+          platform         TEXT    NOT NULL,
+          platform_chat_id TEXT    NOT NULL,
+          backend          TEXT    NOT NULL,
+          status           TEXT    NOT NULL DEFAULT 'running',
+          run_id           TEXT,
+          timeline_ids     TEXT    NOT NULL,
+          response_id      INTEGER,
+          error            TEXT,
+          started_at       TEXT    NOT NULL,
+          finished_at      TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_runs_conversation
+          ON runs (tenant_id, platform, platform_chat_id, status);
+      `);
+    },
+  },
+  {
+    version: 15,
+    name: "web_sessions",
+    up(db) {
+      // Visitors of the built-in web chat; like API keys, only the hash of
+      // a session token is kept.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS web_sessions (
+          id           INTEGER PRIMARY KEY AUTOINCREMENT,
+          tenant_id    TEXT    NOT NULL,
+          chat_id      TEXT    NOT NULL UNIQUE,
+          name         TEXT    NOT NULL,
+          token_hash   TEXT    NOT NULL UNIQUE,
+          created_at   TEXT    NOT NULL,
+          last_used_at TEXT
+        );
+      `);
+    },
+  },
+  {
+    version: 16,
+    name: "platforms",
+    up(db) {
+      // Platforms registered by plugins, per tenant. Built-in platforms have
+      // a row only once a plugin registers them.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS platforms (
+          tenant_id          TEXT    NOT NULL,
+          name               TEXT    NOT NULL,
+          max_message_length INTEGER,
+          features           TEXT    NOT NULL,
+          registered_at      TEXT    NOT NULL,
+          PRIMARY KEY (tenant_id, name)
+        );
+      `);
+    },
+  },
+  {
+    version: 17,
+    name: "api_key_platform",
+    up(db) {
+      // The platform a plugin's key may register. Existing keys get none,
+      // so only admin keys register platforms until keys are reissued.
+      if (!hasColumn(db, "api_keys", "platform")) {
+        db.exec("ALTER TABLE api_keys ADD COLUMN platform TEXT");
+      }
+    },
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+/** Schema version recorded in the database header. */
+export function getSchemaVersion(db: Database.Database): number {
+  return db.pragma("user_version", { simple: true }) as number;
+}
+
+export function getMigrationStatus(
+  db: Database.Database,
+  migrations: Migration[] = MIGRATIONS,
+): MigrationStatus {
+  const currentVersion = getSchemaVersion(db);
+  return {
+    currentVersion,
+    latestVersion: latestVersion(migrations),
+    pending: migrations
+      .filter((m) => m.version > currentVersion)
+      .map(({ version, name }) => ({ version, name })),
+  };
+}
+
+/**
+ * Apply every migration newer than the database's `user_version`, in order.
+ * Each step runs in its own transaction together with the version bump, so
+ * a failing step leaves the database at the previous version.
+ *
+ * With `dryRun`, all pending steps are executed inside one transaction that
+ * is then rolled back: the database is left untouched, but a step that would
+ * fail still throws.
+ *
+ * Returns the migrations that were (or, for a dry run, would be) applied.
+ */
+export function runMigrations(
+  db: Database.Database,
+  options: { dryRun?: boolean } = {},
+  migrations: Migration[] = MIGRATIONS,
+): Migration[] {
+  const current = getSchemaVersion(db);
+  const latest = latestVersion(migrations);
+
+  if (current > latest) {
+    throw new Error(
+      `Database schema version ${current} is newer than this build supports (${latest})`,
+    );
+  }
+
+  const pending = [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter((m) => m.version > current);
+
+  if (options.dryRun) {
+    const rollback = new Error("dry run");
+    try {
+      db.transaction(() => {
+        for (const migration of pending) applyMigration(db, migration);
+        throw rollback;
+      })();
+    } catch (err) {
+      if (err !== rollback) throw err;
+    }
+    return pending;
+  }
+
+  for (const migration of pending) {
+    db.transaction(() => applyMigration(db, migration))();
+  }
+  return pending;
+}
+
+// ---------------------------------------------------------------------------
+// Internal
+// ---------------------------------------------------------------------------
+
+function applyMigration(db: Database.Database, migration: Migration): void {
+  try {
+    migration.up(db);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(
+      `Migration ${migration.version} (${migration.name}) failed: ${message}`,
+    );
+  }
+  db.pragma(`user_version = ${migration.version}`);
+}
+
+function latestVersion(migrations: Migration[]): number {
+  return migrations.reduce((max, m) => Math.max(max, m.version), 0);
+}
+
+function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.pragma(`table_info(${table})`) as Array<{ name: string }>;
+  return columns.some((c) => c.name === column);
+}
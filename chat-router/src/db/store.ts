@@ -1,10 +1,28 @@
 import * as fs from "fs";
 import * as path from "path";
 import Database from "better-sqlite3";
+import { runMigrations, getMigrationStatus } from "./migrations";
+import type { Migration, MigrationStatus } from "./migrations";
 import type {
   Platform,
   TimelineEntry,
   Conversation,
+  ApiKey,
+  ApiKeyScope,
+  WebSession,
+  PlatformDescriptor,
+  PlatformFeature,
+  Attachment,
+  Delivery,
+  DeliveryStatus,
+  Dispatch,
+  DispatchStatus,
+  AgentRun,
+  AgentRunStatus,
+  Revision,
+  RevisionKind,
+  SearchResult,
+  StoredBlob,
 } from "../types";
 
 // ---------------------------------------------------------------------------
@@ -12,6 +30,7 @@ import type {
 // ---------------------------------------------------------------------------
 
 export interface TimelineEntryInput {
+  tenantId: string;
   direction: "in" | "out";
   platform: Platform;
   platformMessageId: string;
@@ -22,6 +41,44 @@ export interface TimelineEntryInput {
   text: string | null;
   timestamp: number;
   platformMeta: string | null;
+  /** Stored as a JSON array; omitted or empty means no media. */
+  attachments?: Attachment[];
+  inReplyTo?: number | null;
+  replyToPlatformMessageId?: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Data passed to insertApiKey (only the hash of the key is ever stored)
+// ---------------------------------------------------------------------------
+
+export interface ApiKeyInput {
+  tenantId: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  platform?: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Data passed to insertWebSession (only the hash of the token is ever stored)
+// ---------------------------------------------------------------------------
+
+export interface WebSessionInput {
+  tenantId: string;
+  chatId: string;
+  name: string;
+  tokenHash: string;
+}
+
+// ---------------------------------------------------------------------------
+// A platform registered for a tenant, as persisted
+// ---------------------------------------------------------------------------
+
+export interface PlatformRecord extends PlatformDescriptor {
+  tenantId: string;
+  /** ISO 8601, of the latest registration. */
+  registeredAt: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -44,8 +101,12 @@ export class ChatRouterStore {
   // Lifecycle
   // -----------------------------------------------------------------------
 
-  /** Create tables / indexes (idempotent) and open the database. */
-  init(): void {
+  /**
+   * Open the database and bring its schema up to date by running pending
+   * migrations (idempotent). Pass `{ migrate: false }` to open without
+   * touching the schema, e.g. to inspect migration status.
+   */
+  init(options: { migrate?: boolean } = {}): void {
     // Ensure the parent directory exists for file-based databases.
     if (this.dbPath !== ":memory:") {
       const dir = path.dirname(this.dbPath);
@@ -67,40 +128,19 @@ export class ChatRouterStore {
       this.db.pragma("journal_mode = WAL");
     }
 
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS timeline (
-        id                  INTEGER PRIMARY KEY AUTOINCREMENT,
-        direction           TEXT    NOT NULL,
-        platform            TEXT    NOT NULL,
-        platform_message_id TEXT    NOT NULL,
-        platform_chat_id    TEXT    NOT NULL,
-        platform_chat_type  TEXT,
-        sender_name         TEXT    NOT NULL,
-        sender_id           TEXT    NOT NULL,
-        text                TEXT,
-        timestamp           INTEGER NOT NULL,
-        platform_meta       TEXT,
-        created_at          TEXT    NOT NULL
-      );
+    if (options.migrate !== false) {
+      this.migrate();
+    }
+  }
 
-      CREATE INDEX IF NOT EXISTS idx_timeline_platform_chat
-        ON timeline (platform, platform_chat_id);
-
-      CREATE TABLE IF NOT EXISTS conversations (
-        id                 INTEGER PRIMARY KEY AUTOINCREMENT,
-        platform           TEXT    NOT NULL,
-        platform_chat_id   TEXT    NOT NULL,
-        platform_chat_type TEXT,
-        label              TEXT    NOT NULL,
-        first_seen_at      TEXT    NOT NULL,
-        last_message_at    TEXT    NOT NULL,
-        message_count      INTEGER NOT NULL DEFAULT 0,
-        UNIQUE (platform, platform_chat_id)
-      );
+  /** Apply pending schema migrations; see `runMigrations`. */
+  migrate(options: { dryRun?: boolean } = {}): Migration[] {
+    return runMigrations(this.getDb(), options);
+  }
 
-      CREATE INDEX IF NOT EXISTS idx_conversations_platform_chat
-        ON conversations (platform, platform_chat_id);
-    `);
+  /** Current and latest schema version plus the migrations still pending. */
+  migrationStatus(): MigrationStatus {
+    return getMigrationStatus(this.getDb());
   }
 
   /** Close the database connection. */
@@ -122,16 +162,20 @@ export class ChatRouterStore {
 
     const stmt = db.prepare(`
       INSERT INTO timeline
-        (direction, platform, platform_message_id, platform_chat_id,
+        (tenant_id, direction, platform, platform_message_id, platform_chat_id,
          platform_chat_type, sender_name, sender_id, text, timestamp,
-         platform_meta, created_at)
+         platform_meta, attachments, in_reply_to, reply_to_message_id, created_at)
       VALUES
-        (@direction, @platform, @platformMessageId, @platformChatId,
+        (@tenantId, @direction, @platform, @platformMessageId, @platformChatId,
          @platformChatType, @senderName, @senderId, @text, @timestamp,
-         @platformMeta, @createdAt)
+         @platformMeta, @attachments, @inReplyTo, @replyToPlatformMessageId, @createdAt)
     `);
 
+    const attachments = entry.attachments ?? [];
+    const inReplyTo = entry.inReplyTo ?? null;
+    const replyToPlatformMessageId = entry.replyToPlatformMessageId ?? null;
     const result = stmt.run({
+      tenantId: entry.tenantId,
       direction: entry.direction,
       platform: entry.platform,
       platformMessageId: entry.platformMessageId,
@@ -142,21 +186,32 @@ export class ChatRouterStore {
       text: entry.text,
       timestamp: entry.timestamp,
       platformMeta: entry.platformMeta,
+      attachments: attachments.length > 0 ? JSON.stringify(attachments) : null,
+      inReplyTo,
+      replyToPlatformMessageId,
       createdAt,
     });
 
     return {
       ...entry,
+      platformMessageIds: [],
+      attachments,
+      inReplyTo,
+      replyToPlatformMessageId,
+      editedAt: null,
+      deletedAt: null,
       id: Number(result.lastInsertRowid),
       createdAt,
     };
   }
 
   /**
-   * Create or update a conversation for the given (platform, platformChatId).
-   * Increments messageCount and updates lastMessageAt.
+   * Create or update a conversation for the given
+   * (tenantId, platform, platformChatId). Increments messageCount and updates
+   * lastMessageAt.
    */
   upsertConversation(
+    tenantId: string,
     platform: Platform,
     platformChatId: string,
     label: string,
@@ -170,12 +225,12 @@ export class ChatRouterStore {
     // (only if provided value is not null).
     const stmt = db.prepare(`
       INSERT INTO conversations
-        (platform, platform_chat_id, platform_chat_type, label,
+        (tenant_id, platform, platform_chat_id, platform_chat_type, label,
          first_seen_at, last_message_at, message_count)
       VALUES
-        (@platform, @platformChatId, @chatType, @label,
+        (@tenantId, @platform, @platformChatId, @chatType, @label,
          @now, @now, 1)
-      ON CONFLICT (platform, platform_chat_id) DO UPDATE SET
+      ON CONFLICT (tenant_id, platform, platform_chat_id) DO UPDATE SET
         label           = @label,
         last_message_at = @now,
         message_count   = message_count + 1,
@@ -186,6 +241,7 @@ export class ChatRouterStore {
     `);
 
     stmt.run({
+      tenantId,
       platform,
       platformChatId,
       chatType,
@@ -194,12 +250,17 @@ export class ChatRouterStore {
     });
 
     // Read back the row so we return the full, up-to-date Conversation.
-    return this.getConversation(platform, platformChatId)!;
+    return this.getConversation(tenantId, platform, platformChatId)!;
   }
 
   /**
    * Atomically insert a timeline entry and upsert the associated conversation.
-   * Returns the inserted TimelineEntry.
+   * Returns the inserted TimelineEntry. If an entry with the same platform
+   * message ID and direction already exists in the chat, nothing is written
+   * and the existing entry is returned with `duplicate: true`.
+   *
+   * Outbound entries also get a `pending` delivery row in the same
+   * transaction, so a reply can never be recorded without being queued.
    */
   ingestTransaction(
     entryData: TimelineEntryInput,
@@ -208,13 +269,28 @@ export class ChatRouterStore {
     const db = this.getDb();
 
     const txn = db.transaction(() => {
+      const existing = this.findByPlatformMessageId(
+        entryData.tenantId,
+        entryData.platform,
+        entryData.platformChatId,
+        entryData.platformMessageId,
+        entryData.direction,
+      );
+      if (existing) {
+        return { ...existing, duplicate: true };
+      }
+
       const entry = this.insertTimelineEntry(entryData);
       this.upsertConversation(
+        entryData.tenantId,
         entryData.platform,
         entryData.platformChatId,
         label,
         entryData.platformChatType,
       );
+      if (entry.direction === "out") {
+        this.insertDelivery(entry);
+      }
       return entry;
     });
 
@@ -230,6 +306,7 @@ export class ChatRouterStore {
    * Supports cursor pagination via `after` (id > after) and `before` (id < before).
    */
   getTimeline(
+    tenantId: string,
     platform: Platform,
     platformChatId: string,
     after?: number,
@@ -237,8 +314,8 @@ export class ChatRouterStore {
     limit: number = 50,
   ): TimelineEntry[] {
     const db = this.getDb();
-    const conditions = ["platform = ?", "platform_chat_id = ?"];
-    const params: unknown[] = [platform, platformChatId];
+    const conditions = ["tenant_id = ?", "platform = ?", "platform_chat_id = ?"];
+    const params: unknown[] = [tenantId, platform, platformChatId];
 
     if (after !== undefined) {
       conditions.push("id > ?");
@@ -260,11 +337,68 @@ export class ChatRouterStore {
     return stmt.all(...params).map(rowToTimelineEntry);
   }
 
-  /** All timeline entries ordered by ID descending with cursor pagination. */
-  getUnifiedTimeline(after?: number, before?: number, limit: number = 50): TimelineEntry[] {
+  /** A single entry of a tenant by ID. */
+  getTimelineEntry(tenantId: string, id: number): TimelineEntry | null {
+    const row = this.getDb()
+      .prepare("SELECT * FROM timeline WHERE tenant_id = ? AND id = ?")
+      .get(tenantId, id);
+    return row ? rowToTimelineEntry(row) : null;
+  }
+
+  /**
+   * Look up an entry by its platform message ID within one chat. Without
+   * `direction`, the most recent entry of either direction is returned, and
+   * outbound entries also match on any message they were delivered as.
+   */
+  findByPlatformMessageId(
+    tenantId: string,
+    platform: Platform,
+    platformChatId: string,
+    platformMessageId: string,
+    direction?: "in" | "out",
+  ): TimelineEntry | null {
     const db = this.getDb();
-    const conditions: string[] = [];
-    const params: unknown[] = [];
+    const conditions = [
+      "tenant_id = ?",
+      "platform = ?",
+      "platform_chat_id = ?",
+      "platform_message_id = ?",
+    ];
+    const params: unknown[] = [tenantId, platform, platformChatId, platformMessageId];
+    if (direction) {
+      conditions.push("direction = ?");
+      params.push(direction);
+    } else {
+      conditions[3] = `(platform_message_id = ? OR EXISTS (
+        SELECT 1 FROM json_each(timeline.platform_message_ids) WHERE value = ?
+      ))`;
+      params.push(platformMessageId);
+    }
+
+    const row = db
+      .prepare(`
+        SELECT * FROM timeline
+        WHERE ${conditions.join(" AND ")}
+        ORDER BY id DESC
+        LIMIT 1
+      `)
+      .get(...params);
+    return row ? rowToTimelineEntry(row) : null;
+  }
+
+  /**
+   * All timeline entries of a tenant ordered by ID descending with cursor
+   * pagination.
+   */
+  getUnifiedTimeline(
+    tenantId: string,
+    after?: number,
+    before?: number,
+    limit: number = 50,
+  ): TimelineEntry[] {
+    const db = this.getDb();
+    const conditions = ["tenant_id = ?"];
+    const params: unknown[] = [tenantId];
 
     if (after !== undefined) {
       conditions.push("id > ?");
@@ -276,62 +410,148 @@ export class ChatRouterStore {
     }
 
     params.push(limit);
-    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const where = conditions.join(" AND ");
     const stmt = db.prepare(`
       SELECT * FROM timeline
-      ${where}
+      WHERE ${where}
       ORDER BY id DESC
       LIMIT ?
     `);
     return stmt.all(...params).map(rowToTimelineEntry);
   }
 
-  /** List conversations ordered by lastMessageAt descending. */
-  listConversations(platform?: Platform, limit: number = 50): Conversation[] {
+  /** List a tenant's conversations ordered by lastMessageAt descending. */
+  listConversations(
+    tenantId: string,
+    platform?: Platform,
+    limit: number = 50,
+  ): Conversation[] {
     const db = this.getDb();
 
     if (platform !== undefined) {
       const stmt = db.prepare(`
         SELECT * FROM conversations
-        WHERE platform = ?
+        WHERE tenant_id = ? AND platform = ?
         ORDER BY last_message_at DESC
         LIMIT ?
       `);
-      return stmt.all(platform, limit).map(rowToConversation);
+      return stmt.all(tenantId, platform, limit).map(rowToConversation);
     }
 
     const stmt = db.prepare(`
       SELECT * FROM conversations
+      WHERE tenant_id = ?
       ORDER BY last_message_at DESC
       LIMIT ?
     `);
-    return stmt.all(limit).map(rowToConversation);
+    return stmt.all(tenantId, limit).map(rowToConversation);
   }
 
   /** Single conversation lookup. */
   getConversation(
+    tenantId: string,
     platform: Platform,
     platformChatId: string,
   ): Conversation | null {
     const db = this.getDb();
     const stmt = db.prepare(`
       SELECT * FROM conversations
-      WHERE platform = ? AND platform_chat_id = ?
+      WHERE tenant_id = ? AND platform = ? AND platform_chat_id = ?
     `);
-    const row = stmt.get(platform, platformChatId) as Record<string, unknown> | undefined;
+    const row = stmt.get(tenantId, platform, platformChatId) as Record<string, unknown> | undefined;
     return row ? rowToConversation(row) : null;
   }
 
-  /** Aggregate stats. */
-  getStats(): { messageCount: number; conversationCount: number } {
+  /** Replace a conversation's settings. Returns null if it does not exist. */
+  updateConversationSettings(
+    tenantId: string,
+    platform: Platform,
+    platformChatId: string,
+    settings: Record<string, unknown>,
+  ): Conversation | null {
     const db = this.getDb();
+    const json = Object.keys(settings).length > 0 ? JSON.stringify(settings) : null;
+    db.prepare(`
+      UPDATE conversations SET settings = ?
+      WHERE tenant_id = ? AND platform = ? AND platform_chat_id = ?
+    `).run(json, tenantId, platform, platformChatId);
+    return this.getConversation(tenantId, platform, platformChatId);
+  }
 
-    const msgRow = db.prepare("SELECT COUNT(*) AS cnt FROM timeline").get() as {
-      cnt: number;
-    };
+  /**
+   * Full-text search over a tenant's timeline via the `timeline_fts` index,
+   * ordered by BM25 rank. Returns an empty list when the query has no
+   * searchable terms.
+   */
+  search(
+    tenantId: string,
+    query: string,
+    filters: {
+      platform?: Platform;
+      platformChatId?: string;
+      from?: number;
+      to?: number;
+    } = {},
+    limit: number = 20,
+  ): SearchResult[] {
+    const db = this.getDb();
+    const match = toFtsQuery(query);
+    if (!match) return [];
+
+    const conditions = ["timeline_fts MATCH ?", "t.tenant_id = ?"];
+    const params: unknown[] = [match, tenantId];
+
+    if (filters.platform !== undefined) {
+      conditions.push("t.platform = ?");
+      params.push(filters.platform);
+    }
+    if (filters.platformChatId !== undefined) {
+      conditions.push("t.platform_chat_id = ?");
+      params.push(filters.platformChatId);
+    }
+    if (filters.from !== undefined) {
+      conditions.push("t.timestamp >= ?");
+      params.push(filters.from);
+    }
+    if (filters.to !== undefined) {
+      conditions.push("t.timestamp <= ?");
+      params.push(filters.to);
+    }
+
+    params.push(limit);
+    const stmt = db.prepare(`
+      SELECT t.*,
+             snippet(timeline_fts, 0, '<mark>', '</mark>', '…', 16) AS snippet,
+             timeline_fts.rank AS rank
+      FROM timeline_fts
+      JOIN timeline t ON t.id = timeline_fts.rowid
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY timeline_fts.rank, t.id DESC
+      LIMIT ?
+    `);
+
+    return stmt.all(...params).map((row) => {
+      const r = row as Record<string, unknown>;
+      return {
+        entry: rowToTimelineEntry(row),
+        snippet: r.snippet as string,
+        rank: r.rank as number,
+      };
+    });
+  }
+
+  /** Aggregate stats, scoped to one tenant when `tenantId` is given. */
+  getStats(tenantId?: string): { messageCount: number; conversationCount: number } {
+    const db = this.getDb();
+    const where = tenantId !== undefined ? "WHERE tenant_id = ?" : "";
+    const params = tenantId !== undefined ? [tenantId] : [];
+
+    const msgRow = db
+      .prepare(`SELECT COUNT(*) AS cnt FROM timeline ${where}`)
+      .get(...params) as { cnt: number };
     const convoRow = db
-      .prepare("SELECT COUNT(*) AS cnt FROM conversations")
-      .get() as { cnt: number };
+      .prepare(`SELECT COUNT(*) AS cnt FROM conversations ${where}`)
+      .get(...params) as { cnt: number };
 
     return {
       messageCount: msgRow.cnt,
@@ -339,6 +559,643 @@ export class ChatRouterStore {
     };
   }
 
+  // -----------------------------------------------------------------------
+  // Revisions
+  // -----------------------------------------------------------------------
+
+  /**
+   * Atomically change an entry's text and record the revision. A deletion
+   * clears the text and stamps `deleted_at`; an edit stamps `edited_at`.
+   * Returns null if the tenant has no such entry.
+   */
+  applyRevision(
+    tenantId: string,
+    timelineId: number,
+    change: { kind: RevisionKind; text: string | null },
+  ): { entry: TimelineEntry; revision: Revision } | null {
+    const db = this.getDb();
+
+    const txn = db.transaction(() => {
+      const before = this.getTimelineEntry(tenantId, timelineId);
+      if (!before) return null;
+
+      const now = new Date().toISOString();
+      const result = db.prepare(`
+        INSERT INTO revisions
+          (tenant_id, timeline_id, kind, previous_text, text, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(tenantId, timelineId, change.kind, before.text, change.text, now);
+
+      const stamp = change.kind === "delete" ? "deleted_at" : "edited_at";
+      db.prepare(`
+        UPDATE timeline SET text = ?, ${stamp} = ?
+        WHERE tenant_id = ? AND id = ?
+      `).run(change.text, now, tenantId, timelineId);
+
+      const revision = db
+        .prepare("SELECT * FROM revisions WHERE id = ?")
+        .get(Number(result.lastInsertRowid));
+      return {
+        entry: this.getTimelineEntry(tenantId, timelineId)!,
+        revision: rowToRevision(revision),
+      };
+    });
+
+    return txn();
+  }
+
+  /** Revisions of one entry of a tenant, oldest first. */
+  listRevisions(tenantId: string, timelineId: number): Revision[] {
+    return this.getDb()
+      .prepare("SELECT * FROM revisions WHERE tenant_id = ? AND timeline_id = ? ORDER BY id")
+      .all(tenantId, timelineId)
+      .map(rowToRevision);
+  }
+
+  // -----------------------------------------------------------------------
+  // Deliveries
+  // -----------------------------------------------------------------------
+
+  /** Queue an outbound entry for delivery. */
+  insertDelivery(entry: TimelineEntry): void {
+    const db = this.getDb();
+    const now = new Date().toISOString();
+    db.prepare(`
+      INSERT INTO deliveries
+        (timeline_id, tenant_id, platform, status, attempts, created_at, updated_at)
+      VALUES (?, ?, ?, 'pending', 0, ?, ?)
+    `).run(entry.id, entry.tenantId, entry.platform, now, now);
+  }
+
+  /** Delivery state of one outbound entry of a tenant. */
+  getDelivery(tenantId: string, timelineId: number): Delivery | null {
+    const db = this.getDb();
+    const row = db
+      .prepare("SELECT * FROM deliveries WHERE tenant_id = ? AND timeline_id = ?")
+      .get(tenantId, timelineId);
+    return row ? rowToDelivery(row) : null;
+  }
+
+  /**
+   * Store the outcome of a delivery attempt. `deliveredAt` is stamped when
+   * the new status is `delivered`.
+   */
+  updateDelivery(
+    tenantId: string,
+    timelineId: number,
+    update: { status: DeliveryStatus; attempts: number; lastError: string | null },
+  ): Delivery | null {
+    const db = this.getDb();
+    const now = new Date().toISOString();
+    db.prepare(`
+      UPDATE deliveries
+      SET status = @status, attempts = @attempts, last_error = @lastError,
+          updated_at = @now,
+          delivered_at = CASE WHEN @status = 'delivered' THEN @now ELSE delivered_at END
+      WHERE tenant_id = @tenantId AND timeline_id = @timelineId
+    `).run({ ...update, now, tenantId, timelineId });
+    return this.getDelivery(tenantId, timelineId);
+  }
+
+  /**
+   * Record the platform messages an outbound entry was delivered as. The
+   * first becomes its `platformMessageId`, and replies to the entry that
+   * could not be threaded yet now point at it.
+   */
+  setPlatformMessageIds(tenantId: string, timelineId: number, ids: string[]): void {
+    const db = this.getDb();
+    db.transaction(() => {
+      db.prepare(`
+        UPDATE timeline SET platform_message_id = ?, platform_message_ids = ?
+        WHERE tenant_id = ? AND id = ?
+      `).run(ids[0], JSON.stringify(ids), tenantId, timelineId);
+      db.prepare(`
+        UPDATE timeline SET reply_to_message_id = ?
+        WHERE tenant_id = ? AND in_reply_to = ? AND reply_to_message_id IS NULL
+      `).run(ids[0], tenantId, timelineId);
+    })();
+  }
+
+  /**
+   * Outbound entries of a tenant whose delivery is still pending, ordered
+   * by ID ascending so they are redelivered in the order they were recorded.
+   */
+  listPendingDeliveries(
+    tenantId: string,
+    platform?: Platform,
+    limit: number = 100,
+  ): TimelineEntry[] {
+    const db = this.getDb();
+    const conditions = ["d.tenant_id = ?", "d.status = 'pending'"];
+    const params: unknown[] = [tenantId];
+
+    if (platform !== undefined) {
+      conditions.push("d.platform = ?");
+      params.push(platform);
+    }
+
+    params.push(limit);
+    const stmt = db.prepare(`
+      SELECT t.* FROM deliveries d
+      JOIN timeline t ON t.id = d.timeline_id
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY t.id ASC
+      LIMIT ?
+    `);
+    return stmt.all(...params).map(rowToTimelineEntry);
+  }
+
+  /**
+   * Outbound entries a reconnecting client may have missed: every entry
+   * with `id > sinceId` plus older ones whose delivery is still pending,
+   * ordered by ID ascending, optionally narrowed to a platform and a set of
+   * chats. `after` pages through the result.
+   */
+  getOutboundBacklog(
+    tenantId: string,
+    sinceId?: number,
+    platform?: Platform,
+    chatIds?: string[],
+    after: number = 0,
+    limit: number = 500,
+  ): TimelineEntry[] {
+    const db = this.getDb();
+    const conditions = ["t.tenant_id = ?", "t.direction = 'out'", "t.id > ?"];
+    const params: unknown[] = [tenantId, after];
+
+    if (sinceId !== undefined) {
+      conditions.push("(t.id > ? OR d.status = 'pending')");
+      params.push(sinceId);
+    } else {
+      conditions.push("d.status = 'pending'");
+    }
+    if (platform !== undefined) {
+      conditions.push("t.platform = ?");
+      params.push(platform);
+    }
+    if (chatIds !== undefined) {
+      if (chatIds.length === 0) return [];
+      conditions.push(`t.platform_chat_id IN (${chatIds.map(() => "?").join(", ")})`);
+      params.push(...chatIds);
+    }
+
+    params.push(limit);
+    const stmt = db.prepare(`
+      SELECT t.* FROM timeline t
+      LEFT JOIN deliveries d ON d.timeline_id = t.id
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY t.id ASC
+      LIMIT ?
+    `);
+    return stmt.all(...params).map(rowToTimelineEntry);
+  }
+
+  // -----------------------------------------------------------------------
+  // Dispatches
+  // -----------------------------------------------------------------------
+
+  /**
+   * Queue the agent trigger for an inbound entry, due now. Returns null if
+   * the entry already has a dispatch.
+   */
+  insertDispatch(tenantId: string, timelineId: number, backend: string): Dispatch | null {
+    const db = this.getDb();
+    const now = new Date().toISOString();
+    const result = db.prepare(`
+      INSERT OR IGNORE INTO dispatches
+        (timeline_id, tenant_id, backend, status, attempts, next_attempt_at,
+         created_at, updated_at)
+      VALUES (?, ?, ?, 'pending', 0, ?, ?, ?)
+    `).run(timelineId, tenantId, backend, now, now, now);
+    return result.changes > 0 ? this.getDispatch(tenantId, timelineId) : null;
+  }
+
+  /** Dispatch of one inbound entry of a tenant. */
+  getDispatch(tenantId: string, timelineId: number): Dispatch | null {
+    const db = this.getDb();
+    const row = db
+      .prepare("SELECT * FROM dispatches WHERE tenant_id = ? AND timeline_id = ?")
+      .get(tenantId, timelineId);
+    return row ? rowToDispatch(row) : null;
+  }
+
+  /**
+   * Store the outcome of a trigger attempt. `dispatchedAt` is stamped when
+   * the new status is `dispatched`.
+   */
+  updateDispatch(
+    tenantId: string,
+    timelineId: number,
+    update: {
+      status: DispatchStatus;
+      attempts: number;
+      lastError: string | null;
+      runId: string | null;
+      nextAttemptAt: string;
+    },
+  ): Dispatch | null {
+    const db = this.getDb();
+    const now = new Date().toISOString();
+    db.prepare(`
+      UPDATE dispatches
+      SET status = @status, attempts = @attempts, last_error = @lastError,
+          run_id = @runId, next_attempt_at = @nextAttemptAt, updated_at = @now,
+          dispatched_at = CASE WHEN @status = 'dispatched' THEN @now ELSE dispatched_at END
+      WHERE tenant_id = @tenantId AND timeline_id = @timelineId
+    `).run({ ...update, now, tenantId, timelineId });
+    return this.getDispatch(tenantId, timelineId);
+  }
+
+  /**
+   * Pending dispatches of every tenant due at `now` (ISO 8601), ordered by
+   * when they became due. Conversations that cannot send yet are left out,
+   * so they do not crowd others out of the limit: those with a run started
+   * after `runsSince` and those with an earlier entry waiting for a retry.
+   */
+  listDueDispatches(now: string, runsSince: string, limit: number = 20): Dispatch[] {
+    const db = this.getDb();
+    return db
+      .prepare(`
+        SELECT d.* FROM dispatches d
+        JOIN timeline t ON t.id = d.timeline_id
+        WHERE d.status = 'pending' AND d.next_attempt_at <= @now
+          AND NOT EXISTS (
+            SELECT 1 FROM runs r
+            WHERE r.tenant_id = d.tenant_id AND r.platform = t.platform
+              AND r.platform_chat_id = t.platform_chat_id
+              AND r.status = 'running' AND r.started_at > @runsSince
+          )
+          AND NOT EXISTS (
+            SELECT 1 FROM dispatches e
+            JOIN timeline u ON u.id = e.timeline_id
+            WHERE e.tenant_id = d.tenant_id AND e.status = 'pending'
+              AND e.timeline_id < d.timeline_id AND e.next_attempt_at > @now
+              AND u.platform = t.platform AND u.platform_chat_id = t.platform_chat_id
+          )
+        ORDER BY d.next_attempt_at ASC, d.timeline_id ASC
+        LIMIT @limit
+      `)
+      .all({ now, runsSince, limit })
+      .map(rowToDispatch);
+  }
+
+  /** The pending dispatch of a conversation's oldest entry, due or not. */
+  getOldestPendingDispatch(
+    tenantId: string,
+    platform: Platform,
+    platformChatId: string,
+  ): Dispatch | null {
+    const db = this.getDb();
+    const row = db
+      .prepare(`
+        SELECT d.* FROM dispatches d
+        JOIN timeline t ON t.id = d.timeline_id
+        WHERE d.tenant_id = ? AND d.status = 'pending'
+          AND t.platform = ? AND t.platform_chat_id = ?
+        ORDER BY d.timeline_id ASC
+        LIMIT 1
+      `)
+      .get(tenantId, platform, platformChatId);
+    return row ? rowToDispatch(row) : null;
+  }
+
+  /** Dispatches of a tenant, most recent entry first. */
+  listDispatches(tenantId: string, status?: DispatchStatus, limit: number = 50): Dispatch[] {
+    const db = this.getDb();
+    const conditions = ["tenant_id = ?"];
+    const params: unknown[] = [tenantId];
+
+    if (status !== undefined) {
+      conditions.push("status = ?");
+      params.push(status);
+    }
+
+    params.push(limit);
+    return db
+      .prepare(`
+        SELECT * FROM dispatches
+        WHERE ${conditions.join(" AND ")}
+        ORDER BY timeline_id DESC
+        LIMIT ?
+      `)
+      .all(...params)
+      .map(rowToDispatch);
+  }
+
+  // -----------------------------------------------------------------------
+  // Runs
+  // -----------------------------------------------------------------------
+
+  /** Record a triggered agent run, in the conversation of its entries. */
+  insertRun(input: {
+    tenantId: string;
+    platform: Platform;
+    platformChatId: string;
+    backend: string;
+    timelineIds: number[];
+  }): AgentRun {
+    const db = this.getDb();
+    const result = db.prepare(`
+      INSERT INTO runs
+        (tenant_id, platform, platform_chat_id, backend, status, timeline_ids, started_at)
+      VALUES (?, ?, ?, ?, 'running', ?, ?)
+    `).run(
+      input.tenantId,
+      input.platform,
+      input.platformChatId,
+      input.backend,
+      JSON.stringify(input.timelineIds),
+      new Date().toISOString(),
+    );
+    return this.getRun(input.tenantId, Number(result.lastInsertRowid))!;
+  }
+
+  getRun(tenantId: string, id: number): AgentRun | null {
+    const db = this.getDb();
+    const row = db.prepare("SELECT * FROM runs WHERE tenant_id = ? AND id = ?").get(tenantId, id);
+    return row ? rowToRun(row) : null;
+  }
+
+  /** The newest run of a conversation that is still running. */
+  getRunningRun(tenantId: string, platform: Platform, platformChatId: string): AgentRun | null {
+    const db = this.getDb();
+    const row = db
+      .prepare(`
+        SELECT * FROM runs
+        WHERE tenant_id = ? AND platform = ? AND platform_chat_id = ? AND status = 'running'
+        ORDER BY id DESC
+        LIMIT 1
+      `)
+      .get(tenantId, platform, platformChatId);
+    return row ? rowToRun(row) : null;
+  }
+
+  setRunId(tenantId: string, id: number, runId: string | null): AgentRun | null {
+    const db = this.getDb();
+    db.prepare("UPDATE runs SET run_id = ? WHERE tenant_id = ? AND id = ?").run(
+      runId,
+      tenantId,
+      id,
+    );
+    return this.getRun(tenantId, id);
+  }
+
+  /** End a run; `finishedAt` is stamped now. */
+  finishRun(
+    tenantId: string,
+    id: number,
+    update: { status: AgentRunStatus; error: string | null; responseId: number | null },
+  ): AgentRun | null {
+    const db = this.getDb();
+    db.prepare(`
+      UPDATE runs
+      SET status = @status, error = @error, response_id = @responseId, finished_at = @now
+      WHERE tenant_id = @tenantId AND id = @id
+    `).run({ ...update, now: new Date().toISOString(), tenantId, id });
+    return this.getRun(tenantId, id);
+  }
+
+  /** Runs of a tenant, optionally of one conversation, most recent first. */
+  listRuns(
+    tenantId: string,
+    filter: {
+      platform?: Platform;
+      platformChatId?: string;
+      status?: AgentRunStatus;
+    } = {},
+    limit: number = 50,
+  ): AgentRun[] {
+    const db = this.getDb();
+    const conditions = ["tenant_id = ?"];
+    const params: unknown[] = [tenantId];
+
+    if (filter.platform !== undefined) {
+      conditions.push("platform = ?");
+      params.push(filter.platform);
+    }
+    if (filter.platformChatId !== undefined) {
+      conditions.push("platform_chat_id = ?");
+      params.push(filter.platformChatId);
+    }
+    if (filter.status !== undefined) {
+      conditions.push("status = ?");
+      params.push(filter.status);
+    }
+
+    params.push(limit);
+    return db
+      .prepare(`
+        SELECT * FROM runs
+        WHERE ${conditions.join(" AND ")}
+        ORDER BY id DESC
+        LIMIT ?
+      `)
+      .all(...params)
+      .map(rowToRun);
+  }
+
+  // -----------------------------------------------------------------------
+  // Blobs
+  // -----------------------------------------------------------------------
+
+  /**
+   * Record that a tenant stored a blob. The content hash makes this
+   * idempotent; the first record (and its MIME type) is kept.
+   */
+  insertBlob(input: {
+    tenantId: string;
+    id: string;
+    mimeType: string | null;
+    size: number;
+  }): StoredBlob {
+    const db = this.getDb();
+    db.prepare(`
+      INSERT OR IGNORE INTO blobs (tenant_id, id, mime_type, size, created_at)
+      VALUES (@tenantId, @id, @mimeType, @size, @createdAt)
+    `).run({ ...input, createdAt: new Date().toISOString() });
+    return this.getBlob(input.tenantId, input.id)!;
+  }
+
+  /** Blob record of one tenant, or null if the tenant never stored it. */
+  getBlob(tenantId: string, id: string): StoredBlob | null {
+    const db = this.getDb();
+    const row = db
+      .prepare("SELECT * FROM blobs WHERE tenant_id = ? AND id = ?")
+      .get(tenantId, id);
+    return row ? rowToBlob(row) : null;
+  }
+
+  // -----------------------------------------------------------------------
+  // API keys
+  // -----------------------------------------------------------------------
+
+  /** Persist a new API key (by hash). */
+  insertApiKey(input: ApiKeyInput): ApiKey {
+    const db = this.getDb();
+    const createdAt = new Date().toISOString();
+
+    const result = db
+      .prepare(`
+        INSERT INTO api_keys
+          (tenant_id, name, prefix, key_hash, scopes, platform, created_at)
+        VALUES
+          (@tenantId, @name, @prefix, @keyHash, @scopes, @platform, @createdAt)
+      `)
+      .run({
+        tenantId: input.tenantId,
+        name: input.name,
+        prefix: input.prefix,
+        keyHash: input.keyHash,
+        scopes: input.scopes.join(","),
+        platform: input.platform ?? null,
+        createdAt,
+      });
+
+    return this.getApiKey(Number(result.lastInsertRowid))!;
+  }
+
+  /** Single key lookup by ID (revoked keys included). */
+  getApiKey(id: number): ApiKey | null {
+    const db = this.getDb();
+    const row = db.prepare("SELECT * FROM api_keys WHERE id = ?").get(id);
+    return row ? rowToApiKey(row) : null;
+  }
+
+  /** Key lookup by SHA-256 hash (revoked keys included). */
+  getApiKeyByHash(keyHash: string): ApiKey | null {
+    const db = this.getDb();
+    const row = db.prepare("SELECT * FROM api_keys WHERE key_hash = ?").get(keyHash);
+    return row ? rowToApiKey(row) : null;
+  }
+
+  /** List keys ordered by ID, optionally for one tenant. */
+  listApiKeys(tenantId?: string): ApiKey[] {
+    const db = this.getDb();
+
+    if (tenantId !== undefined) {
+      return db
+        .prepare("SELECT * FROM api_keys WHERE tenant_id = ? ORDER BY id")
+        .all(tenantId)
+        .map(rowToApiKey);
+    }
+
+    return db.prepare("SELECT * FROM api_keys ORDER BY id").all().map(rowToApiKey);
+  }
+
+  /** Mark a key revoked. Returns false if no active key has this ID. */
+  revokeApiKey(id: number): boolean {
+    const db = this.getDb();
+    const result = db
+      .prepare(`
+        UPDATE api_keys SET revoked_at = ?
+        WHERE id = ? AND revoked_at IS NULL
+      `)
+      .run(new Date().toISOString(), id);
+    return result.changes > 0;
+  }
+
+  /** Record that a key was just used. */
+  touchApiKey(id: number): void {
+    const db = this.getDb();
+    db.prepare("UPDATE api_keys SET last_used_at = ? WHERE id = ?").run(
+      new Date().toISOString(),
+      id,
+    );
+  }
+
+  // -----------------------------------------------------------------------
+  // Platforms
+  // -----------------------------------------------------------------------
+
+  /** Insert or replace a tenant's platform descriptor. */
+  upsertPlatform(tenantId: string, descriptor: PlatformDescriptor): PlatformRecord {
+    const db = this.getDb();
+    db.prepare(`
+      INSERT INTO platforms (tenant_id, name, max_message_length, features, registered_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (tenant_id, name) DO UPDATE SET
+        max_message_length = excluded.max_message_length,
+        features = excluded.features,
+        registered_at = excluded.registered_at
+    `).run(
+      tenantId,
+      descriptor.name,
+      descriptor.maxMessageLength,
+      JSON.stringify(descriptor.features),
+      new Date().toISOString(),
+    );
+    return this.getPlatform(tenantId, descriptor.name)!;
+  }
+
+  getPlatform(tenantId: string, name: string): PlatformRecord | null {
+    const row = this.getDb()
+      .prepare("SELECT * FROM platforms WHERE tenant_id = ? AND name = ?")
+      .get(tenantId, name);
+    return row ? rowToPlatform(row) : null;
+  }
+
+  /** A tenant's registered platforms, by name. */
+  listPlatforms(tenantId: string): PlatformRecord[] {
+    return this.getDb()
+      .prepare("SELECT * FROM platforms WHERE tenant_id = ? ORDER BY name")
+      .all(tenantId)
+      .map(rowToPlatform);
+  }
+
+  // -----------------------------------------------------------------------
+  // Web sessions
+  // -----------------------------------------------------------------------
+
+  /** Persist a new web chat session (by token hash). */
+  insertWebSession(input: WebSessionInput): WebSession {
+    const db = this.getDb();
+    const result = db
+      .prepare(`
+        INSERT INTO web_sessions (tenant_id, chat_id, name, token_hash, created_at)
+        VALUES (@tenantId, @chatId, @name, @tokenHash, @createdAt)
+      `)
+      .run({ ...input, createdAt: new Date().toISOString() });
+
+    const row = db
+      .prepare("SELECT * FROM web_sessions WHERE id = ?")
+      .get(Number(result.lastInsertRowid));
+    return rowToWebSession(row);
+  }
+
+  /** Session lookup by SHA-256 hash of its token. */
+  getWebSessionByHash(tokenHash: string): WebSession | null {
+    const db = this.getDb();
+    const row = db.prepare("SELECT * FROM web_sessions WHERE token_hash = ?").get(tokenHash);
+    return row ? rowToWebSession(row) : null;
+  }
+
+  /** Record that a session was just used. */
+  touchWebSession(id: number): void {
+    const db = this.getDb();
+    db.prepare("UPDATE web_sessions SET last_used_at = ? WHERE id = ?").run(
+      new Date().toISOString(),
+      id,
+    );
+  }
+
+  /** Number of web sessions a tenant has. */
+  countWebSessions(tenantId: string): number {
+    const row = this.getDb()
+      .prepare("SELECT COUNT(*) AS n FROM web_sessions WHERE tenant_id = ?")
+      .get(tenantId) as { n: number };
+    return row.n;
+  }
+
+  /**
+   * Delete web sessions last used (or, if never used, created) before
+   * `before` (ISO 8601). Returns the number deleted.
+   */
+  deleteIdleWebSessions(before: string): number {
+    return this.getDb()
+      .prepare("DELETE FROM web_sessions WHERE COALESCE(last_used_at, created_at) < ?")
+      .run(before).changes;
+  }
+
   // -----------------------------------------------------------------------
   // Internal
   // -----------------------------------------------------------------------
@@ -351,6 +1208,28 @@ export class ChatRouterStore {
   }
 }
 
+// ---------------------------------------------------------------------------
+// Full-text query building
+// ---------------------------------------------------------------------------
+
+/**
+ * Turn free text into an FTS5 query that cannot be a syntax error: each
+ * whitespace-separated term becomes a quoted string (so `AND`, `-`, `:` or
+ * stray quotes are searched literally) and all terms must match. A trailing
+ * `*` on a term is kept as a prefix match. Returns `null` if nothing is left.
+ */
+function toFtsQuery(text: string): string | null {
+  const terms = text
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => {
+      const prefix = term.length > 1 && term.endsWith("*");
+      const body = (prefix ? term.slice(0, -1) : term).replace(/"/g, '""');
+      return prefix ? `"${body}"*` : `"${body}"`;
+    });
+  return terms.length > 0 ? terms.join(" ") : null;
+}
+
 // ---------------------------------------------------------------------------
 // Row-to-interface mappers (snake_case -> camelCase)
 // ---------------------------------------------------------------------------
@@ -359,9 +1238,13 @@ function rowToTimelineEntry(row: unknown): TimelineEntry {
   const r = row as Record<string, unknown>;
   return {
     id: r.id as number,
+    tenantId: r.tenant_id as string,
     direction: r.direction as "in" | "out",
     platform: r.platform as Platform,
     platformMessageId: r.platform_message_id as string,
+    platformMessageIds: r.platform_message_ids
+      ? (JSON.parse(r.platform_message_ids as string) as string[])
+      : [],
     platformChatId: r.platform_chat_id as string,
     platformChatType: (r.platform_chat_type as string | null) ?? null,
     senderName: r.sender_name as string,
@@ -369,6 +1252,11 @@ function rowToTimelineEntry(row: unknown): TimelineEntry {
     text: (r.text as string | null) ?? null,
     timestamp: r.timestamp as number,
     platformMeta: (r.platform_meta as string | null) ?? null,
+    attachments: r.attachments ? (JSON.parse(r.attachments as string) as Attachment[]) : [],
+    inReplyTo: (r.in_reply_to as number | null) ?? null,
+    replyToPlatformMessageId: (r.reply_to_message_id as string | null) ?? null,
+    editedAt: (r.edited_at as string | null) ?? null,
+    deletedAt: (r.deleted_at as string | null) ?? null,
     createdAt: r.created_at as string,
   };
 }
@@ -377,6 +1265,7 @@ function rowToConversation(row: unknown): Conversation {
   const r = row as Record<string, unknown>;
   return {
     id: r.id as number,
+    tenantId: r.tenant_id as string,
     platform: r.platform as Platform,
     platformChatId: r.platform_chat_id as string,
     platformChatType: (r.platform_chat_type as string | null) ?? null,
@@ -384,5 +1273,118 @@ function rowToConversation(row: unknown): Conversation {
     firstSeenAt: r.first_seen_at as string,
     lastMessageAt: r.last_message_at as string,
     messageCount: r.message_count as number,
+    settings: r.settings ? (JSON.parse(r.settings as string) as Record<string, unknown>) : {},
+  };
+}
+
+function rowToApiKey(row: unknown): ApiKey {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id as number,
+    tenantId: r.tenant_id as string,
+    name: r.name as string,
+    prefix: r.prefix as string,
+    scopes: (r.scopes as string).split(",").filter(Boolean) as ApiKeyScope[],
+    platform: (r.platform as string | null) ?? null,
+    createdAt: r.created_at as string,
+    lastUsedAt: (r.last_used_at as string | null) ?? null,
+    revokedAt: (r.revoked_at as string | null) ?? null,
+  };
+}
+
+function rowToWebSession(row: unknown): WebSession {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id as number,
+    tenantId: r.tenant_id as string,
+    chatId: r.chat_id as string,
+    name: r.name as string,
+    createdAt: r.created_at as string,
+    lastUsedAt: (r.last_used_at as string | null) ?? null,
+  };
+}
+
+function rowToPlatform(row: unknown): PlatformRecord {
+  const r = row as Record<string, unknown>;
+  return {
+    tenantId: r.tenant_id as string,
+    name: r.name as string,
+    maxMessageLength: (r.max_message_length as number | null) ?? null,
+    features: JSON.parse(r.features as string) as PlatformFeature[],
+    registeredAt: r.registered_at as string,
+  };
+}
+
+function rowToDelivery(row: unknown): Delivery {
+  const r = row as Record<string, unknown>;
+  return {
+    timelineId: r.timeline_id as number,
+    tenantId: r.tenant_id as string,
+    platform: r.platform as Platform,
+    status: r.status as DeliveryStatus,
+    attempts: r.attempts as number,
+    lastError: (r.last_error as string | null) ?? null,
+    createdAt: r.created_at as string,
+    updatedAt: r.updated_at as string,
+    deliveredAt: (r.delivered_at as string | null) ?? null,
+  };
+}
+
+function rowToDispatch(row: unknown): Dispatch {
+  const r = row as Record<string, unknown>;
+  return {
+    timelineId: r.timeline_id as number,
+    tenantId: r.tenant_id as string,
+    backend: r.backend as string,
+    status: r.status as DispatchStatus,
+    attempts: r.attempts as number,
+    lastError: (r.last_error as string | null) ?? null,
+    runId: (r.run_id as string | null) ?? null,
+    nextAttemptAt: r.next_attempt_at as string,
+    createdAt: r.created_at as string,
+    updatedAt: r.updated_at as string,
+    dispatchedAt: (r.dispatched_at as string | null) ?? null,
+  };
+}
+
+function rowToRun(row: unknown): AgentRun {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id as number,
+    tenantId: r.tenant_id as string,
+    platform: r.platform as Platform,
+    platformChatId: r.platform_chat_id as string,
+    backend: r.backend as string,
+    status: r.status as AgentRunStatus,
+    runId: (r.run_id as string | null) ?? null,
+    timelineIds: JSON.parse(r.timeline_ids as string) as number[],
+    responseId: (r.response_id as number | null) ?? null,
+    error: (r.error as string | null) ?? null,
+    startedAt: r.started_at as string,
+    finishedAt: (r.finished_at as string | null) ?? null,
+  };
+}
+
+function rowToRevision(row: unknown): Revision {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id as number,
+    tenantId: r.tenant_id as string,
+    timelineId: r.timeline_id as number,
+    kind: r.kind as RevisionKind,
+    previousText: (r.previous_text as string | null) ?? null,
+    text: (r.text as string | null) ?? null,
+    createdAt: r.created_at as string,
+  };
+}
+
+function rowToBlob(row: unknown): StoredBlob {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id as string,
+    tenantId: r.tenant_id as string,
+    mimeType: (r.mime_type as string | null) ?? null,
+    size: r.size as number,
+    createdAt: r.created_at as string,
   };
 }
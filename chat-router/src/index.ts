@@ -4,10 +4,19 @@ import path from "path";
 import util from "util";
 import { ChatRouterStore } from "./db/store";
 import { ChatRouterService } from "./service";
+import { BlobStore } from "./blobs/store";
 import { createServer } from "./api/server";
 import { isCliCommand, runCli } from "./cli/adapter";
 import { attachWebSocket } from "./ws/adapter";
-import type { AcsTriggerConfig } from "./acs/trigger";
+import { ApiKeyManager } from "./auth/keys";
+import { WebSessionManager } from "./web/sessions";
+import { AgentDispatcher } from "./agents/dispatcher";
+import {
+  createAgentRegistry,
+  loadAgentConfig,
+  type AgentConfig,
+  type AgentRegistry,
+} from "./agents/registry";
 
 // ---------------------------------------------------------------------------
 // File logging setup
@@ -52,32 +61,114 @@ if (firstArg && isCliCommand(firstArg)) {
 
   const store = new ChatRouterStore(`${DATA_DIR}/chat-router.db`);
   store.init();
-  const service = new ChatRouterService(store);
+  const service = new ChatRouterService(store, new BlobStore(`${DATA_DIR}/blobs`));
 
-  // ACS auto-trigger configuration
+  // API-key authentication — on unless explicitly disabled
+  let apiKeys: ApiKeyManager | undefined;
+  if (process.env.CHAT_ROUTER_AUTH === "off") {
+    console.log("[auth] API-key authentication DISABLED (CHAT_ROUTER_AUTH=off)");
+  } else {
+    apiKeys = new ApiKeyManager(store);
+    console.log(`[auth] API-key authentication enabled (${apiKeys.list().length} keys)`);
+  }
+
+  // Agent backends: a config file, or a single ACS job from the environment
+  const AGENTS_FILE = process.env.CHAT_ROUTER_AGENTS;
   const ACS_URL = process.env.ACS_URL || "http://127.0.0.1:8377";
   const ACS_JOB = process.env.ACS_JOB_NAME;
-  let acsConfig: AcsTriggerConfig | undefined;
+  const ACS_API_KEY = process.env.ACS_API_KEY;
+  const ROUTER_SELF_URL = process.env.ROUTER_SELF_URL || `http://localhost:${PORT}`;
+  const DEBOUNCE_MS = process.env.CHAT_ROUTER_DEBOUNCE_MS;
+  const MAX_WAIT_MS = process.env.CHAT_ROUTER_MAX_WAIT_MS;
+  const RUN_TIMEOUT_MS = process.env.CHAT_ROUTER_RUN_TIMEOUT_MS;
+  let agentConfig: AgentConfig | undefined;
+  let agents: AgentRegistry | undefined;
+  let dispatcher: AgentDispatcher | undefined;
+
+  if (AGENTS_FILE) {
+    agentConfig = loadAgentConfig(AGENTS_FILE);
+  } else if (ACS_JOB) {
+    agentConfig = {
+      backends: {
+        acs: { type: "acs", acsBaseUrl: ACS_URL, jobName: ACS_JOB, apiKey: ACS_API_KEY },
+      },
+      defaultBackend: "acs",
+    };
+  }
 
-  if (ACS_JOB) {
-    const ROUTER_SELF_URL = process.env.ROUTER_SELF_URL || `http://localhost:${PORT}`;
-    acsConfig = { acsBaseUrl: ACS_URL, jobName: ACS_JOB, routerUrl: ROUTER_SELF_URL };
-    console.log(`[acs] Auto-trigger enabled: ${ACS_JOB} via ${ACS_URL}`);
+  if (agentConfig) {
+    agents = createAgentRegistry(agentConfig, {
+      service,
+      routerUrl: ROUTER_SELF_URL,
+      promptDir: `${DATA_DIR}/prompts`,
+    });
+    dispatcher = new AgentDispatcher(service, agents, {
+      debounceMs: DEBOUNCE_MS ? parseInt(DEBOUNCE_MS, 10) : undefined,
+      maxWaitMs: MAX_WAIT_MS ? parseInt(MAX_WAIT_MS, 10) : undefined,
+      runTimeoutMs: RUN_TIMEOUT_MS ? parseInt(RUN_TIMEOUT_MS, 10) : undefined,
+    });
+    dispatcher.start();
+    console.log(`[agents] Auto-trigger enabled: ${agents.names().join(", ")}`);
+
+    // ACS jobs and webhooks answer through POST /api/responses
+    for (const [name, backend] of Object.entries(agentConfig.backends)) {
+      if (apiKeys && backend.type !== "subprocess" && !backend.apiKey) {
+        console.log(
+          `[agents] WARNING: backend "${name}" has no apiKey; ` +
+            "its responses will be refused while authentication is on",
+        );
+      }
+    }
   } else {
-    console.log("[acs] Auto-trigger disabled (ACS_JOB_NAME not set)");
+    console.log("[agents] Auto-trigger disabled (no CHAT_ROUTER_AGENTS or ACS_JOB_NAME)");
   }
 
-  const app = createServer(service, acsConfig);
+  const corsOrigins = process.env.CHAT_ROUTER_CORS_ORIGINS
+    ? process.env.CHAT_ROUTER_CORS_ORIGINS.split(",").map((o) => o.trim())
+    : undefined;
+
+  // Built-in web chat — off unless tenants are listed
+  const intEnv = (name: string) =>
+    process.env[name] ? parseInt(process.env[name]!, 10) : undefined;
+  let webChat: WebSessionManager | undefined;
+  if (process.env.CHAT_ROUTER_WEB_CHAT_TENANTS) {
+    webChat = new WebSessionManager(
+      store,
+      process.env.CHAT_ROUTER_WEB_CHAT_TENANTS.split(",").map((t) => t.trim()),
+      {
+        idleMs: intEnv("CHAT_ROUTER_WEB_CHAT_SESSION_IDLE_MS"),
+        maxSessions: intEnv("CHAT_ROUTER_WEB_CHAT_MAX_SESSIONS"),
+      },
+    );
+    console.log(`[web] Web chat enabled for: ${webChat.listTenants().join(", ")}`);
+  }
+  const webChatLimits = {
+    sessionsPerIpPerHour: intEnv("CHAT_ROUTER_WEB_CHAT_SESSIONS_PER_IP_PER_HOUR"),
+    messagesPerSessionPerMinute: intEnv("CHAT_ROUTER_WEB_CHAT_MESSAGES_PER_SESSION_PER_MINUTE"),
+    messagesPerIpPerMinute: intEnv("CHAT_ROUTER_WEB_CHAT_MESSAGES_PER_IP_PER_MINUTE"),
+  };
+
+  // Hops of reverse proxies in front of the router, for client IPs
+  const trustProxy = intEnv("CHAT_ROUTER_TRUST_PROXY");
+
+  const app = createServer(service, agents, {
+    apiKeys,
+    corsOrigins,
+    webChat,
+    webChatLimits,
+    trustProxy,
+  });
 
   const server = app.listen(PORT, () => {
     console.log(`Chat router listening on http://localhost:${PORT}`);
   });
 
-  attachWebSocket(server, service);
+  attachWebSocket(server, service, { apiKeys, webSessions: webChat });
 
   // Graceful shutdown on SIGINT/SIGTERM
   function shutdown(signal: string) {
     console.log(`\nReceived ${signal}. Shutting down...`);
+    dispatcher?.stop();
     server.close(() => {
       store.close();
       console.log("Chat router stopped.");
@@ -0,0 +1,166 @@
+import type {
+  Platform,
+  PlatformDescriptor,
+  PlatformFeature,
+  PlatformInfo,
+} from "../types";
+import { PLATFORM_NAME_PATTERN } from "../types";
+import type { ChatRouterStore } from "../db/store";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const PLATFORM_FEATURES: readonly PlatformFeature[] = [
+  "media",
+  "edits",
+  "reactions",
+  "replies",
+  "typing",
+];
+
+/**
+ * Platforms every tenant has without registering them. A plugin that
+ * registers one of these replaces the descriptor for its tenant.
+ */
+export const BUILT_IN_PLATFORMS: readonly PlatformDescriptor[] = [
+  {
+    name: "discord",
+    maxMessageLength: 2000,
+    features: ["media", "edits", "reactions", "replies", "typing"],
+  },
+  {
+    name: "telegram",
+    maxMessageLength: 4096,
+    features: ["media", "edits", "reactions", "replies", "typing"],
+  },
+  // The router's own web chat (see web/)
+  { name: "web", maxMessageLength: 4000, features: ["edits", "typing"] },
+];
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate a descriptor sent by a plugin, dropping unknown fields and
+ * duplicate features. `maxMessageLength` and `features` may be omitted
+ * (unlimited, none). Throws `"<context>: ..."` on anything malformed.
+ */
+export function parsePlatformDescriptor(input: unknown, context: string): PlatformDescriptor {
+  if (!input || typeof input !== "object") {
+    throw new Error(`${context}: descriptor must be an object`);
+  }
+  const { name, maxMessageLength, features } = input as Record<string, unknown>;
+
+  if (typeof name !== "string" || !PLATFORM_NAME_PATTERN.test(name)) {
+    throw new Error(
+      `${context}: name must be a lowercase letter followed by up to 31 of a-z, 0-9, _ or -`,
+    );
+  }
+  if (
+    maxMessageLength !== undefined &&
+    maxMessageLength !== null &&
+    (!Number.isInteger(maxMessageLength) || (maxMessageLength as number) < 1)
+  ) {
+    throw new Error(`${context}: maxMessageLength must be a positive integer or null`);
+  }
+  if (
+    features !== undefined &&
+    (!Array.isArray(features) ||
+      !features.every((f) => PLATFORM_FEATURES.includes(f as PlatformFeature)))
+  ) {
+    throw new Error(`${context}: features must be a list of ${PLATFORM_FEATURES.join(", ")}`);
+  }
+
+  return {
+    name,
+    maxMessageLength: (maxMessageLength as number | null | undefined) ?? null,
+    features: PLATFORM_FEATURES.filter((f) => (features as unknown[] | undefined)?.includes(f)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// PlatformRegistry — the platforms each tenant may ingest from
+// ---------------------------------------------------------------------------
+
+/**
+ * Platform descriptors per tenant: the built-in ones, replaced or extended
+ * by those plugins register (persisted), plus a count of the plugin
+ * connections currently serving each platform (in memory).
+ */
+export class PlatformRegistry {
+  private connections = new Map<string, number>();
+
+  constructor(private store: ChatRouterStore) {}
+
+  register(tenantId: string, descriptor: PlatformDescriptor): PlatformInfo {
+    const record = this.store.upsertPlatform(tenantId, descriptor);
+    return this.toInfo(tenantId, record, record.registeredAt);
+  }
+
+  /** The tenant's descriptor for a platform, or null if it has none. */
+  get(tenantId: string, name: Platform): PlatformDescriptor | null {
+    const record = this.store.getPlatform(tenantId, name);
+    if (record) {
+      return {
+        name: record.name,
+        maxMessageLength: record.maxMessageLength,
+        features: record.features,
+      };
+    }
+    return BUILT_IN_PLATFORMS.find((p) => p.name === name) ?? null;
+  }
+
+  list(tenantId: string): PlatformInfo[] {
+    const registered = this.store.listPlatforms(tenantId);
+    const infos = registered.map((record) =>
+      this.toInfo(tenantId, record, record.registeredAt),
+    );
+    for (const builtIn of BUILT_IN_PLATFORMS) {
+      if (!registered.some((r) => r.name === builtIn.name)) {
+        infos.push(this.toInfo(tenantId, builtIn, null));
+      }
+    }
+    return infos.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Count a connection serving the platform until the returned function is
+   * called (at most once has an effect).
+   */
+  connect(tenantId: string, name: Platform): () => void {
+    const key = connectionKey(tenantId, name);
+    this.connections.set(key, (this.connections.get(key) ?? 0) + 1);
+
+    let connected = true;
+    return () => {
+      if (!connected) return;
+      connected = false;
+      const remaining = (this.connections.get(key) ?? 1) - 1;
+      if (remaining > 0) {
+        this.connections.set(key, remaining);
+      } else {
+        this.connections.delete(key);
+      }
+    };
+  }
+
+  private toInfo(
+    tenantId: string,
+    descriptor: PlatformDescriptor,
+    registeredAt: string | null,
+  ): PlatformInfo {
+    return {
+      name: descriptor.name,
+      maxMessageLength: descriptor.maxMessageLength,
+      features: descriptor.features,
+      registeredAt,
+      connections: this.connections.get(connectionKey(tenantId, descriptor.name)) ?? 0,
+    };
+  }
+}
+
+function connectionKey(tenantId: string, name: Platform): string {
+  return `${tenantId}\u0000${name}`;
+}
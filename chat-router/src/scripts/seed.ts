@@ -7,6 +7,7 @@ import * as fs from "fs";
 import * as path from "path";
 import { ChatRouterStore } from "../db/store";
 import { ChatRouterService } from "../service";
+import { DEFAULT_TENANT_ID } from "../types";
 import type { InboundMessage } from "../types";
 
 // ---------------------------------------------------------------------------
@@ -15,6 +16,7 @@ import type { InboundMessage } from "../types";
 
 const DATA_DIR = process.env.CHAT_ROUTER_DATA_DIR || "./data";
 const DB_FILE = path.join(DATA_DIR, "chat-router.db");
+const TENANT_ID = process.env.CHAT_ROUTER_TENANT_ID || DEFAULT_TENANT_ID;
 
 // ---------------------------------------------------------------------------
 // Fake users
@@ -54,6 +56,7 @@ function buildMessages(): InboundMessage[] {
   return [
     // -- Private chat: Alice --
     {
+      tenantId: TENANT_ID,
       platform: "telegram",
       platformMessageId: "msg-1001",
       platformChatId: chats.alicePrivate.id,
@@ -68,6 +71,7 @@ function buildMessages(): InboundMessage[] {
       },
     },
     {
+      tenantId: TENANT_ID,
       platform: "telegram",
       platformMessageId: "msg-1002",
       platformChatId: chats.alicePrivate.id,
@@ -82,6 +86,7 @@ function buildMessages(): InboundMessage[] {
       },
     },
     {
+      tenantId: TENANT_ID,
       platform: "telegram",
       platformMessageId: "msg-1003",
       platformChatId: chats.alicePrivate.id,
@@ -98,6 +103,7 @@ function buildMessages(): InboundMessage[] {
 
     // -- Group chat: Project Alpha --
     {
+      tenantId: TENANT_ID,
       platform: "telegram",
       platformMessageId: "msg-2001",
       platformChatId: chats.projectGroup.id,
@@ -113,6 +119,7 @@ function buildMessages(): InboundMessage[] {
       },
     },
     {
+      tenantId: TENANT_ID,
       platform: "telegram",
       platformMessageId: "msg-2002",
       platformChatId: chats.projectGroup.id,
@@ -128,6 +135,7 @@ function buildMessages(): InboundMessage[] {
       },
     },
     {
+      tenantId: TENANT_ID,
       platform: "telegram",
       platformMessageId: "msg-2003",
       platformChatId: chats.projectGroup.id,
@@ -143,6 +151,7 @@ function buildMessages(): InboundMessage[] {
       },
     },
     {
+      tenantId: TENANT_ID,
       platform: "telegram",
       platformMessageId: "msg-2004",
       platformChatId: chats.projectGroup.id,
@@ -158,6 +167,7 @@ function buildMessages(): InboundMessage[] {
       },
     },
     {
+      tenantId: TENANT_ID,
       platform: "telegram",
       platformMessageId: "msg-2005",
       platformChatId: chats.projectGroup.id,
@@ -181,7 +191,8 @@ function buildMessages(): InboundMessage[] {
 
 function main(): void {
   console.log(`Seed script starting...`);
-  console.log(`Data file: ${path.resolve(DB_FILE)}\n`);
+  console.log(`Data file: ${path.resolve(DB_FILE)}`);
+  console.log(`Tenant   : ${TENANT_ID}\n`);
 
   // Ensure the data directory exists
   const dataDir = path.dirname(DB_FILE);
@@ -211,6 +222,7 @@ function main(): void {
 
   // Response to Alice's private chat (replying to her first message)
   const resp1 = service.recordResponse({
+    tenantId: TENANT_ID,
     platform: "telegram",
     platformChatId: chats.alicePrivate.id,
     text: "Checking the deployment status now. One moment...",
@@ -222,6 +234,7 @@ function main(): void {
 
   // Response in the group chat (replying to Alice's PR review request)
   const resp2 = service.recordResponse({
+    tenantId: TENANT_ID,
     platform: "telegram",
     platformChatId: chats.projectGroup.id,
     text: "PR #42 looks good. I have added some minor inline comments.",
@@ -233,6 +246,7 @@ function main(): void {
 
   // Another response in the group
   const resp3 = service.recordResponse({
+    tenantId: TENANT_ID,
     platform: "telegram",
     platformChatId: chats.projectGroup.id,
     text: "Great news on the CI pipeline! Ready for the sprint review.",
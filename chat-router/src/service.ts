@@ -1,13 +1,71 @@
 import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import { TENANT_ID_PATTERN } from "./types";
 import type {
   Platform,
   InboundMessage,
+  Attachment,
+  AttachmentInput,
+  OutboundAttachmentInput,
+  StoredBlob,
   TimelineEntry,
   Conversation,
+  Delivery,
+  Dispatch,
+  DispatchStatus,
+  AgentRun,
+  AgentRunStatus,
+  ConnectedPlugin,
+  PlatformDescriptor,
+  PlatformInfo,
+  ProcessingState,
+  Revision,
+  SearchResult,
   IChatRouterService,
 } from "./types";
 import type { TimelineEntryInput } from "./db/store";
 import { ChatRouterStore } from "./db/store";
+import { BlobStore, BLOB_ID_PATTERN } from "./blobs/store";
+import { PlatformRegistry, parsePlatformDescriptor } from "./platforms/registry";
+
+const ATTACHMENT_TYPES = new Set<string>([
+  "photo",
+  "video",
+  "video_note",
+  "animation",
+  "voice",
+  "audio",
+  "document",
+  "sticker",
+]);
+
+/**
+ * Prefix of the platform message IDs the router assigns to outbound entries;
+ * they mean nothing to the platform.
+ */
+const SYNTHETIC_MESSAGE_PREFIX = "router-";
+
+/** Nacks after which an outbound entry is given up on and marked failed. */
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+/** Trigger attempts after which a dispatch is dead-lettered. */
+export const MAX_DISPATCH_ATTEMPTS = 5;
+
+/**
+ * Delay before retrying a failed trigger; doubled after every further
+ * failure, up to `DISPATCH_RETRY_MAX_MS`.
+ */
+export const DISPATCH_RETRY_BASE_MS = 5 * 1000;
+export const DISPATCH_RETRY_MAX_MS = 5 * 60 * 1000;
+
+const DISPATCH_STATUSES = new Set<string>(["pending", "dispatched", "dead"]);
+const RUN_STATUSES = new Set<string>(["running", "done", "failed"]);
+
+/** Settings travel with every agent trigger, so keep them small. */
+export const MAX_SETTINGS_LENGTH = 16 * 1024;
+
+/** How long the agent may work on a message before it is considered failed. */
+export const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
 
 // ---------------------------------------------------------------------------
 // ChatRouterService — implements all business logic
@@ -15,21 +73,38 @@ import { ChatRouterStore } from "./db/store";
 
 export class ChatRouterService extends EventEmitter implements IChatRouterService {
   private store: ChatRouterStore;
-  private syntheticIdCounter = 0;
+  private blobs: BlobStore | null;
+  private platforms: PlatformRegistry;
+  /** WebSocket clients that said hello, by connection ID. */
+  private plugins = new Map<string, ConnectedPlugin>();
+  /** Agent activity per conversation, kept in memory only. */
+  private processing = new Map<
+    string,
+    { state: ProcessingState; timer: ReturnType<typeof setTimeout> }
+  >();
 
-  constructor(store: ChatRouterStore) {
+  /** Without a `BlobStore`, uploads are refused but attachments still work. */
+  constructor(store: ChatRouterStore, blobs?: BlobStore) {
     super();
     this.store = store;
+    this.blobs = blobs ?? null;
+    this.platforms = new PlatformRegistry(store);
   }
 
   // -----------------------------------------------------------------------
   // Mutations
   // -----------------------------------------------------------------------
 
+  /**
+   * Persist an inbound message. Idempotent per platform message: re-ingesting
+   * a message returns the original entry marked `duplicate: true` and emits
+   * nothing.
+   */
   ingestMessage(msg: InboundMessage): TimelineEntry {
     this.validateInbound(msg);
 
     const entryData: TimelineEntryInput = {
+      tenantId: msg.tenantId,
       direction: "in",
       platform: msg.platform,
       platformMessageId: msg.platformMessageId,
@@ -42,33 +117,47 @@ export class ChatRouterService extends EventEmitter implements IChatRouterServic
       platformMeta: msg.platformMeta
         ? JSON.stringify(msg.platformMeta)
         : null,
+      attachments: this.normalizeAttachments(msg.tenantId, msg.attachments),
+      ...this.resolveInboundReply(msg),
     };
 
     const entry = this.store.ingestTransaction(entryData, msg.senderName);
-    this.emit("message:new", entry);
+    if (!entry.duplicate) {
+      this.emit("message:new", entry);
+    }
     return entry;
   }
 
   recordResponse(params: {
+    tenantId: string;
     platform: Platform;
     platformChatId: string;
-    text: string;
+    text?: string;
+    attachments?: OutboundAttachmentInput[];
     inReplyTo?: number;
   }): TimelineEntry {
+    this.validateTenantId(params.tenantId, "recordResponse");
     if (!params.platform) {
       throw new Error("recordResponse: platform is required");
     }
     if (!params.platformChatId) {
       throw new Error("recordResponse: platformChatId is required");
     }
-    if (!params.text) {
-      throw new Error("recordResponse: text is required");
+    const attachments = this.resolveOutboundAttachments(
+      params.tenantId,
+      params.attachments,
+    );
+    if (!params.text && attachments.length === 0) {
+      throw new Error("recordResponse: text or attachments is required");
     }
+    const original = this.resolveOutboundReply(params);
 
-    this.syntheticIdCounter++;
-    const syntheticMessageId = `router-${this.syntheticIdCounter}`;
+    // Synthetic IDs must stay unique across restarts: the timeline has a
+    // unique index on platform message ID per chat and direction.
+    const syntheticMessageId = `${SYNTHETIC_MESSAGE_PREFIX}${randomUUID()}`;
 
     const entryData: TimelineEntryInput = {
+      tenantId: params.tenantId,
       direction: "out",
       platform: params.platform,
       platformMessageId: syntheticMessageId,
@@ -76,23 +165,573 @@ export class ChatRouterService extends EventEmitter implements IChatRouterServic
       platformChatType: null,
       senderName: "System",
       senderId: "system",
-      text: params.text,
+      text: params.text || null,
       timestamp: Date.now(),
       platformMeta: params.inReplyTo !== undefined
         ? JSON.stringify({ inReplyTo: params.inReplyTo })
         : null,
+      attachments,
+      inReplyTo: original?.id ?? null,
+      replyToPlatformMessageId: original ? platformMessageIdOf(original) : null,
     };
 
     const entry = this.store.ingestTransaction(entryData, "System");
     this.emit("message:new", entry);
+    // The run first, so whoever hears the processing end sees it idle
+    this.finishRun(entry, "done", null, entry.id);
+    this.finishProcessing(entry, "done", null);
     return entry;
   }
 
+  // -----------------------------------------------------------------------
+  // Edits and deletions
+  // -----------------------------------------------------------------------
+
+  /**
+   * Edits and deletions emit `message:edited` / `message:deleted` with the
+   * updated entry and the revision. Setting the text it already has, or
+   * deleting a deleted entry, changes nothing and emits nothing.
+   */
+  editResponse(params: {
+    tenantId: string;
+    timelineId: number;
+    text: string;
+  }): TimelineEntry | null {
+    this.validateTenantId(params.tenantId, "editResponse");
+    if (!params.text || typeof params.text !== "string") {
+      throw new Error("editResponse: text is required");
+    }
+
+    const entry = this.store.getTimelineEntry(params.tenantId, params.timelineId);
+    if (!entry || entry.direction !== "out") return null;
+    return this.applyEdit(entry, params.text, "editResponse");
+  }
+
+  deleteResponse(tenantId: string, timelineId: number): TimelineEntry | null {
+    this.validateTenantId(tenantId, "deleteResponse");
+
+    const entry = this.store.getTimelineEntry(tenantId, timelineId);
+    if (!entry || entry.direction !== "out") return null;
+    if (entry.deletedAt) return entry;
+
+    const result = this.store.applyRevision(tenantId, timelineId, {
+      kind: "delete",
+      text: null,
+    })!;
+
+    // Nothing to retract if it never reached the platform
+    const delivery = this.store.getDelivery(tenantId, timelineId);
+    if (delivery && delivery.status === "pending") {
+      this.store.updateDelivery(tenantId, timelineId, {
+        status: "failed",
+        attempts: delivery.attempts,
+        lastError: "deleted before delivery",
+      });
+    }
+
+    this.emit("message:deleted", result.entry, result.revision);
+    return result.entry;
+  }
+
+  editMessage(params: {
+    tenantId: string;
+    platform: Platform;
+    platformChatId: string;
+    platformMessageId: string;
+    text: string;
+  }): TimelineEntry | null {
+    this.validateTenantId(params.tenantId, "editMessage");
+    if (typeof params.text !== "string") {
+      throw new Error("editMessage: text is required");
+    }
+
+    const entry = this.store.findByPlatformMessageId(
+      params.tenantId,
+      params.platform,
+      params.platformChatId,
+      params.platformMessageId,
+      "in",
+    );
+    if (!entry) return null;
+    return this.applyEdit(entry, params.text, "editMessage");
+  }
+
+  private applyEdit(entry: TimelineEntry, text: string, method: string): TimelineEntry {
+    if (entry.deletedAt) {
+      throw new Error(`${method}: entry ${entry.id} is deleted`);
+    }
+    if (entry.text === text) return entry;
+
+    const result = this.store.applyRevision(entry.tenantId, entry.id, {
+      kind: "edit",
+      text,
+    })!;
+    this.emit("message:edited", result.entry, result.revision);
+    return result.entry;
+  }
+
+  // -----------------------------------------------------------------------
+  // Delivery
+  // -----------------------------------------------------------------------
+
+  /**
+   * Mark an outbound entry delivered. Acks are idempotent: acking an entry
+   * that is no longer pending returns its delivery unchanged. Platform
+   * message IDs are recorded by the first ack that reports any, even a late
+   * one.
+   */
+  acknowledgeDelivery(
+    tenantId: string,
+    timelineId: number,
+    platformMessageIds?: string[],
+  ): Delivery | null {
+    this.validateTenantId(tenantId, "acknowledgeDelivery");
+    if (
+      platformMessageIds !== undefined &&
+      (!Array.isArray(platformMessageIds) ||
+        !platformMessageIds.every((id) => typeof id === "string" && id !== ""))
+    ) {
+      throw new Error(
+        "acknowledgeDelivery: platformMessageIds must be an array of non-empty strings",
+      );
+    }
+
+    const delivery = this.store.getDelivery(tenantId, timelineId);
+    if (!delivery) return null;
+
+    if (platformMessageIds && platformMessageIds.length > 0) {
+      const entry = this.store.getTimelineEntry(tenantId, timelineId);
+      if (entry && entry.platformMessageIds.length === 0) {
+        this.store.setPlatformMessageIds(tenantId, timelineId, platformMessageIds);
+      }
+    }
+    if (delivery.status !== "pending") return delivery;
+
+    return this.store.updateDelivery(tenantId, timelineId, {
+      status: "delivered",
+      attempts: delivery.attempts + 1,
+      lastError: delivery.lastError,
+    });
+  }
+
+  failDelivery(params: {
+    tenantId: string;
+    timelineId: number;
+    error: string;
+    retry?: boolean;
+  }): Delivery | null {
+    this.validateTenantId(params.tenantId, "failDelivery");
+    const delivery = this.store.getDelivery(params.tenantId, params.timelineId);
+    if (!delivery || delivery.status !== "pending") return delivery;
+
+    const attempts = delivery.attempts + 1;
+    const giveUp = params.retry === false || attempts >= MAX_DELIVERY_ATTEMPTS;
+    return this.store.updateDelivery(params.tenantId, params.timelineId, {
+      status: giveUp ? "failed" : "pending",
+      attempts,
+      lastError: params.error || "unknown error",
+    });
+  }
+
+  listPendingDeliveries(params: {
+    tenantId: string;
+    platform?: Platform;
+    limit?: number;
+  }): TimelineEntry[] {
+    return this.store.listPendingDeliveries(
+      params.tenantId,
+      params.platform,
+      params.limit,
+    );
+  }
+
+  getOutboundBacklog(params: {
+    tenantId: string;
+    sinceId?: number;
+    platform?: Platform;
+    chatIds?: string[];
+    after?: number;
+    limit?: number;
+  }): TimelineEntry[] {
+    return this.store.getOutboundBacklog(
+      params.tenantId,
+      params.sinceId,
+      params.platform,
+      params.chatIds,
+      params.after,
+      params.limit,
+    );
+  }
+
+  // -----------------------------------------------------------------------
+  // Agent dispatch
+  // -----------------------------------------------------------------------
+
+  enqueueDispatch(tenantId: string, timelineId: number, backend: string): Dispatch | null {
+    this.validateTenantId(tenantId, "enqueueDispatch");
+    if (!backend) {
+      throw new Error("enqueueDispatch: backend is required");
+    }
+    const entry = this.store.getTimelineEntry(tenantId, timelineId);
+    if (!entry || entry.direction !== "in") return null;
+
+    const dispatch = this.store.insertDispatch(tenantId, timelineId, backend);
+    if (!dispatch) return this.store.getDispatch(tenantId, timelineId);
+
+    this.startProcessing(tenantId, timelineId);
+    this.emit("dispatch:queued", dispatch);
+    return dispatch;
+  }
+
+  dueDispatches(
+    options: { runTimeoutMs?: number; limit?: number } = {},
+  ): { dispatch: Dispatch; entry: TimelineEntry }[] {
+    const now = Date.now();
+    const runsSince = now - (options.runTimeoutMs ?? PROCESSING_TIMEOUT_MS);
+    const due = this.store.listDueDispatches(
+      new Date(now).toISOString(),
+      new Date(runsSince).toISOString(),
+      options.limit,
+    );
+    return due.map((dispatch) => ({
+      dispatch,
+      entry: this.store.getTimelineEntry(dispatch.tenantId, dispatch.timelineId)!,
+    }));
+  }
+
+  oldestPendingDispatch(
+    tenantId: string,
+    platform: Platform,
+    platformChatId: string,
+  ): Dispatch | null {
+    return this.store.getOldestPendingDispatch(tenantId, platform, platformChatId);
+  }
+
+  completeDispatch(tenantId: string, timelineId: number, runId: string | null): Dispatch | null {
+    const dispatch = this.store.getDispatch(tenantId, timelineId);
+    if (!dispatch || dispatch.status !== "pending") return dispatch;
+
+    return this.store.updateDispatch(tenantId, timelineId, {
+      status: "dispatched",
+      attempts: dispatch.attempts + 1,
+      lastError: dispatch.lastError,
+      runId,
+      nextAttemptAt: dispatch.nextAttemptAt,
+    });
+  }
+
+  failDispatch(params: { tenantId: string; timelineId: number; error: string }): Dispatch | null {
+    const { tenantId, timelineId } = params;
+    const dispatch = this.store.getDispatch(tenantId, timelineId);
+    if (!dispatch || dispatch.status !== "pending") return dispatch;
+
+    const attempts = dispatch.attempts + 1;
+    const dead = attempts >= MAX_DISPATCH_ATTEMPTS;
+    const delay = Math.min(DISPATCH_RETRY_BASE_MS * 2 ** (attempts - 1), DISPATCH_RETRY_MAX_MS);
+    const lastError = params.error || "unknown error";
+
+    const updated = this.store.updateDispatch(tenantId, timelineId, {
+      status: dead ? "dead" : "pending",
+      attempts,
+      lastError,
+      runId: null,
+      nextAttemptAt: dead
+        ? dispatch.nextAttemptAt
+        : new Date(Date.now() + delay).toISOString(),
+    });
+    if (dead) {
+      this.failProcessing(tenantId, timelineId, `agent trigger failed: ${lastError}`);
+    }
+    return updated;
+  }
+
+  listDispatches(params: {
+    tenantId: string;
+    status?: DispatchStatus;
+    limit?: number;
+  }): Dispatch[] {
+    this.validateTenantId(params.tenantId, "listDispatches");
+    if (params.status !== undefined && !DISPATCH_STATUSES.has(params.status)) {
+      throw new Error(
+        `listDispatches: status must be one of ${[...DISPATCH_STATUSES].join(", ")}`,
+      );
+    }
+    return this.store.listDispatches(params.tenantId, params.status, params.limit);
+  }
+
+  redriveDispatch(tenantId: string, timelineId: number): Dispatch | null {
+    this.validateTenantId(tenantId, "redriveDispatch");
+    const dispatch = this.store.getDispatch(tenantId, timelineId);
+    if (!dispatch) return null;
+    if (dispatch.status !== "dead") {
+      throw new Error(`redriveDispatch: dispatch ${timelineId} is ${dispatch.status}, not dead`);
+    }
+
+    const queued = this.store.updateDispatch(tenantId, timelineId, {
+      status: "pending",
+      attempts: 0,
+      lastError: dispatch.lastError,
+      runId: null,
+      nextAttemptAt: new Date().toISOString(),
+    })!;
+    this.startProcessing(tenantId, timelineId);
+    this.emit("dispatch:queued", queued);
+    return queued;
+  }
+
+  // -----------------------------------------------------------------------
+  // Agent runs
+  // -----------------------------------------------------------------------
+
+  startRun(params: { tenantId: string; backend: string; timelineIds: number[] }): AgentRun {
+    this.validateTenantId(params.tenantId, "startRun");
+    if (!params.backend) {
+      throw new Error("startRun: backend is required");
+    }
+    const entries = (params.timelineIds ?? []).map((id) =>
+      this.store.getTimelineEntry(params.tenantId, id),
+    );
+    const first = entries[0];
+    if (
+      !first ||
+      entries.some(
+        (e) =>
+          !e ||
+          e.direction !== "in" ||
+          e.platform !== first.platform ||
+          e.platformChatId !== first.platformChatId,
+      )
+    ) {
+      throw new Error("startRun: timelineIds must name inbound entries of one conversation");
+    }
+
+    return this.store.insertRun({
+      tenantId: params.tenantId,
+      platform: first.platform,
+      platformChatId: first.platformChatId,
+      backend: params.backend,
+      timelineIds: params.timelineIds,
+    });
+  }
+
+  setRunId(tenantId: string, id: number, runId: string | null): AgentRun | null {
+    this.validateTenantId(tenantId, "setRunId");
+    return this.store.setRunId(tenantId, id, runId);
+  }
+
+  failRun(tenantId: string, id: number, error: string): AgentRun | null {
+    this.validateTenantId(tenantId, "failRun");
+    const run = this.store.getRun(tenantId, id);
+    if (!run || run.status !== "running") return run;
+    return this.store.finishRun(tenantId, id, {
+      status: "failed",
+      error: error || "unknown error",
+      responseId: null,
+    });
+  }
+
+  getActiveRun(tenantId: string, platform: Platform, platformChatId: string): AgentRun | null {
+    const run = this.store.getRunningRun(tenantId, platform, platformChatId);
+    if (!run) return null;
+
+    // The processing timer that would have ended it may have died with a restart
+    if (Date.now() - Date.parse(run.startedAt) >= PROCESSING_TIMEOUT_MS) {
+      this.store.finishRun(tenantId, run.id, {
+        status: "failed",
+        error: "no response from the agent in time",
+        responseId: null,
+      });
+      return null;
+    }
+    return run;
+  }
+
+  listRuns(params: {
+    tenantId: string;
+    platform?: Platform;
+    platformChatId?: string;
+    status?: AgentRunStatus;
+    limit?: number;
+  }): AgentRun[] {
+    this.validateTenantId(params.tenantId, "listRuns");
+    if (params.status !== undefined && !RUN_STATUSES.has(params.status)) {
+      throw new Error(`listRuns: status must be one of ${[...RUN_STATUSES].join(", ")}`);
+    }
+    return this.store.listRuns(
+      params.tenantId,
+      { platform: params.platform, platformChatId: params.platformChatId, status: params.status },
+      params.limit,
+    );
+  }
+
+  /** End the conversation's running run, if any. */
+  private finishRun(
+    conversation: Pick<TimelineEntry, "tenantId" | "platform" | "platformChatId">,
+    status: "done" | "failed",
+    error: string | null,
+    responseId: number | null,
+  ): AgentRun | null {
+    const { tenantId, platform, platformChatId } = conversation;
+    const run = this.store.getRunningRun(tenantId, platform, platformChatId);
+    if (!run) return null;
+    return this.store.finishRun(tenantId, run.id, { status, error, responseId });
+  }
+
+  // -----------------------------------------------------------------------
+  // Agent activity
+  // -----------------------------------------------------------------------
+
+  startProcessing(tenantId: string, timelineId: number): ProcessingState | null {
+    const entry = this.store.getTimelineEntry(tenantId, timelineId);
+    if (!entry || entry.direction !== "in") return null;
+
+    // A newer message supersedes whatever the agent was doing before
+    const key = processingKey(entry);
+    const previous = this.processing.get(key);
+    if (previous) clearTimeout(previous.timer);
+
+    const now = new Date().toISOString();
+    const state: ProcessingState = {
+      tenantId,
+      platform: entry.platform,
+      platformChatId: entry.platformChatId,
+      timelineId,
+      platformMessageId: entry.platformMessageId,
+      status: "processing",
+      error: null,
+      startedAt: now,
+      updatedAt: now,
+    };
+    const timer = setTimeout(() => {
+      this.finishRun(entry, "failed", "no response from the agent in time", null);
+      this.finishProcessing(entry, "failed", "no response from the agent in time");
+    }, PROCESSING_TIMEOUT_MS);
+    timer.unref();
+
+    this.processing.set(key, { state, timer });
+    this.emit("chat:action", state);
+    return state;
+  }
+
+  failProcessing(tenantId: string, timelineId: number, error: string): ProcessingState | null {
+    const entry = this.store.getTimelineEntry(tenantId, timelineId);
+    if (!entry || entry.direction !== "in") return null;
+
+    // Only the run answering this entry; a failed trigger has none
+    const run = this.store.getRunningRun(tenantId, entry.platform, entry.platformChatId);
+    if (run && run.timelineIds.includes(timelineId)) {
+      this.store.finishRun(tenantId, run.id, { status: "failed", error, responseId: null });
+    }
+
+    const current = this.processing.get(processingKey(entry));
+    if (current && current.state.timelineId === timelineId) {
+      return this.finishProcessing(entry, "failed", error);
+    }
+
+    // Never started (the trigger itself failed)
+    const now = new Date().toISOString();
+    const state: ProcessingState = {
+      tenantId,
+      platform: entry.platform,
+      platformChatId: entry.platformChatId,
+      timelineId,
+      platformMessageId: entry.platformMessageId,
+      status: "failed",
+      error,
+      startedAt: now,
+      updatedAt: now,
+    };
+    this.emit("chat:action", state);
+    return state;
+  }
+
+  completeProcessing(tenantId: string, timelineId: number): ProcessingState | null {
+    const entry = this.store.getTimelineEntry(tenantId, timelineId);
+    if (!entry || entry.direction !== "in") return null;
+
+    const run = this.store.getRunningRun(tenantId, entry.platform, entry.platformChatId);
+    if (run && run.timelineIds.includes(timelineId)) {
+      this.store.finishRun(tenantId, run.id, { status: "done", error: null, responseId: null });
+    }
+
+    const current = this.processing.get(processingKey(entry));
+    if (current && current.state.timelineId === timelineId) {
+      return this.finishProcessing(entry, "done", null);
+    }
+    return null;
+  }
+
+  getProcessingState(
+    tenantId: string,
+    platform: Platform,
+    platformChatId: string,
+  ): ProcessingState | null {
+    const key = processingKey({ tenantId, platform, platformChatId });
+    return this.processing.get(key)?.state ?? null;
+  }
+
+  /** End the conversation's activity, if any, and announce the outcome. */
+  private finishProcessing(
+    conversation: Pick<TimelineEntry, "tenantId" | "platform" | "platformChatId">,
+    status: "done" | "failed",
+    error: string | null,
+  ): ProcessingState | null {
+    const key = processingKey(conversation);
+    const current = this.processing.get(key);
+    if (!current) return null;
+
+    clearTimeout(current.timer);
+    this.processing.delete(key);
+    const state: ProcessingState = {
+      ...current.state,
+      status,
+      error,
+      updatedAt: new Date().toISOString(),
+    };
+    this.emit("chat:action", state);
+    return state;
+  }
+
+  // -----------------------------------------------------------------------
+  // Blobs
+  // -----------------------------------------------------------------------
+
+  storeBlob(params: {
+    tenantId: string;
+    data: Buffer;
+    mimeType?: string;
+  }): StoredBlob {
+    this.validateTenantId(params.tenantId, "storeBlob");
+    if (!this.blobs) {
+      throw new Error("storeBlob: blob storage is not configured");
+    }
+    if (!params.data || params.data.length === 0) {
+      throw new Error("storeBlob: data is empty");
+    }
+
+    const id = this.blobs.write(params.data);
+    return this.store.insertBlob({
+      tenantId: params.tenantId,
+      id,
+      mimeType: params.mimeType || null,
+      size: params.data.length,
+    });
+  }
+
+  readBlob(tenantId: string, id: string): { blob: StoredBlob; data: Buffer } | null {
+    if (!this.blobs || !BLOB_ID_PATTERN.test(id)) return null;
+    const blob = this.store.getBlob(tenantId, id);
+    if (!blob) return null;
+    const data = this.blobs.read(id);
+    return data ? { blob, data } : null;
+  }
+
   // -----------------------------------------------------------------------
   // Queries
   // -----------------------------------------------------------------------
 
   getTimeline(params: {
+    tenantId: string;
     platform: Platform;
     platformChatId: string;
     after?: number;
@@ -100,6 +739,7 @@ export class ChatRouterService extends EventEmitter implements IChatRouterServic
     limit?: number;
   }): TimelineEntry[] {
     return this.store.getTimeline(
+      params.tenantId,
       params.platform,
       params.platformChatId,
       params.after,
@@ -109,33 +749,160 @@ export class ChatRouterService extends EventEmitter implements IChatRouterServic
   }
 
   getUnifiedTimeline(params: {
+    tenantId: string;
     after?: number;
     before?: number;
     limit?: number;
   }): TimelineEntry[] {
-    return this.store.getUnifiedTimeline(params.after, params.before, params.limit);
+    return this.store.getUnifiedTimeline(
+      params.tenantId,
+      params.after,
+      params.before,
+      params.limit,
+    );
   }
 
-  listConversations(params?: {
+  listConversations(params: {
+    tenantId: string;
     platform?: Platform;
     limit?: number;
   }): Conversation[] {
-    return this.store.listConversations(params?.platform, params?.limit);
+    return this.store.listConversations(
+      params.tenantId,
+      params.platform,
+      params.limit,
+    );
+  }
+
+  search(params: {
+    tenantId: string;
+    query: string;
+    platform?: Platform;
+    platformChatId?: string;
+    from?: number;
+    to?: number;
+    limit?: number;
+  }): SearchResult[] {
+    this.validateTenantId(params.tenantId, "search");
+    if (!params.query || !params.query.trim()) {
+      throw new Error("search: query is required");
+    }
+    for (const bound of ["from", "to"] as const) {
+      const value = params[bound];
+      if (value !== undefined && !Number.isFinite(value)) {
+        throw new Error(`search: ${bound} must be a timestamp`);
+      }
+    }
+
+    return this.store.search(
+      params.tenantId,
+      params.query,
+      {
+        platform: params.platform,
+        platformChatId: params.platformChatId,
+        from: params.from,
+        to: params.to,
+      },
+      params.limit,
+    );
   }
 
   getConversation(
+    tenantId: string,
     platform: Platform,
     platformChatId: string,
   ): Conversation | null {
-    return this.store.getConversation(platform, platformChatId);
+    return this.store.getConversation(tenantId, platform, platformChatId);
+  }
+
+  updateConversationSettings(params: {
+    tenantId: string;
+    platform: Platform;
+    platformChatId: string;
+    settings: Record<string, unknown>;
+  }): Conversation | null {
+    this.validateTenantId(params.tenantId, "updateConversationSettings");
+    const { settings } = params;
+    if (typeof settings !== "object" || settings === null || Array.isArray(settings)) {
+      throw new Error("updateConversationSettings: settings must be an object");
+    }
+    if (JSON.stringify(settings).length > MAX_SETTINGS_LENGTH) {
+      throw new Error(
+        "updateConversationSettings: settings must be at most " +
+          `${MAX_SETTINGS_LENGTH} characters of JSON`,
+      );
+    }
+    return this.store.updateConversationSettings(
+      params.tenantId,
+      params.platform,
+      params.platformChatId,
+      settings,
+    );
+  }
+
+  listRevisions(tenantId: string, timelineId: number): Revision[] {
+    return this.store.listRevisions(tenantId, timelineId);
   }
 
-  healthCheck(): {
+  healthCheck(tenantId?: string): {
     ok: boolean;
     messageCount: number;
     conversationCount: number;
+    plugins: ConnectedPlugin[];
   } {
-    return { ok: true, ...this.store.getStats() };
+    return { ok: true, ...this.store.getStats(tenantId), plugins: this.listPlugins(tenantId) };
+  }
+
+  // -----------------------------------------------------------------------
+  // Platforms
+  // -----------------------------------------------------------------------
+
+  registerPlatform(tenantId: string, descriptor: PlatformDescriptor): PlatformInfo {
+    this.validateTenantId(tenantId, "registerPlatform");
+    return this.platforms.register(
+      tenantId,
+      parsePlatformDescriptor(descriptor, "registerPlatform"),
+    );
+  }
+
+  listPlatforms(tenantId: string): PlatformInfo[] {
+    return this.platforms.list(tenantId);
+  }
+
+  getPlatform(tenantId: string, name: string): PlatformDescriptor | null {
+    return this.platforms.get(tenantId, name);
+  }
+
+  connectPlatform(tenantId: string, platform: Platform): () => void {
+    if (!this.platforms.get(tenantId, platform)) {
+      throw new Error(`connectPlatform: unknown platform "${platform}"`);
+    }
+    return this.platforms.connect(tenantId, platform);
+  }
+
+  // -----------------------------------------------------------------------
+  // Connected clients
+  // -----------------------------------------------------------------------
+
+  connectPlugin(plugin: Omit<ConnectedPlugin, "id" | "connectedAt">): ConnectedPlugin {
+    this.validateTenantId(plugin.tenantId, "connectPlugin");
+    const connected: ConnectedPlugin = {
+      ...plugin,
+      id: randomUUID(),
+      connectedAt: new Date().toISOString(),
+    };
+    this.plugins.set(connected.id, connected);
+    return connected;
+  }
+
+  disconnectPlugin(id: string): void {
+    this.plugins.delete(id);
+  }
+
+  listPlugins(tenantId?: string): ConnectedPlugin[] {
+    return [...this.plugins.values()].filter(
+      (p) => tenantId === undefined || p.tenantId === tenantId,
+    );
   }
 
   // -----------------------------------------------------------------------
@@ -143,6 +910,7 @@ export class ChatRouterService extends EventEmitter implements IChatRouterServic
   // -----------------------------------------------------------------------
 
   private validateInbound(msg: InboundMessage): void {
+    this.validateTenantId(msg.tenantId, "ingestMessage");
     if (!msg.platform) {
       throw new Error("ingestMessage: platform is required");
     }
@@ -161,5 +929,179 @@ export class ChatRouterService extends EventEmitter implements IChatRouterServic
     if (msg.timestamp === undefined || msg.timestamp === null) {
       throw new Error("ingestMessage: timestamp is required");
     }
+    this.validateAgainstPlatform(msg);
+  }
+
+  /** The message must come from a platform of the tenant, and fit it. */
+  private validateAgainstPlatform(msg: InboundMessage): void {
+    const platform = this.platforms.get(msg.tenantId, msg.platform);
+    if (!platform) {
+      throw new Error(`ingestMessage: unknown platform "${msg.platform}"; register it first`);
+    }
+    if (
+      platform.maxMessageLength !== null &&
+      typeof msg.text === "string" &&
+      Array.from(msg.text).length > platform.maxMessageLength
+    ) {
+      throw new Error(
+        `ingestMessage: text exceeds the ${platform.maxMessageLength}-character limit ` +
+          `of ${platform.name}`,
+      );
+    }
+    if (msg.attachments?.length && !platform.features.includes("media")) {
+      throw new Error(`ingestMessage: ${platform.name} does not support media`);
+    }
+    if (msg.replyToPlatformMessageId && !platform.features.includes("replies")) {
+      throw new Error(`ingestMessage: ${platform.name} does not support replies`);
+    }
+  }
+
+  /**
+   * Find the entry an inbound reply answers. The original may predate the
+   * router or be an unconfirmed outbound message, so an unknown ID is kept
+   * without an entry rather than rejected.
+   */
+  private resolveInboundReply(
+    msg: InboundMessage,
+  ): Pick<TimelineEntryInput, "inReplyTo" | "replyToPlatformMessageId"> {
+    const replyTo = msg.replyToPlatformMessageId;
+    if (replyTo === undefined || replyTo === null) return {};
+    if (typeof replyTo !== "string" || !replyTo) {
+      throw new Error("ingestMessage: replyToPlatformMessageId must be a non-empty string");
+    }
+
+    const original = this.store.findByPlatformMessageId(
+      msg.tenantId,
+      msg.platform,
+      msg.platformChatId,
+      replyTo,
+    );
+    return { inReplyTo: original?.id ?? null, replyToPlatformMessageId: replyTo };
+  }
+
+  /** The entry a response answers, which must be in the same conversation. */
+  private resolveOutboundReply(params: {
+    tenantId: string;
+    platform: Platform;
+    platformChatId: string;
+    inReplyTo?: number;
+  }): TimelineEntry | null {
+    if (params.inReplyTo === undefined || params.inReplyTo === null) return null;
+    if (!Number.isInteger(params.inReplyTo)) {
+      throw new Error("recordResponse: inReplyTo must be a timeline entry ID");
+    }
+
+    const original = this.store.getTimelineEntry(params.tenantId, params.inReplyTo);
+    if (!original) {
+      throw new Error("recordResponse: inReplyTo is unknown");
+    }
+    if (
+      original.platform !== params.platform ||
+      original.platformChatId !== params.platformChatId
+    ) {
+      throw new Error("recordResponse: inReplyTo is in a different conversation");
+    }
+    return original;
   }
+
+  /**
+   * Fill in optional attachment fields and check that every referenced blob
+   * was uploaded by the same tenant.
+   */
+  private normalizeAttachments(
+    tenantId: string,
+    attachments: AttachmentInput[] | undefined,
+  ): Attachment[] {
+    if (attachments === undefined || attachments === null) return [];
+    if (!Array.isArray(attachments)) {
+      throw new Error("ingestMessage: attachments must be an array");
+    }
+
+    return attachments.map((a, i) => {
+      if (!a || typeof a !== "object") {
+        throw new Error(`ingestMessage: attachments[${i}] must be an object`);
+      }
+      if (!ATTACHMENT_TYPES.has(a.type)) {
+        throw new Error(`ingestMessage: attachments[${i}].type is invalid`);
+      }
+      if (!a.fileId) {
+        throw new Error(`ingestMessage: attachments[${i}].fileId is required`);
+      }
+      if (a.blobId && !this.store.getBlob(tenantId, a.blobId)) {
+        throw new Error(`ingestMessage: attachments[${i}].blobId is unknown`);
+      }
+      return {
+        type: a.type,
+        fileId: a.fileId,
+        mimeType: a.mimeType ?? null,
+        size: a.size ?? null,
+        fileName: a.fileName ?? null,
+        caption: a.caption ?? null,
+        blobId: a.blobId ?? null,
+      };
+    });
+  }
+
+  /**
+   * Turn blob references into attachments, taking MIME type and size from
+   * the tenant's blob record.
+   */
+  private resolveOutboundAttachments(
+    tenantId: string,
+    attachments: OutboundAttachmentInput[] | undefined,
+  ): Attachment[] {
+    if (attachments === undefined || attachments === null) return [];
+    if (!Array.isArray(attachments)) {
+      throw new Error("recordResponse: attachments must be an array");
+    }
+
+    return attachments.map((a, i) => {
+      if (!a || typeof a !== "object") {
+        throw new Error(`recordResponse: attachments[${i}] must be an object`);
+      }
+      if (!ATTACHMENT_TYPES.has(a.type)) {
+        throw new Error(`recordResponse: attachments[${i}].type is invalid`);
+      }
+      if (!a.blobId) {
+        throw new Error(`recordResponse: attachments[${i}].blobId is required`);
+      }
+      const blob = this.store.getBlob(tenantId, a.blobId);
+      if (!blob) {
+        throw new Error(`recordResponse: attachments[${i}].blobId is unknown`);
+      }
+      return {
+        type: a.type,
+        fileId: null,
+        mimeType: blob.mimeType,
+        size: blob.size,
+        fileName: a.fileName ?? null,
+        caption: a.caption ?? null,
+        blobId: blob.id,
+      };
+    });
+  }
+
+  private validateTenantId(tenantId: string, method: string): void {
+    if (!tenantId) {
+      throw new Error(`${method}: tenantId is required`);
+    }
+    if (!TENANT_ID_PATTERN.test(tenantId)) {
+      throw new Error(`${method}: tenantId is invalid`);
+    }
+  }
+}
+
+/** Map key of a conversation's agent activity. */
+function processingKey(
+  conversation: Pick<TimelineEntry, "tenantId" | "platform" | "platformChatId">,
+): string {
+  const { tenantId, platform, platformChatId } = conversation;
+  return JSON.stringify([tenantId, platform, platformChatId]);
+}
+
+/** The entry's platform message ID, or null if the router made it up. */
+function platformMessageIdOf(entry: TimelineEntry): string | null {
+  return entry.platformMessageId.startsWith(SYNTHETIC_MESSAGE_PREFIX)
+    ? null
+    : entry.platformMessageId;
 }
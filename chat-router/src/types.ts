@@ -2,13 +2,79 @@
 // Platform
 // ---------------------------------------------------------------------------
 
-export type Platform = "telegram" | "discord" | "web";
+/**
+ * Name of a platform, e.g. `"telegram"`. Any platform registered for the
+ * tenant (see `PlatformDescriptor`) is accepted, not only the built-in ones.
+ */
+export type Platform = string;
+
+/** Allowed platform name shape: lowercase letter, then up to 31 of a-z, 0-9, `_`, `-`. */
+export const PLATFORM_NAME_PATTERN = /^[a-z][a-z0-9_-]{0,31}$/;
+
+/**
+ * What a platform supports. `media` = attachments, `edits` = editing and
+ * deleting messages, `reactions` = status reactions, `replies` = threaded
+ * replies, `typing` = a typing indicator.
+ */
+export type PlatformFeature = "media" | "edits" | "reactions" | "replies" | "typing";
+
+/** How a plugin describes its platform when registering it. */
+export interface PlatformDescriptor {
+  name: Platform;
+  /** Longest text the platform accepts in one message, null if unlimited. */
+  maxMessageLength: number | null;
+  features: PlatformFeature[];
+}
+
+/** A platform as listed by `GET /api/platforms`. */
+export interface PlatformInfo extends PlatformDescriptor {
+  /** ISO 8601; null for a built-in platform the tenant never registered. */
+  registeredAt: string | null;
+  /** Open WebSocket connections of the tenant that registered the platform. */
+  connections: number;
+}
+
+// ---------------------------------------------------------------------------
+// Connected clients
+// ---------------------------------------------------------------------------
+
+/** What a WebSocket client says it is in its `hello`. */
+export type ClientRole = "plugin" | "dashboard" | "cli";
+
+/** A WebSocket client that introduced itself, as listed by `GET /api/plugins`. */
+export interface ConnectedPlugin {
+  /** Unique per connection. */
+  id: string;
+  tenantId: string;
+  role: ClientRole;
+  name: string;
+  version: string | null;
+  /** Platform a plugin serves, if it named one. */
+  platform: Platform | null;
+  protocolVersion: number;
+  /** Capabilities both the client and the router support. */
+  capabilities: string[];
+  /** ISO 8601. */
+  connectedAt: string;
+}
+
+// ---------------------------------------------------------------------------
+// Tenant
+// ---------------------------------------------------------------------------
+
+/** Tenant used when a caller does not identify itself. */
+export const DEFAULT_TENANT_ID = "default";
+
+/** Allowed tenant ID shape: 1-64 letters, digits, `_`, `-` or `.`. */
+export const TENANT_ID_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
 
 // ---------------------------------------------------------------------------
 // InboundMessage — normalized input from any platform plugin
 // ---------------------------------------------------------------------------
 
 export interface InboundMessage {
+  /** Tenant that owns the conversation. */
+  tenantId: string;
   platform: Platform;
   /** Platform-specific message ID (string to accommodate all platforms). */
   platformMessageId: string;
@@ -26,6 +92,74 @@ export interface InboundMessage {
   timestamp: number;
   /** Bag for platform-specific data, stored as JSON. */
   platformMeta?: Record<string, unknown>;
+  /** Media sent with the message; optional fields default to null. */
+  attachments?: AttachmentInput[];
+  /** Platform message ID of the message this one replies to. */
+  replyToPlatformMessageId?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Attachment — media carried by a timeline entry
+// ---------------------------------------------------------------------------
+
+export type AttachmentType =
+  | "photo"
+  | "video"
+  | "video_note"
+  | "animation"
+  | "voice"
+  | "audio"
+  | "document"
+  | "sticker";
+
+export interface Attachment {
+  type: AttachmentType;
+  /**
+   * Platform file ID, e.g. Telegram's `file_id`. Null on outbound entries,
+   * whose content the plugin fetches from the blob store instead.
+   */
+  fileId: string | null;
+  mimeType: string | null;
+  /** Size in bytes as reported by the platform. */
+  size: number | null;
+  /** Original file name, for documents and audio. */
+  fileName: string | null;
+  caption: string | null;
+  /**
+   * SHA-256 of the content in the router's blob store, served at
+   * `/api/blobs/:id`; null when the plugin could not download the file.
+   */
+  blobId: string | null;
+}
+
+/** Inbound attachment as sent by a plugin. */
+export type AttachmentInput = { type: AttachmentType; fileId: string } & Partial<
+  Omit<Attachment, "type" | "fileId">
+>;
+
+/**
+ * Outbound attachment: content previously uploaded to the blob store.
+ * MIME type and size are taken from the blob.
+ */
+export interface OutboundAttachmentInput {
+  type: AttachmentType;
+  blobId: string;
+  fileName?: string;
+  caption?: string;
+}
+
+// ---------------------------------------------------------------------------
+// StoredBlob — content uploaded to the blob store
+// ---------------------------------------------------------------------------
+
+export interface StoredBlob {
+  /** Lower-case hex SHA-256 of the content. */
+  id: string;
+  tenantId: string;
+  mimeType: string | null;
+  size: number;
+  /** ISO 8601. */
+  createdAt: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -35,10 +169,22 @@ export interface InboundMessage {
 export interface TimelineEntry {
   /** Auto-increment primary key. */
   id: number;
+  tenantId: string;
   /** "in" = from user, "out" = from AI/system. */
   direction: "in" | "out";
   platform: Platform;
+  /**
+   * Platform-specific message ID. Outbound entries start with a synthetic
+   * `router-<uuid>` ID, replaced by the first real one once the plugin
+   * reports delivery.
+   */
   platformMessageId: string;
+  /**
+   * Every platform message an outbound entry was delivered as, in order
+   * (several when the plugin had to split it). Empty for inbound entries
+   * and until the plugin reports them.
+   */
+  platformMessageIds: string[];
   platformChatId: string;
   platformChatType: string | null;
   senderName: string;
@@ -48,8 +194,65 @@ export interface TimelineEntry {
   timestamp: number;
   /** Serialized JSON, nullable. */
   platformMeta: string | null;
+  /** Empty when the message carried no media. */
+  attachments: Attachment[];
+  /**
+   * Timeline entry this message replies to; null if it is not a reply or
+   * the original was never recorded.
+   */
+  inReplyTo: number | null;
+  /**
+   * Platform message ID of the message replied to, for plugins to thread
+   * the reply. Null if it is not a reply or the original has no platform
+   * ID yet (an outbound entry not confirmed by the platform).
+   */
+  replyToPlatformMessageId: string | null;
+  /** ISO 8601, set by the most recent edit. */
+  editedAt: string | null;
+  /** ISO 8601, set when the message was deleted; its text is then null. */
+  deletedAt: string | null;
   /** ISO 8601 timestamp. */
   createdAt: string;
+  /**
+   * Set by `ingestMessage` when the platform message had already been
+   * ingested; the entry returned is the original one.
+   */
+  duplicate?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Revision — one edit or deletion of a timeline entry
+// ---------------------------------------------------------------------------
+
+export type RevisionKind = "edit" | "delete";
+
+export interface Revision {
+  id: number;
+  tenantId: string;
+  /** ID of the entry that changed. */
+  timelineId: number;
+  kind: RevisionKind;
+  /** Text before the change. */
+  previousText: string | null;
+  /** Text after the change; null for deletions. */
+  text: string | null;
+  /** ISO 8601. */
+  createdAt: string;
+}
+
+// ---------------------------------------------------------------------------
+// SearchResult — one full-text search hit
+// ---------------------------------------------------------------------------
+
+export interface SearchResult {
+  entry: TimelineEntry;
+  /**
+   * Excerpt of `entry.text` around the matches, each wrapped in
+   * `<mark>…</mark>`. The text itself is not HTML-escaped.
+   */
+  snippet: string;
+  /** BM25 score; lower is a better match. Results are sorted by it. */
+  rank: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -67,11 +270,184 @@ export interface OutboundMessage {
 }
 
 // ---------------------------------------------------------------------------
-// Conversation — tracks unique (platform, platformChatId) pairs
+// Delivery — delivery state of an outbound timeline entry
+// ---------------------------------------------------------------------------
+
+/**
+ * `pending` until a plugin acks the entry (`delivered`) or it has been
+ * nacked too often or with `retry: false` (`failed`).
+ */
+export type DeliveryStatus = "pending" | "delivered" | "failed";
+
+export interface Delivery {
+  /** ID of the outbound timeline entry. */
+  timelineId: number;
+  tenantId: string;
+  platform: Platform;
+  status: DeliveryStatus;
+  /** Number of acks and nacks reported by plugins. */
+  attempts: number;
+  /** Error from the most recent nack, if any. */
+  lastError: string | null;
+  /** ISO 8601. */
+  createdAt: string;
+  /** ISO 8601. */
+  updatedAt: string;
+  /** ISO 8601, null until delivered. */
+  deliveredAt: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Dispatch — agent trigger queued for an inbound timeline entry
+// ---------------------------------------------------------------------------
+
+/**
+ * `pending` until the agent was triggered (`dispatched`) or every attempt
+ * failed (`dead`). Dead dispatches stay until re-driven.
+ */
+export type DispatchStatus = "pending" | "dispatched" | "dead";
+
+export interface Dispatch {
+  /** ID of the inbound timeline entry. */
+  timelineId: number;
+  tenantId: string;
+  /** Name of the agent backend the entry is routed to. */
+  backend: string;
+  status: DispatchStatus;
+  /** Number of trigger attempts made. */
+  attempts: number;
+  /** Error from the most recent failed attempt, if any. */
+  lastError: string | null;
+  /** Run ID reported by the agent backend, once dispatched. */
+  runId: string | null;
+  /** ISO 8601; when a pending dispatch is tried next. */
+  nextAttemptAt: string;
+  /** ISO 8601. */
+  createdAt: string;
+  /** ISO 8601. */
+  updatedAt: string;
+  /** ISO 8601, null until dispatched. */
+  dispatchedAt: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// AgentRun — one trigger of an agent and its outcome
+// ---------------------------------------------------------------------------
+
+/**
+ * `running` from a successful trigger until a response is recorded in the
+ * conversation (`done`), or until the agent fails or no response arrives in
+ * time (`failed`).
+ */
+export type AgentRunStatus = "running" | "done" | "failed";
+
+export interface AgentRun {
+  id: number;
+  tenantId: string;
+  platform: Platform;
+  platformChatId: string;
+  /** Name of the agent backend that was triggered. */
+  backend: string;
+  status: AgentRunStatus;
+  /** Run ID reported by the backend, if any; null until triggered. */
+  runId: string | null;
+  /** Inbound entries the run answers, oldest first. */
+  timelineIds: number[];
+  /** Outbound entry that completed the run. */
+  responseId: number | null;
+  /** Why the run failed; null otherwise. */
+  error: string | null;
+  /** ISO 8601. */
+  startedAt: string;
+  /** ISO 8601, null while running. */
+  finishedAt: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// AgentPayload — what an agent backend is given to answer a message
+// ---------------------------------------------------------------------------
+
+/** A timeline entry as the agent sees it. */
+export interface AgentPayloadMessage {
+  id: number;
+  direction: "in" | "out";
+  sender: { name: string; id: string };
+  text: string | null;
+  /** Unix milliseconds. */
+  timestamp: number;
+  /** Platform-specific metadata the plugin attached, parsed. */
+  platformMeta: Record<string, unknown> | null;
+  /** `url` is the blob's router URL, null when it was not downloaded. */
+  attachments: (Attachment & { url: string | null })[];
+  inReplyTo: number | null;
+  /** ISO 8601, set when the message was edited. */
+  editedAt: string | null;
+}
+
+export interface AgentPayload {
+  /** Where the agent reaches the router, e.g. to post its response. */
+  routerUrl: string;
+  /**
+   * Key to post the response with (a `respond` key of the tenant), or null
+   * when the backend has none configured.
+   */
+  apiKey: string | null;
+  tenantId: string;
+  platform: Platform;
+  platformChatId: string;
+  /** Entry ID to pass as `inReplyTo` when responding. */
+  inReplyTo: number;
+  conversation: {
+    label: string | null;
+    chatType: string | null;
+    settings: Record<string, unknown>;
+  };
+  /** The message to answer: the last of `messages`. */
+  message: AgentPayloadMessage;
+  /**
+   * Every new message the run answers, oldest first. More than one when the
+   * user sent several in a row before the agent was triggered.
+   */
+  messages: AgentPayloadMessage[];
+  /** Earlier messages of the conversation, oldest first; deleted ones left out. */
+  history: AgentPayloadMessage[];
+}
+
+// ---------------------------------------------------------------------------
+// ProcessingState — an agent working on a conversation
+// ---------------------------------------------------------------------------
+
+/**
+ * `processing` from the agent being triggered until a response is recorded
+ * (`done`), or until the trigger fails or no response arrives in time
+ * (`failed`).
+ */
+export type ProcessingStatus = "processing" | "done" | "failed";
+
+export interface ProcessingState {
+  tenantId: string;
+  platform: Platform;
+  platformChatId: string;
+  /** Inbound entry the agent was triggered for. */
+  timelineId: number;
+  /** Its platform message ID, for plugins to show the status on. */
+  platformMessageId: string;
+  status: ProcessingStatus;
+  /** Why processing failed; null otherwise. */
+  error: string | null;
+  /** ISO 8601. */
+  startedAt: string;
+  /** ISO 8601. */
+  updatedAt: string;
+}
+
+// ---------------------------------------------------------------------------
+// Conversation — tracks unique (tenantId, platform, platformChatId) triples
 // ---------------------------------------------------------------------------
 
 export interface Conversation {
   id: number;
+  tenantId: string;
   platform: Platform;
   platformChatId: string;
   platformChatType: string | null;
@@ -82,6 +458,63 @@ export interface Conversation {
   /** ISO 8601. */
   lastMessageAt: string;
   messageCount: number;
+  /**
+   * Free-form settings for the agent (e.g. language or persona), included in
+   * every trigger payload. Empty until set.
+   */
+  settings: Record<string, unknown>;
+}
+
+// ---------------------------------------------------------------------------
+// ApiKey — per-tenant credential for the REST API and WebSocket
+// ---------------------------------------------------------------------------
+
+/**
+ * What a key may do. `ingest` = POST /messages, `respond` = POST /responses,
+ * `read` = queries and WebSocket pushes, `admin` = everything.
+ */
+export type ApiKeyScope = "ingest" | "respond" | "read" | "admin";
+
+export interface ApiKey {
+  id: number;
+  tenantId: string;
+  /** Human-readable label, e.g. "telegram-bot". */
+  name: string;
+  /** First characters of the key, safe to display. */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  /**
+   * Platform a plugin using this key may register, e.g. "telegram"; null
+   * for none. Keys with the `admin` scope may register any.
+   */
+  platform: string | null;
+  /** ISO 8601. */
+  createdAt: string;
+  /** ISO 8601, null if never used. */
+  lastUsedAt: string | null;
+  /** ISO 8601, null while the key is active. */
+  revokedAt: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// WebSession — a visitor of the built-in web chat
+// ---------------------------------------------------------------------------
+
+/**
+ * One browser's web chat. Its token (shown once, like an API key) lets the
+ * widget post to and read only its own conversation.
+ */
+export interface WebSession {
+  id: number;
+  tenantId: string;
+  /** `platformChatId` of the visitor's conversation on platform `"web"`. */
+  chatId: string;
+  /** Display name the visitor's messages are sent under. */
+  name: string;
+  /** ISO 8601. */
+  createdAt: string;
+  /** ISO 8601, null if never used. */
+  lastUsedAt: string | null;
 }
 
 // ---------------------------------------------------------------------------
@@ -91,14 +524,191 @@ export interface Conversation {
 export interface IChatRouterService {
   ingestMessage(msg: InboundMessage): TimelineEntry;
 
+  /** Requires `text`, `attachments`, or both; `text` is then the caption. */
   recordResponse(params: {
+    tenantId: string;
     platform: Platform;
     platformChatId: string;
-    text: string;
+    text?: string;
+    attachments?: OutboundAttachmentInput[];
     inReplyTo?: number;
   }): TimelineEntry;
 
+  /**
+   * Mark an outbound entry delivered, recording the platform message IDs it
+   * was delivered as if given. Returns null if it has no delivery.
+   */
+  acknowledgeDelivery(
+    tenantId: string,
+    timelineId: number,
+    platformMessageIds?: string[],
+  ): Delivery | null;
+
+  /**
+   * Replace the text of an outbound entry. Returns null if the tenant has
+   * no such response.
+   */
+  editResponse(params: {
+    tenantId: string;
+    timelineId: number;
+    text: string;
+  }): TimelineEntry | null;
+
+  /**
+   * Retract an outbound entry: its text is cleared and it is marked
+   * deleted. Returns null if the tenant has no such response.
+   */
+  deleteResponse(tenantId: string, timelineId: number): TimelineEntry | null;
+
+  /**
+   * Apply an edit made on the platform to an inbound message. Returns null
+   * if the message was never ingested.
+   */
+  editMessage(params: {
+    tenantId: string;
+    platform: Platform;
+    platformChatId: string;
+    platformMessageId: string;
+    text: string;
+  }): TimelineEntry | null;
+
+  /** Edits and deletions of an entry, oldest first. */
+  listRevisions(tenantId: string, timelineId: number): Revision[];
+
+  /**
+   * Record a failed delivery attempt. The entry stays pending (and is
+   * redelivered) unless `retry` is false or the attempt limit is reached.
+   */
+  failDelivery(params: {
+    tenantId: string;
+    timelineId: number;
+    error: string;
+    retry?: boolean;
+  }): Delivery | null;
+
+  /**
+   * Queue the agent trigger for an inbound entry on the named backend and
+   * mark the conversation processing. Queuing an entry twice returns the
+   * existing dispatch. Returns null if the tenant has no such inbound entry.
+   */
+  enqueueDispatch(tenantId: string, timelineId: number, backend: string): Dispatch | null;
+
+  /**
+   * Pending dispatches of every tenant that are due, oldest first. Skips
+   * conversations held by a run younger than `runTimeoutMs` (default: the
+   * processing timeout) or by an earlier entry waiting for its retry.
+   */
+  dueDispatches(options?: {
+    runTimeoutMs?: number;
+    limit?: number;
+  }): { dispatch: Dispatch; entry: TimelineEntry }[];
+
+  /**
+   * The conversation's pending dispatch of its oldest entry, whether due or
+   * waiting for a retry; null when nothing is pending.
+   */
+  oldestPendingDispatch(
+    tenantId: string,
+    platform: Platform,
+    platformChatId: string,
+  ): Dispatch | null;
+
+  /** Record a successful trigger. */
+  completeDispatch(tenantId: string, timelineId: number, runId: string | null): Dispatch | null;
+
+  /**
+   * Record a failed trigger attempt. The dispatch is retried with
+   * exponential backoff until `MAX_DISPATCH_ATTEMPTS`, then marked dead.
+   */
+  failDispatch(params: { tenantId: string; timelineId: number; error: string }): Dispatch | null;
+
+  /** Most recent dispatches first. */
+  listDispatches(params: {
+    tenantId: string;
+    status?: DispatchStatus;
+    limit?: number;
+  }): Dispatch[];
+
+  /**
+   * Queue a dead dispatch again with a fresh set of attempts. Returns null
+   * if the tenant has no dispatch for that entry.
+   */
+  redriveDispatch(tenantId: string, timelineId: number): Dispatch | null;
+
+  /**
+   * Record that the agent is being triggered for inbound entries of one
+   * conversation. The run ends with the next response recorded there, or
+   * when processing fails.
+   */
+  startRun(params: { tenantId: string; backend: string; timelineIds: number[] }): AgentRun;
+
+  /** Store the run ID the backend reported for a run. */
+  setRunId(tenantId: string, id: number, runId: string | null): AgentRun | null;
+
+  /** End a run that is still going as failed, e.g. because the trigger failed. */
+  failRun(tenantId: string, id: number, error: string): AgentRun | null;
+
+  /**
+   * The conversation's run that is still going, if any. A run without a
+   * response in time (also across restarts) is failed on the way.
+   */
+  getActiveRun(tenantId: string, platform: Platform, platformChatId: string): AgentRun | null;
+
+  /** Most recent runs first, optionally of one conversation. */
+  listRuns(params: {
+    tenantId: string;
+    platform?: Platform;
+    platformChatId?: string;
+    status?: AgentRunStatus;
+    limit?: number;
+  }): AgentRun[];
+
+  /**
+   * Mark the agent as working on an inbound entry, until a response is
+   * recorded in its conversation or `PROCESSING_TIMEOUT_MS` passes. Returns
+   * null if the tenant has no such inbound entry.
+   */
+  startProcessing(tenantId: string, timelineId: number): ProcessingState | null;
+
+  /** Record that the agent could not be started for an inbound entry. */
+  failProcessing(tenantId: string, timelineId: number, error: string): ProcessingState | null;
+
+  /**
+   * Record that the agent finished an inbound entry without a response
+   * being recorded for it here, e.g. because it answered through the API.
+   * Returns null when nothing was in progress for the entry any more.
+   */
+  completeProcessing(tenantId: string, timelineId: number): ProcessingState | null;
+
+  /** The conversation's agent activity; null while the agent is idle. */
+  getProcessingState(
+    tenantId: string,
+    platform: Platform,
+    platformChatId: string,
+  ): ProcessingState | null;
+
+  /** Outbound entries still awaiting delivery, oldest first. */
+  listPendingDeliveries(params: {
+    tenantId: string;
+    platform?: Platform;
+    limit?: number;
+  }): TimelineEntry[];
+
+  /**
+   * Outbound entries after `sinceId` plus older still-pending ones, oldest
+   * first; what a reconnecting plugin has to catch up on.
+   */
+  getOutboundBacklog(params: {
+    tenantId: string;
+    sinceId?: number;
+    platform?: Platform;
+    chatIds?: string[];
+    after?: number;
+    limit?: number;
+  }): TimelineEntry[];
+
   getTimeline(params: {
+    tenantId: string;
     platform: Platform;
     platformChatId: string;
     after?: number;
@@ -107,24 +717,93 @@ export interface IChatRouterService {
   }): TimelineEntry[];
 
   getUnifiedTimeline(params: {
+    tenantId: string;
     after?: number;
     before?: number;
     limit?: number;
   }): TimelineEntry[];
 
-  listConversations(params?: {
+  listConversations(params: {
+    tenantId: string;
     platform?: Platform;
     limit?: number;
   }): Conversation[];
 
+  /**
+   * Full-text search over message text, best match first. `from` / `to`
+   * bound the platform timestamp (Unix ms, inclusive).
+   */
+  search(params: {
+    tenantId: string;
+    query: string;
+    platform?: Platform;
+    platformChatId?: string;
+    from?: number;
+    to?: number;
+    limit?: number;
+  }): SearchResult[];
+
+  /** Add content to the blob store; storing the same bytes twice is a no-op. */
+  storeBlob(params: {
+    tenantId: string;
+    data: Buffer;
+    mimeType?: string;
+  }): StoredBlob;
+
+  /** Null if the tenant never stored this blob. */
+  readBlob(tenantId: string, id: string): { blob: StoredBlob; data: Buffer } | null;
+
   getConversation(
+    tenantId: string,
     platform: Platform,
     platformChatId: string,
   ): Conversation | null;
 
-  healthCheck(): {
+  /** Replace a conversation's settings. Returns null if it does not exist. */
+  updateConversationSettings(params: {
+    tenantId: string;
+    platform: Platform;
+    platformChatId: string;
+    settings: Record<string, unknown>;
+  }): Conversation | null;
+
+  /**
+   * Register (or re-register) a platform for a tenant, replacing its
+   * descriptor. Throws on a malformed descriptor.
+   */
+  registerPlatform(tenantId: string, descriptor: PlatformDescriptor): PlatformInfo;
+
+  /** The tenant's registered platforms plus the built-in ones, by name. */
+  listPlatforms(tenantId: string): PlatformInfo[];
+
+  /**
+   * Descriptor of a platform the tenant may use (registered or built in),
+   * or null if the tenant knows no such platform.
+   */
+  getPlatform(tenantId: string, name: string): PlatformDescriptor | null;
+
+  /**
+   * Count a plugin connection for a registered platform, until the returned
+   * function is called. Connections are kept in memory only.
+   */
+  connectPlatform(tenantId: string, platform: Platform): () => void;
+
+  /**
+   * Track a WebSocket client that introduced itself, until
+   * `disconnectPlugin` is called with the returned ID. Kept in memory only.
+   */
+  connectPlugin(plugin: Omit<ConnectedPlugin, "id" | "connectedAt">): ConnectedPlugin;
+
+  disconnectPlugin(id: string): void;
+
+  /** Connected clients, oldest connection first; all tenants' if none given. */
+  listPlugins(tenantId?: string): ConnectedPlugin[];
+
+  /** Counts and clients are scoped to `tenantId` when given, global otherwise. */
+  healthCheck(tenantId?: string): {
     ok: boolean;
     messageCount: number;
     conversationCount: number;
+    plugins: ConnectedPlugin[];
   };
 }
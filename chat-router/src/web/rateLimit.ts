@@ -0,0 +1,47 @@
+// ---------------------------------------------------------------------------
+// RateLimiter — fixed-window request counter per key
+// ---------------------------------------------------------------------------
+
+/**
+ * Allows up to `limit` hits per key in each window of `windowMs`. The web
+ * chat keys it by client IP and by session. Windows that have ended are
+ * dropped as new hits come in, so idle keys do not pile up.
+ */
+export class RateLimiter {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(
+    private limit: number,
+    private windowMs: number,
+  ) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`RateLimiter: limit must be a positive integer, got ${limit}`);
+    }
+  }
+
+  /**
+   * Count a hit for `key`. Returns 0 if it is allowed, otherwise the
+   * milliseconds until the key's window ends and it may try again.
+   */
+  take(key: string): number {
+    const now = Date.now();
+    this.prune(now);
+
+    const window = this.windows.get(key);
+    if (!window) {
+      this.windows.set(key, { count: 1, resetAt: now + this.windowMs });
+      return 0;
+    }
+    if (window.count >= this.limit) return window.resetAt - now;
+    window.count++;
+    return 0;
+  }
+
+  /** Windows are inserted in the order they end, so stop at the first live one. */
+  private prune(now: number): void {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt > now) return;
+      this.windows.delete(key);
+    }
+  }
+}
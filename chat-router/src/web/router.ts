@@ -0,0 +1,215 @@
+import * as crypto from "crypto";
+import path from "path";
+import { Router, Request, Response, NextFunction } from "express";
+import type { IChatRouterService, WebSession } from "../types";
+import type { AgentRegistry } from "../agents/registry";
+import { queueAgentTrigger } from "../api/router";
+import type { WebSessionManager } from "./sessions";
+import { RateLimiter } from "./rateLimit";
+
+/** Longest message a visitor may send. */
+export const MAX_WEB_MESSAGE_LENGTH = 4000;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * How often visitors may call the unauthenticated endpoints. Over a limit,
+ * requests get 429 with `Retry-After`.
+ */
+export interface WebChatLimits {
+  /** Sessions one IP may start per hour. Default 20. */
+  sessionsPerIpPerHour?: number;
+  /** Messages one session may send per minute. Default 20. */
+  messagesPerSessionPerMinute?: number;
+  /** Messages one IP may send per minute, across its sessions. Default 60. */
+  messagesPerIpPerMinute?: number;
+}
+
+/** The browser widget, resolved the same way from `src/` and `dist/`. */
+const WIDGET_PATH = path.join(__dirname, "..", "..", "public", "widget.js");
+
+/**
+ * Creates the Express Router behind the built-in web chat, mounted at
+ * `/web` outside the API-key protected `/api`.
+ *
+ * Visitors start a session with `POST /sessions` and send its token as
+ * `Authorization: Bearer wst_…`. A session can only post to and read its
+ * own conversation, `platform: "web"` with the session's chat ID; replies
+ * reach the widget over `/ws?session=<token>`.
+ *
+ * Starting sessions is limited per client IP (`req.ip`, so set Express's
+ * `trust proxy` behind a reverse proxy) and sending messages per IP and
+ * per session; see `WebChatLimits`.
+ */
+export function createWebChatRouter(
+  service: IChatRouterService,
+  sessions: WebSessionManager,
+  agents?: AgentRegistry,
+  limits: WebChatLimits = {},
+): Router {
+  const router = Router();
+  const sessionsPerIp = new RateLimiter(limits.sessionsPerIpPerHour ?? 20, HOUR_MS);
+  const messagesPerSession = new RateLimiter(
+    limits.messagesPerSessionPerMinute ?? 20,
+    MINUTE_MS,
+  );
+  const messagesPerIp = new RateLimiter(limits.messagesPerIpPerMinute ?? 60, MINUTE_MS);
+
+  // GET /widget.js — the embeddable chat widget
+  router.get("/widget.js", (_req: Request, res: Response) => {
+    res.type("application/javascript").sendFile(WIDGET_PATH);
+  });
+
+  // POST /sessions — start a visitor's conversation. The tenant may be
+  // omitted when web chat is enabled for a single tenant.
+  router.post("/sessions", (req: Request, res: Response) => {
+    const enabled = sessions.listTenants();
+    const tenantId = req.body?.tenant ?? (enabled.length === 1 ? enabled[0] : undefined);
+    if (typeof tenantId !== "string" || !sessions.isEnabled(tenantId)) {
+      res.status(403).json({ error: "Web chat is not enabled for this tenant" });
+      return;
+    }
+    if (!allow(res, sessionsPerIp, clientIp(req))) return;
+    if (!sessions.hasRoom(tenantId)) {
+      res.status(503).json({ error: "Too many web chat sessions, try again later" });
+      return;
+    }
+
+    try {
+      const { token, session } = sessions.create({ tenantId, name: req.body?.name });
+      res.status(201).json({
+        token,
+        tenantId: session.tenantId,
+        chatId: session.chatId,
+        name: session.name,
+      });
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  // Everything below acts for the session named by the bearer token
+  router.use(requireSession(sessions));
+
+  // GET /messages — the visitor's conversation, newest first
+  router.get("/messages", (req: Request, res: Response) => {
+    const session = sessionOf(res);
+    const after = req.query.after ? Number(req.query.after) : undefined;
+    const limit = req.query.limit ? Number(req.query.limit) : undefined;
+
+    const entries = service.getTimeline({
+      tenantId: session.tenantId,
+      platform: "web",
+      platformChatId: session.chatId,
+      after,
+      limit,
+    });
+    res.status(200).json(entries);
+  });
+
+  // POST /messages — the visitor sends a message. A retry with the same
+  // `clientMessageId` returns the original entry with 200.
+  router.post("/messages", (req: Request, res: Response) => {
+    const session = sessionOf(res);
+    const { text, clientMessageId } = req.body ?? {};
+    if (typeof text !== "string" || !text.trim()) {
+      res.status(400).json({ error: "text is required" });
+      return;
+    }
+    if (text.length > MAX_WEB_MESSAGE_LENGTH) {
+      res.status(400).json({
+        error: `text must be at most ${MAX_WEB_MESSAGE_LENGTH} characters`,
+      });
+      return;
+    }
+    if (
+      clientMessageId !== undefined &&
+      (typeof clientMessageId !== "string" || !clientMessageId)
+    ) {
+      res.status(400).json({ error: "clientMessageId must be a non-empty string" });
+      return;
+    }
+    if (!allow(res, messagesPerIp, clientIp(req))) return;
+    if (!allow(res, messagesPerSession, String(session.id))) return;
+
+    try {
+      const entry = service.ingestMessage({
+        tenantId: session.tenantId,
+        platform: "web",
+        platformMessageId: clientMessageId ?? crypto.randomUUID(),
+        platformChatId: session.chatId,
+        platformChatType: "private",
+        senderName: session.name,
+        senderId: session.chatId,
+        text,
+        timestamp: Date.now(),
+      });
+
+      if (entry.duplicate) {
+        res.status(200).json(entry);
+        return;
+      }
+
+      queueAgentTrigger(service, agents, entry);
+      res.status(201).json(entry);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  return router;
+}
+
+// ---------------------------------------------------------------------------
+// Session authentication
+// ---------------------------------------------------------------------------
+
+/**
+ * Express middleware that requires a valid web session token and stores
+ * the session on `res.locals.webSession`.
+ */
+function requireSession(sessions: WebSessionManager) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const auth = req.get("authorization");
+    const token = auth?.startsWith("Bearer ") ? auth.slice("Bearer ".length).trim() : "";
+    if (!token) {
+      res.status(401).json({ error: "Web session required" });
+      return;
+    }
+
+    const session = sessions.verify(token);
+    if (!session) {
+      res.status(401).json({ error: "Invalid web session" });
+      return;
+    }
+
+    res.locals.webSession = session;
+    next();
+  };
+}
+
+function sessionOf(res: Response): WebSession {
+  return res.locals.webSession as WebSession;
+}
+
+// ---------------------------------------------------------------------------
+// Rate limiting
+// ---------------------------------------------------------------------------
+
+function clientIp(req: Request): string {
+  return req.ip ?? req.socket.remoteAddress ?? "unknown";
+}
+
+/**
+ * Count a hit for `key` against `limiter`. Answers 429 with `Retry-After`
+ * (in seconds) and returns false when over the limit.
+ */
+function allow(res: Response, limiter: RateLimiter, key: string): boolean {
+  const retryAfterMs = limiter.take(key);
+  if (retryAfterMs === 0) return true;
+
+  res.set("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
+  res.status(429).json({ error: "Too many requests, slow down" });
+  return false;
+}
@@ -0,0 +1,126 @@
+import * as crypto from "crypto";
+import type { WebSession } from "../types";
+import { TENANT_ID_PATTERN } from "../types";
+import type { ChatRouterStore } from "../db/store";
+import { hashApiKey } from "../auth/keys";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Every session token starts with this marker, like `crk_` for API keys. */
+const TOKEN_MARKER = "wst_";
+
+/** Name shown for visitors who did not give one. */
+export const DEFAULT_VISITOR_NAME = "Visitor";
+
+const MAX_NAME_LENGTH = 64;
+
+/** Sessions unused for this long expire. */
+export const DEFAULT_SESSION_IDLE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Live sessions a tenant may have at once. */
+export const DEFAULT_MAX_SESSIONS = 10_000;
+
+export interface WebSessionOptions {
+  /** Idle time after which a session's token stops working, in ms. */
+  idleMs?: number;
+  /** Live sessions per tenant; new ones are refused beyond it. */
+  maxSessions?: number;
+}
+
+// ---------------------------------------------------------------------------
+// WebSessionManager — creates and verifies web chat sessions
+// ---------------------------------------------------------------------------
+
+/**
+ * Sessions of the built-in web chat, for the tenants it is enabled for.
+ * A session is one visitor's conversation; its random token is returned
+ * once, from `create()`, and only its SHA-256 hash is persisted.
+ *
+ * Sessions expire after `idleMs` without use. Expired sessions are swept
+ * whenever a new one is started, and a tenant with `maxSessions` live
+ * sessions cannot start more until some expire.
+ */
+export class WebSessionManager {
+  private tenants: Set<string>;
+  private idleMs: number;
+  private maxSessions: number;
+
+  constructor(
+    private store: ChatRouterStore,
+    tenants: string[],
+    options: WebSessionOptions = {},
+  ) {
+    for (const tenantId of tenants) {
+      if (!TENANT_ID_PATTERN.test(tenantId)) {
+        throw new Error(`WebSessionManager: invalid tenant ID "${tenantId}"`);
+      }
+    }
+    this.tenants = new Set(tenants);
+    this.idleMs = options.idleMs ?? DEFAULT_SESSION_IDLE_MS;
+    this.maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+  }
+
+  /** Tenants whose visitors may start a web chat. */
+  listTenants(): string[] {
+    return [...this.tenants];
+  }
+
+  isEnabled(tenantId: string): boolean {
+    return this.tenants.has(tenantId);
+  }
+
+  /**
+   * Sweep expired sessions and report whether the tenant may start another.
+   */
+  hasRoom(tenantId: string): boolean {
+    this.sweep();
+    return this.store.countWebSessions(tenantId) < this.maxSessions;
+  }
+
+  /** Delete sessions idle for longer than `idleMs`. Returns how many. */
+  sweep(): number {
+    return this.store.deleteIdleWebSessions(new Date(Date.now() - this.idleMs).toISOString());
+  }
+
+  create(params: { tenantId: string; name?: string }): { token: string; session: WebSession } {
+    if (!this.isEnabled(params.tenantId)) {
+      throw new Error("createWebSession: web chat is not enabled for this tenant");
+    }
+    if (!this.hasRoom(params.tenantId)) {
+      throw new Error("createWebSession: too many live sessions");
+    }
+    const name = params.name === undefined ? DEFAULT_VISITOR_NAME : params.name;
+    if (typeof name !== "string" || !name.trim() || name.length > MAX_NAME_LENGTH) {
+      throw new Error(`createWebSession: name must be 1-${MAX_NAME_LENGTH} characters`);
+    }
+
+    const token = TOKEN_MARKER + crypto.randomBytes(32).toString("base64url");
+    const session = this.store.insertWebSession({
+      tenantId: params.tenantId,
+      chatId: `web-${crypto.randomUUID()}`,
+      name: name.trim(),
+      tokenHash: hashApiKey(token),
+    });
+
+    return { token, session };
+  }
+
+  /**
+   * Resolve a token to its session, or `null` if it is unknown, expired or
+   * web chat has since been disabled for the session's tenant. Updates
+   * `lastUsedAt` on success.
+   */
+  verify(token: string): WebSession | null {
+    if (!token.startsWith(TOKEN_MARKER)) return null;
+
+    const session = this.store.getWebSessionByHash(hashApiKey(token));
+    if (!session || !this.isEnabled(session.tenantId)) return null;
+    const lastActive = Date.parse(session.lastUsedAt ?? session.createdAt);
+    if (Date.now() - lastActive > this.idleMs) return null;
+
+    this.store.touchWebSession(session.id);
+    return session;
+  }
+}
@@ -2,11 +2,73 @@
 // WebSocket adapter — attaches to the HTTP server and bridges the service
 // ---------------------------------------------------------------------------
 
-import type { Server as HttpServer } from "http";
+import type { Server as HttpServer, IncomingMessage } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import type { ChatRouterService } from "../service";
-import type { Platform, TimelineEntry } from "../types";
-import type { WsRequest, WsResponse, WsPush, WsError } from "./protocol";
+import { DEFAULT_TENANT_ID, PLATFORM_NAME_PATTERN, TENANT_ID_PATTERN } from "../types";
+import type {
+  ApiKey,
+  ApiKeyScope,
+  ConnectedPlugin,
+  Platform,
+  ProcessingState,
+  Revision,
+  TimelineEntry,
+  WebSession,
+} from "../types";
+import type { WebSessionManager } from "../web/sessions";
+import { API_KEY_SCOPES, ApiKeyManager, apiKeyFromHeaders, hasScope } from "../auth/keys";
+import {
+  CLIENT_ROLES,
+  WS_CAPABILITIES,
+  WS_CLOSE_UNSUPPORTED_PROTOCOL,
+  WS_PROTOCOL_VERSION,
+} from "./protocol";
+import type {
+  SubscriptionFilter,
+  WsCapability,
+  WsRequest,
+  WsResponse,
+  WsPush,
+  WsError,
+} from "./protocol";
+
+/** Page size used when replaying the outbound backlog on `subscribe`. */
+const REPLAY_PAGE_SIZE = 500;
+
+// ---------------------------------------------------------------------------
+// Options and per-connection state
+// ---------------------------------------------------------------------------
+
+export interface WsOptions {
+  /**
+   * When set, the upgrade is rejected with 401 unless it carries a valid API
+   * key (`Authorization: Bearer`, `X-Api-Key`, or `?api_key=` for browsers).
+   * The key's tenant replaces the `tenant` query parameter.
+   */
+  apiKeys?: ApiKeyManager;
+  /**
+   * When set, the web chat widget may connect with `?session=<token>`, with
+   * or without API keys. Such a socket follows only its own conversation.
+   */
+  webSessions?: WebSessionManager;
+}
+
+interface ConnectionState {
+  /** Tenant every request and push on this socket is scoped to. */
+  tenantId: string;
+  scopes: readonly ApiKeyScope[];
+  /** The platform the socket's key may register; null for none. */
+  keyPlatform: string | null;
+  /** Pushes go only to subscribed sockets whose filter matches. */
+  subscription: SubscriptionFilter | null;
+  /** Chat ID of the web session the socket belongs to, if it is one. */
+  webChatId?: string;
+  /** Platforms registered on this socket, each counted until it closes. */
+  platforms: Map<string, () => void>;
+  /** What the client said it is in its `hello`; null until then. */
+  client: ConnectedPlugin | null;
+}
 
 // ---------------------------------------------------------------------------
 // attachWebSocket
@@ -15,15 +77,96 @@ import type { WsRequest, WsResponse, WsPush, WsError } from "./protocol";
 export function attachWebSocket(
   server: HttpServer,
   service: ChatRouterService,
+  options: WsOptions = {},
 ): void {
-  const wss = new WebSocketServer({ server, path: "/ws" });
+  const { apiKeys, webSessions } = options;
+  const authenticated = new WeakMap<IncomingMessage, ApiKey>();
+  const visitors = new WeakMap<IncomingMessage, WebSession>();
+
+  const wss = new WebSocketServer({
+    server,
+    path: "/ws",
+    // Authenticate during the HTTP upgrade so unauthorised clients never
+    // get a socket at all.
+    verifyClient:
+      apiKeys || webSessions
+        ? (info, done) => {
+            const token = webSessions ? sessionFromUpgrade(info.req) : null;
+            if (token !== null) {
+              const session = webSessions!.verify(token);
+              if (!session) {
+                done(false, 401, "Unauthorized");
+                return;
+              }
+              visitors.set(info.req, session);
+              done(true);
+              return;
+            }
+            if (!apiKeys) {
+              done(true);
+              return;
+            }
+            const key = apiKeyFromUpgrade(info.req);
+            const apiKey = key ? apiKeys.verify(key) : null;
+            if (!apiKey) {
+              done(false, 401, "Unauthorized");
+              return;
+            }
+            authenticated.set(info.req, apiKey);
+            done(true);
+          }
+        : undefined,
+  });
+  const connections = new Map<WebSocket, ConnectionState>();
 
   // -----------------------------------------------------------------------
   // Connection handling
   // -----------------------------------------------------------------------
 
-  wss.on("connection", (ws: WebSocket) => {
-    console.log("[ws] client connected");
+  wss.on("connection", (ws: WebSocket, httpReq: IncomingMessage) => {
+    let state: ConnectionState;
+    const apiKey = authenticated.get(httpReq);
+    const visitor = visitors.get(httpReq);
+
+    if (visitor) {
+      // A web chat visitor: no scopes, only its own conversation
+      state = {
+        tenantId: visitor.tenantId,
+        scopes: [],
+        keyPlatform: null,
+        subscription: null,
+        webChatId: visitor.chatId,
+        platforms: new Map(),
+        client: null,
+      };
+    } else if (apiKey) {
+      state = {
+        tenantId: apiKey.tenantId,
+        scopes: apiKey.scopes,
+        keyPlatform: apiKey.platform,
+        subscription: null,
+        platforms: new Map(),
+        client: null,
+      };
+    } else {
+      const tenantId = tenantFromUpgrade(httpReq);
+      if (!tenantId) {
+        sendError(ws, "invalid tenant ID");
+        ws.close(1008, "invalid tenant ID");
+        return;
+      }
+      state = {
+        tenantId,
+        scopes: API_KEY_SCOPES,
+        keyPlatform: null,
+        subscription: null,
+        platforms: new Map(),
+        client: null,
+      };
+    }
+
+    connections.set(ws, state);
+    console.log(`[ws] client connected (tenant=${state.tenantId})`);
 
     ws.on("message", (raw: Buffer | string) => {
       let req: WsRequest;
@@ -34,15 +177,27 @@ export function attachWebSocket(
         return;
       }
 
+      if (req?.requestId !== undefined && typeof req.requestId !== "string") {
+        sendError(ws, "requestId must be a string");
+        return;
+      }
+
       try {
-        handleRequest(ws, req, service);
+        if (state.webChatId !== undefined) {
+          handleVisitorRequest(ws, state, state.webChatId, req, service);
+        } else {
+          handleRequest(ws, state, req, service);
+        }
       } catch (err: unknown) {
         const msg = err instanceof Error ? err.message : String(err);
-        sendError(ws, msg);
+        sendError(ws, msg, req);
       }
     });
 
     ws.on("close", () => {
+      connections.delete(ws);
+      for (const disconnect of state.platforms.values()) disconnect();
+      if (state.client) service.disconnectPlugin(state.client.id);
       console.log("[ws] client disconnected");
     });
 
@@ -52,18 +207,36 @@ export function attachWebSocket(
   });
 
   // -----------------------------------------------------------------------
-  // Broadcast new messages to all connected clients
+  // Push new, edited and deleted messages and agent activity to matching
+  // subscriptions of the tenant
   // -----------------------------------------------------------------------
 
-  service.on("message:new", (entry: TimelineEntry) => {
-    const push: WsPush = { type: "new_message", entry };
+  const broadcast = (target: PushTarget, push: WsPush, capability?: WsCapability): void => {
     const payload = JSON.stringify(push);
 
-    for (const client of wss.clients) {
+    for (const [client, conn] of connections) {
+      if (conn.tenantId !== target.tenantId) continue;
+      if (conn.webChatId === undefined && !hasScope(conn.scopes, "read")) continue;
+      if (!conn.subscription || !matchesSubscription(target, conn.subscription)) continue;
+      if (capability && conn.client && !conn.client.capabilities.includes(capability)) continue;
       if (client.readyState === WebSocket.OPEN) {
         client.send(payload);
       }
     }
+  };
+
+  service.on("message:new", (entry: TimelineEntry) => {
+    broadcast(entry, { type: "new_message", entry });
+  });
+  service.on("message:edited", (entry: TimelineEntry, revision: Revision) => {
+    broadcast(entry, { type: "message_edited", entry, revision }, "edits");
+  });
+  service.on("message:deleted", (entry: TimelineEntry, revision: Revision) => {
+    broadcast(entry, { type: "message_deleted", entry, revision }, "edits");
+  });
+  service.on("chat:action", (state: ProcessingState) => {
+    // Activity announces a reply, so it goes where replies go
+    broadcast({ ...state, direction: "out" }, { type: "chat_action", state }, "chat_action");
   });
 
   console.log("[ws] WebSocket adapter attached on /ws");
@@ -75,58 +248,456 @@ export function attachWebSocket(
 
 function handleRequest(
   ws: WebSocket,
+  conn: ConnectionState,
   req: WsRequest,
   service: ChatRouterService,
 ): void {
+  if (req.type === "hello") {
+    handleHello(ws, conn, req, service);
+    return;
+  }
+
+  // Delivery reports and registrations come from platform plugins;
+  // everything else is a query
+  const scope: ApiKeyScope =
+    req.type === "ack" || req.type === "nack" || req.type === "register_platform"
+      ? "ingest"
+      : "read";
+  if (!hasScope(conn.scopes, scope)) {
+    sendError(ws, `missing scope: ${scope}`, req);
+    return;
+  }
+
   switch (req.type) {
     case "health": {
-      sendResponse(ws, "health", service.healthCheck());
+      sendResponse(ws, req, service.healthCheck(conn.tenantId));
       break;
     }
     case "conversations": {
       const data = service.listConversations({
-        platform: req.platform as Platform | undefined,
+        tenantId: conn.tenantId,
+        platform: optionalPlatform(service, conn.tenantId, req.platform, "conversations"),
         limit: req.limit,
       });
-      sendResponse(ws, "conversations", data);
+      sendResponse(ws, req, data);
       break;
     }
     case "timeline": {
       const data = service.getTimeline({
-        platform: req.platform as Platform,
+        tenantId: conn.tenantId,
+        platform: knownPlatform(service, conn.tenantId, req.platform, "timeline"),
         platformChatId: req.platformChatId,
         after: req.after,
         before: req.before,
         limit: req.limit,
       });
-      sendResponse(ws, "timeline", data);
+      sendResponse(ws, req, data);
       break;
     }
     case "unified_timeline": {
       const data = service.getUnifiedTimeline({
+        tenantId: conn.tenantId,
         after: req.after,
         before: req.before,
         limit: req.limit,
       });
-      sendResponse(ws, "unified_timeline", data);
+      sendResponse(ws, req, data);
+      break;
+    }
+    case "search": {
+      const data = service.search({
+        tenantId: conn.tenantId,
+        query: req.query,
+        platform: optionalPlatform(service, conn.tenantId, req.platform, "search"),
+        platformChatId: req.platformChatId,
+        from: req.from,
+        to: req.to,
+        limit: req.limit,
+      });
+      sendResponse(ws, req, data);
+      break;
+    }
+    case "subscribe": {
+      if (req.sinceId !== undefined && typeof req.sinceId !== "number") {
+        sendError(ws, "subscribe: sinceId must be a number", req);
+        break;
+      }
+      const filter = parseSubscriptionFilter(req, conn.tenantId, service);
+      const replayed = replayBacklog(ws, conn, service, filter, req.sinceId);
+      conn.subscription = filter;
+      sendResponse(ws, req, { filter, replayed });
+      break;
+    }
+    case "unsubscribe": {
+      conn.subscription = null;
+      sendResponse(ws, req, { subscribed: false });
+      break;
+    }
+    case "register_platform": {
+      // A plugin may only describe the platform its key was issued for,
+      // whatever it claims in hello; admin keys may register any
+      if (!hasScope(conn.scopes, "admin") && req.name !== conn.keyPlatform) {
+        sendError(ws, `register_platform: this key may not register "${req.name}"`, req);
+        break;
+      }
+      // Unknown fields, like `type`, are dropped from the descriptor
+      const { name } = service.registerPlatform(conn.tenantId, req);
+      // The socket serves the platform until it closes
+      if (!conn.platforms.has(name)) {
+        conn.platforms.set(name, service.connectPlatform(conn.tenantId, name));
+      }
+      const info = service.listPlatforms(conn.tenantId).find((p) => p.name === name);
+      sendResponse(ws, req, info);
+      break;
+    }
+    case "ack": {
+      if (typeof req.id !== "number") {
+        sendError(ws, "ack: id must be a number", req);
+        break;
+      }
+      const delivery = service.acknowledgeDelivery(
+        conn.tenantId,
+        req.id,
+        req.platformMessageIds,
+      );
+      if (!delivery) {
+        sendError(ws, `ack: no delivery for entry ${req.id}`, req);
+        break;
+      }
+      sendResponse(ws, req, delivery);
+      break;
+    }
+    case "nack": {
+      if (typeof req.id !== "number") {
+        sendError(ws, "nack: id must be a number", req);
+        break;
+      }
+      const delivery = service.failDelivery({
+        tenantId: conn.tenantId,
+        timelineId: req.id,
+        error: typeof req.error === "string" ? req.error : "",
+        retry: req.retry,
+      });
+      if (!delivery) {
+        sendError(ws, `nack: no delivery for entry ${req.id}`, req);
+        break;
+      }
+      if (delivery.status === "failed") {
+        console.warn(
+          `[ws] delivery of entry ${req.id} failed permanently: ${delivery.lastError}`,
+        );
+      }
+      sendResponse(ws, req, delivery);
       break;
     }
     default: {
-      sendError(ws, `unknown request type: ${(req as { type: string }).type}`);
+      sendError(ws, `unknown request type: ${(req as { type: string }).type}`, req);
     }
   }
 }
 
+/**
+ * Track the client under what it says it is. Any key may say hello. A
+ * protocol version the router does not speak ends the connection; unknown
+ * capabilities are simply not granted.
+ */
+function handleHello(
+  ws: WebSocket,
+  conn: ConnectionState,
+  req: Extract<WsRequest, { type: "hello" }>,
+  service: ChatRouterService,
+): void {
+  if (conn.client) {
+    sendError(ws, "hello: already introduced on this connection", req);
+    return;
+  }
+  if (!Number.isInteger(req.protocolVersion)) {
+    sendError(ws, "hello: protocolVersion must be an integer", req);
+    return;
+  }
+  if (req.protocolVersion !== WS_PROTOCOL_VERSION) {
+    const message =
+      `hello: unsupported protocol version ${req.protocolVersion} ` +
+      `(this router speaks ${WS_PROTOCOL_VERSION})`;
+    sendError(ws, message, req);
+    ws.close(WS_CLOSE_UNSUPPORTED_PROTOCOL, "unsupported protocol version");
+    return;
+  }
+  if (!CLIENT_ROLES.includes(req.role)) {
+    sendError(ws, `hello: role must be one of ${CLIENT_ROLES.join(", ")}`, req);
+    return;
+  }
+  if (typeof req.name !== "string" || !req.name.trim()) {
+    sendError(ws, "hello: name must be a non-empty string", req);
+    return;
+  }
+  if (req.version !== undefined && typeof req.version !== "string") {
+    sendError(ws, "hello: version must be a string", req);
+    return;
+  }
+  if (
+    req.platform !== undefined &&
+    (typeof req.platform !== "string" || !PLATFORM_NAME_PATTERN.test(req.platform))
+  ) {
+    sendError(ws, "hello: platform must be a valid platform name", req);
+    return;
+  }
+  if (
+    req.capabilities !== undefined &&
+    (!Array.isArray(req.capabilities) || !req.capabilities.every((c) => typeof c === "string"))
+  ) {
+    sendError(ws, "hello: capabilities must be an array of strings", req);
+    return;
+  }
+
+  conn.client = service.connectPlugin({
+    tenantId: conn.tenantId,
+    role: req.role,
+    name: req.name.trim(),
+    version: req.version ?? null,
+    platform: req.platform ?? null,
+    protocolVersion: req.protocolVersion,
+    capabilities: WS_CAPABILITIES.filter((c) => req.capabilities?.includes(c)),
+  });
+  console.log(
+    `[ws] ${conn.client.role} ${conn.client.name} said hello (tenant=${conn.tenantId})`,
+  );
+  sendResponse(ws, req, conn.client);
+}
+
+/**
+ * Requests from a web chat visitor's socket. It may follow replies in its
+ * own conversation, whatever filter it asks for, and ack their delivery to
+ * the browser; everything else needs an API key.
+ */
+function handleVisitorRequest(
+  ws: WebSocket,
+  conn: ConnectionState,
+  chatId: string,
+  req: WsRequest,
+  service: ChatRouterService,
+): void {
+  switch (req.type) {
+    case "subscribe": {
+      if (req.sinceId !== undefined && typeof req.sinceId !== "number") {
+        sendError(ws, "subscribe: sinceId must be a number", req);
+        break;
+      }
+      const filter: SubscriptionFilter = { platform: "web", chatIds: [chatId], direction: "out" };
+      const replayed = replayBacklog(ws, conn, service, filter, req.sinceId);
+      conn.subscription = filter;
+      sendResponse(ws, req, { filter, replayed });
+      break;
+    }
+    case "unsubscribe": {
+      conn.subscription = null;
+      sendResponse(ws, req, { subscribed: false });
+      break;
+    }
+    case "ack": {
+      if (typeof req.id !== "number") {
+        sendError(ws, "ack: id must be a number", req);
+        break;
+      }
+      // The entry must belong to the visitor's conversation
+      const [entry] = service.getTimeline({
+        tenantId: conn.tenantId,
+        platform: "web",
+        platformChatId: chatId,
+        after: req.id - 1,
+        before: req.id + 1,
+        limit: 1,
+      });
+      const delivery = entry ? service.acknowledgeDelivery(conn.tenantId, entry.id) : null;
+      if (!delivery) {
+        sendError(ws, `ack: no delivery for entry ${req.id}`, req);
+        break;
+      }
+      sendResponse(ws, req, delivery);
+      break;
+    }
+    default: {
+      const type = (req as { type: string }).type;
+      sendError(ws, `not allowed for a web chat session: ${type}`, req);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+/**
+ * Push the tenant's outbound entries matching the filter after `sinceId`
+ * plus any older ones still pending delivery, oldest first, and return how
+ * many were sent. Nothing is replayed for an inbound-only filter.
+ * Plugins that were offline when a reply was recorded receive it here;
+ * entries they got but never acked arrive a second time, so delivery is at
+ * least once. The store is synchronous, so no live push can interleave with
+ * the replay.
+ */
+function replayBacklog(
+  ws: WebSocket,
+  conn: ConnectionState,
+  service: ChatRouterService,
+  filter: SubscriptionFilter,
+  sinceId: number | undefined,
+): number {
+  if (filter.direction === "in") return 0;
+
+  let after = 0;
+  let replayed = 0;
+
+  for (;;) {
+    const page = service.getOutboundBacklog({
+      tenantId: conn.tenantId,
+      sinceId,
+      platform: filter.platform,
+      chatIds: filter.chatIds,
+      after,
+      limit: REPLAY_PAGE_SIZE,
+    });
+    for (const entry of page) {
+      const push: WsPush = { type: "new_message", entry, redelivered: true };
+      ws.send(JSON.stringify(push));
+    }
+    replayed += page.length;
+    if (page.length < REPLAY_PAGE_SIZE) break;
+    after = page[page.length - 1].id;
+  }
+
+  if (replayed > 0) {
+    console.log(`[ws] replayed ${replayed} outbound entries (tenant=${conn.tenantId})`);
+  }
+  return replayed;
+}
+
+// ---------------------------------------------------------------------------
+// Subscriptions
+// ---------------------------------------------------------------------------
+
+/**
+ * Pick the filter fields out of a `subscribe` request, validating each.
+ * Throws on a malformed field, a platform the tenant does not know or a
+ * tenant other than the connection's.
+ */
+function parseSubscriptionFilter(
+  req: SubscriptionFilter,
+  connTenantId: string,
+  service: ChatRouterService,
+): SubscriptionFilter {
+  const filter: SubscriptionFilter = {};
+
+  if (req.platform !== undefined) {
+    filter.platform = knownPlatform(service, connTenantId, req.platform, "subscribe");
+  }
+  if (req.chatIds !== undefined) {
+    if (!Array.isArray(req.chatIds) || !req.chatIds.every((id) => typeof id === "string")) {
+      throw new Error("subscribe: chatIds must be an array of strings");
+    }
+    filter.chatIds = [...req.chatIds];
+  }
+  if (req.direction !== undefined) {
+    if (req.direction !== "in" && req.direction !== "out") {
+      throw new Error('subscribe: direction must be "in" or "out"');
+    }
+    filter.direction = req.direction;
+  }
+  if (req.tenantId !== undefined) {
+    if (req.tenantId !== connTenantId) {
+      throw new Error("subscribe: cannot subscribe to another tenant");
+    }
+    filter.tenantId = req.tenantId;
+  }
+
+  return filter;
+}
+
+/** What a push is about, as far as subscription filters are concerned. */
+type PushTarget = Pick<TimelineEntry, "tenantId" | "platform" | "platformChatId" | "direction">;
+
+function matchesSubscription(entry: PushTarget, filter: SubscriptionFilter): boolean {
+  if (filter.tenantId !== undefined && entry.tenantId !== filter.tenantId) return false;
+  if (filter.platform !== undefined && entry.platform !== filter.platform) return false;
+  if (filter.direction !== undefined && entry.direction !== filter.direction) return false;
+  if (filter.chatIds !== undefined && !filter.chatIds.includes(entry.platformChatId)) {
+    return false;
+  }
+  return true;
+}
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-function sendResponse(ws: WebSocket, requestType: string, data: unknown): void {
-  const msg: WsResponse = { type: "response", requestType, data };
+/**
+ * A request's platform, checked against the tenant's platforms (registered
+ * or built in) like an ingested message's. Throws
+ * `<request>: unknown platform "<name>"` otherwise.
+ */
+function knownPlatform(
+  service: ChatRouterService,
+  tenantId: string,
+  platform: unknown,
+  requestType: string,
+): Platform {
+  if (typeof platform !== "string" || !service.getPlatform(tenantId, platform)) {
+    throw new Error(`${requestType}: unknown platform "${String(platform)}"`);
+  }
+  return platform;
+}
+
+/** Like `knownPlatform()`, for an optional platform filter. */
+function optionalPlatform(
+  service: ChatRouterService,
+  tenantId: string,
+  platform: unknown,
+  requestType: string,
+): Platform | undefined {
+  return platform === undefined
+    ? undefined
+    : knownPlatform(service, tenantId, platform, requestType);
+}
+
+/**
+ * Resolve the tenant for a new connection from the `tenant` query parameter
+ * or the `X-Tenant-Id` header (query wins, since browsers cannot set
+ * headers on a WebSocket upgrade). Returns `null` for a malformed ID.
+ */
+function tenantFromUpgrade(httpReq: IncomingMessage): string | null {
+  const url = new URL(httpReq.url ?? "/", "http://localhost");
+  const header = httpReq.headers["x-tenant-id"];
+  const raw =
+    url.searchParams.get("tenant") ??
+    (typeof header === "string" ? header : undefined);
+  const tenantId = raw ? raw.trim() : DEFAULT_TENANT_ID;
+  return TENANT_ID_PATTERN.test(tenantId) ? tenantId : null;
+}
+
+/** API key from the upgrade headers, or the `api_key` query parameter. */
+function apiKeyFromUpgrade(httpReq: IncomingMessage): string | null {
+  const fromHeaders = apiKeyFromHeaders(httpReq.headers);
+  if (fromHeaders) return fromHeaders;
+  const url = new URL(httpReq.url ?? "/", "http://localhost");
+  return url.searchParams.get("api_key");
+}
+
+/** Web chat session token from the `session` query parameter, if any. */
+function sessionFromUpgrade(httpReq: IncomingMessage): string | null {
+  const url = new URL(httpReq.url ?? "/", "http://localhost");
+  return url.searchParams.get("session");
+}
+
+/** Answer `req`, echoing its `requestId` if it has one. */
+function sendResponse(ws: WebSocket, req: WsRequest, data: unknown): void {
+  const msg: WsResponse = { type: "response", requestType: req.type, data };
+  if (req.requestId !== undefined) msg.requestId = req.requestId;
   ws.send(JSON.stringify(msg));
 }
 
-function sendError(ws: WebSocket, message: string): void {
+/** Report an error, attributed to `req` by its `requestId` if it has one. */
+function sendError(ws: WebSocket, message: string, req?: WsRequest): void {
   const msg: WsError = { type: "error", message };
+  if (req?.requestId !== undefined) msg.requestId = req.requestId;
   ws.send(JSON.stringify(msg));
 }
@@ -0,0 +1,155 @@
+// ---------------------------------------------------------------------------
+// ChatRouterSocket — promise-based client for the router's /ws protocol
+// ---------------------------------------------------------------------------
+
+import { EventEmitter } from "events";
+import { WebSocket, type RawData } from "ws";
+import type { WsError, WsPush, WsRequest, WsResponse, WsResponseData } from "./protocol";
+
+/** How long a request waits for its answer by default. */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+
+export interface ChatRouterSocketOptions {
+  /** Sent as a bearer token when the router requires authentication. */
+  apiKey?: string;
+  /** Tenant to act for without an API key (`?tenant=`). */
+  tenantId?: string;
+  /** Reject a request the router has not answered after this long. Default 30 s. */
+  requestTimeoutMs?: number;
+}
+
+interface PendingRequest {
+  resolve: (data: unknown) => void;
+  reject: (err: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Wraps a WebSocket to the router. `request()` tags each request with a
+ * `requestId` and resolves with the `data` of the response carrying it,
+ * or rejects with the router's error message, so requests may overlap.
+ * A request the router leaves unanswered is rejected after
+ * `requestTimeoutMs`, and every pending request when the socket fails
+ * (with its error) or closes; an answer arriving after its timeout is
+ * reported as `"stray"`. Socket errors are not re-emitted: `"close"`
+ * follows them.
+ *
+ * Used by the CLI and by the platform plugins, which wrap a socket they
+ * opened themselves.
+ *
+ * Events:
+ * - `"push"` (push: WsPush) — anything the router sends unasked
+ * - `"stray"` (msg: WsResponse | WsError) — a response or error that
+ *   answers no pending request, e.g. the refusal of a bad `requestId`
+ * - `"malformed"` (raw: string) — a message that is not JSON
+ * - `"close"` (code: number) — after every pending request was rejected
+ */
+export class ChatRouterSocket extends EventEmitter {
+  private nextRequestId = 1;
+  private pending = new Map<string, PendingRequest>();
+  private requestTimeoutMs: number;
+
+  constructor(
+    private ws: WebSocket,
+    options: Pick<ChatRouterSocketOptions, "requestTimeoutMs"> = {},
+  ) {
+    super();
+    this.requestTimeoutMs = options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    ws.on("message", (raw: RawData) => this.handleMessage(raw.toString()));
+    // Unhandled, an error on an open socket would crash the process; the
+    // socket closes right after it
+    ws.on("error", (err: Error) => this.rejectAll(err));
+    ws.on("close", (code: number) => {
+      this.rejectAll(new Error("connection closed"));
+      this.emit("close", code);
+    });
+  }
+
+  /**
+   * Open a socket to the router at `baseUrl` (its HTTP URL) and resolve
+   * once connected. Rejects if the upgrade fails, e.g. with 401.
+   */
+  static connect(
+    baseUrl: string,
+    options: ChatRouterSocketOptions = {},
+  ): Promise<ChatRouterSocket> {
+    const url = new URL(baseUrl.replace(/\/+$/, "").replace(/^http/, "ws") + "/ws");
+    if (options.tenantId) url.searchParams.set("tenant", options.tenantId);
+    const headers: Record<string, string> = {};
+    if (options.apiKey) headers.Authorization = `Bearer ${options.apiKey}`;
+
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(url, { headers });
+      ws.once("open", () => {
+        ws.off("error", reject);
+        resolve(new ChatRouterSocket(ws, options));
+      });
+      ws.once("unexpected-response", (_req, res) => {
+        ws.off("error", reject);
+        reject(new Error(`WebSocket upgrade refused with HTTP ${res.statusCode}`));
+      });
+      ws.once("error", reject);
+    });
+  }
+
+  /**
+   * Send a request and resolve with its response's data. Rejects if the
+   * router answers with an error, if the socket is not open or closes
+   * first, or if no answer comes within `requestTimeoutMs`.
+   */
+  request<R extends WsRequest>(req: R): Promise<WsResponseData[R["type"]]> {
+    if (this.ws.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error(`${req.type}: not connected`));
+    }
+
+    const requestId = String(this.nextRequestId++);
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(new Error(`${req.type}: no response within ${this.requestTimeoutMs} ms`));
+      }, this.requestTimeoutMs);
+      this.pending.set(requestId, { resolve: resolve as (data: unknown) => void, reject, timer });
+      this.ws.send(JSON.stringify({ ...req, requestId }));
+    });
+  }
+
+  close(): void {
+    this.ws.close();
+  }
+
+  private rejectAll(err: Error): void {
+    for (const { reject, timer } of this.pending.values()) {
+      clearTimeout(timer);
+      reject(err);
+    }
+    this.pending.clear();
+  }
+
+  private handleMessage(raw: string): void {
+    let msg: WsPush | WsResponse | WsError;
+    try {
+      msg = JSON.parse(raw);
+    } catch {
+      this.emit("malformed", raw);
+      return;
+    }
+
+    if (msg.type !== "response" && msg.type !== "error") {
+      this.emit("push", msg);
+      return;
+    }
+
+    const pending = msg.requestId !== undefined ? this.pending.get(msg.requestId) : undefined;
+    if (!pending) {
+      this.emit("stray", msg);
+      return;
+    }
+    clearTimeout(pending.timer);
+    this.pending.delete(msg.requestId!);
+    if (msg.type === "response") {
+      pending.resolve(msg.data);
+    } else {
+      pending.reject(new Error(msg.message));
+    }
+  }
+}
@@ -2,13 +2,78 @@
 // WebSocket JSON protocol types
 // ---------------------------------------------------------------------------
 
-import type { TimelineEntry } from "../types";
+import type {
+  ClientRole,
+  ConnectedPlugin,
+  Conversation,
+  Delivery,
+  IChatRouterService,
+  PlatformDescriptor,
+  PlatformInfo,
+  ProcessingState,
+  Revision,
+  SearchResult,
+  TimelineEntry,
+} from "../types";
+
+// ---------------------------------------------------------------------------
+// Handshake — protocol version and capabilities
+// ---------------------------------------------------------------------------
+
+/**
+ * Version of this protocol. Bumped on changes old clients cannot follow; a
+ * `hello` with any other version is refused and the socket closed.
+ */
+export const WS_PROTOCOL_VERSION = 1;
+
+export const CLIENT_ROLES: readonly ClientRole[] = ["plugin", "dashboard", "cli"];
+
+/**
+ * Optional pushes a client may ask for in its `hello`: `edits` =
+ * `message_edited` and `message_deleted`, `chat_action` = agent activity.
+ * A socket that never says hello gets every push.
+ */
+export type WsCapability = "edits" | "chat_action";
+
+export const WS_CAPABILITIES: readonly WsCapability[] = ["edits", "chat_action"];
+
+/** Close code for a `hello` with an unsupported protocol version. */
+export const WS_CLOSE_UNSUPPORTED_PROTOCOL = 1002;
+
+// ---------------------------------------------------------------------------
+// Subscription filter — every field given narrows the pushes a socket gets
+// ---------------------------------------------------------------------------
+
+export interface SubscriptionFilter {
+  platform?: string;
+  /** Platform chat IDs; omitted = every chat. */
+  chatIds?: string[];
+  direction?: "in" | "out";
+  /** Must name the connection's own tenant; accepted for explicitness. */
+  tenantId?: string;
+}
 
 // ---------------------------------------------------------------------------
 // Client -> Server requests
 // ---------------------------------------------------------------------------
 
-export type WsRequest =
+// Any request may carry a `requestId`, echoed on its response or error so
+// a client can tell concurrent answers apart
+export type WsRequest = { requestId?: string } & (
+  // Introduce the client, once, before anything else; answered with its
+  // entry in `GET /api/plugins`, capabilities narrowed to those the router
+  // supports
+  | {
+      type: "hello";
+      protocolVersion: number;
+      role: ClientRole;
+      /** Client software, e.g. `"telegram-integration"`. */
+      name: string;
+      version?: string;
+      /** Platform a plugin serves. */
+      platform?: string;
+      capabilities?: string[];
+    }
   | { type: "health" }
   | { type: "conversations"; platform?: string; limit?: number }
   | {
@@ -24,7 +89,30 @@ export type WsRequest =
       after?: number;
       before?: number;
       limit?: number;
-    };
+    }
+  | {
+      type: "search";
+      query: string;
+      platform?: string;
+      platformChatId?: string;
+      /** Unix ms, inclusive. */
+      from?: number;
+      to?: number;
+      limit?: number;
+    }
+  // Receive pushes matching the filter (replacing any earlier subscription),
+  // after catching up on outbound entries after `sinceId` and any still
+  // pending
+  | ({ type: "subscribe"; sinceId?: number } & SubscriptionFilter)
+  | { type: "unsubscribe" }
+  // Register the platform this plugin serves (see PlatformDescriptor); the
+  // socket counts as a connection of it until it closes
+  | ({ type: "register_platform" } & PlatformDescriptor)
+  // Delivery reports for pushed outbound entries (`id` = timeline entry ID);
+  // an ack may list the platform messages the entry was delivered as
+  | { type: "ack"; id: number; platformMessageIds?: string[] }
+  | { type: "nack"; id: number; error: string; retry?: boolean }
+);
 
 // ---------------------------------------------------------------------------
 // Server -> Client responses (to a request)
@@ -33,17 +121,46 @@ export type WsRequest =
 export interface WsResponse {
   type: "response";
   requestType: string;
+  /** The request's `requestId`, if it had one. */
+  requestId?: string;
   data: unknown;
 }
 
+/** The `data` of the response to each request type. */
+export interface WsResponseData {
+  hello: ConnectedPlugin;
+  health: ReturnType<IChatRouterService["healthCheck"]>;
+  conversations: Conversation[];
+  timeline: TimelineEntry[];
+  unified_timeline: TimelineEntry[];
+  search: SearchResult[];
+  subscribe: { filter: SubscriptionFilter; replayed: number };
+  unsubscribe: { subscribed: false };
+  register_platform: PlatformInfo;
+  ack: Delivery;
+  nack: Delivery;
+}
+
 // ---------------------------------------------------------------------------
-// Server -> Client push (new message ingested/recorded)
+// Server -> Client push (message ingested/recorded, edited or deleted, or
+// agent activity in a conversation)
 // ---------------------------------------------------------------------------
 
-export interface WsPush {
-  type: "new_message";
-  entry: TimelineEntry;
-}
+export type WsPush =
+  | {
+      type: "new_message";
+      entry: TimelineEntry;
+      /**
+       * Set on outbound entries replayed from the store in answer to
+       * `subscribe`, rather than pushed live. The client may have seen them.
+       */
+      redelivered?: boolean;
+    }
+  // `entry` is the entry after the change
+  | { type: "message_edited"; entry: TimelineEntry; revision: Revision }
+  | { type: "message_deleted"; entry: TimelineEntry; revision: Revision }
+  // Matches subscriptions like an outbound entry of the conversation would
+  | { type: "chat_action"; state: ProcessingState };
 
 // ---------------------------------------------------------------------------
 // Server -> Client error
@@ -51,5 +168,7 @@ export interface WsPush {
 
 export interface WsError {
   type: "error";
+  /** The failed request's `requestId`, if it had one. */
+  requestId?: string;
   message: string;
 }
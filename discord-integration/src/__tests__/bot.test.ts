@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { attachBot } from "../bot";
+import type { ChatRouterClient } from "../chatRouterClient";
+import { DiscordGateway, DiscordRestClient, type DiscordMessage } from "../discord";
+import { FakeDiscord } from "./fakeDiscord";
+
+const TOKEN = "bot-token";
+
+describe("attachBot", () => {
+  let discord: FakeDiscord;
+  let gateway: DiscordGateway;
+  let chatRouter: {
+    ingestMessage: ReturnType<typeof vi.fn>;
+    editMessage: ReturnType<typeof vi.fn>;
+    uploadBlob: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    discord = new FakeDiscord();
+    await discord.start();
+    chatRouter = {
+      ingestMessage: vi.fn().mockResolvedValue({}),
+      editMessage: vi.fn().mockResolvedValue({}),
+      uploadBlob: vi.fn().mockResolvedValue({ id: "blob-1" }),
+    };
+
+    gateway = new DiscordGateway(discord.gatewayUrl, TOKEN);
+    attachBot(
+      gateway,
+      new DiscordRestClient(TOKEN, discord.apiUrl),
+      chatRouter as unknown as ChatRouterClient,
+    );
+    const ready = new Promise((resolve) => gateway.once("READY", resolve));
+    gateway.connect();
+    await ready;
+  });
+
+  afterEach(async () => {
+    gateway.disconnect();
+    await discord.stop();
+    vi.restoreAllMocks();
+  });
+
+  function makeMessage(overrides: Partial<DiscordMessage> = {}): DiscordMessage {
+    return {
+      id: "42",
+      type: 0,
+      channel_id: "7",
+      author: { id: "999", username: "alice" },
+      content: "Hello",
+      timestamp: "2023-11-14T22:13:20.000Z",
+      attachments: [],
+      ...overrides,
+    };
+  }
+
+  it("forwards user messages to the chat router", async () => {
+    discord.dispatch("MESSAGE_CREATE", makeMessage());
+
+    await vi.waitFor(() => expect(chatRouter.ingestMessage).toHaveBeenCalledOnce());
+    expect(chatRouter.ingestMessage.mock.calls[0][0]).toMatchObject({
+      platform: "discord",
+      platformChatId: "7",
+      platformMessageId: "42",
+      text: "Hello",
+    });
+  });
+
+  it("ignores bots, itself included, and system messages", async () => {
+    const bot = { id: "900", username: "router-bot", bot: true };
+    discord.dispatch("MESSAGE_CREATE", makeMessage({ id: "1", author: bot }));
+    discord.dispatch("MESSAGE_CREATE", makeMessage({ id: "2", type: 7 }));
+    discord.dispatch("MESSAGE_CREATE", makeMessage({ id: "3" }));
+
+    await vi.waitFor(() => expect(chatRouter.ingestMessage).toHaveBeenCalledOnce());
+    expect(chatRouter.ingestMessage.mock.calls[0][0].platformMessageId).toBe("3");
+  });
+
+  it("copies attachments into the blob store before forwarding", async () => {
+    discord.files.set("photo.png", Buffer.from("png-bytes"));
+    const file = {
+      id: "file-1",
+      filename: "photo.png",
+      content_type: "image/png",
+      size: 9,
+      url: `${discord.cdnUrl}/photo.png`,
+    };
+
+    discord.dispatch("MESSAGE_CREATE", makeMessage({ content: "", attachments: [file] }));
+
+    await vi.waitFor(() => expect(chatRouter.ingestMessage).toHaveBeenCalledOnce());
+    expect(chatRouter.uploadBlob).toHaveBeenCalledWith(Buffer.from("png-bytes"), "image/png");
+    expect(chatRouter.ingestMessage.mock.calls[0][0].attachments).toEqual([
+      expect.objectContaining({ type: "photo", blobId: "blob-1" }),
+    ]);
+  });
+
+  it("reacts with a warning when the message could not be forwarded", async () => {
+    chatRouter.ingestMessage.mockRejectedValue(new Error("router down"));
+
+    discord.dispatch("MESSAGE_CREATE", makeMessage());
+
+    await vi.waitFor(() =>
+      expect(discord.requests.map((r) => `${r.method} ${r.path}`)).toContain(
+        "PUT /channels/7/messages/42/reactions/⚠️/@me",
+      ),
+    );
+  });
+
+  it("forwards edits of the text", async () => {
+    discord.dispatch("MESSAGE_UPDATE", {
+      id: "42",
+      channel_id: "7",
+      content: "Hello again",
+      edited_timestamp: "2023-11-14T22:15:00.000Z",
+    });
+
+    await vi.waitFor(() =>
+      expect(chatRouter.editMessage).toHaveBeenCalledWith({
+        platformChatId: "7",
+        platformMessageId: "42",
+        text: "Hello again",
+      }),
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import { mapDiscordEdit, mapDiscordToInbound } from "../chatRouterClient";
+import type { DiscordAttachment, DiscordMessage } from "../discord";
+
+// ---------------------------------------------------------------------------
+// Helper — a gateway MESSAGE_CREATE payload
+// ---------------------------------------------------------------------------
+
+function makeMessage(overrides: Partial<DiscordMessage> = {}): DiscordMessage {
+  return {
+    id: "1100000000000000042",
+    type: 0,
+    channel_id: "1100000000000000007",
+    guild_id: "1100000000000000001",
+    author: { id: "999", username: "alicesmith", global_name: "Alice Smith" },
+    content: "Hello world",
+    timestamp: "2023-11-14T22:13:20.000000+00:00",
+    attachments: [],
+    ...overrides,
+  };
+}
+
+function makeFile(overrides: Partial<DiscordAttachment> = {}): DiscordAttachment {
+  return {
+    id: "file-1",
+    filename: "photo.png",
+    content_type: "image/png",
+    size: 2048,
+    url: "https://cdn.discordapp.com/attachments/photo.png",
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("mapDiscordToInbound", () => {
+  it("maps a guild message to the channel it was sent in", () => {
+    expect(mapDiscordToInbound(makeMessage())).toEqual({
+      platform: "discord",
+      platformMessageId: "1100000000000000042",
+      platformChatId: "1100000000000000007",
+      platformChatType: "guild",
+      senderName: "Alice Smith",
+      senderId: "999",
+      text: "Hello world",
+      timestamp: 1700000000000,
+      platformMeta: {
+        guildId: "1100000000000000001",
+        fromUsername: "alicesmith",
+        fromIsBot: false,
+      },
+    });
+  });
+
+  it("marks direct messages and falls back to the username", () => {
+    const result = mapDiscordToInbound(
+      makeMessage({ guild_id: undefined, author: { id: "999", username: "alicesmith" } }),
+    );
+
+    expect(result.platformChatType).toBe("dm");
+    expect(result.senderName).toBe("alicesmith");
+  });
+
+  it("sets replyToPlatformMessageId for replies", () => {
+    const result = mapDiscordToInbound(
+      makeMessage({ type: 19, message_reference: { message_id: "1100000000000000041" } }),
+    );
+    expect(result.replyToPlatformMessageId).toBe("1100000000000000041");
+  });
+
+  it("maps files by MIME type and leaves out empty text", () => {
+    const result = mapDiscordToInbound(
+      makeMessage({
+        content: "",
+        attachments: [
+          makeFile(),
+          makeFile({ id: "file-2", filename: "cat.gif", content_type: "image/gif" }),
+          makeFile({
+            id: "file-3",
+            filename: "voice-message.ogg",
+            content_type: "audio/ogg",
+            duration_secs: 3.5,
+          }),
+          makeFile({ id: "file-4", filename: "notes.txt", content_type: undefined }),
+        ],
+      }),
+    );
+
+    expect(result.text).toBeUndefined();
+    expect(result.attachments!.map((a) => [a.type, a.fileId, a.mimeType, a.fileName])).toEqual([
+      ["photo", "file-1", "image/png", "photo.png"],
+      ["animation", "file-2", "image/gif", "cat.gif"],
+      ["voice", "file-3", "audio/ogg", "voice-message.ogg"],
+      ["document", "file-4", undefined, "notes.txt"],
+    ]);
+    expect(result.attachments![0].size).toBe(2048);
+  });
+});
+
+describe("mapDiscordEdit", () => {
+  it("takes the new content of an edited message", () => {
+    const update = {
+      id: "42",
+      channel_id: "7",
+      content: "New text",
+      edited_timestamp: "2023-11-14T22:15:00.000000+00:00",
+    };
+
+    expect(mapDiscordEdit(update)).toEqual({
+      platformChatId: "7",
+      platformMessageId: "42",
+      text: "New text",
+    });
+  });
+
+  it("ignores updates that did not edit the text, like added link previews", () => {
+    expect(mapDiscordEdit({ id: "42", channel_id: "7", content: "Hi", edited_timestamp: null }))
+      .toBeNull();
+    expect(mapDiscordEdit({ id: "42", channel_id: "7" })).toBeNull();
+  });
+});
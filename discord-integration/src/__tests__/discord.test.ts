@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { DiscordApiError, DiscordGateway, DiscordRestClient, GATEWAY_INTENTS } from "../discord";
+import { FakeDiscord, FAKE_BOT_USER } from "./fakeDiscord";
+
+const TOKEN = "bot-token";
+
+describe("DiscordRestClient", () => {
+  let discord: FakeDiscord;
+  let rest: DiscordRestClient;
+
+  beforeEach(async () => {
+    discord = new FakeDiscord();
+    await discord.start();
+    rest = new DiscordRestClient(TOKEN, discord.apiUrl);
+  });
+
+  afterEach(async () => {
+    await discord.stop();
+  });
+
+  it("looks up the gateway URL with the bot token", async () => {
+    expect(await rest.getGatewayUrl()).toBe(discord.gatewayUrl);
+    expect(discord.requests[0]).toMatchObject({ method: "GET", path: "/gateway/bot" });
+    expect(discord.requests[0].headers.authorization).toBe(`Bot ${TOKEN}`);
+  });
+
+  it("creates a message threaded as a reply", async () => {
+    const sent = await rest.createMessage("chan-1", { content: "Hi", replyTo: "555" });
+
+    expect(sent.id).toBe("1001");
+    expect(discord.requests[0]).toMatchObject({
+      method: "POST",
+      path: "/channels/chan-1/messages",
+      body: {
+        content: "Hi",
+        message_reference: { message_id: "555", fail_if_not_exists: false },
+        allowed_mentions: { parse: ["users"] },
+      },
+    });
+  });
+
+  it("uploads files as multipart form data", async () => {
+    await rest.createMessage("chan-1", {
+      files: [{ name: "report.pdf", data: Buffer.from("%PDF"), mimeType: "application/pdf" }],
+    });
+
+    const { headers, body } = discord.requests[0];
+    expect(headers["content-type"]).toMatch(/^multipart\/form-data/);
+    expect(body).toContain('name="payload_json"');
+    expect(body).toContain('name="files[0]"; filename="report.pdf"');
+    expect(body).toContain("%PDF");
+  });
+
+  it("addresses edits, deletions, typing and reactions", async () => {
+    await rest.editMessage("chan-1", "77", "Better");
+    await rest.deleteMessage("chan-1", "78");
+    await rest.triggerTyping("chan-1");
+    await rest.addReaction("chan-1", "79", "👀");
+    await rest.removeReaction("chan-1", "79", "👀");
+
+    expect(discord.requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+      "PATCH /channels/chan-1/messages/77",
+      "DELETE /channels/chan-1/messages/78",
+      "POST /channels/chan-1/typing",
+      "PUT /channels/chan-1/messages/79/reactions/👀/@me",
+      "DELETE /channels/chan-1/messages/79/reactions/👀/@me",
+    ]);
+    expect(discord.requests[0].body).toEqual({ content: "Better" });
+  });
+
+  it("retries a rate-limited request after the delay Discord asks for", async () => {
+    discord.respondOnce("POST", /\/typing$/, 429, { retry_after: 0.01, global: false });
+
+    await rest.triggerTyping("chan-1");
+
+    expect(discord.requests.map((r) => r.path)).toEqual([
+      "/channels/chan-1/typing",
+      "/channels/chan-1/typing",
+    ]);
+  });
+
+  it("throws DiscordApiError with the status and error code", async () => {
+    discord.respondOnce("DELETE", /messages\/78$/, 403, { code: 50013, message: "Missing" });
+
+    const err = await rest.deleteMessage("chan-1", "78").catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(DiscordApiError);
+    expect(err).toMatchObject({ status: 403, code: 50013 });
+  });
+});
+
+describe("DiscordGateway", () => {
+  let discord: FakeDiscord;
+  let gateway: DiscordGateway;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    discord = new FakeDiscord();
+    await discord.start();
+    gateway = new DiscordGateway(discord.gatewayUrl, TOKEN, { reconnectDelayMs: 10 });
+  });
+
+  afterEach(async () => {
+    gateway.disconnect();
+    await discord.stop();
+    vi.restoreAllMocks();
+  });
+
+  function nextEvent(event: string): Promise<any> {
+    return new Promise((resolve) => gateway.once(event, resolve));
+  }
+
+  it("identifies with the token and message intents, then emits READY", async () => {
+    const ready = nextEvent("READY");
+    gateway.connect();
+
+    expect((await ready).user).toEqual(FAKE_BOT_USER);
+    expect(discord.identifies).toEqual([
+      expect.objectContaining({ token: TOKEN, intents: GATEWAY_INTENTS }),
+    ]);
+  });
+
+  it("emits dispatched events under their Discord name", async () => {
+    const ready = nextEvent("READY");
+    gateway.connect();
+    await ready;
+
+    const created = nextEvent("MESSAGE_CREATE");
+    discord.dispatch("MESSAGE_CREATE", { id: "1", content: "hello" });
+
+    expect(await created).toEqual({ id: "1", content: "hello" });
+  });
+
+  it("resumes the session when Discord asks it to reconnect", async () => {
+    const ready = nextEvent("READY");
+    gateway.connect();
+    await ready;
+    discord.dispatch("MESSAGE_CREATE", { id: "1", content: "hello" });
+    await nextEvent("MESSAGE_CREATE");
+
+    const resumed = nextEvent("RESUMED");
+    discord.sendOp(7);
+    await resumed;
+
+    expect(discord.identifies).toHaveLength(1);
+    expect(discord.resumes).toEqual([{ token: TOKEN, session_id: "session-1", seq: 2 }]);
+  });
+
+  it("identifies again when the session cannot be resumed", async () => {
+    const ready = nextEvent("READY");
+    gateway.connect();
+    await ready;
+
+    const again = nextEvent("READY");
+    discord.sendOp(9, false);
+    await again;
+
+    expect(discord.identifies).toHaveLength(2);
+    expect(discord.resumes).toEqual([]);
+  });
+
+  it("reconnects and resumes when a heartbeat goes unacknowledged", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    discord.heartbeatIntervalMs = 20;
+    discord.ackHeartbeats = false;
+    const ready = nextEvent("READY");
+    gateway.connect();
+    await ready;
+
+    await nextEvent("RESUMED");
+
+    expect(console.warn).toHaveBeenCalledWith(
+      "Discord gateway did not acknowledge a heartbeat, reconnecting",
+    );
+    expect(discord.identifies).toHaveLength(1);
+    expect(discord.resumes[0]).toEqual({ token: TOKEN, session_id: "session-1", seq: 1 });
+  });
+});
@@ -0,0 +1,183 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { WebSocketServer, type WebSocket } from "ws";
+
+// ---------------------------------------------------------------------------
+// FakeDiscord — a local stand-in for Discord's REST API, CDN and gateway
+// ---------------------------------------------------------------------------
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  /** Parsed JSON, or the raw text of other bodies (e.g. multipart). */
+  body: any;
+}
+
+/** A canned answer for the next request matching `method` and `path`. */
+interface QueuedResponse {
+  method: string;
+  path: RegExp;
+  status: number;
+  body?: unknown;
+}
+
+export const FAKE_BOT_USER = { id: "900", username: "router-bot", bot: true };
+
+/**
+ * Serves the REST endpoints the plugin calls on `apiUrl`, attachment
+ * downloads from `files` on `cdnUrl`, and a gateway on `gatewayUrl` that
+ * says Hello, answers Identify with READY, Resume with RESUMED and
+ * heartbeats with an ACK (unless `ackHeartbeats` is off), and lets a test
+ * `dispatch` events. Every REST request is recorded in `requests`; created
+ * messages get IDs "1001", "1002", ...
+ */
+export class FakeDiscord {
+  readonly requests: RecordedRequest[] = [];
+  /** Identify payloads received on the gateway. */
+  readonly identifies: any[] = [];
+  /** Resume payloads received on the gateway. */
+  readonly resumes: any[] = [];
+  /** Heartbeat interval announced in Hello, in ms. */
+  heartbeatIntervalMs = 45_000;
+  /** Off to play a connection that has died without closing. */
+  ackHeartbeats = true;
+  /** Attachment content served on `cdnUrl`, by file name. */
+  readonly files = new Map<string, Buffer>();
+  private queued: QueuedResponse[] = [];
+  private nextMessageId = 1001;
+  private server = http.createServer((req, res) => this.handle(req, res));
+  private wss = new WebSocketServer({ server: this.server });
+  private sockets = new Set<WebSocket>();
+  private sequence = 0;
+
+  async start(): Promise<void> {
+    this.wss.on("connection", (socket) => this.accept(socket));
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+  }
+
+  async stop(): Promise<void> {
+    for (const socket of this.sockets) socket.terminate();
+    this.wss.close();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  get baseUrl(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  get apiUrl(): string {
+    return `${this.baseUrl}/api/v10`;
+  }
+
+  get cdnUrl(): string {
+    return `${this.baseUrl}/attachments`;
+  }
+
+  get gatewayUrl(): string {
+    return this.baseUrl.replace(/^http/, "ws");
+  }
+
+  /** Answer the next matching request with `status` instead of success. */
+  respondOnce(method: string, path: RegExp, status: number, body?: unknown): void {
+    this.queued.push({ method, path, status, body });
+  }
+
+  /** Push a dispatch event to every connected gateway session. */
+  dispatch(event: string, data: unknown): void {
+    const payload = JSON.stringify({ op: 0, t: event, s: ++this.sequence, d: data });
+    for (const socket of this.sockets) socket.send(payload);
+  }
+
+  /** Send a raw gateway payload, e.g. a Reconnect (op 7). */
+  sendOp(op: number, data: unknown = null): void {
+    for (const socket of this.sockets) socket.send(JSON.stringify({ op, d: data }));
+  }
+
+  /** Gateway sessions currently open. */
+  get connections(): number {
+    return this.sockets.size;
+  }
+
+  private accept(socket: WebSocket): void {
+    this.sockets.add(socket);
+    socket.on("close", () => this.sockets.delete(socket));
+    socket.on("message", (raw) => {
+      const payload = JSON.parse(raw.toString());
+      if (payload.op === 1 && this.ackHeartbeats) {
+        socket.send(JSON.stringify({ op: 11, d: null }));
+      } else if (payload.op === 2) {
+        this.identifies.push(payload.d);
+        const ready = {
+          v: 10,
+          user: FAKE_BOT_USER,
+          session_id: "session-1",
+          resume_gateway_url: this.gatewayUrl,
+        };
+        socket.send(JSON.stringify({ op: 0, t: "READY", s: ++this.sequence, d: ready }));
+      } else if (payload.op === 6) {
+        this.resumes.push(payload.d);
+        socket.send(JSON.stringify({ op: 0, t: "RESUMED", s: ++this.sequence, d: null }));
+      }
+    });
+    socket.send(JSON.stringify({ op: 10, d: { heartbeat_interval: this.heartbeatIntervalMs } }));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks).toString();
+      const path = req.url ?? "/";
+      const method = req.method ?? "GET";
+
+      if (path.startsWith("/attachments/")) {
+        const file = this.files.get(decodeURIComponent(path.slice("/attachments/".length)));
+        res.writeHead(file ? 200 : 404);
+        res.end(file);
+        return;
+      }
+
+      const isJson = req.headers["content-type"]?.startsWith("application/json");
+      this.requests.push({
+        method,
+        path: decodeURIComponent(path.replace(/^\/api\/v10/, "")),
+        headers: req.headers,
+        body: isJson ? JSON.parse(raw) : raw,
+      });
+
+      const queued = this.queued.findIndex((q) => q.method === method && q.path.test(path));
+      if (queued !== -1) {
+        const [response] = this.queued.splice(queued, 1);
+        send(res, response.status, response.body);
+        return;
+      }
+
+      if (method === "GET" && path === "/api/v10/gateway/bot") {
+        send(res, 200, { url: this.gatewayUrl });
+        return;
+      }
+      const message = path.match(/^\/api\/v10\/channels\/([^/]+)\/messages(?:\/([^/]+))?$/);
+      if (message && (method === "POST" || method === "PATCH")) {
+        send(res, 200, {
+          id: message[2] ?? String(this.nextMessageId++),
+          channel_id: message[1],
+          content: isJson ? JSON.parse(raw).content : undefined,
+        });
+        return;
+      }
+      send(res, 204);
+    });
+  }
+}
+
+function send(res: http.ServerResponse, status: number, body?: unknown): void {
+  if (body === undefined) {
+    res.writeHead(status);
+    res.end();
+    return;
+  }
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
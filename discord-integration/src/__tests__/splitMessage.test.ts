@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { DISCORD_MAX_LENGTH, splitMessage } from "../splitMessage";
+
+describe("splitMessage", () => {
+  it("returns single-element array for short message", () => {
+    expect(splitMessage("Hello, world!")).toEqual(["Hello, world!"]);
+  });
+
+  it("returns single-element array for message exactly at limit", () => {
+    const text = "a".repeat(DISCORD_MAX_LENGTH);
+    expect(splitMessage(text)).toEqual([text]);
+  });
+
+  it("returns single-element array for empty string", () => {
+    expect(splitMessage("")).toEqual([""]);
+  });
+
+  it("splits at the last newline before the limit", () => {
+    const text = "Hello world\nThis is a test\nOf splitting";
+    const result = splitMessage(text, 20);
+
+    expect(result).toEqual(["Hello world\n", "This is a test\n", "Of splitting"]);
+  });
+
+  it("falls back to the last space, then to a hard split", () => {
+    expect(splitMessage("aaaa bbbb cccc", 10)).toEqual(["aaaa bbbb ", "cccc"]);
+    expect(splitMessage("a".repeat(25), 10)).toEqual(["a".repeat(10), "a".repeat(10), "aaaaa"]);
+  });
+
+  it("counts code points, so emoji are never split", () => {
+    const text = "😀".repeat(2500);
+    const result = splitMessage(text);
+
+    for (const chunk of result) {
+      expect(Array.from(chunk).length).toBeLessThanOrEqual(DISCORD_MAX_LENGTH);
+    }
+    expect(result.join("")).toBe(text);
+  });
+
+  it("closes and reopens a code block cut by a split", () => {
+    const code = Array.from({ length: 8 }, (_, i) => `line ${i}`).join("\n");
+    const text = `Here:\n\`\`\`ts\n${code}\n\`\`\`\nDone`;
+
+    const result = splitMessage(text, 40);
+
+    for (const chunk of result) {
+      expect(Array.from(chunk).length).toBeLessThanOrEqual(40);
+      // Every chunk has balanced fences
+      expect((chunk.match(/^```/gm) ?? []).length % 2).toBe(0);
+    }
+    expect(result[1].startsWith("```ts\n")).toBe(true);
+    // Without the added closing and reopening fences, nothing is lost
+    expect(result.join("").split("``````ts\n").join("")).toBe(text);
+  });
+});
@@ -0,0 +1,280 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import { WebSocketServer, type WebSocket } from "ws";
+import { ChatRouterWsClient } from "../wsClient";
+import { DiscordRestClient } from "../discord";
+import { FakeDiscord } from "./fakeDiscord";
+
+// ---------------------------------------------------------------------------
+// FakeRouter — the chat router's /ws endpoint and blob store
+// ---------------------------------------------------------------------------
+
+class FakeRouter {
+  /** Requests the plugin sent over the socket. */
+  readonly received: any[] = [];
+  readonly blobs = new Map<string, Buffer>();
+  private server = http.createServer((req, res) => {
+    const blob = this.blobs.get(decodeURIComponent((req.url ?? "").replace("/api/blobs/", "")));
+    res.writeHead(blob ? 200 : 404);
+    res.end(blob);
+  });
+  private wss = new WebSocketServer({ server: this.server });
+  private socket: WebSocket | null = null;
+
+  async start(): Promise<void> {
+    this.wss.on("connection", (socket) => {
+      this.socket = socket;
+      socket.on("message", (raw) => this.received.push(JSON.parse(raw.toString())));
+    });
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+  }
+
+  async stop(): Promise<void> {
+    this.socket?.terminate();
+    this.wss.close();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  push(msg: unknown): void {
+    this.socket!.send(JSON.stringify(msg));
+  }
+
+  close(code: number): void {
+    this.socket!.close(code);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers — factory functions for test data
+// ---------------------------------------------------------------------------
+
+function makeEntry(overrides?: Partial<any>) {
+  return {
+    id: 1,
+    direction: "out",
+    platform: "discord",
+    platformMessageId: "router-1",
+    platformChatId: "chan-7",
+    platformChatType: null,
+    senderName: "System",
+    senderId: "system",
+    text: "Hello from the system",
+    timestamp: Date.now(),
+    platformMeta: null,
+    createdAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("ChatRouterWsClient", () => {
+  let discord: FakeDiscord;
+  let router: FakeRouter;
+  let client: ChatRouterWsClient;
+  let stateFile: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    discord = new FakeDiscord();
+    router = new FakeRouter();
+    await discord.start();
+    await router.start();
+    stateFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "discord-ws-")), "state.json");
+  });
+
+  afterEach(async () => {
+    client?.disconnect();
+    await router.stop();
+    await discord.stop();
+    vi.restoreAllMocks();
+  });
+
+  async function connect(): Promise<void> {
+    client = new ChatRouterWsClient(
+      router.url,
+      new DiscordRestClient("bot-token", discord.apiUrl),
+      { tenantId: "acme" },
+      { stateFile },
+    );
+    client.connect();
+    // The plugin says hello, registers Discord, then subscribes
+    await vi.waitFor(() => expect(router.received).toHaveLength(3));
+  }
+
+  function discordCalls(): string[] {
+    return discord.requests.map((r) => `${r.method} ${r.path}`);
+  }
+
+  it("introduces itself, registers Discord, then subscribes to its replies", async () => {
+    fs.writeFileSync(stateFile, JSON.stringify({ lastDeliveredId: 41 }));
+
+    await connect();
+
+    expect(router.received[0]).toEqual({
+      type: "hello",
+      protocolVersion: 1,
+      role: "plugin",
+      name: "discord-integration",
+      version: "0.1.0",
+      platform: "discord",
+      capabilities: ["edits", "chat_action"],
+    });
+    expect(router.received[1]).toEqual({
+      type: "register_platform",
+      name: "discord",
+      maxMessageLength: 2000,
+      features: ["media", "edits", "reactions", "replies", "typing"],
+    });
+    expect(router.received[2]).toEqual({
+      type: "subscribe",
+      platform: "discord",
+      direction: "out",
+      sinceId: 41,
+    });
+  });
+
+  it("delivers long text in chunks, the first as a reply, and acks their IDs", async () => {
+    await connect();
+
+    router.push({
+      type: "new_message",
+      entry: makeEntry({ id: 5, text: "word ".repeat(600), replyToPlatformMessageId: "555" }),
+    });
+
+    await vi.waitFor(() => expect(router.received).toHaveLength(4));
+    expect(router.received[3]).toEqual({
+      type: "ack",
+      id: 5,
+      platformMessageIds: ["1001", "1002"],
+    });
+    expect(discord.requests[0].body.message_reference).toEqual({
+      message_id: "555",
+      fail_if_not_exists: false,
+    });
+    expect(discord.requests[1].body).not.toHaveProperty("message_reference");
+    expect(JSON.parse(fs.readFileSync(stateFile, "utf-8"))).toEqual({ lastDeliveredId: 5 });
+  });
+
+  it("sends files after the text, with their captions in the text", async () => {
+    router.blobs.set("blob-1", Buffer.from("png-bytes"));
+    await connect();
+
+    router.push({
+      type: "new_message",
+      entry: makeEntry({
+        text: "Here it is",
+        attachments: [
+          {
+            type: "photo",
+            mimeType: "image/png",
+            fileName: null,
+            caption: "A chart",
+            blobId: "blob-1",
+          },
+        ],
+      }),
+    });
+
+    await vi.waitFor(() => expect(router.received).toHaveLength(4));
+    expect(router.received[3].platformMessageIds).toEqual(["1001", "1002"]);
+    expect(discord.requests[0].body.content).toBe("Here it is\n\nA chart");
+    expect(discord.requests[1].body).toContain('filename="photo.png"');
+    expect(discord.requests[1].body).toContain("png-bytes");
+  });
+
+  it("nacks a reply Discord refused", async () => {
+    discord.respondOnce("POST", /messages$/, 403, { code: 50001, message: "Missing Access" });
+    await connect();
+
+    router.push({ type: "new_message", entry: makeEntry({ id: 6 }) });
+
+    await vi.waitFor(() => expect(router.received).toHaveLength(4));
+    expect(router.received[3]).toMatchObject({ type: "nack", id: 6 });
+    expect(router.received[3].error).toContain("403");
+  });
+
+  it("shows typing and reactions while the agent works", async () => {
+    await connect();
+    const state = { platform: "discord", platformChatId: "chan-7", platformMessageId: "42" };
+
+    router.push({ type: "chat_action", state: { ...state, status: "processing" } });
+    await vi.waitFor(() => expect(discordCalls()).toHaveLength(2));
+    router.push({ type: "chat_action", state: { ...state, status: "done" } });
+    await vi.waitFor(() => expect(discordCalls()).toHaveLength(4));
+
+    expect(discordCalls().sort()).toEqual(
+      [
+        "POST /channels/chan-7/typing",
+        "PUT /channels/chan-7/messages/42/reactions/👀/@me",
+        "PUT /channels/chan-7/messages/42/reactions/✅/@me",
+        "DELETE /channels/chan-7/messages/42/reactions/👀/@me",
+      ].sort(),
+    );
+  });
+
+  it("re-renders an edited reply and deletes messages no longer needed", async () => {
+    await connect();
+
+    router.push({
+      type: "message_edited",
+      entry: makeEntry({ text: "Shorter now", platformMessageIds: ["1", "2"] }),
+    });
+
+    await vi.waitFor(() => expect(discordCalls()).toHaveLength(2));
+    expect(discordCalls()).toEqual([
+      "PATCH /channels/chan-7/messages/1",
+      "DELETE /channels/chan-7/messages/2",
+    ]);
+    expect(discord.requests[0].body).toEqual({ content: "Shorter now" });
+  });
+
+  it("deletes every message of a retracted reply", async () => {
+    await connect();
+
+    router.push({ type: "message_deleted", entry: makeEntry({ platformMessageIds: ["1", "2"] }) });
+
+    await vi.waitFor(() => expect(discordCalls()).toHaveLength(2));
+    expect(discordCalls()).toEqual([
+      "DELETE /channels/chan-7/messages/1",
+      "DELETE /channels/chan-7/messages/2",
+    ]);
+  });
+
+  it("ignores entries for other platforms", async () => {
+    await connect();
+
+    router.push({ type: "new_message", entry: makeEntry({ platform: "telegram" }) });
+    router.push({ type: "new_message", entry: makeEntry({ id: 2 }) });
+
+    await vi.waitFor(() => expect(router.received).toHaveLength(4));
+    expect(router.received[3]).toMatchObject({ type: "ack", id: 2 });
+  });
+
+  it("stays disconnected when the router refuses its protocol version", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    await connect();
+
+    router.push({ type: "error", message: "hello: unsupported protocol version 1" });
+    router.close(1002);
+
+    await vi.waitFor(() =>
+      expect(error).toHaveBeenCalledWith(expect.stringContaining("not reconnecting")),
+    );
+    expect(console.warn).toHaveBeenCalledWith(
+      "Chat router error: hello: unsupported protocol version 1",
+    );
+    expect(console.log).not.toHaveBeenCalledWith(expect.stringContaining("reconnecting in"));
+  });
+});
@@ -0,0 +1,83 @@
+import type {
+  DiscordGateway,
+  DiscordMessage,
+  DiscordMessageUpdate,
+  DiscordRestClient,
+  DiscordUser,
+} from "./discord";
+import { ChatRouterClient, mapDiscordEdit, mapDiscordToInbound } from "./chatRouterClient";
+import { downloadAttachments } from "./media";
+import { setStatusReaction } from "./reactions";
+
+/** Message types users write: regular messages and replies. */
+const USER_MESSAGE_TYPES = new Set([0, 19]);
+
+/**
+ * Wires the bot's handlers onto a gateway session.
+ *
+ * The bot:
+ * - Logs every incoming user message
+ * - Ignores messages from bots, itself included, and system notices
+ * - Optionally forwards messages, and later edits to them, to the chat router;
+ *   status reactions follow from the router's chat_action pushes
+ */
+export function attachBot(
+  gateway: DiscordGateway,
+  rest: DiscordRestClient,
+  chatRouter?: ChatRouterClient,
+): void {
+  gateway.on("READY", (ready: { user: DiscordUser }) => {
+    console.log(`Bot started successfully!`);
+    console.log(`  Username: ${ready.user.username}`);
+    console.log(`  Bot ID  : ${ready.user.id}\n`);
+  });
+
+  gateway.on("MESSAGE_CREATE", async (msg: DiscordMessage) => {
+    if (msg.author.bot || !USER_MESSAGE_TYPES.has(msg.type)) return;
+
+    console.log("\n========== INCOMING MESSAGE ==========");
+    console.log("Timestamp  :", new Date().toISOString());
+    console.log("Message ID :", msg.id);
+    console.log("Channel ID :", msg.channel_id);
+    console.log("Guild ID   :", msg.guild_id ?? "(direct message)");
+    console.log("From       :", `${msg.author.username} (${msg.author.id})`);
+    console.log("Text       :", msg.content || "(no text)");
+    console.log("Attachments:", msg.attachments.length);
+    console.log("===========================================\n");
+
+    // Forward to chat router if configured. The agent's progress is shown
+    // when the router reports it (see ChatRouterWsClient); only a failure to
+    // forward is shown here.
+    if (chatRouter) {
+      try {
+        const inbound = mapDiscordToInbound(msg);
+        if (inbound.attachments) {
+          await downloadAttachments(msg, inbound.attachments, chatRouter);
+        }
+        await chatRouter.ingestMessage(inbound);
+        console.log("  -> Forwarded to chat-router");
+      } catch (err) {
+        console.error("  -> Failed to forward to chat-router:", err);
+        await setStatusReaction(rest, msg.channel_id, msg.id, "failed");
+      }
+    }
+  });
+
+  // Edits replace the text the router stored for the original message
+  gateway.on("MESSAGE_UPDATE", async (update: DiscordMessageUpdate) => {
+    const edit = mapDiscordEdit(update);
+    if (!edit || update.author?.bot) return;
+    console.log(`Message ${update.id} in channel ${update.channel_id} edited`);
+
+    if (chatRouter) {
+      try {
+        const entry = await chatRouter.editMessage(edit);
+        console.log(
+          entry ? "  -> Edit forwarded to chat-router" : "  -> Original never reached chat-router",
+        );
+      } catch (err) {
+        console.error("  -> Failed to forward edit to chat-router:", err);
+      }
+    }
+  });
+}
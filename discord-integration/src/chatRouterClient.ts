@@ -0,0 +1,193 @@
+import type { DiscordMessage, DiscordMessageUpdate } from "./discord";
+import { extractAttachments, type Attachment } from "./media";
+
+// ---------------------------------------------------------------------------
+// InboundMessage — redeclared locally (no cross-package import)
+// ---------------------------------------------------------------------------
+
+export interface InboundMessage {
+  platform: "discord";
+  platformMessageId: string;
+  platformChatId: string;
+  platformChatType?: string;
+  senderName: string;
+  senderId: string;
+  text?: string;
+  timestamp: number;
+  platformMeta?: Record<string, unknown>;
+  attachments?: Attachment[];
+  replyToPlatformMessageId?: string;
+}
+
+/** An edit made in Discord to a message already forwarded. */
+export interface MessageEdit {
+  platformChatId: string;
+  platformMessageId: string;
+  text: string;
+}
+
+// ---------------------------------------------------------------------------
+// mapDiscordToInbound — maps a gateway MESSAGE_CREATE to normalized format
+// ---------------------------------------------------------------------------
+
+/**
+ * Conversations are Discord channels: a guild text channel or thread, or a
+ * DM channel (`platformChatType` `"guild"` or `"dm"`).
+ */
+export function mapDiscordToInbound(message: DiscordMessage): InboundMessage {
+  const author = message.author;
+  const attachments = extractAttachments(message);
+  const replyTo = message.message_reference?.message_id;
+
+  return {
+    platform: "discord",
+    platformMessageId: message.id,
+    platformChatId: message.channel_id,
+    platformChatType: message.guild_id ? "guild" : "dm",
+    senderName: author.global_name || author.username,
+    senderId: author.id,
+    // A message with only files has empty content
+    text: message.content || undefined,
+    timestamp: Date.parse(message.timestamp),
+    platformMeta: {
+      guildId: message.guild_id,
+      fromUsername: author.username,
+      fromIsBot: author.bot ?? false,
+    },
+    ...(attachments.length > 0 ? { attachments } : {}),
+    ...(replyTo ? { replyToPlatformMessageId: replyTo } : {}),
+  };
+}
+
+/**
+ * Map a `MESSAGE_UPDATE`; the new text replaces the old one. Returns null
+ * for updates that leave the text alone (Discord also sends one when it
+ * adds a link preview).
+ */
+export function mapDiscordEdit(update: DiscordMessageUpdate): MessageEdit | null {
+  if (update.content === undefined || !update.edited_timestamp) return null;
+  return {
+    platformChatId: update.channel_id,
+    platformMessageId: update.id,
+    text: update.content,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// ChatRouterClient — HTTP client for the chat-router REST API
+// ---------------------------------------------------------------------------
+
+export interface ChatRouterAuth {
+  /** Tenant this bot acts for (ignored by a router that requires API keys). */
+  tenantId?: string;
+  /** API key, sent as a bearer token. */
+  apiKey?: string;
+}
+
+export class ChatRouterClient {
+  private baseUrl: string;
+  private auth: ChatRouterAuth;
+
+  constructor(baseUrl: string, auth: ChatRouterAuth = {}) {
+    // Remove trailing slash if present
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.auth = auth;
+  }
+
+  async ingestMessage(msg: InboundMessage): Promise<unknown> {
+    const res = await fetch(`${this.baseUrl}/api/messages`, {
+      method: "POST",
+      headers: this.headers({ "Content-Type": "application/json; charset=utf-8" }),
+      body: JSON.stringify(msg),
+    });
+
+    if (!res.ok) {
+      const body = await res.text();
+      throw new Error(`Chat router returned ${res.status}: ${body}`);
+    }
+
+    return res.json();
+  }
+
+  /**
+   * Apply an edit to a forwarded message. Returns null if the router never
+   * received the original.
+   */
+  async editMessage(edit: MessageEdit): Promise<unknown> {
+    const path = [edit.platformChatId, edit.platformMessageId].map(encodeURIComponent).join("/");
+    const res = await fetch(`${this.baseUrl}/api/messages/discord/${path}`, {
+      method: "PATCH",
+      headers: this.headers({ "Content-Type": "application/json; charset=utf-8" }),
+      body: JSON.stringify({ text: edit.text }),
+    });
+
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      const body = await res.text();
+      throw new Error(`Chat router returned ${res.status}: ${body}`);
+    }
+
+    return res.json();
+  }
+
+  /** Store file content in the router's blob store; returns its ID. */
+  async uploadBlob(data: Buffer, mimeType?: string): Promise<{ id: string }> {
+    const res = await fetch(`${this.baseUrl}/api/blobs`, {
+      method: "POST",
+      headers: this.headers({ "Content-Type": mimeType || "application/octet-stream" }),
+      body: data,
+    });
+
+    if (!res.ok) {
+      const body = await res.text();
+      throw new Error(`Chat router returned ${res.status}: ${body}`);
+    }
+
+    return res.json() as Promise<{ id: string }>;
+  }
+
+  /** Fetch file content from the router's blob store. */
+  async downloadBlob(id: string): Promise<Buffer> {
+    const res = await fetch(`${this.baseUrl}/api/blobs/${encodeURIComponent(id)}`, {
+      headers: this.headers(),
+    });
+
+    if (!res.ok) {
+      throw new Error(`Chat router returned ${res.status} for blob ${id}`);
+    }
+
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  async healthCheck(): Promise<{
+    ok: boolean;
+    messageCount: number;
+    conversationCount: number;
+  }> {
+    const res = await fetch(`${this.baseUrl}/api/health`, {
+      headers: this.headers(),
+    });
+
+    if (!res.ok) {
+      throw new Error(`Chat router health check failed: ${res.status}`);
+    }
+
+    return res.json() as Promise<{
+      ok: boolean;
+      messageCount: number;
+      conversationCount: number;
+    }>;
+  }
+
+  private headers(extra: Record<string, string> = {}): Record<string, string> {
+    return { ...extra, ...authHeaders(this.auth) };
+  }
+}
+
+/** Request headers carrying the tenant and API key, when configured. */
+export function authHeaders(auth: ChatRouterAuth): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (auth.tenantId) headers["X-Tenant-Id"] = auth.tenantId;
+  if (auth.apiKey) headers["Authorization"] = `Bearer ${auth.apiKey}`;
+  return headers;
+}
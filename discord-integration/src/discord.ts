@@ -0,0 +1,401 @@
+import { EventEmitter } from "events";
+import WebSocket from "ws";
+
+/** Discord's REST API; overridable so tests can point at a local fake. */
+export const DISCORD_API_URL = "https://discord.com/api/v10";
+
+/** Most times a rate-limited request is retried before giving up. */
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+// ---------------------------------------------------------------------------
+// Discord types — the subset of the API objects the plugin uses
+// ---------------------------------------------------------------------------
+
+export interface DiscordUser {
+  id: string;
+  username: string;
+  /** Display name; null when the user has none set. */
+  global_name?: string | null;
+  bot?: boolean;
+}
+
+export interface DiscordAttachment {
+  id: string;
+  filename: string;
+  content_type?: string;
+  size: number;
+  url: string;
+  /** Set on voice messages. */
+  duration_secs?: number;
+}
+
+export interface DiscordMessage {
+  id: string;
+  /** 0 for regular messages, 19 for replies; other types are system notices. */
+  type: number;
+  channel_id: string;
+  /** Missing in direct messages. */
+  guild_id?: string;
+  author: DiscordUser;
+  content: string;
+  /** ISO 8601. */
+  timestamp: string;
+  edited_timestamp?: string | null;
+  attachments: DiscordAttachment[];
+  message_reference?: { message_id?: string; channel_id?: string };
+}
+
+/** `MESSAGE_UPDATE` carries only the fields that changed, plus the IDs. */
+export type DiscordMessageUpdate = Partial<DiscordMessage> &
+  Pick<DiscordMessage, "id" | "channel_id">;
+
+/** A file to send with a message. */
+export interface DiscordFile {
+  name: string;
+  data: Buffer;
+  mimeType?: string;
+}
+
+// ---------------------------------------------------------------------------
+// DiscordRestClient — the REST calls the plugin makes
+// ---------------------------------------------------------------------------
+
+export class DiscordApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: number | undefined,
+    message: string,
+  ) {
+    super(message);
+    this.name = "DiscordApiError";
+  }
+}
+
+export class DiscordRestClient {
+  private apiUrl: string;
+
+  constructor(
+    private token: string,
+    apiUrl: string = DISCORD_API_URL,
+  ) {
+    this.apiUrl = apiUrl.replace(/\/+$/, "");
+  }
+
+  /** The URL bots connect their gateway session to. */
+  async getGatewayUrl(): Promise<string> {
+    const { url } = (await this.request("GET", "/gateway/bot")) as { url: string };
+    return url;
+  }
+
+  /**
+   * Post a message. `replyTo` threads it under another message of the
+   * channel; a deleted one is ignored rather than failing the send.
+   */
+  async createMessage(
+    channelId: string,
+    message: { content?: string; replyTo?: string; files?: DiscordFile[] },
+  ): Promise<DiscordMessage> {
+    const payload = {
+      ...(message.content ? { content: message.content } : {}),
+      ...(message.replyTo
+        ? { message_reference: { message_id: message.replyTo, fail_if_not_exists: false } }
+        : {}),
+      // Replies from an agent should never ping @everyone or roles
+      allowed_mentions: { parse: ["users"] },
+    };
+    const path = `/channels/${encodeURIComponent(channelId)}/messages`;
+
+    if (!message.files?.length) {
+      return (await this.request("POST", path, payload)) as DiscordMessage;
+    }
+
+    const form = new FormData();
+    form.append("payload_json", JSON.stringify(payload));
+    message.files.forEach((file, i) => {
+      const blob = new Blob([file.data], { type: file.mimeType ?? "application/octet-stream" });
+      form.append(`files[${i}]`, blob, file.name);
+    });
+    return (await this.request("POST", path, form)) as DiscordMessage;
+  }
+
+  async editMessage(
+    channelId: string,
+    messageId: string,
+    content: string,
+  ): Promise<DiscordMessage> {
+    const path = messagePath(channelId, messageId);
+    return (await this.request("PATCH", path, { content })) as DiscordMessage;
+  }
+
+  async deleteMessage(channelId: string, messageId: string): Promise<void> {
+    await this.request("DELETE", messagePath(channelId, messageId));
+  }
+
+  /** Show "typing…" in the channel for about ten seconds. */
+  async triggerTyping(channelId: string): Promise<void> {
+    await this.request("POST", `/channels/${encodeURIComponent(channelId)}/typing`);
+  }
+
+  async addReaction(channelId: string, messageId: string, emoji: string): Promise<void> {
+    await this.request("PUT", reactionPath(channelId, messageId, emoji));
+  }
+
+  async removeReaction(channelId: string, messageId: string, emoji: string): Promise<void> {
+    await this.request("DELETE", reactionPath(channelId, messageId, emoji));
+  }
+
+  /**
+   * Rate-limited requests (429) are retried after the delay Discord asks
+   * for; any other non-2xx answer throws a `DiscordApiError`.
+   */
+  private async request(method: string, path: string, body?: unknown): Promise<unknown> {
+    const headers: Record<string, string> = { Authorization: `Bot ${this.token}` };
+    let payload: string | FormData | undefined;
+    if (body instanceof FormData) {
+      payload = body;
+    } else if (body !== undefined) {
+      headers["Content-Type"] = "application/json";
+      payload = JSON.stringify(body);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const res = await fetch(`${this.apiUrl}${path}`, { method, headers, body: payload });
+
+      if (res.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+        const limit = (await res.json().catch(() => ({}))) as { retry_after?: number };
+        await sleep((limit.retry_after ?? 1) * 1000);
+        continue;
+      }
+      if (!res.ok) {
+        const text = await res.text();
+        let code: number | undefined;
+        try {
+          code = (JSON.parse(text) as { code?: number }).code;
+        } catch {
+          // Not JSON; the text is the message
+        }
+        throw new DiscordApiError(res.status, code, `Discord returned ${res.status}: ${text}`);
+      }
+      return res.status === 204 ? undefined : res.json();
+    }
+  }
+}
+
+function messagePath(channelId: string, messageId: string): string {
+  return `/channels/${encodeURIComponent(channelId)}/messages/${encodeURIComponent(messageId)}`;
+}
+
+function reactionPath(channelId: string, messageId: string, emoji: string): string {
+  return `${messagePath(channelId, messageId)}/reactions/${encodeURIComponent(emoji)}/@me`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ---------------------------------------------------------------------------
+// DiscordGateway — the WebSocket session Discord pushes events on
+// ---------------------------------------------------------------------------
+
+/** Gateway intents: guild and direct messages, with their content. */
+export const GATEWAY_INTENTS =
+  (1 << 0) | // GUILDS
+  (1 << 9) | // GUILD_MESSAGES
+  (1 << 12) | // DIRECT_MESSAGES
+  (1 << 15); // MESSAGE_CONTENT
+
+const OP_DISPATCH = 0;
+const OP_HEARTBEAT = 1;
+const OP_IDENTIFY = 2;
+const OP_RESUME = 6;
+const OP_RECONNECT = 7;
+const OP_INVALID_SESSION = 9;
+const OP_HELLO = 10;
+const OP_HEARTBEAT_ACK = 11;
+
+/** Our own close code for reconnects; unlike 1000 it keeps the session resumable. */
+const CLOSE_RECONNECT = 4000;
+
+/**
+ * Close codes after which reconnecting cannot help: a bad token, or
+ * intents the bot is not allowed (Message Content must be enabled in the
+ * Developer Portal).
+ */
+const FATAL_CLOSE_CODES = new Set([4004, 4010, 4011, 4012, 4013, 4014]);
+
+/** Close codes after which the session cannot be resumed: bad sequence, timed out. */
+const SESSION_LOST_CLOSE_CODES = new Set([4007, 4009]);
+
+interface GatewayPayload {
+  op: number;
+  d: unknown;
+  s?: number | null;
+  t?: string | null;
+}
+
+/**
+ * Connects to the gateway, identifies with the bot token and keeps the
+ * session alive with heartbeats. Dispatched events are emitted under their
+ * Discord name (`"READY"`, `"MESSAGE_CREATE"`, `"MESSAGE_UPDATE"`, ...)
+ * with the event data. When the connection drops, a heartbeat goes
+ * unacknowledged or Discord asks for a reconnect, the session is resumed
+ * after `reconnectDelayMs`, so Discord replays the events missed in
+ * between; only when it cannot be resumed is a fresh one identified.
+ */
+export class DiscordGateway extends EventEmitter {
+  private ws: WebSocket | null = null;
+  private intentionalClose = false;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private heartbeatAcked = true;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private sequence: number | null = null;
+  /** From READY; set while there is a session to resume. */
+  private session: { id: string; resumeUrl: string } | null = null;
+
+  constructor(
+    private url: string,
+    private token: string,
+    private options: { intents?: number; reconnectDelayMs?: number } = {},
+  ) {
+    super();
+  }
+
+  connect(): void {
+    this.intentionalClose = false;
+    const url = this.session?.resumeUrl ?? this.url;
+    const separator = url.includes("?") ? "&" : "?";
+    const ws = new WebSocket(`${url}${separator}v=10&encoding=json`);
+    this.ws = ws;
+
+    ws.on("message", (raw: WebSocket.RawData) => {
+      let payload: GatewayPayload;
+      try {
+        payload = JSON.parse(raw.toString());
+      } catch {
+        console.warn("Discord gateway sent malformed JSON, ignoring");
+        return;
+      }
+      this.handlePayload(ws, payload);
+    });
+
+    ws.on("close", (code: number) => {
+      this.stopHeartbeat();
+      if (this.ws === ws) this.ws = null;
+      if (SESSION_LOST_CLOSE_CODES.has(code)) this.forgetSession();
+      if (FATAL_CLOSE_CODES.has(code)) {
+        console.error(`Discord gateway refused the session (${code}), not reconnecting`);
+      } else if (!this.intentionalClose) {
+        const delay = this.options.reconnectDelayMs ?? 3000;
+        console.log(`Discord gateway closed (${code}), reconnecting in ${delay}ms...`);
+        this.reconnectTimer = setTimeout(() => this.connect(), delay);
+      }
+    });
+
+    ws.on("error", (err: Error) => {
+      console.warn(`Discord gateway error: ${err.message}`);
+    });
+  }
+
+  /** Close the connection; closing it this way also ends the session. */
+  disconnect(): void {
+    this.intentionalClose = true;
+    this.forgetSession();
+    this.stopHeartbeat();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+  }
+
+  private handlePayload(ws: WebSocket, payload: GatewayPayload): void {
+    if (typeof payload.s === "number") this.sequence = payload.s;
+
+    switch (payload.op) {
+      case OP_HELLO: {
+        const { heartbeat_interval } = payload.d as { heartbeat_interval: number };
+        this.startHeartbeat(ws, heartbeat_interval);
+        if (this.session && this.sequence !== null) {
+          send(ws, {
+            op: OP_RESUME,
+            d: { token: this.token, session_id: this.session.id, seq: this.sequence },
+          });
+          break;
+        }
+        this.sequence = null;
+        send(ws, {
+          op: OP_IDENTIFY,
+          d: {
+            token: this.token,
+            intents: this.options.intents ?? GATEWAY_INTENTS,
+            properties: { os: process.platform, browser: "chat-router", device: "chat-router" },
+          },
+        });
+        break;
+      }
+      case OP_HEARTBEAT:
+        send(ws, { op: OP_HEARTBEAT, d: this.sequence });
+        break;
+      case OP_HEARTBEAT_ACK:
+        this.heartbeatAcked = true;
+        break;
+      case OP_INVALID_SESSION:
+        // `d` says whether the session can still be resumed
+        if (payload.d !== true) this.forgetSession();
+        ws.close(CLOSE_RECONNECT);
+        break;
+      case OP_RECONNECT:
+        // The close handler reconnects and resumes
+        ws.close(CLOSE_RECONNECT);
+        break;
+      case OP_DISPATCH:
+        if (payload.t === "READY") {
+          const ready = payload.d as { session_id: string; resume_gateway_url: string };
+          this.session = { id: ready.session_id, resumeUrl: ready.resume_gateway_url };
+        }
+        if (payload.t) this.emit(payload.t, payload.d);
+        break;
+    }
+  }
+
+  /**
+   * Heartbeat every `intervalMs`. A heartbeat still unacknowledged when the
+   * next is due means the connection is dead without having closed, so it
+   * is dropped and the session resumed on a new one.
+   */
+  private startHeartbeat(ws: WebSocket, intervalMs: number): void {
+    this.stopHeartbeat();
+    this.heartbeatAcked = true;
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.heartbeatAcked) {
+        console.warn("Discord gateway did not acknowledge a heartbeat, reconnecting");
+        this.stopHeartbeat();
+        ws.terminate();
+        return;
+      }
+      this.heartbeatAcked = false;
+      send(ws, { op: OP_HEARTBEAT, d: this.sequence });
+    }, intervalMs);
+  }
+
+  private forgetSession(): void {
+    this.session = null;
+    this.sequence = null;
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+}
+
+function send(ws: WebSocket, payload: GatewayPayload): void {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(payload));
+  }
+}
@@ -0,0 +1,114 @@
+import "dotenv/config";
+import { attachBot } from "./bot";
+import { ChatRouterClient } from "./chatRouterClient";
+import { DiscordGateway, DiscordRestClient } from "./discord";
+import { ChatRouterWsClient } from "./wsClient";
+import fs from "fs";
+import path from "path";
+import util from "util";
+
+// ----------------------------------------------------------------------------
+// File logging setup
+// ----------------------------------------------------------------------------
+
+const logsDir = path.join(__dirname, "..", "logs");
+fs.mkdirSync(logsDir, { recursive: true });
+
+const logFilePath = path.join(logsDir, "discord-plugin.log");
+const logStream = fs.createWriteStream(logFilePath, { flags: "a" });
+
+const originalConsoleLog = console.log;
+const originalConsoleError = console.error;
+
+console.log = (...args: any[]) => {
+  const timestamp = new Date().toISOString();
+  const message = util.format(...args);
+  logStream.write(`[${timestamp}] [LOG] ${message}\n`);
+  originalConsoleLog(...args);
+};
+
+console.error = (...args: any[]) => {
+  const timestamp = new Date().toISOString();
+  const message = util.format(...args);
+  logStream.write(`[${timestamp}] [ERROR] ${message}\n`);
+  originalConsoleError(...args);
+};
+
+// ----------------------------------------------------------------------------
+
+async function main() {
+  const token = process.env.DISCORD_BOT_TOKEN;
+
+  if (!token) {
+    console.error("ERROR: DISCORD_BOT_TOKEN environment variable is not set.");
+    console.error("Create a .env file with DISCORD_BOT_TOKEN=your_token_here");
+    process.exit(1);
+  }
+
+  const chatRouterUrl = process.env.CHAT_ROUTER_URL;
+  const routerAuth = {
+    tenantId: process.env.CHAT_ROUTER_TENANT_ID || undefined,
+    apiKey: process.env.CHAT_ROUTER_API_KEY || undefined,
+  };
+  let chatRouter: ChatRouterClient | undefined;
+
+  if (chatRouterUrl) {
+    chatRouter = new ChatRouterClient(chatRouterUrl, routerAuth);
+    console.log(`Chat router configured: ${chatRouterUrl}`);
+    console.log(`  Tenant : ${routerAuth.tenantId ?? "(router default)"}`);
+    console.log(`  API key: ${routerAuth.apiKey ? "set" : "not set"}`);
+
+    // Startup health check — warn but don't block if the router is unreachable
+    try {
+      const health = await chatRouter.healthCheck();
+      console.log(`Chat router is reachable (ok=${health.ok})`);
+      console.log(`  Messages     : ${health.messageCount}`);
+      console.log(`  Conversations: ${health.conversationCount}`);
+    } catch (err) {
+      console.warn(
+        "WARNING: Chat router health check failed — the router may not be running yet.",
+      );
+      console.warn(`  ${err instanceof Error ? err.message : err}`);
+      console.warn("  The bot will start anyway and retry forwarding when messages arrive.\n");
+    }
+  } else {
+    console.log("CHAT_ROUTER_URL not set — running in standalone mode (log only)");
+  }
+
+  // Both Discord endpoints can be pointed elsewhere, e.g. at a local fake
+  const rest = new DiscordRestClient(token, process.env.DISCORD_API_URL || undefined);
+  const gatewayUrl = process.env.DISCORD_GATEWAY_URL || (await rest.getGatewayUrl());
+  const gateway = new DiscordGateway(gatewayUrl, token);
+  attachBot(gateway, rest, chatRouter);
+
+  // WebSocket client for outbound messages (if chat router is configured)
+  let wsClient: ChatRouterWsClient | undefined;
+  if (chatRouterUrl) {
+    wsClient = new ChatRouterWsClient(chatRouterUrl, rest, routerAuth, {
+      stateFile:
+        process.env.CHAT_ROUTER_WS_STATE_FILE ||
+        path.join(__dirname, "..", "data", "ws-state.json"),
+    });
+    wsClient.connect();
+    console.log("WebSocket return leg enabled — listening for outbound messages\n");
+  }
+
+  // Graceful shutdown
+  function shutdown(signal: string) {
+    console.log(`\nReceived ${signal}. Stopping bot...`);
+    wsClient?.disconnect();
+    gateway.disconnect();
+  }
+
+  process.on("SIGINT", () => shutdown("SIGINT"));
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+
+  console.log(`Connecting to the Discord gateway at ${gatewayUrl}...`);
+  console.log("Waiting for messages — mention or DM your bot on Discord.\n");
+  gateway.connect();
+}
+
+main().catch((err) => {
+  console.error("Fatal error during startup:", err);
+  process.exit(1);
+});
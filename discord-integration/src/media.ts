@@ -0,0 +1,110 @@
+import type { DiscordAttachment, DiscordMessage } from "./discord";
+import type { ChatRouterClient } from "./chatRouterClient";
+
+/**
+ * Largest file downloaded into the router's blob store. Discord lets
+ * boosted servers and Nitro users upload far more than the free 25 MB.
+ */
+export const MAX_DOWNLOAD_BYTES = 25 * 1024 * 1024;
+
+// ---------------------------------------------------------------------------
+// Attachment — redeclared locally (no cross-package import)
+// ---------------------------------------------------------------------------
+
+export type AttachmentType =
+  | "photo"
+  | "video"
+  | "video_note"
+  | "animation"
+  | "voice"
+  | "audio"
+  | "document"
+  | "sticker";
+
+export interface Attachment {
+  type: AttachmentType;
+  /** The Discord attachment ID. */
+  fileId: string;
+  mimeType?: string;
+  size?: number;
+  fileName?: string;
+  caption?: string;
+  /** Set once the file has been uploaded to the router's blob store. */
+  blobId?: string;
+}
+
+// ---------------------------------------------------------------------------
+// extractAttachments — files of a Discord message
+// ---------------------------------------------------------------------------
+
+/**
+ * The files a message carries, without content (see `downloadAttachments`).
+ * Discord only reports a MIME type, so the router's attachment type is
+ * derived from it; voice messages are audio files with a duration.
+ */
+export function extractAttachments(message: DiscordMessage): Attachment[] {
+  return (message.attachments ?? []).map((file) => ({
+    type: attachmentType(file),
+    fileId: file.id,
+    mimeType: file.content_type,
+    size: file.size,
+    fileName: file.filename,
+  }));
+}
+
+function attachmentType(file: DiscordAttachment): AttachmentType {
+  const mimeType = file.content_type ?? "";
+  if (mimeType === "image/gif") return "animation";
+  if (mimeType.startsWith("image/")) return "photo";
+  if (mimeType.startsWith("video/")) return "video";
+  if (mimeType.startsWith("audio/")) {
+    return file.duration_secs !== undefined ? "voice" : "audio";
+  }
+  return "document";
+}
+
+// ---------------------------------------------------------------------------
+// downloadAttachments — copy files into the router's blob store
+// ---------------------------------------------------------------------------
+
+/**
+ * Download each attachment of `message` from Discord's CDN and upload it to
+ * the router, setting `blobId` in place. A file that cannot be fetched (too
+ * large, network error) is logged and forwarded without `blobId`, so the
+ * message itself is never lost.
+ */
+export async function downloadAttachments(
+  message: DiscordMessage,
+  attachments: Attachment[],
+  chatRouter: ChatRouterClient,
+): Promise<void> {
+  for (const attachment of attachments) {
+    if (attachment.size !== undefined && attachment.size > MAX_DOWNLOAD_BYTES) {
+      console.warn(
+        `  -> Skipping ${attachment.type}: ${attachment.size} bytes is over the download limit`,
+      );
+      continue;
+    }
+
+    try {
+      const file = message.attachments.find((a) => a.id === attachment.fileId);
+      if (!file) {
+        throw new Error("attachment is not part of the message");
+      }
+
+      const res = await fetch(file.url);
+      if (!res.ok) {
+        throw new Error(`download failed: ${res.status}`);
+      }
+
+      const data = Buffer.from(await res.arrayBuffer());
+      const blob = await chatRouter.uploadBlob(data, attachment.mimeType);
+      attachment.blobId = blob.id;
+    } catch (err) {
+      console.error(
+        `  -> Failed to store ${attachment.type} ${attachment.fileId}:`,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import type { DiscordRestClient } from "./discord";
+
+// ---------------------------------------------------------------------------
+// Status reactions — how far the agent got with a user's message
+// ---------------------------------------------------------------------------
+
+export const STATUS_REACTIONS = {
+  processing: "👀",
+  done: "✅",
+  failed: "⚠️",
+} as const;
+
+export type ReactionStatus = keyof typeof STATUS_REACTIONS;
+
+/**
+ * Show `status` on a message. Discord keeps every reaction added, so the
+ * bot's 👀 is taken back once the agent finished. Best effort: a failure
+ * (e.g. missing permissions in the channel) is logged, never thrown.
+ */
+export async function setStatusReaction(
+  rest: DiscordRestClient,
+  channelId: string,
+  messageId: string,
+  status: ReactionStatus,
+): Promise<void> {
+  try {
+    await rest.addReaction(channelId, messageId, STATUS_REACTIONS[status]);
+    if (status !== "processing") {
+      await rest.removeReaction(channelId, messageId, STATUS_REACTIONS.processing);
+    }
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.warn(`Failed to react to message ${messageId} in channel ${channelId}: ${message}`);
+  }
+}
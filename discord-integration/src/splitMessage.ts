@@ -0,0 +1,90 @@
+/**
+ * Discord's maximum message length is 2000 characters.
+ * This utility splits long messages at newline boundaries when possible,
+ * then at spaces, falling back to hard splits at maxLength.
+ */
+
+export const DISCORD_MAX_LENGTH = 2000;
+
+/** Closes a code block left open at the end of a chunk. */
+const FENCE_CLOSE = "\n```";
+
+/**
+ * Splits a Markdown message into chunks that fit within Discord's message
+ * size limit. Lengths are counted in code points, so emoji are never split.
+ *
+ * Strategy:
+ * 1. If the message fits in one chunk, return it as-is.
+ * 2. Otherwise, split after the last newline before maxLength, or failing
+ *    that after the last space, or hard-split at maxLength.
+ * 3. A ``` code block still open at a split is closed at the end of the
+ *    chunk and reopened (with its language) at the start of the next, so
+ *    every chunk renders on its own.
+ *
+ * @param text - The text to split
+ * @param maxLength - Maximum length per chunk (default: 2000)
+ * @returns Array of message chunks
+ */
+export function splitMessage(text: string, maxLength: number = DISCORD_MAX_LENGTH): string[] {
+  let remaining = Array.from(text);
+  if (remaining.length <= maxLength) {
+    return [text];
+  }
+
+  const chunks: string[] = [];
+  /** Opening line of the code block the next chunk continues, if any. */
+  let fence: string | null = null;
+  let atLineStart = true;
+
+  while (remaining.length > 0) {
+    const reopen = fence ? `${fence}\n` : "";
+    if (reopen.length + remaining.length <= maxLength) {
+      chunks.push(reopen + remaining.join(""));
+      break;
+    }
+
+    let budget = Math.max(1, maxLength - reopen.length);
+    let cut = splitPoint(remaining, budget);
+    let piece = remaining.slice(0, cut).join("");
+    let open = fenceAfter(fence, piece, atLineStart);
+    if (open) {
+      // Leave room to close the code block the chunk ends inside of
+      budget = Math.max(1, budget - FENCE_CLOSE.length);
+      cut = splitPoint(remaining, budget);
+      piece = remaining.slice(0, cut).join("");
+      open = fenceAfter(fence, piece, atLineStart);
+    }
+    fence = open;
+    atLineStart = piece.endsWith("\n");
+    const close = fence ? (atLineStart ? FENCE_CLOSE.slice(1) : FENCE_CLOSE) : "";
+
+    chunks.push(reopen + piece + close);
+    remaining = remaining.slice(cut);
+  }
+
+  return chunks;
+}
+
+/** Where to end a chunk of at most `budget` code points. */
+function splitPoint(codePoints: string[], budget: number): number {
+  const window = codePoints.slice(0, budget);
+  const lastNewline = window.lastIndexOf("\n");
+  if (lastNewline > 0) return lastNewline + 1;
+  const lastSpace = window.lastIndexOf(" ");
+  return lastSpace > 0 ? lastSpace + 1 : budget;
+}
+
+/**
+ * The code block open after `piece`, given the one open before it.
+ * Fence lines start with ```; an opening fence may name a language.
+ */
+function fenceAfter(open: string | null, piece: string, atLineStart: boolean): string | null {
+  const fenceLine = /^```.*$/gm;
+  let m: RegExpExecArray | null;
+  while ((m = fenceLine.exec(piece))) {
+    // A match at the very start only counts if the piece starts a line
+    if (m.index === 0 && !atLineStart) continue;
+    open = open ? null : m[0].trimEnd();
+  }
+  return open;
+}
@@ -0,0 +1,508 @@
+import fs from "fs";
+import path from "path";
+import WebSocket from "ws";
+import type { DiscordFile, DiscordRestClient } from "./discord";
+import { DISCORD_MAX_LENGTH, splitMessage } from "./splitMessage";
+import { ChatRouterClient, authHeaders, type ChatRouterAuth } from "./chatRouterClient";
+import type { AttachmentType } from "./media";
+import { setStatusReaction } from "./reactions";
+
+/** Discord shows "typing…" for 10 seconds per trigger; resend before it lapses. */
+const TYPING_INTERVAL_MS = 8000;
+
+/** Discord accepts at most this many files per message. */
+const MAX_FILES_PER_MESSAGE = 10;
+
+// ---------------------------------------------------------------------------
+// Types — redeclared locally (no cross-package import)
+// ---------------------------------------------------------------------------
+
+interface Attachment {
+  type: AttachmentType;
+  mimeType: string | null;
+  fileName: string | null;
+  caption: string | null;
+  blobId: string | null;
+}
+
+interface TimelineEntry {
+  id: number;
+  direction: "in" | "out";
+  platform: string;
+  platformMessageId: string;
+  /** Discord messages the entry was delivered as; missing on older routers. */
+  platformMessageIds?: string[];
+  platformChatId: string;
+  platformChatType: string | null;
+  senderName: string;
+  senderId: string;
+  text: string | null;
+  timestamp: number;
+  platformMeta: string | null;
+  /** Missing on entries from routers without media support. */
+  attachments?: Attachment[];
+  /** Discord message ID to reply to; missing on older routers. */
+  replyToPlatformMessageId?: string | null;
+  createdAt: string;
+}
+
+/** The agent's progress on a user's message. */
+interface ProcessingState {
+  platform: string;
+  platformChatId: string;
+  platformMessageId: string;
+  status: "processing" | "done" | "failed";
+}
+
+type WsPush =
+  | { type: "new_message"; entry: TimelineEntry; redelivered?: boolean }
+  | { type: "message_edited" | "message_deleted"; entry: TimelineEntry }
+  | { type: "chat_action"; state: ProcessingState };
+
+/** An error the router answers a request with. */
+interface WsError {
+  type: "error";
+  message: string;
+}
+
+type WsRequest =
+  | {
+      type: "hello";
+      protocolVersion: number;
+      role: "plugin";
+      name: string;
+      version: string;
+      platform: string;
+      capabilities: string[];
+    }
+  | {
+      type: "subscribe";
+      sinceId?: number;
+      platform?: string;
+      chatIds?: string[];
+      direction?: "in" | "out";
+    }
+  | {
+      type: "register_platform";
+      name: string;
+      maxMessageLength: number | null;
+      features: string[];
+    }
+  | { type: "ack"; id: number; platformMessageIds?: string[] }
+  | { type: "nack"; id: number; error: string; retry?: boolean };
+
+/** Version of the router's WebSocket protocol this plugin speaks. */
+const WS_PROTOCOL_VERSION = 1;
+
+/** Close code with which the router refuses a protocol version it does not speak. */
+const WS_CLOSE_UNSUPPORTED_PROTOCOL = 1002;
+
+/** Keep in step with package.json, which lies outside `rootDir`. */
+const PLUGIN_VERSION = "0.1.0";
+
+/** How this plugin introduces itself to the router when it connects. */
+const HELLO = {
+  type: "hello" as const,
+  protocolVersion: WS_PROTOCOL_VERSION,
+  role: "plugin" as const,
+  name: "discord-integration",
+  version: PLUGIN_VERSION,
+  platform: "discord",
+  // Edits and deletions are applied, agent activity is shown as typing
+  capabilities: ["edits", "chat_action"],
+};
+
+/** What this plugin tells the router about Discord when it connects. */
+const PLATFORM = {
+  name: "discord",
+  maxMessageLength: DISCORD_MAX_LENGTH,
+  features: ["media", "edits", "reactions", "replies", "typing"],
+};
+
+export interface WsClientOptions {
+  /**
+   * JSON file in which the ID of the last delivered entry is kept, so a
+   * restarted plugin can ask the router for what it missed. Without it the
+   * ID is only remembered for the lifetime of the process.
+   */
+  stateFile?: string;
+  /**
+   * Longest the bot keeps showing "typing…" for one message, in case the
+   * router's `done` or `failed` push never arrives. Default 10 minutes.
+   */
+  typingTimeoutMs?: number;
+}
+
+// ---------------------------------------------------------------------------
+// ChatRouterWsClient
+// ---------------------------------------------------------------------------
+
+/**
+ * Delivers the router's Discord replies. Replies are Markdown, which
+ * Discord renders natively, so text is only split to the message limit.
+ */
+export class ChatRouterWsClient {
+  private ws: WebSocket | null = null;
+  private intentionalClose = false;
+  private wsUrl: string;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Entries being sent right now; a redelivery of one of them is ignored. */
+  private inFlight = new Set<number>();
+  /** Highest timeline ID delivered to Discord, sent as `sinceId`. */
+  private lastDeliveredId: number | undefined;
+  /** Fetches outbound media from the router's blob store. */
+  private chatRouter: ChatRouterClient;
+  /** Channels in which "typing…" is being kept up, by channel ID. */
+  private typing = new Map<string, ReturnType<typeof setInterval>>();
+
+  constructor(
+    chatRouterUrl: string,
+    private rest: DiscordRestClient,
+    private auth: ChatRouterAuth = {},
+    private options: WsClientOptions = {},
+  ) {
+    this.wsUrl = this.deriveWsUrl(chatRouterUrl, auth.tenantId);
+    this.chatRouter = new ChatRouterClient(chatRouterUrl, auth);
+    this.lastDeliveredId = this.loadLastDeliveredId();
+  }
+
+  connect(): void {
+    this.intentionalClose = false;
+    this.ws = new WebSocket(this.wsUrl, { headers: authHeaders(this.auth) });
+
+    this.ws.on("open", () => {
+      console.log(`WebSocket connected to chat router at ${this.wsUrl}`);
+      this.send(HELLO);
+      // Announce the platform we serve, so the router lists us as connected
+      this.send({ type: "register_platform", ...PLATFORM });
+      // Only Discord replies are pushed to us; catch up on the ones
+      // recorded while we were away, then go live
+      this.send({
+        type: "subscribe",
+        platform: "discord",
+        direction: "out",
+        sinceId: this.lastDeliveredId,
+      });
+    });
+
+    this.ws.on("message", (raw: WebSocket.RawData) => {
+      this.handleMessage(raw.toString());
+    });
+
+    this.ws.on("close", (code: number) => {
+      if (code === WS_CLOSE_UNSUPPORTED_PROTOCOL) {
+        // Reconnecting would be refused the same way
+        console.error(
+          "Chat router does not speak this plugin's protocol version; not reconnecting",
+        );
+        return;
+      }
+      if (!this.intentionalClose) {
+        console.log("WebSocket disconnected from chat router, reconnecting in 3s...");
+        this.reconnectTimer = setTimeout(() => this.connect(), 3000);
+      }
+    });
+
+    this.ws.on("error", (err: Error) => {
+      console.warn(`WebSocket error: ${err.message}`);
+    });
+  }
+
+  disconnect(): void {
+    this.intentionalClose = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    for (const channelId of [...this.typing.keys()]) {
+      this.stopTyping(channelId);
+    }
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+  }
+
+  private handleMessage(raw: string): void {
+    let msg: WsPush | WsError;
+    try {
+      msg = JSON.parse(raw);
+    } catch {
+      console.warn("WebSocket received malformed JSON, ignoring");
+      return;
+    }
+
+    if (msg.type === "error") {
+      console.warn(`Chat router error: ${msg.message}`);
+      return;
+    }
+
+    if (msg.type === "chat_action") {
+      if (msg.state.platform === "discord") this.applyChatAction(msg.state);
+      return;
+    }
+    if (
+      msg.type !== "new_message" &&
+      msg.type !== "message_edited" &&
+      msg.type !== "message_deleted"
+    ) {
+      return;
+    }
+
+    const entry = msg.entry;
+    if (entry.direction !== "out") return;
+    if (entry.platform !== "discord") return;
+
+    if (msg.type === "message_edited") {
+      this.applyEdit(entry);
+      return;
+    }
+    if (msg.type === "message_deleted") {
+      this.applyDelete(entry);
+      return;
+    }
+
+    if (this.inFlight.has(entry.id)) return;
+    if (!entry.text && !entry.attachments?.length) {
+      // Nothing we can send; retrying would not change that
+      this.send({ type: "nack", id: entry.id, error: "no text to deliver", retry: false });
+      return;
+    }
+
+    console.log(
+      `Outbound message ${entry.id} for discord channel ${entry.platformChatId} — delivering`,
+    );
+    this.deliverToDiscord(entry);
+  }
+
+  /**
+   * Send the entry to Discord and report the outcome so the router can
+   * mark it delivered or queue it for redelivery on the next connect.
+   */
+  private async deliverToDiscord(entry: TimelineEntry): Promise<void> {
+    this.inFlight.add(entry.id);
+    try {
+      const sent = await this.sendEntry(entry);
+      console.log(`Delivered to Discord channel ${entry.platformChatId}`);
+      this.recordDelivered(entry.id);
+      // Lets the router address the real messages later (replies, edits)
+      this.send({ type: "ack", id: entry.id, platformMessageIds: sent });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.warn(`Failed to deliver to Discord channel ${entry.platformChatId}: ${message}`);
+      this.send({ type: "nack", id: entry.id, error: message });
+    } finally {
+      this.inFlight.delete(entry.id);
+    }
+  }
+
+  /**
+   * The text goes first, split into as many messages as it needs; files
+   * follow in messages of their own, so an edit only ever touches text.
+   * Discord has no captions, so attachment captions are appended to the
+   * text. Only the first message is threaded as a reply; if the message it
+   * answers has been deleted meanwhile, it is sent unthreaded. Returns the
+   * IDs of the messages created.
+   */
+  private async sendEntry(entry: TimelineEntry): Promise<string[]> {
+    const channelId = entry.platformChatId;
+    const attachments = entry.attachments ?? [];
+    const text = replyText(entry);
+
+    const files: DiscordFile[] = [];
+    for (const attachment of attachments) {
+      if (!attachment.blobId) {
+        throw new Error(`${attachment.type} attachment has no content`);
+      }
+      files.push({
+        name: attachment.fileName ?? `${attachment.type}${extensionOf(attachment.mimeType)}`,
+        data: await this.chatRouter.downloadBlob(attachment.blobId),
+        ...(attachment.mimeType ? { mimeType: attachment.mimeType } : {}),
+      });
+    }
+
+    const messages: { content?: string; files?: DiscordFile[] }[] = [
+      ...(text ? splitMessage(text).map((content) => ({ content })) : []),
+    ];
+    for (let i = 0; i < files.length; i += MAX_FILES_PER_MESSAGE) {
+      messages.push({ files: files.slice(i, i + MAX_FILES_PER_MESSAGE) });
+    }
+
+    let replyTo = entry.replyToPlatformMessageId ?? undefined;
+    const sent: string[] = [];
+    for (const message of messages) {
+      const created = await this.rest.createMessage(channelId, { ...message, replyTo });
+      sent.push(created.id);
+      replyTo = undefined;
+    }
+    return sent;
+  }
+
+  // -------------------------------------------------------------------------
+  // Agent activity
+  // -------------------------------------------------------------------------
+
+  /**
+   * Show what the agent is doing: "typing…" and 👀 while it works, then a
+   * reaction for the outcome on the user's message.
+   */
+  private applyChatAction(state: ProcessingState): void {
+    const channelId = state.platformChatId;
+    if (state.status === "processing") {
+      this.startTyping(channelId);
+    } else {
+      this.stopTyping(channelId);
+    }
+    void setStatusReaction(this.rest, channelId, state.platformMessageId, state.status);
+  }
+
+  private startTyping(channelId: string): void {
+    this.stopTyping(channelId);
+    const deadline = Date.now() + (this.options.typingTimeoutMs ?? 10 * 60 * 1000);
+    const sendTyping = (): void => {
+      if (Date.now() >= deadline) {
+        this.stopTyping(channelId);
+        return;
+      }
+      this.rest.triggerTyping(channelId).catch((err: unknown) => {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`Failed to send typing to Discord channel ${channelId}: ${message}`);
+      });
+    };
+    sendTyping();
+    this.typing.set(channelId, setInterval(sendTyping, TYPING_INTERVAL_MS));
+  }
+
+  private stopTyping(channelId: string): void {
+    const timer = this.typing.get(channelId);
+    if (timer) {
+      clearInterval(timer);
+      this.typing.delete(channelId);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Edits and deletions
+  // -------------------------------------------------------------------------
+
+  /**
+   * Re-render an edited reply into the Discord messages it was delivered
+   * as: chunks are edited in place, extra chunks are sent as new messages
+   * and text messages no longer needed are deleted. A reply with files
+   * keeps its file messages; its text can shrink but not grow into more
+   * messages. Edits are best effort; they are not redelivered.
+   */
+  private async applyEdit(entry: TimelineEntry): Promise<void> {
+    const channelId = entry.platformChatId;
+    const attachments = entry.attachments ?? [];
+    const fileMessages = Math.ceil(attachments.length / MAX_FILES_PER_MESSAGE);
+    const messageIds = entry.platformMessageIds ?? [];
+    const textMessageIds = messageIds.slice(0, messageIds.length - fileMessages);
+    if (textMessageIds.length === 0 || !entry.text) {
+      console.warn(`Edit of entry ${entry.id}: no delivered Discord message to edit`);
+      return;
+    }
+
+    try {
+      const chunks = splitMessage(replyText(entry));
+      if (fileMessages > 0 && chunks.length > textMessageIds.length) {
+        console.warn(`Edit of entry ${entry.id}: text outgrew its messages, not edited`);
+        return;
+      }
+
+      for (const [i, messageId] of textMessageIds.entries()) {
+        if (i < chunks.length) {
+          await this.rest.editMessage(channelId, messageId, chunks[i]);
+        } else {
+          await this.rest.deleteMessage(channelId, messageId);
+        }
+      }
+      for (const content of chunks.slice(textMessageIds.length)) {
+        await this.rest.createMessage(channelId, { content });
+      }
+      console.log(`Edited entry ${entry.id} in Discord channel ${channelId}`);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.warn(`Failed to edit entry ${entry.id} in Discord channel ${channelId}: ${message}`);
+    }
+  }
+
+  /** Delete every Discord message a retracted reply was delivered as. */
+  private async applyDelete(entry: TimelineEntry): Promise<void> {
+    const channelId = entry.platformChatId;
+    for (const messageId of entry.platformMessageIds ?? []) {
+      try {
+        await this.rest.deleteMessage(channelId, messageId);
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(
+          `Failed to delete message ${messageId} in Discord channel ${channelId}: ${message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Best effort: if the socket dropped meanwhile, the entry stays pending
+   * on the router and is redelivered after reconnecting.
+   */
+  private send(msg: WsRequest): void {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(msg));
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Last delivered ID
+  // -------------------------------------------------------------------------
+
+  /**
+   * Deliveries can finish out of order, so only ever move the ID forward.
+   * An older entry that failed stays pending on the router and is replayed
+   * regardless of `sinceId`.
+   */
+  private recordDelivered(id: number): void {
+    if (this.lastDeliveredId !== undefined && id <= this.lastDeliveredId) return;
+    this.lastDeliveredId = id;
+
+    const { stateFile } = this.options;
+    if (!stateFile) return;
+    try {
+      fs.mkdirSync(path.dirname(stateFile), { recursive: true });
+      fs.writeFileSync(stateFile, JSON.stringify({ lastDeliveredId: id }));
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.warn(`Failed to save WebSocket state to ${stateFile}: ${message}`);
+    }
+  }
+
+  private loadLastDeliveredId(): number | undefined {
+    const { stateFile } = this.options;
+    if (!stateFile || !fs.existsSync(stateFile)) return undefined;
+    try {
+      const state = JSON.parse(fs.readFileSync(stateFile, "utf-8"));
+      return typeof state.lastDeliveredId === "number" ? state.lastDeliveredId : undefined;
+    } catch {
+      console.warn(`Ignoring unreadable WebSocket state file ${stateFile}`);
+      return undefined;
+    }
+  }
+
+  private deriveWsUrl(httpUrl: string, tenantId?: string): string {
+    const cleaned = httpUrl.replace(/\/+$/, "");
+    const wsUrl = cleaned.replace(/^http/, "ws") + "/ws";
+    return tenantId ? `${wsUrl}?tenant=${encodeURIComponent(tenantId)}` : wsUrl;
+  }
+}
+
+/** The entry's text followed by its attachments' captions. */
+function replyText(entry: TimelineEntry): string {
+  const captions = (entry.attachments ?? []).map((a) => a.caption);
+  return [entry.text, ...captions].filter(Boolean).join("\n\n");
+}
+
+/** A file name extension for content without a name of its own. */
+function extensionOf(mimeType: string | null): string {
+  const subtype = mimeType?.split("/")[1]?.split(";")[0];
+  return subtype && /^[a-z0-9]+$/.test(subtype) ? `.${subtype}` : "";
+}
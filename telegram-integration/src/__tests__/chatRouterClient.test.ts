@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { mapTelegramToInbound } from "../chatRouterClient";
+import { mapTelegramEdit, mapTelegramToInbound } from "../chatRouterClient";
 import type { Context } from "grammy";
 
 // ---------------------------------------------------------------------------
@@ -95,4 +95,108 @@ describe("mapTelegramToInbound", () => {
     const result = mapTelegramToInbound(mockContext());
     expect(result.text).toBe("Hello world");
   });
+
+  it("omits attachments for plain text messages", () => {
+    const result = mapTelegramToInbound(mockContext());
+    expect(result.attachments).toBeUndefined();
+  });
+
+  it("uses the caption as text and lists the largest photo size", () => {
+    const result = mapTelegramToInbound(
+      mockContext({
+        text: undefined,
+        caption: "Look at this",
+        photo: [
+          { file_id: "small", file_unique_id: "s", width: 90, height: 90, file_size: 1000 },
+          { file_id: "large", file_unique_id: "l", width: 1280, height: 1280, file_size: 90000 },
+        ],
+      }),
+    );
+
+    expect(result.text).toBe("Look at this");
+    expect(result.attachments).toEqual([
+      {
+        type: "photo",
+        fileId: "large",
+        mimeType: "image/jpeg",
+        size: 90000,
+        fileName: undefined,
+        caption: "Look at this",
+      },
+    ]);
+  });
+
+  it("maps documents with their file name and MIME type", () => {
+    const result = mapTelegramToInbound(
+      mockContext({
+        text: undefined,
+        document: {
+          file_id: "doc-1",
+          file_unique_id: "d",
+          file_name: "report.pdf",
+          mime_type: "application/pdf",
+          file_size: 2048,
+        },
+      }),
+    );
+
+    expect(result.text).toBeUndefined();
+    expect(result.attachments).toEqual([
+      {
+        type: "document",
+        fileId: "doc-1",
+        mimeType: "application/pdf",
+        size: 2048,
+        fileName: "report.pdf",
+        caption: undefined,
+      },
+    ]);
+  });
+
+  it("lists an animation once, not also as a document", () => {
+    const animation = {
+      file_id: "gif-1",
+      file_unique_id: "g",
+      width: 320,
+      height: 240,
+      duration: 3,
+      mime_type: "video/mp4",
+    };
+    const result = mapTelegramToInbound(
+      mockContext({ text: undefined, animation, document: animation }),
+    );
+
+    expect(result.attachments!.map((a) => a.type)).toEqual(["animation"]);
+  });
+
+  it("sets replyToPlatformMessageId for replies", () => {
+    const result = mapTelegramToInbound(
+      mockContext({ reply_to_message: { message_id: 41, date: 1699999999 } }),
+    );
+    expect(result.replyToPlatformMessageId).toBe("41");
+  });
+
+  it("ignores the implicit reply to a forum topic's first message", () => {
+    const result = mapTelegramToInbound(
+      mockContext({
+        is_topic_message: true,
+        message_thread_id: 7,
+        reply_to_message: { message_id: 7, date: 1699999999 },
+      }),
+    );
+    expect(result).not.toHaveProperty("replyToPlatformMessageId");
+  });
+});
+
+describe("mapTelegramEdit", () => {
+  it("takes the new text, or caption, of the edited message", () => {
+    const edited = { message_id: 42, chat: { id: -100123456 }, caption: "New caption" };
+    const ctx = { editedMessage: edited } as unknown as Context;
+
+    expect(mapTelegramEdit(ctx)).toEqual({
+      platformChatId: "-100123456",
+      platformMessageId: "42",
+      text: "New caption",
+    });
+  });
 });
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { htmlToPlainText, markdownToTelegramHtml } from "../markdown";
+
+describe("markdownToTelegramHtml", () => {
+  it("escapes HTML special characters", () => {
+    expect(markdownToTelegramHtml("a < b && c > d")).toBe("a &lt; b &amp;&amp; c &gt; d");
+  });
+
+  it("converts inline formatting", () => {
+    expect(markdownToTelegramHtml("**bold** __also__ *it* _it_ ~~gone~~")).toBe(
+      "<b>bold</b> <b>also</b> <i>it</i> <i>it</i> <s>gone</s>",
+    );
+  });
+
+  it("leaves underscores inside words alone", () => {
+    expect(markdownToTelegramHtml("set max_retry_count to 3")).toBe("set max_retry_count to 3");
+  });
+
+  it("does not format inside inline code", () => {
+    expect(markdownToTelegramHtml("run `a **b** <c>`")).toBe(
+      "run <code>a **b** &lt;c&gt;</code>",
+    );
+  });
+
+  it("converts links and escapes quotes in the URL", () => {
+    expect(markdownToTelegramHtml('[the *docs*](https://x.io/?q="a"&b=1)')).toBe(
+      '<a href="https://x.io/?q=&quot;a&quot;&amp;b=1">the <i>docs</i></a>',
+    );
+  });
+
+  it("converts fenced code blocks with and without a language", () => {
+    const md = "```ts\nconst a = 1 < 2;\n```\n```\n**raw**\n```";
+    expect(markdownToTelegramHtml(md)).toBe(
+      '<pre><code class="language-ts">const a = 1 &lt; 2;</code></pre>\n<pre>**raw**</pre>',
+    );
+  });
+
+  it("keeps an unterminated code block open to the end", () => {
+    expect(markdownToTelegramHtml("```\ncode")).toBe("<pre>code</pre>");
+  });
+
+  it("converts headings, bullets and blockquotes", () => {
+    const md = "# Title\n- one\n  * two\n> quoted\n> more";
+    expect(markdownToTelegramHtml(md)).toBe(
+      "<b>Title</b>\n• one\n  • two\n<blockquote>quoted\nmore</blockquote>",
+    );
+  });
+
+  it("honours backslash escapes", () => {
+    expect(markdownToTelegramHtml("\\*not italic\\*")).toBe("*not italic*");
+  });
+});
+
+describe("htmlToPlainText", () => {
+  it("strips tags and decodes entities", () => {
+    expect(htmlToPlainText('<b>a</b> &lt;<a href="x">b</a>&gt; &amp;')).toBe("a <b> &");
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { InputFile, type Api } from "grammy";
+import {
+  downloadAttachments,
+  sendAttachment,
+  MAX_DOWNLOAD_BYTES,
+  type Attachment,
+} from "../media";
+import type { ChatRouterClient } from "../chatRouterClient";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function mockApi(getFile = vi.fn().mockResolvedValue({ file_id: "f", file_path: "photos/file_1.jpg" })) {
+  return { token: "123:ABC", getFile } as unknown as Api & { getFile: typeof getFile };
+}
+
+function mockChatRouter(uploadBlob = vi.fn().mockResolvedValue({ id: "a".repeat(64) })) {
+  return { uploadBlob } as unknown as ChatRouterClient & { uploadBlob: typeof uploadBlob };
+}
+
+function photo(overrides: Partial<Attachment> = {}): Attachment {
+  return { type: "photo", fileId: "file-1", mimeType: "image/jpeg", size: 3, ...overrides };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("downloadAttachments", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      arrayBuffer: async () => new Uint8Array([1, 2, 3]).buffer,
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("downloads each file from Telegram and uploads it to the router", async () => {
+    const api = mockApi();
+    const chatRouter = mockChatRouter();
+    const attachments = [photo()];
+
+    await downloadAttachments(api, attachments, chatRouter);
+
+    expect(api.getFile).toHaveBeenCalledWith("file-1");
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://api.telegram.org/file/bot123:ABC/photos/file_1.jpg",
+    );
+    const [data, mimeType] = chatRouter.uploadBlob.mock.calls[0];
+    expect([...data]).toEqual([1, 2, 3]);
+    expect(mimeType).toBe("image/jpeg");
+    expect(attachments[0].blobId).toBe("a".repeat(64));
+  });
+
+  it("skips files over the Bot API download limit", async () => {
+    const api = mockApi();
+    const attachments = [photo({ size: MAX_DOWNLOAD_BYTES + 1 })];
+
+    await downloadAttachments(api, attachments, mockChatRouter());
+
+    expect(api.getFile).not.toHaveBeenCalled();
+    expect(attachments[0].blobId).toBeUndefined();
+  });
+
+  it("keeps the attachment without blobId when the download fails", async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 404 });
+    const chatRouter = mockChatRouter();
+    const attachments = [photo()];
+
+    await downloadAttachments(mockApi(), attachments, chatRouter);
+
+    expect(chatRouter.uploadBlob).not.toHaveBeenCalled();
+    expect(attachments[0].blobId).toBeUndefined();
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it("keeps the attachment without blobId when the upload fails", async () => {
+    const chatRouter = mockChatRouter(vi.fn().mockRejectedValue(new Error("Chat router returned 413")));
+    const attachments = [photo()];
+
+    await expect(downloadAttachments(mockApi(), attachments, chatRouter)).resolves.toBeUndefined();
+    expect(attachments[0].blobId).toBeUndefined();
+  });
+});
+
+describe("sendAttachment", () => {
+  function mockSendApi() {
+    return {
+      sendPhoto: vi.fn().mockResolvedValue({}),
+      sendVoice: vi.fn().mockResolvedValue({}),
+      sendDocument: vi.fn().mockResolvedValue({}),
+    } as unknown as Api & Record<"sendPhoto" | "sendVoice" | "sendDocument", ReturnType<typeof vi.fn>>;
+  }
+
+  it("uses the Bot API method matching the attachment type", async () => {
+    const api = mockSendApi();
+    const data = Buffer.from("x");
+
+    await sendAttachment(api, "chat-1", { type: "photo" }, data, { caption: "A photo" });
+    await sendAttachment(api, "chat-1", { type: "voice" }, data);
+    await sendAttachment(api, "chat-1", { type: "document", fileName: "a.pdf" }, data);
+
+    expect(api.sendPhoto).toHaveBeenCalledWith("chat-1", expect.any(InputFile), {
+      caption: "A photo",
+    });
+    expect(api.sendVoice).toHaveBeenCalledWith("chat-1", expect.any(InputFile), {});
+    const file = api.sendDocument.mock.calls[0][1] as InputFile;
+    expect(file.filename).toBe("a.pdf");
+  });
+
+  it("sends types without caption support as documents", async () => {
+    const api = mockSendApi();
+
+    await sendAttachment(api, "chat-1", { type: "sticker" }, Buffer.from("x"), {
+      caption: "A sticker",
+    });
+
+    expect(api.sendDocument).toHaveBeenCalledTimes(1);
+  });
+});
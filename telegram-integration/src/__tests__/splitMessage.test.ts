@@ -1,5 +1,10 @@
 import { describe, it, expect } from "vitest";
-import { splitMessage } from "../splitMessage";
+import {
+  splitCaption,
+  splitHtmlMessage,
+  splitMessage,
+  TELEGRAM_CAPTION_MAX_LENGTH,
+} from "../splitMessage";
 
 describe("splitMessage", () => {
   it("returns single-element array for short message", () => {
@@ -130,3 +135,70 @@ describe("splitMessage", () => {
     expect(result.join("")).toBe(text);
   });
 });
+
+describe("splitCaption", () => {
+  it("keeps a short caption whole", () => {
+    expect(splitCaption("A chart")).toEqual({ caption: "A chart", rest: [] });
+  });
+
+  it("moves text beyond the caption limit into follow-up messages", () => {
+    const text = "a".repeat(1000) + "\n" + "b".repeat(5000);
+    const { caption, rest } = splitCaption(text);
+
+    expect(caption).toBe("a".repeat(1000) + "\n");
+    expect(rest.every((chunk) => chunk.length <= 4096)).toBe(true);
+    expect(caption + rest.join("")).toBe(text);
+  });
+
+  it("hard-splits a caption without newlines at the limit", () => {
+    const { caption, rest } = splitCaption("x".repeat(1500));
+
+    expect(caption.length).toBe(TELEGRAM_CAPTION_MAX_LENGTH);
+    expect(rest).toEqual(["x".repeat(476)]);
+  });
+});
+
+describe("splitHtmlMessage", () => {
+  it("counts visible text only, not tags or entities", () => {
+    const html = "<b>" + "&amp;".repeat(10) + "</b>";
+    expect(splitHtmlMessage(html, 10)).toEqual([html]);
+  });
+
+  it("closes formatting at a split and reopens it in the next chunk", () => {
+    const html = "<b>aaaa bbbb cccc</b>";
+    expect(splitHtmlMessage(html, 10)).toEqual(["<b>aaaa bbbb </b>", "<b>cccc</b>"]);
+  });
+
+  it("reopens tags with their attributes", () => {
+    const html = '<a href="https://example.com">one two three</a>';
+    expect(splitHtmlMessage(html, 8)).toEqual([
+      '<a href="https://example.com">one two </a>',
+      '<a href="https://example.com">three</a>',
+    ]);
+  });
+
+  it("splits a long code block into code blocks on line boundaries", () => {
+    const html = '<pre><code class="language-ts">line1\nline2\nline3</code></pre>';
+    const chunks = splitHtmlMessage(html, 12);
+
+    expect(chunks).toEqual([
+      '<pre><code class="language-ts">line1\nline2\n</code></pre>',
+      '<pre><code class="language-ts">line3</code></pre>',
+    ]);
+  });
+
+  it("prefers newlines outside formatting", () => {
+    const html = "intro\n<b>bold\ntext</b> end";
+    expect(splitHtmlMessage(html, 16)[0]).toBe("intro\n");
+  });
+
+  it("never cuts inside an entity", () => {
+    const chunks = splitHtmlMessage("&lt;".repeat(5), 2);
+    expect(chunks).toEqual(["&lt;&lt;", "&lt;&lt;", "&lt;"]);
+  });
+
+  it("does not start a chunk with an empty element", () => {
+    const chunks = splitHtmlMessage("<i>aaaa </i>bbbb", 5);
+    expect(chunks).toEqual(["<i>aaaa </i>", "bbbb"]);
+  });
+});
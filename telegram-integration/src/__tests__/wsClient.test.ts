@@ -1,6 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
 import { ChatRouterWsClient } from "../wsClient";
-import { Bot } from "grammy";
+import { Bot, GrammyError } from "grammy";
 
 // ---------------------------------------------------------------------------
 // Mock WebSocket module
@@ -10,13 +13,16 @@ let mockWsInstance: any = null;
 
 vi.mock("ws", () => {
   const handlers: Record<string, Function> = {};
-  const MockWebSocket = vi.fn().mockImplementation((url: string) => {
+  const MockWebSocket = vi.fn().mockImplementation((url: string, opts?: any) => {
     const instance = {
       _url: url,
+      _opts: opts,
       on: vi.fn((event: string, handler: Function) => {
         handlers[event] = handler;
       }),
       close: vi.fn(),
+      send: vi.fn(),
+      readyState: 1,
       _handlers: handlers,
       _triggerOpen: () => handlers.open?.(),
       _triggerMessage: (data: string) => handlers.message?.(Buffer.from(data)),
@@ -26,6 +32,7 @@ vi.mock("ws", () => {
     mockWsInstance = instance;
     return instance;
   });
+  (MockWebSocket as any).OPEN = 1;
   return { default: MockWebSocket };
 });
 
@@ -55,6 +62,14 @@ function makePush(entryOverrides?: Partial<any>): string {
   return JSON.stringify({ type: "new_message", entry: makeEntry(entryOverrides) });
 }
 
+/** Requests the client sent over the mock socket, without their `requestId`. */
+function sentRequests(): any[] {
+  return mockWsInstance.send.mock.calls.map((call: any[]) => {
+    const { requestId: _requestId, ...request } = JSON.parse(call[0]);
+    return request;
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Tests
 // ---------------------------------------------------------------------------
@@ -107,6 +122,22 @@ describe("ChatRouterWsClient", () => {
       client.connect();
       expect(mockWsInstance._url).toBe("ws://localhost:3100/ws");
     });
+
+    it("appends the tenant as a query parameter when configured", () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot, {
+        tenantId: "acme",
+      });
+      client.connect();
+      expect(mockWsInstance._url).toBe("ws://localhost:3100/ws?tenant=acme");
+    });
+
+    it("sends the API key as a bearer token on the upgrade", () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot, {
+        apiKey: "crk_test",
+      });
+      client.connect();
+      expect(mockWsInstance._opts.headers.Authorization).toBe("Bearer crk_test");
+    });
   });
 
   // ---------------------------------------------------------------------------
@@ -120,7 +151,9 @@ describe("ChatRouterWsClient", () => {
 
       mockWsInstance._triggerMessage(makePush());
 
-      expect(mockSendMessage).toHaveBeenCalledWith("chat-100", "Hello from the system");
+      expect(mockSendMessage).toHaveBeenCalledWith("chat-100", "Hello from the system", {
+        parse_mode: "HTML",
+      });
     });
 
     it("skips when direction=in (no sendMessage call)", () => {
@@ -200,7 +233,9 @@ describe("ChatRouterWsClient", () => {
       // Wait for async delivery
       await new Promise((resolve) => setTimeout(resolve, 0));
 
-      expect(mockSendMessage).toHaveBeenCalledWith("chat-42", "Test message");
+      expect(mockSendMessage).toHaveBeenCalledWith("chat-42", "Test message", {
+        parse_mode: "HTML",
+      });
     });
 
     it("splits long messages (>4096 chars) and sends multiple chunks", async () => {
@@ -227,10 +262,603 @@ describe("ChatRouterWsClient", () => {
         expect(call[1].length).toBeLessThanOrEqual(4096);
       });
     });
+
+    it("converts Markdown replies to Telegram HTML", async () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      mockWsInstance._triggerMessage(makePush({ text: "**Done**: see `a < b`" }));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(mockSendMessage).toHaveBeenCalledWith(
+        "chat-100",
+        "<b>Done</b>: see <code>a &lt; b</code>",
+        { parse_mode: "HTML" },
+      );
+    });
+
+    it("acks with the Telegram message IDs of every chunk", async () => {
+      mockSendMessage.mockResolvedValueOnce({ message_id: 501 }).mockResolvedValueOnce({
+        message_id: 502,
+      });
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      mockWsInstance._triggerMessage(makePush({ id: 9, text: "A".repeat(5000) }));
+      await vi.waitFor(() => expect(mockWsInstance.send).toHaveBeenCalled());
+
+      expect(sentRequests()[0]).toEqual({
+        type: "ack",
+        id: 9,
+        platformMessageIds: ["501", "502"],
+      });
+    });
+
+    it("threads the first chunk as a reply to the original message", async () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      mockWsInstance._triggerMessage(
+        makePush({ text: "A".repeat(5000), replyToPlatformMessageId: "41" }),
+      );
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(mockSendMessage).toHaveBeenCalledTimes(2);
+      expect(mockSendMessage.mock.calls[0][2]).toEqual({
+        parse_mode: "HTML",
+        reply_parameters: { message_id: 41, allow_sending_without_reply: true },
+      });
+      expect(mockSendMessage.mock.calls[1][2]).toEqual({ parse_mode: "HTML" });
+    });
+
+    it("resends as plain text when Telegram rejects the formatting", async () => {
+      mockSendMessage.mockRejectedValueOnce(
+        new GrammyError(
+          "Call to 'sendMessage' failed!",
+          {
+            ok: false,
+            error_code: 400,
+            description: "Bad Request: can't parse entities: unsupported start tag",
+          },
+          "sendMessage",
+          {},
+        ),
+      );
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      mockWsInstance._triggerMessage(makePush({ id: 5, text: "**Done** & dusted" }));
+      await vi.waitFor(() => expect(mockWsInstance.send).toHaveBeenCalled());
+
+      expect(mockSendMessage).toHaveBeenCalledTimes(2);
+      expect(mockSendMessage).toHaveBeenLastCalledWith("chat-100", "Done & dusted", {});
+      expect(sentRequests()[0]).toEqual({ type: "ack", id: 5 });
+    });
+  });
+
+  describe("Media delivery", () => {
+    let mockSendPhoto: ReturnType<typeof vi.fn>;
+    let mockSendDocument: ReturnType<typeof vi.fn>;
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    function attachment(overrides: Partial<any> = {}) {
+      return {
+        type: "photo",
+        fileId: null,
+        mimeType: "image/png",
+        size: 3,
+        fileName: "chart.png",
+        caption: null,
+        blobId: "b".repeat(64),
+        ...overrides,
+      };
+    }
+
+    beforeEach(() => {
+      mockSendPhoto = vi.fn().mockResolvedValue({});
+      mockSendDocument = vi.fn().mockResolvedValue({});
+      Object.assign(mockBot.api, { sendPhoto: mockSendPhoto, sendDocument: mockSendDocument });
+      fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        arrayBuffer: async () => new Uint8Array([1, 2, 3]).buffer,
+      });
+      vi.stubGlobal("fetch", fetchMock);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("downloads the blob and sends it with the reply text as caption", async () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot, {
+        apiKey: "crk_test",
+      });
+      client.connect();
+
+      mockWsInstance._triggerMessage(
+        makePush({ id: 11, text: "Weekly chart", attachments: [attachment()] }),
+      );
+      await vi.waitFor(() => expect(mockWsInstance.send).toHaveBeenCalled());
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(`http://localhost:3100/api/blobs/${"b".repeat(64)}`);
+      expect(init.headers.Authorization).toBe("Bearer crk_test");
+      expect(mockSendPhoto).toHaveBeenCalledWith(
+        "chat-100",
+        expect.anything(),
+        { caption: "Weekly chart", parse_mode: "HTML" },
+      );
+      expect(mockSendMessage).not.toHaveBeenCalled();
+      expect(sentRequests()[0]).toEqual({ type: "ack", id: 11 });
+    });
+
+    it("sends caption overflow as follow-up messages", async () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      const text = "x".repeat(1500);
+      mockWsInstance._triggerMessage(makePush({ text, attachments: [attachment()] }));
+      await vi.waitFor(() => expect(mockWsInstance.send).toHaveBeenCalled());
+
+      expect(mockSendPhoto.mock.calls[0][2].caption).toHaveLength(1024);
+      expect(mockSendMessage).toHaveBeenCalledWith("chat-100", "x".repeat(476), {
+        parse_mode: "HTML",
+      });
+    });
+
+    it("sends documents with sendDocument and no caption when there is no text", async () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      mockWsInstance._triggerMessage(
+        makePush({ text: null, attachments: [attachment({ type: "document" })] }),
+      );
+      await vi.waitFor(() => expect(mockWsInstance.send).toHaveBeenCalled());
+
+      expect(mockSendDocument).toHaveBeenCalledWith("chat-100", expect.anything(), {});
+    });
+
+    it("nacks when the blob cannot be downloaded", async () => {
+      fetchMock.mockResolvedValue({ ok: false, status: 404 });
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      mockWsInstance._triggerMessage(makePush({ id: 12, attachments: [attachment()] }));
+      await vi.waitFor(() => expect(mockWsInstance.send).toHaveBeenCalled());
+
+      expect(mockSendPhoto).not.toHaveBeenCalled();
+      expect(sentRequests()[0]).toMatchObject({
+        type: "nack",
+        id: 12,
+      });
+    });
   });
 
   // ---------------------------------------------------------------------------
-  // 4. Error handling
+  // 4. Delivery reports
+  // ---------------------------------------------------------------------------
+
+  describe("Delivery reports", () => {
+    it("acks the entry once every chunk was sent", async () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      mockWsInstance._triggerMessage(makePush({ id: 7 }));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(sentRequests()).toEqual([{ type: "ack", id: 7 }]);
+    });
+
+    it("nacks with the error when sending fails", async () => {
+      mockSendMessage.mockRejectedValue(new Error("Too Many Requests"));
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      mockWsInstance._triggerMessage(makePush({ id: 8 }));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(sentRequests()).toEqual([
+        { type: "nack", id: 8, error: "Too Many Requests" },
+      ]);
+    });
+
+    it("nacks without retry when the entry has no text", () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      mockWsInstance._triggerMessage(makePush({ id: 9, text: null }));
+
+      expect(sentRequests()).toEqual([
+        { type: "nack", id: 9, error: "no text to deliver", retry: false },
+      ]);
+    });
+
+    it("ignores a redelivery of an entry that is still being sent", async () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      mockWsInstance._triggerMessage(makePush({ id: 10 }));
+      mockWsInstance._triggerMessage(
+        JSON.stringify({ type: "new_message", entry: makeEntry({ id: 10 }), redelivered: true }),
+      );
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(mockSendMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not report for entries meant for other platforms", () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      mockWsInstance._triggerMessage(makePush({ platform: "discord" }));
+
+      expect(mockWsInstance.send).not.toHaveBeenCalled();
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // 5. Edits and deletions
+  // ---------------------------------------------------------------------------
+
+  describe("Edits and deletions", () => {
+    let mockEditMessageText: ReturnType<typeof vi.fn>;
+    let mockDeleteMessage: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      mockEditMessageText = vi.fn().mockResolvedValue({});
+      mockDeleteMessage = vi.fn().mockResolvedValue(true);
+      Object.assign(mockBot.api, {
+        editMessageText: mockEditMessageText,
+        deleteMessage: mockDeleteMessage,
+      });
+    });
+
+    function pushChange(type: string, entryOverrides: Partial<any>): void {
+      mockWsInstance._triggerMessage(
+        JSON.stringify({ type, entry: makeEntry(entryOverrides), revision: {} }),
+      );
+    }
+
+    it("edits the delivered message in place", async () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      pushChange("message_edited", { text: "**Fixed**", platformMessageIds: ["501"] });
+      await vi.waitFor(() => expect(mockEditMessageText).toHaveBeenCalled());
+
+      expect(mockEditMessageText).toHaveBeenCalledWith("chat-100", 501, "<b>Fixed</b>", {
+        parse_mode: "HTML",
+      });
+      expect(mockSendMessage).not.toHaveBeenCalled();
+      expect(mockWsInstance.send).not.toHaveBeenCalled();
+    });
+
+    it("deletes messages no longer needed when an edit gets shorter", async () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      pushChange("message_edited", { text: "Short now", platformMessageIds: ["501", "502"] });
+      await vi.waitFor(() => expect(mockDeleteMessage).toHaveBeenCalled());
+
+      expect(mockEditMessageText).toHaveBeenCalledTimes(1);
+      expect(mockDeleteMessage).toHaveBeenCalledWith("chat-100", 502);
+    });
+
+    it("sends extra chunks when an edit gets longer", async () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      pushChange("message_edited", { text: "A".repeat(5000), platformMessageIds: ["501"] });
+      await vi.waitFor(() => expect(mockSendMessage).toHaveBeenCalled());
+
+      expect(mockEditMessageText).toHaveBeenCalledTimes(1);
+      expect(mockSendMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it("treats an edit to the same text as done", async () => {
+      mockEditMessageText.mockRejectedValue(
+        new GrammyError(
+          "Call to 'editMessageText' failed!",
+          {
+            ok: false,
+            error_code: 400,
+            description: "Bad Request: message is not modified",
+          },
+          "editMessageText",
+          {},
+        ),
+      );
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      pushChange("message_edited", { id: 3, platformMessageIds: ["501"] });
+      await vi.waitFor(() =>
+        expect(consoleLogSpy).toHaveBeenCalledWith("Edited entry 3 in Telegram chat chat-100"),
+      );
+
+      expect(consoleWarnSpy).not.toHaveBeenCalled();
+    });
+
+    it("skips edits of replies with no delivered messages", async () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      pushChange("message_edited", { platformMessageIds: [] });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(mockEditMessageText).not.toHaveBeenCalled();
+      expect(mockSendMessage).not.toHaveBeenCalled();
+    });
+
+    it("deletes every message a retracted reply was delivered as", async () => {
+      mockDeleteMessage.mockRejectedValueOnce(new Error("message can't be deleted"));
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      pushChange("message_deleted", { text: null, platformMessageIds: ["501", "502"] });
+      await vi.waitFor(() => expect(mockDeleteMessage).toHaveBeenCalledTimes(2));
+
+      expect(mockDeleteMessage).toHaveBeenNthCalledWith(1, "chat-100", 501);
+      expect(mockDeleteMessage).toHaveBeenNthCalledWith(2, "chat-100", 502);
+      expect(mockWsInstance.send).not.toHaveBeenCalled();
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // 6. Agent activity
+  // ---------------------------------------------------------------------------
+
+  describe("Agent activity", () => {
+    let mockSendChatAction: ReturnType<typeof vi.fn>;
+    let mockSetMessageReaction: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      mockSendChatAction = vi.fn().mockResolvedValue(true);
+      mockSetMessageReaction = vi.fn().mockResolvedValue(true);
+      Object.assign(mockBot.api, {
+        sendChatAction: mockSendChatAction,
+        setMessageReaction: mockSetMessageReaction,
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    function pushAction(status: string, platform = "telegram"): void {
+      mockWsInstance._triggerMessage(
+        JSON.stringify({
+          type: "chat_action",
+          state: { platform, platformChatId: "chat-100", platformMessageId: "41", status },
+        }),
+      );
+    }
+
+    it("keeps sending typing while the agent works", () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      pushAction("processing");
+      expect(mockSendChatAction).toHaveBeenCalledWith("chat-100", "typing");
+      expect(mockSetMessageReaction).toHaveBeenCalledWith("chat-100", 41, [
+        { type: "emoji", emoji: "👀" },
+      ]);
+
+      vi.advanceTimersByTime(8000);
+      expect(mockSendChatAction).toHaveBeenCalledTimes(3);
+
+      pushAction("done");
+      vi.advanceTimersByTime(8000);
+      expect(mockSendChatAction).toHaveBeenCalledTimes(3);
+      expect(mockSetMessageReaction).toHaveBeenLastCalledWith("chat-100", 41, [
+        { type: "emoji", emoji: "👌" },
+      ]);
+      client.disconnect();
+    });
+
+    it("marks the message when the agent fails", () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      pushAction("processing");
+      pushAction("failed");
+      vi.advanceTimersByTime(8000);
+
+      expect(mockSendChatAction).toHaveBeenCalledTimes(1);
+      expect(mockSetMessageReaction).toHaveBeenLastCalledWith("chat-100", 41, [
+        { type: "emoji", emoji: "😢" },
+      ]);
+      client.disconnect();
+    });
+
+    it("stops typing after the timeout", () => {
+      const client = new ChatRouterWsClient(
+        "http://localhost:3100",
+        mockBot,
+        {},
+        { typingTimeoutMs: 10_000 },
+      );
+      client.connect();
+
+      pushAction("processing");
+      vi.advanceTimersByTime(60_000);
+
+      expect(mockSendChatAction).toHaveBeenCalledTimes(3);
+      client.disconnect();
+    });
+
+    it("ignores activity in other platforms' chats", () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      pushAction("processing", "discord");
+
+      expect(mockSendChatAction).not.toHaveBeenCalled();
+      expect(mockSetMessageReaction).not.toHaveBeenCalled();
+      client.disconnect();
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // 7. Subscription and replay
+  // ---------------------------------------------------------------------------
+
+  describe("Subscription and replay", () => {
+    let tmpDir: string;
+    let stateFile: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "tg-ws-state-"));
+      stateFile = path.join(tmpDir, "ws-state.json");
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    function lastSent(): any {
+      const sent = sentRequests();
+      return sent[sent.length - 1];
+    }
+
+    it("subscribes for telegram without sinceId on first start", () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot, {}, { stateFile });
+      client.connect();
+      mockWsInstance._triggerOpen();
+
+      expect(lastSent()).toEqual({ type: "subscribe", platform: "telegram", direction: "out" });
+    });
+
+    it("introduces itself and registers telegram before subscribing", () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot, {}, { stateFile });
+      client.connect();
+      mockWsInstance._triggerOpen();
+
+      const sent = sentRequests();
+      expect(sent.map((msg: any) => msg.type)).toEqual(["hello", "register_platform", "subscribe"]);
+      expect(sent[0]).toEqual({
+        type: "hello",
+        protocolVersion: 1,
+        role: "plugin",
+        name: "telegram-integration",
+        version: "0.1.0",
+        platform: "telegram",
+        capabilities: ["edits", "chat_action"],
+      });
+      expect(sent[1]).toEqual({
+        type: "register_platform",
+        name: "telegram",
+        maxMessageLength: 4096,
+        features: ["media", "edits", "reactions", "replies", "typing"],
+      });
+    });
+
+    it("matches the router's answers to its requests", async () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot, {}, { stateFile });
+      client.connect();
+      mockWsInstance._triggerOpen();
+      const [hello, register, subscribe] = mockWsInstance.send.mock.calls.map(
+        (call: any[]) => JSON.parse(call[0]),
+      );
+      expect(new Set([hello.requestId, register.requestId, subscribe.requestId]).size).toBe(3);
+
+      const reply = (msg: object) => mockWsInstance._triggerMessage(JSON.stringify(msg));
+      reply({
+        type: "response",
+        requestType: "subscribe",
+        requestId: subscribe.requestId,
+        data: { replayed: 2 },
+      });
+      reply({
+        type: "error",
+        requestId: register.requestId,
+        message: "registerPlatform: features must be a list",
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(consoleLogSpy).toHaveBeenCalledWith("Chat router replayed 2 missed replies");
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        "Chat router register_platform request failed: registerPlatform: features must be a list",
+      );
+    });
+
+    it("gives up on a request the router leaves unanswered", async () => {
+      const client = new ChatRouterWsClient(
+        "http://localhost:3100",
+        mockBot,
+        {},
+        { stateFile, requestTimeoutMs: 20 },
+      );
+      client.connect();
+      mockWsInstance._triggerOpen();
+
+      await vi.waitFor(() => {
+        expect(consoleWarnSpy).toHaveBeenCalledWith(
+          "Chat router subscribe request failed: subscribe: no response within 20 ms",
+        );
+      });
+    });
+
+    it("persists the last delivered ID and sends it on reconnect", async () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot, {}, { stateFile });
+      client.connect();
+
+      mockWsInstance._triggerMessage(makePush({ id: 42 }));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(JSON.parse(fs.readFileSync(stateFile, "utf-8"))).toEqual({ lastDeliveredId: 42 });
+
+      mockWsInstance._triggerOpen();
+      expect(lastSent()).toEqual({ type: "subscribe", platform: "telegram", direction: "out", sinceId: 42 });
+    });
+
+    it("resumes from the state file after a restart", () => {
+      fs.writeFileSync(stateFile, JSON.stringify({ lastDeliveredId: 17 }));
+
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot, {}, { stateFile });
+      client.connect();
+      mockWsInstance._triggerOpen();
+
+      expect(lastSent()).toEqual({ type: "subscribe", platform: "telegram", direction: "out", sinceId: 17 });
+    });
+
+    it("never moves the last delivered ID backwards", async () => {
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot, {}, { stateFile });
+      client.connect();
+
+      mockWsInstance._triggerMessage(makePush({ id: 50 }));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      mockWsInstance._triggerMessage(makePush({ id: 30 }));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(JSON.parse(fs.readFileSync(stateFile, "utf-8"))).toEqual({ lastDeliveredId: 50 });
+    });
+
+    it("does not advance the ID when delivery fails", async () => {
+      mockSendMessage.mockRejectedValue(new Error("Network error"));
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot, {}, { stateFile });
+      client.connect();
+
+      mockWsInstance._triggerMessage(makePush({ id: 5 }));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(fs.existsSync(stateFile)).toBe(false);
+    });
+
+    it("ignores an unreadable state file", () => {
+      fs.writeFileSync(stateFile, "{not json");
+
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot, {}, { stateFile });
+      client.connect();
+      mockWsInstance._triggerOpen();
+
+      expect(lastSent()).toEqual({ type: "subscribe", platform: "telegram", direction: "out" });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // 8. Error handling
   // ---------------------------------------------------------------------------
 
   describe("Error handling", () => {
@@ -271,7 +899,7 @@ describe("ChatRouterWsClient", () => {
   });
 
   // ---------------------------------------------------------------------------
-  // 5. Connection lifecycle
+  // 9. Connection lifecycle
   // ---------------------------------------------------------------------------
 
   describe("Connection lifecycle", () => {
@@ -308,6 +936,30 @@ describe("ChatRouterWsClient", () => {
       vi.useRealTimers();
     });
 
+    it("does not reconnect when the router refuses its protocol version", () => {
+      vi.useFakeTimers();
+      const consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const client = new ChatRouterWsClient("http://localhost:3100", mockBot);
+      client.connect();
+
+      const firstInstance = mockWsInstance;
+      mockWsInstance._triggerMessage(
+        JSON.stringify({ type: "error", message: "hello: unsupported protocol version 1" }),
+      );
+      mockWsInstance._handlers.close(1002);
+      vi.advanceTimersByTime(5000);
+
+      expect(mockWsInstance).toBe(firstInstance);
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining("unsupported protocol version"),
+      );
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining("not reconnecting"));
+
+      consoleErrorSpy.mockRestore();
+      vi.useRealTimers();
+    });
+
     it("does not reconnect on intentional disconnect", () => {
       vi.useFakeTimers();
 
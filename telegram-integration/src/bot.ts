@@ -1,5 +1,7 @@
 import { Bot, Context } from "grammy";
-import { ChatRouterClient, mapTelegramToInbound } from "./chatRouterClient";
+import { ChatRouterClient, mapTelegramEdit, mapTelegramToInbound } from "./chatRouterClient";
+import { downloadAttachments } from "./media";
+import { setStatusReaction } from "./reactions";
 
 /**
  * Creates and configures a grammY Bot instance.
@@ -7,7 +9,8 @@ import { ChatRouterClient, mapTelegramToInbound } from "./chatRouterClient";
  * The bot:
  * - Responds to /start with a welcome message
  * - Logs every incoming message with its full shape
- * - Optionally forwards messages to the chat router
+ * - Optionally forwards messages, and later edits to them, to the chat router;
+ *   status reactions follow from the router's chat_action pushes
  * - Echoes text messages back (for testing response sending)
  */
 export function createBot(token: string, chatRouter?: ChatRouterClient): Bot {
@@ -33,22 +36,44 @@ export function createBot(token: string, chatRouter?: ChatRouterClient): Bot {
     console.log("Chat Type :", msg.chat.type);
     console.log("From      :", JSON.stringify(msg.from, null, 2));
     console.log("Date      :", new Date(msg.date * 1000).toISOString());
-    console.log("Text      :", msg.text ?? "(no text)");
+    console.log("Text      :", msg.text ?? msg.caption ?? "(no text)");
 
     // Log the full raw message object for exploration
     console.log("\n--- Full message object ---");
     console.log(JSON.stringify(msg, null, 2));
     console.log("===========================================\n");
 
-    // Forward to chat router if configured — thumbs-up on success
+    // Forward to chat router if configured. The agent's progress is shown
+    // when the router reports it (see ChatRouterWsClient); only a failure to
+    // forward is shown here.
     if (chatRouter) {
       try {
         const inbound = mapTelegramToInbound(ctx);
+        if (inbound.attachments) {
+          await downloadAttachments(ctx.api, inbound.attachments, chatRouter);
+        }
         await chatRouter.ingestMessage(inbound);
         console.log("  -> Forwarded to chat-router");
-        await ctx.react("👍");
       } catch (err) {
         console.error("  -> Failed to forward to chat-router:", err);
+        await setStatusReaction(ctx.api, msg.chat.id, msg.message_id, "failed");
+      }
+    }
+  });
+
+  // Edits replace the text the router stored for the original message
+  bot.on("edited_message", async (ctx: Context) => {
+    const msg = ctx.editedMessage!;
+    console.log(`Message ${msg.message_id} in chat ${msg.chat.id} edited`);
+
+    if (chatRouter) {
+      try {
+        const entry = await chatRouter.editMessage(mapTelegramEdit(ctx));
+        console.log(
+          entry ? "  -> Edit forwarded to chat-router" : "  -> Original never reached chat-router",
+        );
+      } catch (err) {
+        console.error("  -> Failed to forward edit to chat-router:", err);
       }
     }
   });
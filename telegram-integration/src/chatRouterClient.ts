@@ -1,4 +1,5 @@
 import { Context } from "grammy";
+import { extractAttachments, type Attachment } from "./media";
 
 // ---------------------------------------------------------------------------
 // InboundMessage — redeclared locally (no cross-package import)
@@ -14,6 +15,15 @@ export interface InboundMessage {
   text?: string;
   timestamp: number;
   platformMeta?: Record<string, unknown>;
+  attachments?: Attachment[];
+  replyToPlatformMessageId?: string;
+}
+
+/** An edit made in Telegram to a message already forwarded. */
+export interface MessageEdit {
+  platformChatId: string;
+  platformMessageId: string;
+  text: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -23,6 +33,13 @@ export interface InboundMessage {
 export function mapTelegramToInbound(ctx: Context): InboundMessage {
   const msg = ctx.message!;
   const from = msg.from!;
+  const attachments = extractAttachments(msg);
+  // In forum topics every message "replies" to the topic's first message
+  const reply =
+    msg.reply_to_message &&
+    !(msg.is_topic_message && msg.reply_to_message.message_id === msg.message_thread_id)
+      ? msg.reply_to_message
+      : undefined;
 
   return {
     platform: "telegram",
@@ -31,13 +48,26 @@ export function mapTelegramToInbound(ctx: Context): InboundMessage {
     platformChatType: msg.chat.type,
     senderName: [from.first_name, from.last_name].filter(Boolean).join(" "),
     senderId: String(from.id),
-    text: msg.text,
+    // Media messages carry their text as a caption
+    text: msg.text ?? msg.caption,
     timestamp: msg.date * 1000,
     platformMeta: {
       chatTitle: "title" in msg.chat ? msg.chat.title : undefined,
       fromUsername: from.username,
       fromIsBot: from.is_bot,
     },
+    ...(attachments.length > 0 ? { attachments } : {}),
+    ...(reply ? { replyToPlatformMessageId: String(reply.message_id) } : {}),
+  };
+}
+
+/** Map an `edited_message` update; the new text replaces the old one. */
+export function mapTelegramEdit(ctx: Context): MessageEdit {
+  const msg = ctx.editedMessage!;
+  return {
+    platformChatId: String(msg.chat.id),
+    platformMessageId: String(msg.message_id),
+    text: msg.text ?? msg.caption ?? "",
   };
 }
 
@@ -45,18 +75,27 @@ export function mapTelegramToInbound(ctx: Context): InboundMessage {
 // ChatRouterClient — HTTP client for the chat-router REST API
 // ---------------------------------------------------------------------------
 
+export interface ChatRouterAuth {
+  /** Tenant this bot acts for (ignored by a router that requires API keys). */
+  tenantId?: string;
+  /** API key, sent as a bearer token. */
+  apiKey?: string;
+}
+
 export class ChatRouterClient {
   private baseUrl: string;
+  private auth: ChatRouterAuth;
 
-  constructor(baseUrl: string) {
+  constructor(baseUrl: string, auth: ChatRouterAuth = {}) {
     // Remove trailing slash if present
     this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.auth = auth;
   }
 
   async ingestMessage(msg: InboundMessage): Promise<unknown> {
     const res = await fetch(`${this.baseUrl}/api/messages`, {
       method: "POST",
-      headers: { "Content-Type": "application/json; charset=utf-8" },
+      headers: this.headers({ "Content-Type": "application/json; charset=utf-8" }),
       body: JSON.stringify(msg),
     });
 
@@ -68,12 +107,64 @@ export class ChatRouterClient {
     return res.json();
   }
 
+  /**
+   * Apply an edit to a forwarded message. Returns null if the router never
+   * received the original.
+   */
+  async editMessage(edit: MessageEdit): Promise<unknown> {
+    const path = [edit.platformChatId, edit.platformMessageId].map(encodeURIComponent).join("/");
+    const res = await fetch(`${this.baseUrl}/api/messages/telegram/${path}`, {
+      method: "PATCH",
+      headers: this.headers({ "Content-Type": "application/json; charset=utf-8" }),
+      body: JSON.stringify({ text: edit.text }),
+    });
+
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      const body = await res.text();
+      throw new Error(`Chat router returned ${res.status}: ${body}`);
+    }
+
+    return res.json();
+  }
+
+  /** Store file content in the router's blob store; returns its ID. */
+  async uploadBlob(data: Buffer, mimeType?: string): Promise<{ id: string }> {
+    const res = await fetch(`${this.baseUrl}/api/blobs`, {
+      method: "POST",
+      headers: this.headers({ "Content-Type": mimeType || "application/octet-stream" }),
+      body: data,
+    });
+
+    if (!res.ok) {
+      const body = await res.text();
+      throw new Error(`Chat router returned ${res.status}: ${body}`);
+    }
+
+    return res.json() as Promise<{ id: string }>;
+  }
+
+  /** Fetch file content from the router's blob store. */
+  async downloadBlob(id: string): Promise<Buffer> {
+    const res = await fetch(`${this.baseUrl}/api/blobs/${encodeURIComponent(id)}`, {
+      headers: this.headers(),
+    });
+
+    if (!res.ok) {
+      throw new Error(`Chat router returned ${res.status} for blob ${id}`);
+    }
+
+    return Buffer.from(await res.arrayBuffer());
+  }
+
   async healthCheck(): Promise<{
     ok: boolean;
     messageCount: number;
     conversationCount: number;
   }> {
-    const res = await fetch(`${this.baseUrl}/api/health`);
+    const res = await fetch(`${this.baseUrl}/api/health`, {
+      headers: this.headers(),
+    });
 
     if (!res.ok) {
       throw new Error(`Chat router health check failed: ${res.status}`);
@@ -85,4 +176,15 @@ export class ChatRouterClient {
       conversationCount: number;
     }>;
   }
+  private headers(extra: Record<string, string> = {}): Record<string, string> {
+    return { ...extra, ...authHeaders(this.auth) };
+  }
+}
+
+/** Request headers carrying the tenant and API key, when configured. */
+export function authHeaders(auth: ChatRouterAuth): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (auth.tenantId) headers["X-Tenant-Id"] = auth.tenantId;
+  if (auth.apiKey) headers["Authorization"] = `Bearer ${auth.apiKey}`;
+  return headers;
 }
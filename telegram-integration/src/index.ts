@@ -45,11 +45,17 @@ async function main() {
   }
 
   const chatRouterUrl = process.env.CHAT_ROUTER_URL;
+  const routerAuth = {
+    tenantId: process.env.CHAT_ROUTER_TENANT_ID || undefined,
+    apiKey: process.env.CHAT_ROUTER_API_KEY || undefined,
+  };
   let chatRouter: ChatRouterClient | undefined;
 
   if (chatRouterUrl) {
-    chatRouter = new ChatRouterClient(chatRouterUrl);
+    chatRouter = new ChatRouterClient(chatRouterUrl, routerAuth);
     console.log(`Chat router configured: ${chatRouterUrl}`);
+    console.log(`  Tenant : ${routerAuth.tenantId ?? "(router default)"}`);
+    console.log(`  API key: ${routerAuth.apiKey ? "set" : "not set"}`);
 
     // Startup health check — warn but don't block if the router is unreachable
     try {
@@ -77,7 +83,11 @@ async function main() {
   // WebSocket client for outbound messages (if chat router is configured)
   let wsClient: ChatRouterWsClient | undefined;
   if (chatRouterUrl) {
-    wsClient = new ChatRouterWsClient(chatRouterUrl, bot);
+    wsClient = new ChatRouterWsClient(chatRouterUrl, bot, routerAuth, {
+      stateFile:
+        process.env.CHAT_ROUTER_WS_STATE_FILE ||
+        path.join(__dirname, "..", "data", "ws-state.json"),
+    });
     wsClient.connect();
     console.log("WebSocket return leg enabled — listening for outbound messages\n");
   }
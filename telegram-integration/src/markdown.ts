@@ -0,0 +1,130 @@
+/**
+ * Converts the Markdown our agents write into the HTML subset Telegram
+ * accepts with `parse_mode: "HTML"`: b, i, s, code, pre, a and blockquote.
+ * HTML needs far less escaping than MarkdownV2 (only `<`, `>` and `&`).
+ *
+ * Supported: fenced code blocks, inline code, **bold** / __bold__,
+ * *italic* / _italic_, ~~strikethrough~~, [links](url), headings (rendered
+ * bold), `>` blockquotes and `-` / `*` / `+` bullet lists. Everything else
+ * is passed through as escaped text.
+ */
+
+// ---------------------------------------------------------------------------
+// Markdown -> Telegram HTML
+// ---------------------------------------------------------------------------
+
+export function markdownToTelegramHtml(markdown: string): string {
+  const lines = markdown.split("\n");
+  const out: string[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    // Fenced code block — runs to the closing fence or the end of the text
+    const fence = /^\s*```\s*([\w+#.-]*)\s*$/.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !/^\s*```\s*$/.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence
+      const body = escapeHtml(code.join("\n"));
+      out.push(
+        fence[1]
+          ? `<pre><code class="language-${escapeHtml(fence[1])}">${body}</code></pre>`
+          : `<pre>${body}</pre>`,
+      );
+      continue;
+    }
+
+    // Consecutive `>` lines form one blockquote
+    if (/^>\s?/.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && /^>\s?/.test(lines[i])) {
+        quoted.push(renderInline(lines[i].replace(/^>\s?/, "")));
+        i++;
+      }
+      out.push(`<blockquote>${quoted.join("\n")}</blockquote>`);
+      continue;
+    }
+
+    const heading = /^#{1,6}\s+(.*)$/.exec(line);
+    const bullet = /^(\s*)[-*+]\s+(.*)$/.exec(line);
+    if (heading) {
+      out.push(`<b>${renderInline(heading[1])}</b>`);
+    } else if (bullet) {
+      out.push(`${bullet[1]}• ${renderInline(bullet[2])}`);
+    } else {
+      out.push(renderInline(line));
+    }
+    i++;
+  }
+
+  return out.join("\n");
+}
+
+/**
+ * Strip tags and decode entities: the text a formatted message shows, used
+ * when Telegram rejects the formatting.
+ */
+export function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&");
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// ---------------------------------------------------------------------------
+// Internal
+// ---------------------------------------------------------------------------
+
+/** Render the inline syntax of one line. */
+function renderInline(text: string): string {
+  let out = "";
+  let i = 0;
+
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const prev = i > 0 ? text[i - 1] : "";
+    let m: RegExpExecArray | null;
+
+    if (rest[0] === "\\" && /^\\[\\`*_~[\]()#+\-.!>|]/.test(rest)) {
+      out += escapeHtml(rest[1]);
+      i += 2;
+    } else if ((m = /^`([^`]+)`/.exec(rest))) {
+      out += `<code>${escapeHtml(m[1])}</code>`;
+      i += m[0].length;
+    } else if ((m = /^\[([^\]]+)\]\(([^)\s]+)\)/.exec(rest))) {
+      const href = escapeHtml(m[2]).replace(/"/g, "&quot;");
+      out += `<a href="${href}">${renderInline(m[1])}</a>`;
+      i += m[0].length;
+    } else if ((m = /^(\*\*|__)(?=\S)(.*?\S)\1/.exec(rest))) {
+      out += `<b>${renderInline(m[2])}</b>`;
+      i += m[0].length;
+    } else if ((m = /^~~(?=\S)(.*?\S)~~/.exec(rest))) {
+      out += `<s>${renderInline(m[1])}</s>`;
+      i += m[0].length;
+    } else if ((m = /^\*(?=\S)(.*?\S)\*/.exec(rest))) {
+      out += `<i>${renderInline(m[1])}</i>`;
+      i += m[0].length;
+    } else if (!/\w/.test(prev) && (m = /^_(?=\S)(.*?\S)_(?!\w)/.exec(rest))) {
+      // `_` only counts at word boundaries, so snake_case stays as-is
+      out += `<i>${renderInline(m[1])}</i>`;
+      i += m[0].length;
+    } else {
+      out += escapeHtml(rest[0]);
+      i++;
+    }
+  }
+
+  return out;
+}
@@ -0,0 +1,172 @@
+import { InputFile, type Api } from "grammy";
+import type { Message, ReplyParameters } from "grammy/types";
+import type { ChatRouterClient } from "./chatRouterClient";
+
+/** The Bot API refuses to serve files larger than this to bots. */
+export const MAX_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+
+// ---------------------------------------------------------------------------
+// Attachment — redeclared locally (no cross-package import)
+// ---------------------------------------------------------------------------
+
+export type AttachmentType =
+  | "photo"
+  | "video"
+  | "video_note"
+  | "animation"
+  | "voice"
+  | "audio"
+  | "document"
+  | "sticker";
+
+export interface Attachment {
+  type: AttachmentType;
+  fileId: string;
+  mimeType?: string;
+  size?: number;
+  fileName?: string;
+  caption?: string;
+  /** Set once the file has been uploaded to the router's blob store. */
+  blobId?: string;
+}
+
+// ---------------------------------------------------------------------------
+// extractAttachments — media of a Telegram message
+// ---------------------------------------------------------------------------
+
+/**
+ * The media a message carries, without content (see `downloadAttachments`).
+ * Telegram allows one media item per message; an animation also appears as
+ * a `document`, which is skipped so it is only listed once.
+ */
+export function extractAttachments(msg: Message): Attachment[] {
+  const caption = msg.caption;
+
+  if (msg.photo && msg.photo.length > 0) {
+    // Sizes are listed smallest first
+    const largest = msg.photo[msg.photo.length - 1];
+    return [toAttachment("photo", largest, { mimeType: "image/jpeg", caption })];
+  }
+  if (msg.animation) return [toAttachment("animation", msg.animation, { caption })];
+  if (msg.document) return [toAttachment("document", msg.document, { caption })];
+  if (msg.video) return [toAttachment("video", msg.video, { caption })];
+  if (msg.video_note) {
+    return [toAttachment("video_note", msg.video_note, { mimeType: "video/mp4" })];
+  }
+  if (msg.voice) return [toAttachment("voice", msg.voice, { caption })];
+  if (msg.audio) return [toAttachment("audio", msg.audio, { caption })];
+  if (msg.sticker) {
+    const s = msg.sticker;
+    const mimeType = s.is_animated
+      ? "application/x-tgsticker"
+      : s.is_video
+        ? "video/webm"
+        : "image/webp";
+    return [toAttachment("sticker", s, { mimeType })];
+  }
+  return [];
+}
+
+/** Fields shared by every Telegram file object. */
+interface TelegramFile {
+  file_id: string;
+  file_size?: number;
+  mime_type?: string;
+  file_name?: string;
+}
+
+function toAttachment(
+  type: AttachmentType,
+  file: TelegramFile,
+  extra: { mimeType?: string; caption?: string },
+): Attachment {
+  return {
+    type,
+    fileId: file.file_id,
+    mimeType: file.mime_type ?? extra.mimeType,
+    size: file.file_size,
+    fileName: file.file_name,
+    caption: extra.caption,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// downloadAttachments — copy media into the router's blob store
+// ---------------------------------------------------------------------------
+
+/**
+ * Download each attachment from Telegram and upload it to the router,
+ * setting `blobId` in place. A file that cannot be fetched (too large,
+ * network error) is logged and forwarded without `blobId`, so the message
+ * itself is never lost.
+ */
+export async function downloadAttachments(
+  api: Api,
+  attachments: Attachment[],
+  chatRouter: ChatRouterClient,
+): Promise<void> {
+  for (const attachment of attachments) {
+    if (attachment.size !== undefined && attachment.size > MAX_DOWNLOAD_BYTES) {
+      console.warn(
+        `  -> Skipping ${attachment.type}: ${attachment.size} bytes is over the download limit`,
+      );
+      continue;
+    }
+
+    try {
+      const file = await api.getFile(attachment.fileId);
+      if (!file.file_path) {
+        throw new Error("Telegram returned no file_path");
+      }
+
+      const res = await fetch(`https://api.telegram.org/file/bot${api.token}/${file.file_path}`);
+      if (!res.ok) {
+        throw new Error(`download failed: ${res.status}`);
+      }
+
+      const data = Buffer.from(await res.arrayBuffer());
+      const blob = await chatRouter.uploadBlob(data, attachment.mimeType);
+      attachment.blobId = blob.id;
+    } catch (err) {
+      console.error(
+        `  -> Failed to store ${attachment.type} ${attachment.fileId}:`,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// sendAttachment — deliver outbound media to a Telegram chat
+// ---------------------------------------------------------------------------
+
+/**
+ * Send file content with the Bot API method matching its type and return
+ * the message Telegram created. Stickers and
+ * video notes cannot carry captions, so they (like unknown types) are sent
+ * as documents.
+ */
+export async function sendAttachment(
+  api: Api,
+  chatId: string,
+  attachment: { type: AttachmentType; fileName?: string | null },
+  data: Buffer,
+  options: { caption?: string; parse_mode?: "HTML"; reply_parameters?: ReplyParameters } = {},
+): Promise<Message> {
+  const file = new InputFile(data, attachment.fileName ?? undefined);
+
+  switch (attachment.type) {
+    case "photo":
+      return api.sendPhoto(chatId, file, options);
+    case "voice":
+      return api.sendVoice(chatId, file, options);
+    case "audio":
+      return api.sendAudio(chatId, file, options);
+    case "video":
+      return api.sendVideo(chatId, file, options);
+    case "animation":
+      return api.sendAnimation(chatId, file, options);
+    default:
+      return api.sendDocument(chatId, file, options);
+  }
+}
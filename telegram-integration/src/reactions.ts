@@ -0,0 +1,38 @@
+import type { Api } from "grammy";
+import type { ReactionTypeEmoji } from "grammy/types";
+
+// ---------------------------------------------------------------------------
+// Status reactions — how far the agent got with a user's message
+// ---------------------------------------------------------------------------
+
+/**
+ * Bots may only react with Telegram's fixed emoji set, which has no ✅ or
+ * ⚠️; these are the closest it offers.
+ */
+export const STATUS_REACTIONS = {
+  processing: "👀",
+  done: "👌",
+  failed: "😢",
+} as const satisfies Record<string, ReactionTypeEmoji["emoji"]>;
+
+export type ReactionStatus = keyof typeof STATUS_REACTIONS;
+
+/**
+ * Replace the bot's reaction on a message. Best effort: a failure (e.g.
+ * reactions disabled in the chat) is logged, never thrown.
+ */
+export async function setStatusReaction(
+  api: Api,
+  chatId: number | string,
+  messageId: number,
+  status: ReactionStatus,
+): Promise<void> {
+  try {
+    await api.setMessageReaction(chatId, messageId, [
+      { type: "emoji", emoji: STATUS_REACTIONS[status] },
+    ]);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.warn(`Failed to react to message ${messageId} in chat ${chatId}: ${message}`);
+  }
+}
@@ -0,0 +1,169 @@
+import { EventEmitter } from "events";
+import WebSocket from "ws";
+
+// ---------------------------------------------------------------------------
+// Types — redeclared locally (no cross-package import)
+// ---------------------------------------------------------------------------
+
+/** The requests this plugin sends. */
+export type WsRequest =
+  | {
+      type: "hello";
+      protocolVersion: number;
+      role: "plugin";
+      name: string;
+      version: string;
+      platform: string;
+      capabilities: string[];
+    }
+  | {
+      type: "subscribe";
+      sinceId?: number;
+      platform?: string;
+      chatIds?: string[];
+      direction?: "in" | "out";
+    }
+  | {
+      type: "register_platform";
+      name: string;
+      maxMessageLength: number | null;
+      features: string[];
+    }
+  | { type: "ack"; id: number; platformMessageIds?: string[] }
+  | { type: "nack"; id: number; error: string; retry?: boolean };
+
+/** Delivery state the router answers `ack` and `nack` with. */
+interface Delivery {
+  timelineId: number;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  lastError: string | null;
+}
+
+/** The `data` of the response to each request type (the fields used here). */
+export interface WsResponseData {
+  hello: { id: string; capabilities: string[] };
+  subscribe: { replayed: number };
+  register_platform: { name: string; connections: number };
+  ack: Delivery;
+  nack: Delivery;
+}
+
+interface WsResponse {
+  type: "response";
+  requestType: string;
+  requestId?: string;
+  data: unknown;
+}
+
+export interface WsError {
+  type: "error";
+  requestId?: string;
+  message: string;
+}
+
+// ---------------------------------------------------------------------------
+// ChatRouterSocket — promise-based client for the router's /ws protocol
+// ---------------------------------------------------------------------------
+
+/** How long a request waits for its answer by default. */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+
+interface PendingRequest {
+  resolve: (data: unknown) => void;
+  reject: (err: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Wraps a WebSocket to the router. `request()` tags each request with a
+ * `requestId` and resolves with the `data` of the response carrying it,
+ * or rejects with the router's error message. A request the router leaves
+ * unanswered is rejected after `requestTimeoutMs`, and every pending
+ * request when the socket fails (with its error) or closes. Mirrors
+ * `ChatRouterSocket` in the chat-router package.
+ *
+ * Events:
+ * - `"push"` (push) — anything the router sends unasked
+ * - `"stray"` (msg) — a response or error that answers no pending request
+ * - `"malformed"` (raw: string) — a message that is not JSON
+ * - `"close"` (code: number) — after every pending request was rejected
+ */
+export class ChatRouterSocket extends EventEmitter {
+  private nextRequestId = 1;
+  private pending = new Map<string, PendingRequest>();
+  private requestTimeoutMs: number;
+
+  constructor(
+    private ws: WebSocket,
+    options: { requestTimeoutMs?: number } = {},
+  ) {
+    super();
+    this.requestTimeoutMs = options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    ws.on("message", (raw: WebSocket.RawData) => this.handleMessage(raw.toString()));
+    // The socket closes right after an error
+    ws.on("error", (err: Error) => this.rejectAll(err));
+    ws.on("close", (code: number) => {
+      this.rejectAll(new Error("connection closed"));
+      this.emit("close", code);
+    });
+  }
+
+  /**
+   * Send a request and resolve with its response's data. Rejects if the
+   * router answers with an error, if the socket is not open or closes
+   * first, or if no answer comes within `requestTimeoutMs`.
+   */
+  request<R extends WsRequest>(req: R): Promise<WsResponseData[R["type"]]> {
+    if (this.ws.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error(`${req.type}: not connected`));
+    }
+
+    const requestId = String(this.nextRequestId++);
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(new Error(`${req.type}: no response within ${this.requestTimeoutMs} ms`));
+      }, this.requestTimeoutMs);
+      this.pending.set(requestId, { resolve: resolve as (data: unknown) => void, reject, timer });
+      this.ws.send(JSON.stringify({ ...req, requestId }));
+    });
+  }
+
+  private rejectAll(err: Error): void {
+    for (const { reject, timer } of this.pending.values()) {
+      clearTimeout(timer);
+      reject(err);
+    }
+    this.pending.clear();
+  }
+
+  private handleMessage(raw: string): void {
+    let msg: { type: string } | WsResponse | WsError;
+    try {
+      msg = JSON.parse(raw);
+    } catch {
+      this.emit("malformed", raw);
+      return;
+    }
+
+    if (msg.type !== "response" && msg.type !== "error") {
+      this.emit("push", msg);
+      return;
+    }
+
+    const { requestId } = msg as WsResponse | WsError;
+    const pending = requestId !== undefined ? this.pending.get(requestId) : undefined;
+    if (!pending) {
+      this.emit("stray", msg);
+      return;
+    }
+    clearTimeout(pending.timer);
+    this.pending.delete(requestId!);
+    if (msg.type === "response") {
+      pending.resolve((msg as WsResponse).data);
+    } else {
+      pending.reject(new Error((msg as WsError).message));
+    }
+  }
+}
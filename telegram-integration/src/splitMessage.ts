@@ -4,7 +4,7 @@
  * falling back to hard splits at maxLength when no newlines are available.
  */
 
-const TELEGRAM_MAX_LENGTH = 4096;
+export const TELEGRAM_MAX_LENGTH = 4096;
 
 /**
  * Splits a message into chunks that fit within Telegram's message size limit.
@@ -66,3 +66,147 @@ export function splitMessage(
 
   return chunks;
 }
+
+/** Telegram's maximum caption length for photos, documents and voice. */
+export const TELEGRAM_CAPTION_MAX_LENGTH = 1024;
+
+/**
+ * Splits a Telegram HTML media caption: the first part that fits the
+ * caption limit goes on the media, whatever is left follows as regular
+ * message chunks.
+ *
+ * @param html - The caption, as Telegram HTML
+ * @returns The caption for the media and the follow-up message chunks
+ */
+export function splitCaption(html: string): { caption: string; rest: string[] } {
+  const [caption, ...overflow] = splitHtmlMessage(html, TELEGRAM_CAPTION_MAX_LENGTH);
+  const rest = overflow.join("");
+  return { caption, rest: rest ? splitHtmlMessage(rest) : [] };
+}
+
+// ---------------------------------------------------------------------------
+// splitHtmlMessage — entity-aware splitting of Telegram HTML
+// ---------------------------------------------------------------------------
+
+interface HtmlToken {
+  kind: "open" | "close" | "char";
+  raw: string;
+  /** Tag name for `open` / `close`. */
+  name?: string;
+}
+
+/**
+ * Splits Telegram HTML into chunks whose visible text fits `maxLength`
+ * (Telegram counts the length after entity parsing, so tags are free and
+ * `&amp;` counts as one character). Never cuts inside a tag or an entity.
+ *
+ * Split points are chosen in order of preference: the last newline outside
+ * any formatting, the last newline inside formatting, then the last space
+ * (again outside formatting first); only without any of these is the text
+ * hard-split. Formatting still open at a split (a long code block, a link,
+ * bold text) is closed at the end of the chunk and reopened at the start of
+ * the next one, so every chunk is valid on its own.
+ *
+ * @param html - Telegram HTML, e.g. from `markdownToTelegramHtml`
+ * @param maxLength - Maximum visible length per chunk (default: 4096)
+ * @returns Array of message chunks
+ */
+export function splitHtmlMessage(
+  html: string,
+  maxLength: number = TELEGRAM_MAX_LENGTH
+): string[] {
+  if (html.length === 0) {
+    return [""];
+  }
+
+  const tokens = tokenizeHtml(html);
+  const chunks: string[] = [];
+  let start = 0;
+  let openAtStart: HtmlToken[] = [];
+
+  while (start < tokens.length) {
+    const open = [...openAtStart];
+    let visible = 0;
+    let i = start;
+    let best: { end: number; open: HtmlToken[]; rank: number } | null = null;
+
+    while (i < tokens.length) {
+      const token = tokens[i];
+      if (token.kind === "char") {
+        if (visible === maxLength) break;
+        visible++;
+      }
+      applyTag(open, token);
+      i++;
+
+      if (token.raw === "\n" || token.raw === " ") {
+        const rank = (token.raw === "\n" ? 2 : 0) + (open.length === 0 ? 1 : 0);
+        if (!best || rank >= best.rank) {
+          best = { end: i, open: [...open], rank };
+        }
+      }
+    }
+
+    if (i >= tokens.length) {
+      chunks.push(openAtStart.map((t) => t.raw).join("") + rawOf(tokens, start, i));
+      break;
+    }
+
+    const cut = best ?? { end: i, open };
+    let end = cut.end;
+    const stillOpen = [...cut.open];
+
+    // Keep closing tags right after the split point in this chunk, so the
+    // next one does not start with an empty element
+    while (
+      end < tokens.length &&
+      tokens[end].kind === "close" &&
+      stillOpen.length > 0 &&
+      stillOpen[stillOpen.length - 1].name === tokens[end].name
+    ) {
+      stillOpen.pop();
+      end++;
+    }
+
+    chunks.push(
+      openAtStart.map((t) => t.raw).join("") +
+        rawOf(tokens, start, end) +
+        [...stillOpen].reverse().map((t) => `</${t.name}>`).join("")
+    );
+    start = end;
+    openAtStart = stillOpen;
+  }
+
+  return chunks;
+}
+
+/** Tags, entities and single code points (so emoji are never split). */
+function tokenizeHtml(html: string): HtmlToken[] {
+  const tokens: HtmlToken[] = [];
+  const pattern = /<(\/?)([a-zA-Z-]+)[^>]*>|&#?\w+;|[\s\S]/gu;
+  let m: RegExpExecArray | null;
+  while ((m = pattern.exec(html))) {
+    if (m[2]) {
+      tokens.push({ kind: m[1] ? "close" : "open", raw: m[0], name: m[2].toLowerCase() });
+    } else {
+      tokens.push({ kind: "char", raw: m[0] });
+    }
+  }
+  return tokens;
+}
+
+function applyTag(open: HtmlToken[], token: HtmlToken): void {
+  if (token.kind === "open") {
+    open.push(token);
+  } else if (token.kind === "close") {
+    const index = open.map((t) => t.name).lastIndexOf(token.name);
+    if (index !== -1) open.splice(index, 1);
+  }
+}
+
+function rawOf(tokens: HtmlToken[], from: number, to: number): string {
+  return tokens
+    .slice(from, to)
+    .map((t) => t.raw)
+    .join("");
+}
@@ -1,16 +1,42 @@
+import fs from "fs";
+import path from "path";
 import WebSocket from "ws";
-import { Bot } from "grammy";
-import { splitMessage } from "./splitMessage";
+import { Bot, GrammyError } from "grammy";
+import type { Message, ReplyParameters } from "grammy/types";
+import { TELEGRAM_MAX_LENGTH, splitCaption, splitHtmlMessage } from "./splitMessage";
+import { markdownToTelegramHtml, htmlToPlainText } from "./markdown";
+import { ChatRouterClient, authHeaders, type ChatRouterAuth } from "./chatRouterClient";
+import { sendAttachment, type AttachmentType } from "./media";
+import { setStatusReaction } from "./reactions";
+import {
+  ChatRouterSocket,
+  type WsError,
+  type WsRequest,
+  type WsResponseData,
+} from "./routerSocket";
+
+/** Telegram shows "typing…" for 5 seconds per chat action; resend before it lapses. */
+const TYPING_INTERVAL_MS = 4000;
 
 // ---------------------------------------------------------------------------
 // Types — redeclared locally (no cross-package import)
 // ---------------------------------------------------------------------------
 
+interface Attachment {
+  type: AttachmentType;
+  mimeType: string | null;
+  fileName: string | null;
+  caption: string | null;
+  blobId: string | null;
+}
+
 interface TimelineEntry {
   id: number;
   direction: "in" | "out";
   platform: string;
   platformMessageId: string;
+  /** Telegram messages the entry was delivered as; missing on older routers. */
+  platformMessageIds?: string[];
   platformChatId: string;
   platformChatType: string | null;
   senderName: string;
@@ -18,12 +44,118 @@ interface TimelineEntry {
   text: string | null;
   timestamp: number;
   platformMeta: string | null;
+  /** Missing on entries from routers without media support. */
+  attachments?: Attachment[];
+  /** Telegram message ID to reply to; missing on older routers. */
+  replyToPlatformMessageId?: string | null;
   createdAt: string;
 }
 
-interface WsPush {
-  type: "new_message";
-  entry: TimelineEntry;
+/** The agent's progress on a user's message. */
+interface ProcessingState {
+  platform: string;
+  platformChatId: string;
+  platformMessageId: string;
+  status: "processing" | "done" | "failed";
+}
+
+type WsPush =
+  | { type: "new_message"; entry: TimelineEntry; redelivered?: boolean }
+  | { type: "message_edited" | "message_deleted"; entry: TimelineEntry }
+  | { type: "chat_action"; state: ProcessingState };
+
+/** Version of the router's WebSocket protocol this plugin speaks. */
+const WS_PROTOCOL_VERSION = 1;
+
+/** Close code with which the router refuses a protocol version it does not speak. */
+const WS_CLOSE_UNSUPPORTED_PROTOCOL = 1002;
+
+/** Keep in step with package.json, which lies outside `rootDir`. */
+const PLUGIN_VERSION = "0.1.0";
+
+/** How this plugin introduces itself to the router when it connects. */
+const HELLO = {
+  type: "hello" as const,
+  protocolVersion: WS_PROTOCOL_VERSION,
+  role: "plugin" as const,
+  name: "telegram-integration",
+  version: PLUGIN_VERSION,
+  platform: "telegram",
+  // Edits and deletions are applied, agent activity is shown as typing
+  capabilities: ["edits", "chat_action"],
+};
+
+/** What this plugin tells the router about Telegram when it connects. */
+const PLATFORM = {
+  name: "telegram",
+  maxMessageLength: TELEGRAM_MAX_LENGTH,
+  features: ["media", "edits", "reactions", "replies", "typing"],
+};
+
+export interface WsClientOptions {
+  /**
+   * JSON file in which the ID of the last delivered entry is kept, so a
+   * restarted plugin can ask the router for what it missed. Without it the
+   * ID is only remembered for the lifetime of the process.
+   */
+  stateFile?: string;
+  /**
+   * Longest the bot keeps showing "typing…" for one message, in case the
+   * router's `done` or `failed` push never arrives. Default 10 minutes.
+   */
+  typingTimeoutMs?: number;
+  /** How long a request to the router may go unanswered. Default 30 seconds. */
+  requestTimeoutMs?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Reply threading
+// ---------------------------------------------------------------------------
+
+/**
+ * Thread the delivery under the message it answers. If that message has
+ * been deleted meanwhile, Telegram sends the reply unthreaded instead of
+ * failing.
+ */
+function replyParameters(entry: TimelineEntry): ReplyParameters | undefined {
+  const messageId = Number(entry.replyToPlatformMessageId);
+  if (!entry.replyToPlatformMessageId || !Number.isInteger(messageId)) return undefined;
+  return { message_id: messageId, allow_sending_without_reply: true };
+}
+
+// ---------------------------------------------------------------------------
+// Formatting fallback
+// ---------------------------------------------------------------------------
+
+/**
+ * Send `html` with `parse_mode: "HTML"`; if Telegram rejects the markup,
+ * send the same text again without formatting rather than failing the
+ * delivery.
+ */
+async function withPlainTextFallback<T>(
+  html: string,
+  send: (text: string, parseMode?: "HTML") => Promise<T>,
+): Promise<T> {
+  try {
+    return await send(html, "HTML");
+  } catch (err: unknown) {
+    if (!(err instanceof GrammyError) || !/can't parse entities/i.test(err.description)) {
+      throw err;
+    }
+    console.warn(`Telegram rejected formatting (${err.description}), sending plain text`);
+    return send(htmlToPlainText(html));
+  }
+}
+
+/** Editing a message to the text it already shows is not a failure. */
+async function ignoreNotModified(edit: Promise<unknown>): Promise<void> {
+  try {
+    await edit;
+  } catch (err: unknown) {
+    if (!(err instanceof GrammyError) || !/message is not modified/i.test(err.description)) {
+      throw err;
+    }
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -32,30 +164,73 @@ interface WsPush {
 
 export class ChatRouterWsClient {
   private ws: WebSocket | null = null;
+  /** Requests and pushes over `ws`. */
+  private socket: ChatRouterSocket | null = null;
   private intentionalClose = false;
   private wsUrl: string;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Entries being sent right now; a redelivery of one of them is ignored. */
+  private inFlight = new Set<number>();
+  /** Highest timeline ID delivered to Telegram, sent as `sinceId`. */
+  private lastDeliveredId: number | undefined;
+  /** Fetches outbound media from the router's blob store. */
+  private chatRouter: ChatRouterClient;
+  /** Chats in which "typing…" is being kept up, by chat ID. */
+  private typing = new Map<string, ReturnType<typeof setInterval>>();
 
   constructor(
     chatRouterUrl: string,
     private bot: Bot,
+    private auth: ChatRouterAuth = {},
+    private options: WsClientOptions = {},
   ) {
-    this.wsUrl = this.deriveWsUrl(chatRouterUrl);
+    this.wsUrl = this.deriveWsUrl(chatRouterUrl, auth.tenantId);
+    this.chatRouter = new ChatRouterClient(chatRouterUrl, auth);
+    this.lastDeliveredId = this.loadLastDeliveredId();
   }
 
   connect(): void {
     this.intentionalClose = false;
-    this.ws = new WebSocket(this.wsUrl);
+    this.ws = new WebSocket(this.wsUrl, { headers: authHeaders(this.auth) });
+    this.socket = new ChatRouterSocket(this.ws, {
+      requestTimeoutMs: this.options.requestTimeoutMs,
+    });
 
     this.ws.on("open", () => {
       console.log(`WebSocket connected to chat router at ${this.wsUrl}`);
+      this.request(HELLO);
+      // Announce the platform we serve, so the router lists us as connected
+      this.request({ type: "register_platform", ...PLATFORM });
+      // Only Telegram replies are pushed to us; catch up on the ones
+      // recorded while we were away, then go live
+      this.request({
+        type: "subscribe",
+        platform: "telegram",
+        direction: "out",
+        sinceId: this.lastDeliveredId,
+      }).then((subscribed) => {
+        if (subscribed?.replayed) {
+          console.log(`Chat router replayed ${subscribed.replayed} missed replies`);
+        }
+      });
     });
 
-    this.ws.on("message", (raw: WebSocket.RawData) => {
-      this.handleMessage(raw.toString());
+    this.socket.on("push", (push: WsPush) => this.handlePush(push));
+    this.socket.on("stray", (msg: { type: string }) => {
+      if (msg.type === "error") console.warn(`Chat router error: ${(msg as WsError).message}`);
+    });
+    this.socket.on("malformed", () => {
+      console.warn("WebSocket received malformed JSON, ignoring");
     });
 
-    this.ws.on("close", () => {
+    this.socket.on("close", (code: number) => {
+      if (code === WS_CLOSE_UNSUPPORTED_PROTOCOL) {
+        // Reconnecting would be refused the same way
+        console.error(
+          "Chat router does not speak this plugin's protocol version; not reconnecting",
+        );
+        return;
+      }
       if (!this.intentionalClose) {
         console.log("WebSocket disconnected from chat router, reconnecting in 3s...");
         this.reconnectTimer = setTimeout(() => this.connect(), 3000);
@@ -73,27 +248,48 @@ export class ChatRouterWsClient {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
     }
+    for (const chatId of [...this.typing.keys()]) {
+      this.stopTyping(chatId);
+    }
     if (this.ws) {
       this.ws.close();
       this.ws = null;
+      this.socket = null;
     }
   }
 
-  private handleMessage(raw: string): void {
-    let msg: WsPush;
-    try {
-      msg = JSON.parse(raw);
-    } catch {
-      console.warn("WebSocket received malformed JSON, ignoring");
+  private handlePush(msg: WsPush): void {
+    if (msg.type === "chat_action") {
+      if (msg.state.platform === "telegram") this.applyChatAction(msg.state);
+      return;
+    }
+    if (
+      msg.type !== "new_message" &&
+      msg.type !== "message_edited" &&
+      msg.type !== "message_deleted"
+    ) {
       return;
     }
-
-    if (msg.type !== "new_message") return;
 
     const entry = msg.entry;
     if (entry.direction !== "out") return;
     if (entry.platform !== "telegram") return;
-    if (!entry.text) return;
+
+    if (msg.type === "message_edited") {
+      this.applyEdit(entry);
+      return;
+    }
+    if (msg.type === "message_deleted") {
+      this.applyDelete(entry);
+      return;
+    }
+
+    if (this.inFlight.has(entry.id)) return;
+    if (!entry.text && !entry.attachments?.length) {
+      // Nothing we can send; retrying would not change that
+      this.request({ type: "nack", id: entry.id, error: "no text to deliver", retry: false });
+      return;
+    }
 
     console.log(
       `Outbound message ${entry.id} for telegram chat ${entry.platformChatId} — delivering`,
@@ -101,23 +297,294 @@ export class ChatRouterWsClient {
     this.deliverToTelegram(entry);
   }
 
+  /**
+   * Send the entry to Telegram and report the outcome so the router can
+   * mark it delivered or queue it for redelivery on the next connect.
+   */
   private async deliverToTelegram(entry: TimelineEntry): Promise<void> {
+    this.inFlight.add(entry.id);
     try {
-      const chunks = splitMessage(entry.text!);
-      for (const chunk of chunks) {
-        await this.bot.api.sendMessage(entry.platformChatId, chunk);
-      }
+      const replyTo = replyParameters(entry);
+      const sent = entry.attachments?.length
+        ? await this.sendMedia(entry.platformChatId, entry.text, entry.attachments, replyTo)
+        : await this.sendText(entry.platformChatId, entry.text!, replyTo);
       console.log(`Delivered to Telegram chat ${entry.platformChatId}`);
+      this.recordDelivered(entry.id);
+      // Lets the router address the real messages later (replies, edits)
+      const platformMessageIds = sent
+        .map((m) => m.message_id)
+        .filter((id) => id !== undefined)
+        .map(String);
+      this.request({
+        type: "ack",
+        id: entry.id,
+        ...(platformMessageIds.length > 0 ? { platformMessageIds } : {}),
+      });
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : String(err);
       console.warn(
         `Failed to deliver to Telegram chat ${entry.platformChatId}: ${message}`,
       );
+      this.request({ type: "nack", id: entry.id, error: message });
+    } finally {
+      this.inFlight.delete(entry.id);
+    }
+  }
+
+  /**
+   * Replies are Markdown; they are sent as Telegram HTML. Only the first
+   * chunk is threaded as a reply.
+   */
+  private async sendText(
+    chatId: string,
+    text: string,
+    replyTo?: ReplyParameters,
+  ): Promise<Message[]> {
+    return this.sendHtmlChunks(chatId, splitHtmlMessage(markdownToTelegramHtml(text)), replyTo);
+  }
+
+  private async sendHtmlChunks(
+    chatId: string,
+    chunks: string[],
+    replyTo?: ReplyParameters,
+  ): Promise<Message[]> {
+    const sent: Message[] = [];
+    for (const [i, chunk] of chunks.entries()) {
+      const reply = i === 0 && replyTo ? { reply_parameters: replyTo } : {};
+      sent.push(
+        await withPlainTextFallback(chunk, (text, parseMode) =>
+          this.bot.api.sendMessage(chatId, text, {
+            ...(parseMode ? { parse_mode: parseMode } : {}),
+            ...reply,
+          }),
+        ),
+      );
+    }
+    return sent;
+  }
+
+  /**
+   * The reply text captions the first attachment unless that one has a
+   * caption of its own, in which case the text is sent first. Caption text
+   * beyond Telegram's limit follows the media as regular messages.
+   */
+  private async sendMedia(
+    chatId: string,
+    text: string | null,
+    attachments: Attachment[],
+    replyTo?: ReplyParameters,
+  ): Promise<Message[]> {
+    const sent: Message[] = [];
+    const captions = attachments.map((a) => a.caption ?? "");
+    if (text && !captions[0]) {
+      captions[0] = text;
+    } else if (text) {
+      sent.push(...(await this.sendText(chatId, text, replyTo)));
+      replyTo = undefined;
+    }
+
+    for (const [i, attachment] of attachments.entries()) {
+      if (!attachment.blobId) {
+        throw new Error(`${attachment.type} attachment has no content`);
+      }
+      const data = await this.chatRouter.downloadBlob(attachment.blobId);
+      const { caption, rest } = splitCaption(markdownToTelegramHtml(captions[i]));
+      const reply = i === 0 && replyTo ? { reply_parameters: replyTo } : {};
+      sent.push(
+        caption
+          ? await withPlainTextFallback(caption, (text, parseMode) =>
+              sendAttachment(this.bot.api, chatId, attachment, data, {
+                caption: text,
+                ...(parseMode ? { parse_mode: parseMode } : {}),
+                ...reply,
+              }),
+            )
+          : await sendAttachment(this.bot.api, chatId, attachment, data, reply),
+      );
+      sent.push(...(await this.sendHtmlChunks(chatId, rest)));
+    }
+    return sent;
+  }
+
+  // -------------------------------------------------------------------------
+  // Agent activity
+  // -------------------------------------------------------------------------
+
+  /**
+   * Show what the agent is doing: "typing…" and 👀 while it works, then a
+   * reaction for the outcome on the user's message.
+   */
+  private applyChatAction(state: ProcessingState): void {
+    const chatId = state.platformChatId;
+    if (state.status === "processing") {
+      this.startTyping(chatId);
+    } else {
+      this.stopTyping(chatId);
+    }
+    void setStatusReaction(this.bot.api, chatId, Number(state.platformMessageId), state.status);
+  }
+
+  private startTyping(chatId: string): void {
+    this.stopTyping(chatId);
+    const deadline = Date.now() + (this.options.typingTimeoutMs ?? 10 * 60 * 1000);
+    const sendTyping = (): void => {
+      if (Date.now() >= deadline) {
+        this.stopTyping(chatId);
+        return;
+      }
+      this.bot.api.sendChatAction(chatId, "typing").catch((err: unknown) => {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`Failed to send typing to Telegram chat ${chatId}: ${message}`);
+      });
+    };
+    sendTyping();
+    this.typing.set(chatId, setInterval(sendTyping, TYPING_INTERVAL_MS));
+  }
+
+  private stopTyping(chatId: string): void {
+    const timer = this.typing.get(chatId);
+    if (timer) {
+      clearInterval(timer);
+      this.typing.delete(chatId);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Edits and deletions
+  // -------------------------------------------------------------------------
+
+  /**
+   * Re-render an edited reply into the Telegram messages it was delivered
+   * as: chunks are edited in place, extra chunks are sent as new messages
+   * and messages no longer needed are deleted. For media, only a caption
+   * that carried the reply text is edited. Edits are best effort; they are
+   * not redelivered.
+   */
+  private async applyEdit(entry: TimelineEntry): Promise<void> {
+    const chatId = entry.platformChatId;
+    const messageIds = (entry.platformMessageIds ?? []).map(Number);
+    if (messageIds.length === 0 || !entry.text) {
+      console.warn(`Edit of entry ${entry.id}: no delivered Telegram message to edit`);
+      return;
+    }
+
+    try {
+      const html = markdownToTelegramHtml(entry.text);
+
+      if (entry.attachments?.length) {
+        if (entry.attachments[0].caption) {
+          console.warn(`Edit of entry ${entry.id}: reply text was not a caption, not edited`);
+          return;
+        }
+        const { caption } = splitCaption(html);
+        await ignoreNotModified(
+          withPlainTextFallback(caption, (text, parseMode) =>
+            this.bot.api.editMessageCaption(chatId, messageIds[0], {
+              caption: text,
+              ...(parseMode ? { parse_mode: parseMode } : {}),
+            }),
+          ),
+        );
+        return;
+      }
+
+      const chunks = splitHtmlMessage(html);
+      for (const [i, messageId] of messageIds.entries()) {
+        if (i < chunks.length) {
+          await ignoreNotModified(
+            withPlainTextFallback(chunks[i], (text, parseMode) =>
+              this.bot.api.editMessageText(
+                chatId,
+                messageId,
+                text,
+                parseMode ? { parse_mode: parseMode } : {},
+              ),
+            ),
+          );
+        } else {
+          await this.bot.api.deleteMessage(chatId, messageId);
+        }
+      }
+      await this.sendHtmlChunks(chatId, chunks.slice(messageIds.length));
+      console.log(`Edited entry ${entry.id} in Telegram chat ${chatId}`);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.warn(`Failed to edit entry ${entry.id} in Telegram chat ${chatId}: ${message}`);
+    }
+  }
+
+  /** Delete every Telegram message a retracted reply was delivered as. */
+  private async applyDelete(entry: TimelineEntry): Promise<void> {
+    const chatId = entry.platformChatId;
+    for (const messageId of (entry.platformMessageIds ?? []).map(Number)) {
+      try {
+        await this.bot.api.deleteMessage(chatId, messageId);
+      } catch (err: unknown) {
+        // Bots cannot delete messages older than 48 hours in groups
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`Failed to delete message ${messageId} in Telegram chat ${chatId}: ${message}`);
+      }
+    }
+  }
+
+  /**
+   * Best effort: if the socket dropped meanwhile, nothing is sent and a
+   * delivery report stays pending on the router, which redelivers the
+   * entry after reconnecting. A refused request is logged; either way the
+   * result is undefined.
+   */
+  private async request<R extends WsRequest>(
+    req: R,
+  ): Promise<WsResponseData[R["type"]] | undefined> {
+    if (!this.socket || this.ws?.readyState !== WebSocket.OPEN) return undefined;
+    try {
+      return await this.socket.request(req);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.warn(`Chat router ${req.type} request failed: ${message}`);
+      return undefined;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Last delivered ID
+  // -------------------------------------------------------------------------
+
+  /**
+   * Deliveries can finish out of order, so only ever move the ID forward.
+   * An older entry that failed stays pending on the router and is replayed
+   * regardless of `sinceId`.
+   */
+  private recordDelivered(id: number): void {
+    if (this.lastDeliveredId !== undefined && id <= this.lastDeliveredId) return;
+    this.lastDeliveredId = id;
+
+    const { stateFile } = this.options;
+    if (!stateFile) return;
+    try {
+      fs.mkdirSync(path.dirname(stateFile), { recursive: true });
+      fs.writeFileSync(stateFile, JSON.stringify({ lastDeliveredId: id }));
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.warn(`Failed to save WebSocket state to ${stateFile}: ${message}`);
+    }
+  }
+
+  private loadLastDeliveredId(): number | undefined {
+    const { stateFile } = this.options;
+    if (!stateFile || !fs.existsSync(stateFile)) return undefined;
+    try {
+      const state = JSON.parse(fs.readFileSync(stateFile, "utf-8"));
+      return typeof state.lastDeliveredId === "number" ? state.lastDeliveredId : undefined;
+    } catch {
+      console.warn(`Ignoring unreadable WebSocket state file ${stateFile}`);
+      return undefined;
     }
   }
 
-  private deriveWsUrl(httpUrl: string): string {
+  private deriveWsUrl(httpUrl: string, tenantId?: string): string {
     const cleaned = httpUrl.replace(/\/+$/, "");
-    return cleaned.replace(/^http/, "ws") + "/ws";
+    const wsUrl = cleaned.replace(/^http/, "ws") + "/ws";
+    return tenantId ? `${wsUrl}?tenant=${encodeURIComponent(tenantId)}` : wsUrl;
   }
 }